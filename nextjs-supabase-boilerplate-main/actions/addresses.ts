@@ -0,0 +1,171 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { createAddressRepository, type AddressRepository } from "@/lib/repositories";
+import { MAX_USER_ADDRESSES } from "@/lib/addresses";
+import { addressFormSchema, getFirstIssueMessage } from "@/lib/validations/shipping";
+import type { UserAddress, UserAddressInput } from "@/types/address";
+
+export type AddressActionErrorCode =
+  | "UNAUTHORIZED"
+  | "INVALID_INPUT"
+  | "NOT_FOUND"
+  | "LIMIT_EXCEEDED"
+  | "UNKNOWN";
+
+export interface AddressActionResult {
+  success: boolean;
+  address?: UserAddress;
+  code?: AddressActionErrorCode;
+  error?: string;
+}
+
+const addressIdSchema = z.string().uuid();
+
+const UNAUTHORIZED: AddressActionResult = {
+  success: false,
+  code: "UNAUTHORIZED",
+  error: "로그인이 필요합니다.",
+};
+
+const INVALID_INPUT: AddressActionResult = {
+  success: false,
+  code: "INVALID_INPUT",
+  error: "잘못된 배송지입니다.",
+};
+
+const NOT_FOUND: AddressActionResult = {
+  success: false,
+  code: "NOT_FOUND",
+  error: "배송지를 찾을 수 없습니다.",
+};
+
+/** 입력 검증 실패 결과 (필드별 오류 메시지 사용) */
+function toInvalidInput(error: z.ZodError): AddressActionResult {
+  return {
+    success: false,
+    code: "INVALID_INPUT",
+    error: getFirstIssueMessage(error, "배송지 정보를 모두 입력해주세요."),
+  };
+}
+
+const UNKNOWN: AddressActionResult = {
+  success: false,
+  code: "UNKNOWN",
+  error: "배송지 처리 중 오류가 발생했습니다.",
+};
+
+/**
+ * 현재 사용자와 저장소 준비
+ *
+ * user_addresses RLS가 적용되도록 Clerk 세션 클라이언트를 사용합니다.
+ */
+async function getAddressContext(): Promise<{
+  userId: string | null;
+  addresses: AddressRepository;
+}> {
+  const { userId } = await auth();
+
+  return { userId, addresses: createAddressRepository(createClerkSupabaseClient()) };
+}
+
+/**
+ * 배송지 추가 (Server Action)
+ *
+ * 첫 배송지는 기본 배송지로 지정됩니다.
+ */
+export async function createAddress(input: UserAddressInput): Promise<AddressActionResult> {
+  const parsed = addressFormSchema.safeParse(input);
+  if (!parsed.success) return toInvalidInput(parsed.error);
+
+  try {
+    const { userId, addresses } = await getAddressContext();
+    if (!userId) return UNAUTHORIZED;
+
+    if ((await addresses.countByUser(userId)) >= MAX_USER_ADDRESSES) {
+      return {
+        success: false,
+        code: "LIMIT_EXCEEDED",
+        error: `배송지는 최대 ${MAX_USER_ADDRESSES}개까지 저장할 수 있습니다.`,
+      };
+    }
+
+    const address = await addresses.insert(userId, parsed.data as UserAddressInput);
+
+    return { success: true, address };
+  } catch (error) {
+    console.error("Error creating address:", error);
+    return UNKNOWN;
+  }
+}
+
+/**
+ * 배송지 수정 (Server Action)
+ */
+export async function updateAddress(
+  addressId: string,
+  input: UserAddressInput
+): Promise<AddressActionResult> {
+  if (!addressIdSchema.safeParse(addressId).success) return INVALID_INPUT;
+
+  const parsed = addressFormSchema.safeParse(input);
+  if (!parsed.success) return toInvalidInput(parsed.error);
+
+  try {
+    const { userId, addresses } = await getAddressContext();
+    if (!userId) return UNAUTHORIZED;
+
+    const address = await addresses.update(userId, addressId, parsed.data as UserAddressInput);
+    if (!address) return NOT_FOUND;
+
+    return { success: true, address };
+  } catch (error) {
+    console.error("Error updating address:", error);
+    return UNKNOWN;
+  }
+}
+
+/**
+ * 기본 배송지 지정 (Server Action)
+ *
+ * 기존 기본 배송지는 DB 트리거가 해제합니다.
+ */
+export async function setDefaultAddress(addressId: string): Promise<AddressActionResult> {
+  if (!addressIdSchema.safeParse(addressId).success) return INVALID_INPUT;
+
+  try {
+    const { userId, addresses } = await getAddressContext();
+    if (!userId) return UNAUTHORIZED;
+
+    const address = await addresses.setDefault(userId, addressId);
+    if (!address) return NOT_FOUND;
+
+    return { success: true, address };
+  } catch (error) {
+    console.error("Error setting default address:", error);
+    return UNKNOWN;
+  }
+}
+
+/**
+ * 배송지 삭제 (Server Action)
+ *
+ * 기본 배송지를 삭제하면 가장 최근에 추가한 배송지가 기본 배송지가 됩니다.
+ */
+export async function deleteAddress(addressId: string): Promise<AddressActionResult> {
+  if (!addressIdSchema.safeParse(addressId).success) return INVALID_INPUT;
+
+  try {
+    const { userId, addresses } = await getAddressContext();
+    if (!userId) return UNAUTHORIZED;
+
+    if (!(await addresses.remove(userId, addressId))) return NOT_FOUND;
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error deleting address:", error);
+    return UNKNOWN;
+  }
+}
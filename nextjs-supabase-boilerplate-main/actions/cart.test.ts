@@ -0,0 +1,264 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  acknowledgeCartChanges,
+  addToCart,
+  getGuestCart,
+  updateCartQuantity,
+} from "@/actions/cart";
+import {
+  createInMemoryCartRepository,
+  createInMemoryProductRepository,
+  createInMemoryStore,
+  type InMemoryStore,
+} from "@/lib/repositories/in-memory";
+import { RepositoryError, type Repositories } from "@/lib/repositories";
+import type { CartItem, GuestCartItem } from "@/types/cart";
+import type { Product } from "@/types/product";
+
+// Clerk 세션, 비로그인 장바구니 쿠키, 저장소를 테스트용으로 교체
+// Clerk 세션 클라이언트로 만든 저장소는 DB 권한처럼 장바구니 담기/수량 변경이 거부됨
+const context = vi.hoisted(() => ({
+  userId: null as string | null,
+  guestItems: [] as GuestCartItem[],
+  repositories: {} as Partial<Repositories>,
+  sessionRepositories: {} as Partial<Repositories>,
+}));
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: async () => ({ userId: context.userId }),
+}));
+
+vi.mock("@/lib/guest-cart", () => ({
+  MAX_GUEST_CART_ITEMS: 30,
+  readGuestCart: async () => context.guestItems,
+  writeGuestCart: async (items: GuestCartItem[]) => {
+    context.guestItems = items;
+  },
+  clearGuestCart: async () => {
+    context.guestItems = [];
+  },
+}));
+
+vi.mock("@/lib/supabase/server", () => ({ createClerkSupabaseClient: () => "authenticated" }));
+vi.mock("@/lib/supabase/service-role", () => ({ getServiceRoleClient: () => "service_role" }));
+
+vi.mock("@/lib/repositories", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/repositories")>()),
+  createRepositories: (client: string) =>
+    client === "authenticated" ? context.sessionRepositories : context.repositories,
+}));
+
+const CLERK_ID = "user_cart";
+const PRODUCT_A = "00000000-0000-4000-8000-0000000000a1";
+const PRODUCT_B = "00000000-0000-4000-8000-0000000000b1";
+
+function buildProduct(id: string, price: number, stockQuantity = 10): Product {
+  return {
+    id,
+    name: `상품 ${id.slice(-2)}`,
+    description: null,
+    category: null,
+    price,
+    stock_quantity: stockQuantity,
+    is_active: true,
+    created_at: "2025-12-07T00:00:00.000Z",
+    updated_at: "2025-12-07T00:00:00.000Z",
+  };
+}
+
+function buildCartItem(productId: string, quantity: number, priceAtAdd: number): CartItem {
+  return {
+    id: crypto.randomUUID(),
+    clerk_id: CLERK_ID,
+    product_id: productId,
+    quantity,
+    price_at_add: priceAtAdd,
+    created_at: "2025-12-07T00:00:00.000Z",
+    updated_at: "2025-12-07T00:00:00.000Z",
+  };
+}
+
+let store: InMemoryStore;
+
+function setup(
+  userId: string | null,
+  seed: Partial<InMemoryStore>,
+  guestItems: GuestCartItem[] = []
+) {
+  store = createInMemoryStore(seed);
+  context.userId = userId;
+  context.guestItems = guestItems;
+  context.repositories = {
+    products: createInMemoryProductRepository(store),
+    cart: createInMemoryCartRepository(store),
+  };
+
+  const forbidden = async () => {
+    throw new RepositoryError("FORBIDDEN", "permission denied for table cart_items");
+  };
+  context.sessionRepositories = {
+    ...context.repositories,
+    cart: { ...context.repositories.cart, insertItem: forbidden, updateQuantity: forbidden },
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("addToCart", () => {
+  it("현재 가격으로 장바구니에 담는다", async () => {
+    setup(CLERK_ID, { products: [buildProduct(PRODUCT_A, 10000)] });
+
+    await expect(addToCart({ productId: PRODUCT_A, quantity: 2 })).resolves.toEqual({
+      success: true,
+      quantity: 2,
+      cartItemCount: 1,
+    });
+    expect(store.cartItems).toEqual([
+      expect.objectContaining({ product_id: PRODUCT_A, quantity: 2, price_at_add: 10000 }),
+    ]);
+  });
+
+  it("이미 담긴 상품이면 수량을 더한다", async () => {
+    setup(CLERK_ID, {
+      products: [buildProduct(PRODUCT_A, 10000, 3)],
+      cartItems: [buildCartItem(PRODUCT_A, 1, 9000)],
+    });
+
+    await expect(addToCart({ productId: PRODUCT_A, quantity: 2 })).resolves.toMatchObject({
+      success: true,
+    });
+    expect(store.cartItems).toEqual([
+      expect.objectContaining({ quantity: 3, price_at_add: 9000 }),
+    ]);
+  });
+
+  it("이미 담긴 수량을 더해 재고를 넘으면 담지 않는다", async () => {
+    setup(CLERK_ID, {
+      products: [buildProduct(PRODUCT_A, 10000, 3)],
+      cartItems: [buildCartItem(PRODUCT_A, 2, 10000)],
+    });
+
+    await expect(addToCart({ productId: PRODUCT_A, quantity: 2 })).resolves.toMatchObject({
+      success: false,
+      code: "OUT_OF_STOCK",
+      error: "재고가 부족합니다. 최대 1개까지 담을 수 있습니다.",
+    });
+    expect(store.cartItems[0].quantity).toBe(2);
+  });
+
+  it("판매 중지 상품은 담지 않는다", async () => {
+    setup(CLERK_ID, { products: [{ ...buildProduct(PRODUCT_A, 10000), is_active: false }] });
+
+    await expect(addToCart({ productId: PRODUCT_A, quantity: 1 })).resolves.toMatchObject({
+      success: false,
+      code: "PRODUCT_UNAVAILABLE",
+    });
+    expect(store.cartItems).toHaveLength(0);
+  });
+
+  it("비로그인 장바구니에는 담을 당시 가격과 함께 저장한다", async () => {
+    setup(null, { products: [buildProduct(PRODUCT_A, 10000)] });
+
+    await addToCart({ productId: PRODUCT_A, quantity: 1 });
+
+    expect(context.guestItems).toEqual([
+      { productId: PRODUCT_A, quantity: 1, priceAtAdd: 10000 },
+    ]);
+  });
+});
+
+describe("updateCartQuantity", () => {
+  it("재고 안에서 수량을 변경한다", async () => {
+    const item = buildCartItem(PRODUCT_A, 1, 10000);
+    setup(CLERK_ID, { products: [buildProduct(PRODUCT_A, 10000, 3)], cartItems: [item] });
+
+    await expect(updateCartQuantity({ cartItemId: item.id, quantity: 3 })).resolves.toEqual({
+      success: true,
+      quantity: 3,
+      cartItemCount: 1,
+    });
+    expect(store.cartItems[0].quantity).toBe(3);
+  });
+
+  it("재고보다 많이 변경하지 않는다", async () => {
+    const item = buildCartItem(PRODUCT_A, 1, 10000);
+    setup(CLERK_ID, { products: [buildProduct(PRODUCT_A, 10000, 3)], cartItems: [item] });
+
+    await expect(updateCartQuantity({ cartItemId: item.id, quantity: 4 })).resolves.toMatchObject(
+      { success: false, code: "OUT_OF_STOCK" }
+    );
+    expect(store.cartItems[0].quantity).toBe(1);
+  });
+
+  it("다른 사용자의 장바구니 상품은 변경하지 않는다", async () => {
+    const item = { ...buildCartItem(PRODUCT_A, 1, 10000), clerk_id: "user_other" };
+    setup(CLERK_ID, { products: [buildProduct(PRODUCT_A, 10000)], cartItems: [item] });
+
+    await expect(updateCartQuantity({ cartItemId: item.id, quantity: 2 })).resolves.toMatchObject(
+      { success: false, code: "NOT_FOUND" }
+    );
+    expect(store.cartItems[0].quantity).toBe(1);
+  });
+});
+
+describe("acknowledgeCartChanges", () => {
+  it("판매 중지 상품은 삭제하고 수량과 담은 가격을 현재 상품 정보로 맞춘다", async () => {
+    setup(CLERK_ID, {
+      products: [
+        buildProduct(PRODUCT_A, 12000, 2),
+        { ...buildProduct(PRODUCT_B, 5000), is_active: false },
+      ],
+      cartItems: [buildCartItem(PRODUCT_A, 5, 10000), buildCartItem(PRODUCT_B, 1, 5000)],
+    });
+
+    await expect(acknowledgeCartChanges()).resolves.toEqual({ success: true, cartItemCount: 1 });
+    expect(store.cartItems).toEqual([
+      expect.objectContaining({ product_id: PRODUCT_A, quantity: 2, price_at_add: 12000 }),
+    ]);
+  });
+
+  it("비로그인 장바구니도 같은 규칙으로 쿠키를 갱신한다", async () => {
+    setup(
+      null,
+      {
+        products: [
+          buildProduct(PRODUCT_A, 12000, 2),
+          { ...buildProduct(PRODUCT_B, 5000), stock_quantity: 0 },
+        ],
+      },
+      [
+        { productId: PRODUCT_A, quantity: 5, priceAtAdd: 10000 },
+        { productId: PRODUCT_B, quantity: 1, priceAtAdd: 5000 },
+      ]
+    );
+
+    await acknowledgeCartChanges();
+
+    expect(context.guestItems).toEqual([
+      { productId: PRODUCT_A, quantity: 2, priceAtAdd: 12000 },
+    ]);
+  });
+});
+
+describe("getGuestCart", () => {
+  it("이전 형식의 쿠키(priceAtAdd 없음)는 현재 가격을 담은 가격으로 사용한다", async () => {
+    setup(null, { products: [buildProduct(PRODUCT_A, 12000), buildProduct(PRODUCT_B, 5000)] }, [
+      { productId: PRODUCT_A, quantity: 1, priceAtAdd: 10000 },
+      { productId: PRODUCT_B, quantity: 1 },
+    ]);
+
+    const lines = await getGuestCart();
+
+    // 최근 담은 순
+    expect(lines.map((line) => [line.id, line.price_at_add])).toEqual([
+      [PRODUCT_B, 5000],
+      [PRODUCT_A, 10000],
+    ]);
+  });
+});
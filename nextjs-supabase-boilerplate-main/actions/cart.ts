@@ -0,0 +1,388 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { createRepositories, type Repositories } from "@/lib/repositories";
+import { getMaxCartQuantity, MAX_CART_ITEM_QUANTITY } from "@/lib/cart";
+import {
+  clearGuestCart,
+  MAX_GUEST_CART_ITEMS,
+  readGuestCart,
+  writeGuestCart,
+} from "@/lib/guest-cart";
+import type { CartLine } from "@/types/cart";
+
+export type CartActionErrorCode =
+  | "INVALID_INPUT"
+  | "NOT_FOUND"
+  | "PRODUCT_UNAVAILABLE"
+  | "OUT_OF_STOCK"
+  | "CART_FULL"
+  | "UNKNOWN";
+
+export interface CartActionResult {
+  success: boolean;
+  /** 담거나 변경한 수량 */
+  quantity?: number;
+  /** 작업 후 장바구니에 담긴 상품 수 */
+  cartItemCount?: number;
+  code?: CartActionErrorCode;
+  error?: string;
+}
+
+const quantitySchema = z.number().int().min(1).max(MAX_CART_ITEM_QUANTITY);
+
+const addToCartSchema = z.object({
+  productId: z.string().uuid(),
+  quantity: quantitySchema,
+});
+
+const updateCartQuantitySchema = z.object({
+  cartItemId: z.string().uuid(),
+  quantity: quantitySchema,
+});
+
+const cartItemIdSchema = z.string().uuid();
+
+const INVALID_INPUT: CartActionResult = {
+  success: false,
+  code: "INVALID_INPUT",
+  error: `수량은 1개 이상 ${MAX_CART_ITEM_QUANTITY}개 이하로 입력해주세요.`,
+};
+
+const NOT_FOUND: CartActionResult = {
+  success: false,
+  code: "NOT_FOUND",
+  error: "장바구니 상품을 찾을 수 없습니다.",
+};
+
+const PRODUCT_UNAVAILABLE: CartActionResult = {
+  success: false,
+  code: "PRODUCT_UNAVAILABLE",
+  error: "현재 판매하지 않는 상품입니다.",
+};
+
+const UNKNOWN: CartActionResult = {
+  success: false,
+  code: "UNKNOWN",
+  error: "장바구니 처리 중 오류가 발생했습니다.",
+};
+
+/** 재고보다 많이 담으려는 경우 */
+function outOfStock(maxQuantity: number): CartActionResult {
+  return {
+    success: false,
+    code: "OUT_OF_STOCK",
+    error:
+      maxQuantity > 0
+        ? `재고가 부족합니다. 최대 ${maxQuantity}개까지 담을 수 있습니다.`
+        : "품절된 상품입니다.",
+  };
+}
+
+/**
+ * 현재 사용자와 저장소 준비
+ *
+ * cart_items RLS가 적용되도록 Clerk 세션 클라이언트를 사용합니다.
+ * 담기/수량 변경은 authenticated에게 권한이 없으므로 재고를 확인한 뒤 service_role로 처리합니다.
+ * (20251207320000_restrict_cart_item_writes.sql)
+ * 로그인하지 않은 경우 userId는 null이며, 장바구니는 쿠키(lib/guest-cart.ts)에 저장합니다.
+ */
+async function getCartContext(): Promise<{
+  userId: string | null;
+  repositories: Repositories;
+}> {
+  const { userId } = await auth();
+
+  return { userId, repositories: createRepositories(createClerkSupabaseClient()) };
+}
+
+/**
+ * 장바구니에 상품 추가 (Server Action)
+ *
+ * 판매 중인 상품인지, 이미 담긴 수량을 더해도 재고와 최대 수량을 넘지 않는지 확인합니다.
+ */
+export async function addToCart(input: {
+  productId: string;
+  quantity: number;
+}): Promise<CartActionResult> {
+  const parsed = addToCartSchema.safeParse(input);
+  if (!parsed.success) return INVALID_INPUT;
+
+  const { productId, quantity } = parsed.data;
+
+  try {
+    const { userId, repositories } = await getCartContext();
+    const product = await repositories.products.getActiveById(productId);
+
+    if (!product) return PRODUCT_UNAVAILABLE;
+
+    const maxQuantity = getMaxCartQuantity(product.stock_quantity);
+
+    if (!userId) {
+      const guestItems = await readGuestCart();
+      const existing = guestItems.find((item) => item.productId === productId);
+      const current = existing?.quantity ?? 0;
+
+      if (current + quantity > maxQuantity) return outOfStock(maxQuantity - current);
+
+      if (!existing && guestItems.length >= MAX_GUEST_CART_ITEMS) {
+        return {
+          success: false,
+          code: "CART_FULL",
+          error: `로그인하지 않은 상태에서는 ${MAX_GUEST_CART_ITEMS}종류까지 담을 수 있습니다.`,
+        };
+      }
+
+      const nextItems = existing
+        ? guestItems.map((item) =>
+            item.productId === productId ? { ...item, quantity: current + quantity } : item
+          )
+        : [...guestItems, { productId, quantity, priceAtAdd: product.price }];
+
+      await writeGuestCart(nextItems);
+      return { success: true, quantity, cartItemCount: nextItems.length };
+    }
+
+    const existing = await repositories.cart.findItemByProduct(userId, productId);
+    const current = existing?.quantity ?? 0;
+
+    if (current + quantity > maxQuantity) return outOfStock(maxQuantity - current);
+
+    // 담기/수량 변경은 위의 확인을 거친 뒤 service_role로만 가능
+    const { cart } = createRepositories(getServiceRoleClient());
+
+    if (existing) {
+      await cart.updateQuantity(userId, existing.id, current + quantity);
+    } else {
+      await cart.insertItem(userId, productId, quantity);
+    }
+
+    return {
+      success: true,
+      quantity,
+      cartItemCount: await repositories.cart.countItems(userId),
+    };
+  } catch (error) {
+    console.error("Error adding to cart:", error);
+    return UNKNOWN;
+  }
+}
+
+/**
+ * 장바구니 상품 수량 변경 (Server Action)
+ *
+ * 비로그인 장바구니는 상품 id를 `cartItemId`로 사용합니다.
+ */
+export async function updateCartQuantity(input: {
+  cartItemId: string;
+  quantity: number;
+}): Promise<CartActionResult> {
+  const parsed = updateCartQuantitySchema.safeParse(input);
+  if (!parsed.success) return INVALID_INPUT;
+
+  const { cartItemId, quantity } = parsed.data;
+
+  try {
+    const { userId, repositories } = await getCartContext();
+
+    if (!userId) {
+      const guestItems = await readGuestCart();
+      if (!guestItems.some((item) => item.productId === cartItemId)) return NOT_FOUND;
+
+      const product = await repositories.products.getActiveById(cartItemId);
+      if (!product) return PRODUCT_UNAVAILABLE;
+
+      const maxQuantity = getMaxCartQuantity(product.stock_quantity);
+      if (quantity > maxQuantity) return outOfStock(maxQuantity);
+
+      await writeGuestCart(
+        guestItems.map((item) =>
+          item.productId === cartItemId ? { ...item, quantity } : item
+        )
+      );
+      return { success: true, quantity, cartItemCount: guestItems.length };
+    }
+
+    const item = await repositories.cart.getItem(userId, cartItemId);
+    if (!item) return NOT_FOUND;
+
+    if (!item.product.is_active) {
+      return {
+        success: false,
+        code: "PRODUCT_UNAVAILABLE",
+        error: `${item.product.name} 상품은 현재 판매하지 않습니다.`,
+      };
+    }
+
+    const maxQuantity = getMaxCartQuantity(item.product.stock_quantity);
+    if (quantity > maxQuantity) return outOfStock(maxQuantity);
+
+    await createRepositories(getServiceRoleClient()).cart.updateQuantity(
+      userId,
+      cartItemId,
+      quantity
+    );
+
+    return {
+      success: true,
+      quantity,
+      cartItemCount: await repositories.cart.countItems(userId),
+    };
+  } catch (error) {
+    console.error("Error updating cart quantity:", error);
+    return UNKNOWN;
+  }
+}
+
+/**
+ * 장바구니 상품 삭제 (Server Action)
+ *
+ * 비로그인 장바구니는 상품 id를 `cartItemId`로 사용합니다.
+ */
+export async function removeCartItem(cartItemId: string): Promise<CartActionResult> {
+  const parsed = cartItemIdSchema.safeParse(cartItemId);
+  if (!parsed.success) {
+    return { success: false, code: "INVALID_INPUT", error: "잘못된 장바구니 상품입니다." };
+  }
+
+  try {
+    const { userId, repositories } = await getCartContext();
+
+    if (!userId) {
+      const nextItems = (await readGuestCart()).filter(
+        (item) => item.productId !== parsed.data
+      );
+
+      await writeGuestCart(nextItems);
+      return { success: true, cartItemCount: nextItems.length };
+    }
+
+    await repositories.cart.removeItems(userId, [parsed.data]);
+
+    return { success: true, cartItemCount: await repositories.cart.countItems(userId) };
+  } catch (error) {
+    console.error("Error removing cart item:", error);
+    return UNKNOWN;
+  }
+}
+
+/**
+ * 장바구니 비우기 (Server Action)
+ */
+export async function clearCart(): Promise<CartActionResult> {
+  try {
+    const { userId, repositories } = await getCartContext();
+
+    if (!userId) {
+      await clearGuestCart();
+    } else {
+      await repositories.cart.clear(userId);
+    }
+
+    return { success: true, cartItemCount: 0 };
+  } catch (error) {
+    console.error("Error clearing cart:", error);
+    return UNKNOWN;
+  }
+}
+
+/**
+ * 장바구니 변경 내역 확인 (Server Action)
+ *
+ * 사용자가 가격 변경/품절/판매 중지 내역을 확인하면 호출합니다.
+ * 판매 중지/품절 상품은 삭제하고, 수량은 재고만큼으로 줄이며, 담은 가격을 현재 가격으로 갱신합니다.
+ * 확인하지 않은 가격 변경이 있으면 주문을 생성할 수 없습니다 (create_order_from_cart의 CART_CHANGED).
+ */
+export async function acknowledgeCartChanges(): Promise<CartActionResult> {
+  try {
+    const { userId, repositories } = await getCartContext();
+
+    if (!userId) {
+      const guestItems = await readGuestCart();
+      const products = await repositories.products.listActiveByIds(
+        guestItems.map((item) => item.productId)
+      );
+
+      const nextItems = guestItems.flatMap((item) => {
+        const product = products.find(({ id }) => id === item.productId);
+        const maxQuantity = product ? getMaxCartQuantity(product.stock_quantity) : 0;
+
+        return maxQuantity > 0
+          ? [
+              {
+                productId: item.productId,
+                quantity: Math.min(item.quantity, maxQuantity),
+                priceAtAdd: product.price,
+              },
+            ]
+          : [];
+      });
+
+      await writeGuestCart(nextItems);
+      return { success: true, cartItemCount: nextItems.length };
+    }
+
+    // price_at_add는 사용자가 수정할 수 없으므로 service_role로 갱신
+    await createRepositories(getServiceRoleClient()).cart.acknowledgeChanges(userId);
+
+    return { success: true, cartItemCount: await repositories.cart.countItems(userId) };
+  } catch (error) {
+    console.error("Error acknowledging cart changes:", error);
+    return UNKNOWN;
+  }
+}
+
+/**
+ * 조회용 비로그인 장바구니 읽기
+ *
+ * GUEST_CART_SECRET 누락 등으로 쿠키를 읽지 못해도 헤더 배지와 장바구니 화면이
+ * 오류로 멈추지 않도록 빈 장바구니로 취급합니다. (변경 작업은 오류를 그대로 반환)
+ */
+async function readGuestCartForDisplay() {
+  try {
+    return await readGuestCart();
+  } catch (error) {
+    console.error("Error reading guest cart:", error);
+    return [];
+  }
+}
+
+/**
+ * 비로그인 장바구니 조회 (Server Action)
+ *
+ * 쿠키는 httpOnly이므로 서버에서 읽어 상품 정보와 함께 반환합니다.
+ * 판매 중지된 상품은 제외하며, 최근 담은 순으로 정렬합니다.
+ */
+export async function getGuestCart(): Promise<CartLine[]> {
+  const guestItems = await readGuestCartForDisplay();
+  if (guestItems.length === 0) return [];
+
+  const { repositories } = await getCartContext();
+  const products = await repositories.products.listActiveByIds(
+    guestItems.map((item) => item.productId)
+  );
+
+  return guestItems
+    .flatMap((item) => {
+      const product = products.find(({ id }) => id === item.productId);
+      return product
+        ? [
+            {
+              id: item.productId,
+              quantity: item.quantity,
+              price_at_add: item.priceAtAdd ?? product.price,
+              product,
+            },
+          ]
+        : [];
+    })
+    .reverse();
+}
+
+/** 비로그인 장바구니에 담긴 상품 수 (Server Action) */
+export async function getGuestCartCount(): Promise<number> {
+  return (await readGuestCartForDisplay()).length;
+}
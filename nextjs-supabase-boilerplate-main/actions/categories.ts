@@ -0,0 +1,147 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { hasRole } from "@/lib/auth";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { createRepositories, RepositoryError } from "@/lib/repositories";
+import {
+  categoryFormSchema,
+  type CategoryFormValues,
+} from "@/lib/validations/category";
+import type { TablesUpdate } from "@/database.types";
+
+export type CategoryActionErrorCode =
+  | "FORBIDDEN"
+  | "INVALID_INPUT"
+  | "DUPLICATE_SLUG"
+  | "NOT_FOUND"
+  | "UNKNOWN";
+
+export interface CategoryActionResult {
+  success: boolean;
+  slug?: string;
+  code?: CategoryActionErrorCode;
+  error?: string;
+}
+
+const FORBIDDEN: CategoryActionResult = {
+  success: false,
+  code: "FORBIDDEN",
+  error: "카테고리 관리 권한이 없습니다.",
+};
+
+const INVALID_INPUT: CategoryActionResult = {
+  success: false,
+  code: "INVALID_INPUT",
+  error: "카테고리 정보를 다시 확인해주세요.",
+};
+
+/**
+ * 카테고리 저장 오류 변환
+ *
+ * - CONFLICT: 이미 있는 slug
+ * - INVALID_REFERENCE: 없는 상위 카테고리
+ * - CATEGORY_DEPTH_EXCEEDED: 하위 카테고리는 2단계까지 (check_category_parent 트리거)
+ */
+function toCategoryErrorResult(error: unknown): CategoryActionResult {
+  if (!(error instanceof RepositoryError)) {
+    return { success: false, code: "UNKNOWN", error: "카테고리 저장 중 오류가 발생했습니다." };
+  }
+
+  if (error.message === "CATEGORY_DEPTH_EXCEEDED") {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      error: "하위 카테고리는 최상위 카테고리 아래에만 만들 수 있습니다.",
+    };
+  }
+
+  switch (error.code) {
+    case "CONFLICT":
+      return { success: false, code: "DUPLICATE_SLUG", error: "이미 사용 중인 슬러그입니다." };
+    case "INVALID_REFERENCE":
+      return { success: false, code: "INVALID_INPUT", error: "상위 카테고리를 찾을 수 없습니다." };
+    default:
+      return { success: false, code: "UNKNOWN", error: "카테고리 저장 중 오류가 발생했습니다." };
+  }
+}
+
+/** 카테고리를 사용하는 관리자 화면과 쇼핑몰 화면 캐시 갱신 */
+function revalidateCategoryPaths() {
+  revalidatePath("/admin/categories");
+  revalidatePath("/admin/products");
+  revalidatePath("/");
+  revalidatePath("/products");
+}
+
+/** 검증된 폼 값을 categories 행으로 변환 (slug 제외, 빈 상위 카테고리는 null로 저장) */
+function toCategoryRow(values: CategoryFormValues): TablesUpdate<"categories"> {
+  return {
+    label: values.label,
+    color: values.color,
+    icon: values.icon,
+    sort_order: values.sort_order,
+    parent_slug: values.parent_slug || null,
+    is_active: values.is_active,
+  };
+}
+
+/**
+ * 카테고리 등록 (admin 전용, Server Action)
+ */
+export async function createCategory(
+  values: CategoryFormValues
+): Promise<CategoryActionResult> {
+  if (!(await hasRole("admin"))) return FORBIDDEN;
+
+  const parsed = categoryFormSchema.safeParse(values);
+  if (!parsed.success) return INVALID_INPUT;
+
+  const { categories } = createRepositories(getServiceRoleClient());
+
+  try {
+    const slug = await categories.create({
+      ...toCategoryRow(parsed.data),
+      slug: parsed.data.slug,
+      label: parsed.data.label,
+    });
+
+    revalidateCategoryPaths();
+    return { success: true, slug };
+  } catch (error) {
+    console.error("Error creating category:", error);
+    return toCategoryErrorResult(error);
+  }
+}
+
+/**
+ * 카테고리 수정 (admin 전용, Server Action)
+ *
+ * slug는 URL과 상품에 저장되는 값이므로 변경하지 않습니다.
+ */
+export async function updateCategory(
+  slug: string,
+  values: CategoryFormValues
+): Promise<CategoryActionResult> {
+  if (!(await hasRole("admin"))) return FORBIDDEN;
+
+  const parsed = categoryFormSchema.safeParse({ ...values, slug });
+  if (!parsed.success) return INVALID_INPUT;
+
+  const { categories } = createRepositories(getServiceRoleClient());
+
+  let updated: boolean;
+  try {
+    updated = await categories.update(slug, toCategoryRow(parsed.data));
+  } catch (error) {
+    console.error("Error updating category:", error);
+    return toCategoryErrorResult(error);
+  }
+
+  if (!updated) {
+    return { success: false, code: "NOT_FOUND", error: "카테고리를 찾을 수 없습니다." };
+  }
+
+  revalidateCategoryPaths();
+  return { success: true, slug };
+}
@@ -0,0 +1,65 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { createRepositories, RepositoryError } from "@/lib/repositories";
+import { couponCodeSchema } from "@/lib/validations/coupon";
+import { getCouponErrorMessage, isCouponErrorCode, type CouponErrorCode } from "@/lib/coupons";
+import { getFirstIssueMessage } from "@/lib/validations/shipping";
+import type { AppliedCoupon } from "@/types/coupon";
+
+export type ApplyCouponErrorCode =
+  | "UNAUTHORIZED"
+  | "INVALID_INPUT"
+  | CouponErrorCode
+  | "UNKNOWN";
+
+export interface ApplyCouponResult {
+  success: boolean;
+  coupon?: AppliedCoupon;
+  code?: ApplyCouponErrorCode;
+  error?: string;
+}
+
+/**
+ * 쿠폰 적용 확인 (Server Action)
+ *
+ * 현재 장바구니 기준으로 쿠폰을 검증하고 할인 금액을 계산합니다.
+ * 쿠폰 사용 처리는 하지 않으며, 주문 생성(createOrder) 시 같은 함수로 다시 계산합니다.
+ */
+export async function applyCoupon(code: string): Promise<ApplyCouponResult> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { success: false, code: "UNAUTHORIZED", error: "로그인이 필요합니다." };
+  }
+
+  const parsed = couponCodeSchema.safeParse(code);
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      error: getFirstIssueMessage(parsed.error, "쿠폰 코드를 입력해주세요."),
+    };
+  }
+
+  const { coupons } = createRepositories(getServiceRoleClient());
+
+  try {
+    const coupon = await coupons.calculateDiscount(userId, parsed.data);
+
+    return { success: true, coupon };
+  } catch (error) {
+    if (error instanceof RepositoryError && isCouponErrorCode(error.message)) {
+      return {
+        success: false,
+        code: error.message,
+        error: getCouponErrorMessage(error.message, error.details),
+      };
+    }
+
+    console.error("Error applying coupon:", error);
+    return { success: false, code: "UNKNOWN", error: "쿠폰 확인 중 오류가 발생했습니다." };
+  }
+}
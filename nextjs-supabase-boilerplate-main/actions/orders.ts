@@ -0,0 +1,384 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import {
+  createRepositories,
+  RepositoryError,
+  type CancelOrderItemParams,
+  type OrderDetail,
+} from "@/lib/repositories";
+import { getTossPaymentsClient, TossPaymentsError } from "@/lib/toss/client";
+import { recordPayment } from "@/lib/payments";
+import { getCouponErrorMessage, isCouponErrorCode, type CouponErrorCode } from "@/lib/coupons";
+import { couponCodeSchema } from "@/lib/validations/coupon";
+import {
+  getFirstIssueMessage,
+  orderNoteSchema,
+  shippingAddressSchema,
+} from "@/lib/validations/shipping";
+import type { OrderStatus, ShippingAddress } from "@/types/order";
+import type { Payment } from "@/types/payment";
+import type { TossPaymentStatus } from "@/types/toss";
+
+export type CreateOrderErrorCode =
+  | "UNAUTHORIZED"
+  | "INVALID_INPUT"
+  | "CART_EMPTY"
+  | "PRODUCT_UNAVAILABLE"
+  | "OUT_OF_STOCK"
+  | "PRICE_CHANGED"
+  | "CART_CHANGED"
+  | CouponErrorCode
+  | "UNKNOWN";
+
+export interface CreateOrderResult {
+  success: boolean;
+  orderId?: string;
+  code?: CreateOrderErrorCode;
+  error?: string;
+}
+
+interface CreateOrderInput {
+  shippingAddress: ShippingAddress;
+  orderNote: string;
+  /** 사용자가 화면에서 확인한 결제 금액 (쿠폰 할인 후, 가격 변경 감지용) */
+  expectedTotal: number;
+  couponCode?: string;
+}
+
+const createOrderSchema = z.object({
+  shippingAddress: shippingAddressSchema,
+  orderNote: orderNoteSchema,
+  expectedTotal: z.number().nonnegative(),
+  couponCode: couponCodeSchema.optional(),
+});
+
+/**
+ * 장바구니로 주문 생성 (Server Action)
+ *
+ * create_order_from_cart 함수가 서버 가격으로 금액을 재계산하고,
+ * 재고 차감과 장바구니 비우기까지 하나의 트랜잭션으로 처리합니다.
+ * 담은 뒤 가격이 바뀐 상품이 있으면 변경 내역을 확인(acknowledgeCartChanges)해야 주문할 수 있습니다.
+ * 쿠폰 코드를 전달하면 같은 트랜잭션에서 할인 금액을 다시 계산하고 사용 내역을 저장합니다.
+ */
+export async function createOrder(
+  input: CreateOrderInput
+): Promise<CreateOrderResult> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { success: false, code: "UNAUTHORIZED", error: "로그인이 필요합니다." };
+  }
+
+  const parsed = createOrderSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      error: getFirstIssueMessage(parsed.error, "배송지 정보를 모두 입력해주세요."),
+    };
+  }
+
+  const { shippingAddress, orderNote, expectedTotal, couponCode } = parsed.data;
+  const { orders } = createRepositories(getServiceRoleClient());
+
+  try {
+    const orderId = await orders.createFromCart({
+      clerkId: userId,
+      shippingAddress: shippingAddress as ShippingAddress,
+      orderNote,
+      expectedTotal,
+      couponCode,
+    });
+
+    return { success: true, orderId };
+  } catch (error) {
+    console.error("Error creating order:", error);
+    return error instanceof RepositoryError
+      ? toCreateOrderError(error.message, error.details)
+      : toCreateOrderError("UNKNOWN", null);
+  }
+}
+
+function toCreateOrderError(
+  message: string,
+  details: string | null
+): CreateOrderResult {
+  if (isCouponErrorCode(message)) {
+    return { success: false, code: message, error: getCouponErrorMessage(message, details) };
+  }
+
+  switch (message) {
+    case "CART_EMPTY":
+      return { success: false, code: "CART_EMPTY", error: "장바구니가 비어 있습니다." };
+    case "PRODUCT_UNAVAILABLE":
+      return {
+        success: false,
+        code: "PRODUCT_UNAVAILABLE",
+        error: `${details} 상품은 현재 판매하지 않습니다.`,
+      };
+    case "OUT_OF_STOCK":
+      return {
+        success: false,
+        code: "OUT_OF_STOCK",
+        error: `${details} 상품의 재고가 부족합니다.`,
+      };
+    case "PRICE_CHANGED":
+      return {
+        success: false,
+        code: "PRICE_CHANGED",
+        error: `상품 가격이 변경되었습니다. 변경된 결제금액(${Number(
+          details
+        ).toLocaleString()}원)을 확인해주세요.`,
+      };
+    case "CART_CHANGED":
+      return {
+        success: false,
+        code: "CART_CHANGED",
+        error: `${details} 상품의 가격이 변경되었습니다. 변경 내역을 확인해주세요.`,
+      };
+    default:
+      return {
+        success: false,
+        code: "UNKNOWN",
+        error: "주문 생성 중 오류가 발생했습니다.",
+      };
+  }
+}
+
+export type CancelOrderErrorCode =
+  | "UNAUTHORIZED"
+  | "INVALID_INPUT"
+  | "ORDER_NOT_FOUND"
+  | "ORDER_NOT_CANCELLABLE"
+  | "PAYMENT_CANCEL_FAILED"
+  | "REVIEW_REQUIRED"
+  | "UNKNOWN";
+
+export interface CancelOrderResult {
+  success: boolean;
+  status?: OrderStatus;
+  refundedAmount?: number;
+  code?: CancelOrderErrorCode;
+  error?: string;
+}
+
+interface CancelOrderInput {
+  orderId: string;
+  reason?: string;
+  /** 부분 취소할 상품 (생략하면 주문 전체 취소) */
+  items?: { orderItemId: string; quantity: number }[];
+}
+
+const cancelOrderSchema = z.object({
+  orderId: z.string().uuid(),
+  reason: z.string().trim().max(200).optional(),
+  items: z
+    .array(
+      z.object({
+        orderItemId: z.string().uuid(),
+        quantity: z.number().int().positive(),
+      })
+    )
+    .min(1)
+    .refine(
+      (items) => new Set(items.map((item) => item.orderItemId)).size === items.length,
+      "같은 상품을 중복해서 취소할 수 없습니다."
+    )
+    .optional(),
+});
+
+// Toss에서 취소(환불)가 필요한 결제 상태
+const CANCELLABLE_PAYMENT_STATUSES: TossPaymentStatus[] = [
+  "DONE",
+  "PARTIAL_CANCELED",
+  "WAITING_FOR_DEPOSIT",
+];
+
+/**
+ * 주문 취소 (Server Action)
+ *
+ * - 결제 대기(pending): 주문 취소 및 재고 복구
+ * - 결제 완료(confirmed): Toss 결제 취소 API로 환불 후 주문 취소 및 재고 복구
+ *   `items`를 지정하면 해당 상품 금액만 부분 환불합니다.
+ * - 배송 시작 이후(shipped, delivered)에는 취소할 수 없습니다.
+ *
+ * 환불 후 주문 취소에 실패하면 환불을 되돌릴 수 없으므로 주문을 관리자 확인 필요
+ * (REFUND_NOT_APPLIED)로 표시하고 REVIEW_REQUIRED를 반환합니다.
+ */
+export async function cancelOrder(
+  input: CancelOrderInput
+): Promise<CancelOrderResult> {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return { success: false, code: "UNAUTHORIZED", error: "로그인이 필요합니다." };
+  }
+
+  const parsed = cancelOrderSchema.safeParse(input);
+
+  if (!parsed.success) {
+    return { success: false, code: "INVALID_INPUT", error: "잘못된 취소 요청입니다." };
+  }
+
+  const { orderId, items } = parsed.data;
+  const reason = parsed.data.reason || "고객 요청";
+  const repositories = createRepositories(getServiceRoleClient());
+
+  let detail: OrderDetail | null;
+  try {
+    detail = await repositories.orders.getDetail(userId, orderId);
+  } catch (error) {
+    console.error("Error loading order:", error);
+    return { success: false, code: "UNKNOWN", error: "주문 취소 중 오류가 발생했습니다." };
+  }
+
+  if (!detail) {
+    return { success: false, code: "ORDER_NOT_FOUND", error: "주문을 찾을 수 없습니다." };
+  }
+
+  const { order, items: orderItems } = detail;
+
+  if (order.status === "shipped" || order.status === "delivered") {
+    return {
+      success: false,
+      code: "ORDER_NOT_CANCELLABLE",
+      error: "배송이 시작된 주문은 취소할 수 없습니다.",
+    };
+  }
+
+  if (order.status === "cancelled") {
+    return {
+      success: false,
+      code: "ORDER_NOT_CANCELLABLE",
+      error: "이미 취소된 주문입니다.",
+    };
+  }
+
+  if (items && order.status !== "confirmed") {
+    return {
+      success: false,
+      code: "ORDER_NOT_CANCELLABLE",
+      error: "부분 취소는 결제가 완료된 주문만 가능합니다.",
+    };
+  }
+
+  // 쿠폰 할인은 주문 전체에 적용되므로 상품별 환불 금액을 나눌 수 없음
+  if (items && Number(order.discount_amount) > 0) {
+    return {
+      success: false,
+      code: "ORDER_NOT_CANCELLABLE",
+      error: "쿠폰을 사용한 주문은 전체 취소만 가능합니다.",
+    };
+  }
+
+  // 취소 대상 수량 및 환불 금액 계산
+  const remaining = new Map(
+    orderItems.map((item) => [item.id, item.quantity - item.cancelled_quantity])
+  );
+  const targets =
+    items ??
+    orderItems
+      .filter((item) => remaining.get(item.id)! > 0)
+      .map((item) => ({ orderItemId: item.id, quantity: remaining.get(item.id)! }));
+
+  for (const target of targets) {
+    if (!remaining.has(target.orderItemId) || target.quantity > remaining.get(target.orderItemId)!) {
+      return { success: false, code: "INVALID_INPUT", error: "취소 가능한 수량을 초과했습니다." };
+    }
+  }
+
+  const cancelAmount = targets.reduce((sum, target) => {
+    const item = orderItems.find((orderItem) => orderItem.id === target.orderItemId)!;
+    return sum + Number(item.price) * target.quantity;
+  }, 0);
+  const isFullCancel = orderItems.every(
+    (item) =>
+      (targets.find((target) => target.orderItemId === item.id)?.quantity ?? 0) ===
+      remaining.get(item.id)
+  );
+
+  // 환불에 필요한 paymentKey와 잔액은 주문 상세(표시용 컬럼)에 없으므로 결제 기록을 따로 조회
+  let payment: Payment | null;
+  try {
+    payment = await repositories.payments.getLatestByOrder(orderId);
+  } catch (error) {
+    console.error("Error loading payment:", error);
+    return { success: false, code: "UNKNOWN", error: "주문 취소 중 오류가 발생했습니다." };
+  }
+
+  // 결제된 주문이면 Toss 결제 취소(환불)
+  let refunded = false;
+  let refundedAmount = 0;
+
+  if (payment && CANCELLABLE_PAYMENT_STATUSES.includes(payment.status)) {
+    try {
+      const balanceAmount = payment.raw_response.balanceAmount;
+      const cancelled = await getTossPaymentsClient().cancelPayment({
+        paymentKey: payment.payment_key,
+        cancelReason: reason,
+        cancelAmount: isFullCancel ? undefined : cancelAmount,
+        idempotencyKey: `cancel-${orderId}-${balanceAmount}-${isFullCancel ? "full" : cancelAmount}`,
+      });
+
+      refunded = true;
+      refundedAmount = balanceAmount - cancelled.balanceAmount;
+
+      // 환불은 이미 처리되었으므로 기록 실패가 주문 취소를 막지 않도록 함 (웹훅으로 다시 기록됨)
+      await recordPayment(repositories.payments, {
+        orderId,
+        clerkId: userId,
+        payment: cancelled,
+        source: "cancel",
+      }).catch((recordError) => {
+        console.error("Error recording cancelled payment:", recordError);
+      });
+    } catch (error) {
+      console.error("Error cancelling payment:", error);
+      return {
+        success: false,
+        code: "PAYMENT_CANCEL_FAILED",
+        error:
+          error instanceof TossPaymentsError
+            ? error.message
+            : "결제 취소 중 오류가 발생했습니다.",
+      };
+    }
+  }
+
+  // 주문 상태 변경 및 재고 복구
+  let orderCancelled: boolean;
+  try {
+    orderCancelled = isFullCancel
+      ? await repositories.orders.cancel(orderId)
+      : await repositories.orders.cancelItems(orderId, targets as CancelOrderItemParams[]);
+  } catch (error) {
+    console.error("Error cancelling order:", error);
+
+    if (!refunded) {
+      return { success: false, code: "UNKNOWN", error: "주문 취소 중 오류가 발생했습니다." };
+    }
+
+    try {
+      await repositories.orders.flagForReview(orderId, "REFUND_NOT_APPLIED");
+    } catch (flagError) {
+      console.error("Error flagging order for review:", { orderId, refundedAmount, flagError });
+    }
+
+    return {
+      success: false,
+      code: "REVIEW_REQUIRED",
+      refundedAmount,
+      error: "환불은 완료되었지만 주문 상태를 변경하지 못했습니다. 관리자가 확인 후 처리합니다.",
+    };
+  }
+
+  return {
+    success: true,
+    status: isFullCancel || orderCancelled ? "cancelled" : (order.status as OrderStatus),
+    refundedAmount,
+  };
+}
@@ -0,0 +1,362 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+import { hasRole } from "@/lib/auth";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import {
+  createRepositories,
+  RepositoryError,
+  type ProductImageSortSummary,
+} from "@/lib/repositories";
+import { PRODUCT_IMAGE_MAX_SIZE, PRODUCT_IMAGE_MIME_TYPES } from "@/lib/product-images";
+import {
+  MAX_PRODUCT_IMAGES,
+  PRODUCT_IMAGE_ALT_TEXT_MAX_LENGTH,
+  productFormSchema,
+  productImagesUpdateSchema,
+  productImageUploadSchema,
+  type ProductFormValues,
+} from "@/lib/validations/product";
+import type { TablesInsert } from "@/database.types";
+import type { ProductImage } from "@/types/product";
+
+export type ProductActionErrorCode =
+  | "FORBIDDEN"
+  | "INVALID_INPUT"
+  | "NOT_FOUND"
+  | "UNKNOWN";
+
+export interface ProductActionResult {
+  success: boolean;
+  productId?: string;
+  code?: ProductActionErrorCode;
+  error?: string;
+}
+
+const FORBIDDEN: ProductActionResult = {
+  success: false,
+  code: "FORBIDDEN",
+  error: "상품 관리 권한이 없습니다.",
+};
+
+const INVALID_INPUT: ProductActionResult = {
+  success: false,
+  code: "INVALID_INPUT",
+  error: "상품 정보를 다시 확인해주세요.",
+};
+
+const CATEGORY_NOT_FOUND: ProductActionResult = {
+  success: false,
+  code: "INVALID_INPUT",
+  error: "존재하지 않는 카테고리입니다.",
+};
+
+/** products.category가 없는 카테고리를 참조한 경우 */
+function isCategoryNotFound(error: unknown): boolean {
+  return error instanceof RepositoryError && error.code === "INVALID_REFERENCE";
+}
+
+/** 상품 변경 후 관리자 목록과 쇼핑몰 상품 페이지 캐시 갱신 */
+function revalidateProductPaths(productId?: string) {
+  revalidatePath("/admin/products");
+  revalidatePath("/products");
+  if (productId) revalidatePath(`/products/${productId}`);
+}
+
+/** 검증된 폼 값을 products 행으로 변환 (빈 설명은 null로 저장) */
+function toProductRow(values: ProductFormValues): TablesInsert<"products"> {
+  return {
+    name: values.name,
+    description: values.description || null,
+    price: values.price,
+    category: values.category,
+    stock_quantity: values.stock_quantity,
+    is_active: values.is_active,
+  };
+}
+
+/**
+ * 상품 등록 (admin 전용, Server Action)
+ */
+export async function createProduct(
+  values: ProductFormValues
+): Promise<ProductActionResult> {
+  if (!(await hasRole("admin"))) return FORBIDDEN;
+
+  const parsed = productFormSchema.safeParse(values);
+  if (!parsed.success) return INVALID_INPUT;
+
+  const { products } = createRepositories(getServiceRoleClient());
+
+  try {
+    const productId = await products.create(toProductRow(parsed.data));
+
+    revalidateProductPaths(productId);
+    return { success: true, productId };
+  } catch (error) {
+    if (isCategoryNotFound(error)) return CATEGORY_NOT_FOUND;
+    console.error("Error creating product:", error);
+    return { success: false, code: "UNKNOWN", error: "상품 등록 중 오류가 발생했습니다." };
+  }
+}
+
+/**
+ * 상품 수정 (admin 전용, Server Action)
+ */
+export async function updateProduct(
+  productId: string,
+  values: ProductFormValues
+): Promise<ProductActionResult> {
+  if (!(await hasRole("admin"))) return FORBIDDEN;
+
+  const parsed = productFormSchema.safeParse(values);
+  if (!parsed.success) return INVALID_INPUT;
+
+  const { products } = createRepositories(getServiceRoleClient());
+
+  let updated: boolean;
+  try {
+    updated = await products.update(productId, toProductRow(parsed.data));
+  } catch (error) {
+    if (isCategoryNotFound(error)) return CATEGORY_NOT_FOUND;
+    console.error("Error updating product:", error);
+    return { success: false, code: "UNKNOWN", error: "상품 수정 중 오류가 발생했습니다." };
+  }
+
+  if (!updated) {
+    return { success: false, code: "NOT_FOUND", error: "상품을 찾을 수 없습니다." };
+  }
+
+  revalidateProductPaths(productId);
+  return { success: true, productId };
+}
+
+/**
+ * 상품 판매 상태 변경 (admin 전용, Server Action)
+ *
+ * 주문 내역(order_items)이 상품을 참조하므로 상품은 삭제하지 않고 비활성화합니다.
+ * 비활성 상품은 상품 목록에 표시되지 않고 주문할 수 없습니다.
+ */
+export async function setProductActive(
+  productId: string,
+  isActive: boolean
+): Promise<ProductActionResult> {
+  if (!(await hasRole("admin"))) return FORBIDDEN;
+
+  const { products } = createRepositories(getServiceRoleClient());
+
+  let updated: boolean;
+  try {
+    updated = await products.update(productId, { is_active: isActive });
+  } catch (error) {
+    console.error("Error updating product status:", error);
+    return { success: false, code: "UNKNOWN", error: "상품 상태 변경 중 오류가 발생했습니다." };
+  }
+
+  if (!updated) {
+    return { success: false, code: "NOT_FOUND", error: "상품을 찾을 수 없습니다." };
+  }
+
+  revalidateProductPaths(productId);
+  return { success: true, productId };
+}
+
+/**
+ * 상품 이미지 업로드 (admin 전용, Server Action)
+ *
+ * FormData: file(이미지 파일), altText(대체 텍스트, 선택)
+ * product-images 버킷의 `{productId}/` 아래에 저장하고 목록 마지막 순서로 추가합니다.
+ * 상품의 첫 이미지는 대표 이미지로 지정되며, 상품당 MAX_PRODUCT_IMAGES장까지 등록할 수 있습니다.
+ */
+export async function uploadProductImage(
+  productId: string,
+  formData: FormData
+): Promise<ProductActionResult> {
+  if (!(await hasRole("admin"))) return FORBIDDEN;
+
+  const parsed = productImageUploadSchema.safeParse({
+    productId,
+    altText: String(formData.get("altText") ?? ""),
+  });
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      error: `이미지 정보를 다시 확인해주세요. (대체 텍스트는 ${PRODUCT_IMAGE_ALT_TEXT_MAX_LENGTH}자 이하)`,
+    };
+  }
+
+  const { altText } = parsed.data;
+  const file = formData.get("file");
+
+  if (!(file instanceof File) || file.size === 0) {
+    return { success: false, code: "INVALID_INPUT", error: "이미지 파일을 선택해주세요." };
+  }
+
+  if (!PRODUCT_IMAGE_MIME_TYPES.includes(file.type)) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      error: "JPG, PNG, WEBP, GIF 이미지만 업로드할 수 있습니다.",
+    };
+  }
+
+  if (file.size > PRODUCT_IMAGE_MAX_SIZE) {
+    return { success: false, code: "INVALID_INPUT", error: "이미지는 5MB 이하만 업로드할 수 있습니다." };
+  }
+
+  const { productImages } = createRepositories(getServiceRoleClient());
+
+  let summary: ProductImageSortSummary;
+  try {
+    summary = await productImages.getSortSummary(productId);
+  } catch (error) {
+    console.error("Error loading product images:", error);
+    return { success: false, code: "UNKNOWN", error: "이미지 업로드 중 오류가 발생했습니다." };
+  }
+
+  if (summary.count >= MAX_PRODUCT_IMAGES) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      error: `이미지는 상품당 ${MAX_PRODUCT_IMAGES}장까지 등록할 수 있습니다.`,
+    };
+  }
+
+  const extension = file.name.split(".").pop()?.toLowerCase() || "jpg";
+  const storagePath = `${productId}/${crypto.randomUUID()}.${extension}`;
+
+  try {
+    await productImages.uploadFile(storagePath, file);
+  } catch (error) {
+    console.error("Error uploading product image:", error);
+    return { success: false, code: "UNKNOWN", error: "이미지 업로드 중 오류가 발생했습니다." };
+  }
+
+  try {
+    await productImages.create({
+      product_id: productId,
+      storage_path: storagePath,
+      alt_text: altText || null,
+      sort_order: summary.lastSortOrder === null ? 0 : summary.lastSortOrder + 1,
+      is_primary: summary.count === 0,
+    });
+  } catch (error) {
+    console.error("Error saving product image:", error);
+    await productImages.removeFiles([storagePath]).catch((removeError) => {
+      console.error("Error removing product image file:", removeError);
+    });
+    // 존재하지 않는 상품 (product_images.product_id 외래 키)
+    return error instanceof RepositoryError && error.code === "INVALID_REFERENCE"
+      ? { success: false, code: "NOT_FOUND", error: "상품을 찾을 수 없습니다." }
+      : { success: false, code: "UNKNOWN", error: "이미지 업로드 중 오류가 발생했습니다." };
+  }
+
+  revalidateProductPaths(productId);
+  return { success: true, productId };
+}
+
+/**
+ * 상품 이미지 삭제 (admin 전용, Server Action)
+ *
+ * 대표 이미지를 삭제하면 남은 이미지 중 첫 번째 이미지를 대표로 지정합니다.
+ */
+export async function deleteProductImage(
+  imageId: string
+): Promise<ProductActionResult> {
+  if (!(await hasRole("admin"))) return FORBIDDEN;
+
+  const { productImages } = createRepositories(getServiceRoleClient());
+
+  let image: ProductImage | null;
+  try {
+    image = await productImages.delete(imageId);
+  } catch (error) {
+    console.error("Error deleting product image:", error);
+    return { success: false, code: "UNKNOWN", error: "이미지 삭제 중 오류가 발생했습니다." };
+  }
+
+  if (!image) {
+    return { success: false, code: "NOT_FOUND", error: "이미지를 찾을 수 없습니다." };
+  }
+
+  // 파일 삭제 실패는 이미지 목록에 영향을 주지 않으므로 기록만 남김
+  try {
+    await productImages.removeFiles([image.storage_path]);
+  } catch (removeError) {
+    console.error("Error removing product image file:", removeError);
+  }
+
+  if (image.is_primary) {
+    try {
+      const next = await productImages.getFirst(image.product_id);
+      if (next) await productImages.setPrimary(next.id);
+    } catch (primaryError) {
+      console.error("Error setting primary product image:", primaryError);
+    }
+  }
+
+  revalidateProductPaths(image.product_id);
+  return { success: true, productId: image.product_id };
+}
+
+/**
+ * 대표 이미지 지정 (admin 전용, Server Action)
+ */
+export async function setPrimaryProductImage(
+  imageId: string
+): Promise<ProductActionResult> {
+  if (!(await hasRole("admin"))) return FORBIDDEN;
+
+  const { productImages } = createRepositories(getServiceRoleClient());
+
+  try {
+    await productImages.setPrimary(imageId);
+  } catch (error) {
+    console.error("Error setting primary product image:", error);
+    return error instanceof RepositoryError && error.message === "IMAGE_NOT_FOUND"
+      ? { success: false, code: "NOT_FOUND", error: "이미지를 찾을 수 없습니다." }
+      : { success: false, code: "UNKNOWN", error: "대표 이미지 변경 중 오류가 발생했습니다." };
+  }
+
+  revalidateProductPaths();
+  return { success: true };
+}
+
+/**
+ * 상품 이미지 정보 수정 (admin 전용, Server Action)
+ *
+ * 전달한 순서대로 sort_order를 다시 매기고 대체 텍스트를 갱신합니다.
+ */
+export async function updateProductImages(
+  productId: string,
+  images: { id: string; altText: string }[]
+): Promise<ProductActionResult> {
+  if (!(await hasRole("admin"))) return FORBIDDEN;
+
+  const parsed = productImagesUpdateSchema.safeParse({ productId, images });
+
+  if (!parsed.success) {
+    return {
+      success: false,
+      code: "INVALID_INPUT",
+      error: `이미지 정보를 다시 확인해주세요. (대체 텍스트는 ${PRODUCT_IMAGE_ALT_TEXT_MAX_LENGTH}자 이하)`,
+    };
+  }
+
+  const { productImages } = createRepositories(getServiceRoleClient());
+
+  try {
+    await productImages.updateOrder(
+      productId,
+      parsed.data.images.map((image) => ({ id: image.id, altText: image.altText || null }))
+    );
+  } catch (error) {
+    console.error("Error updating product images:", error);
+    return { success: false, code: "UNKNOWN", error: "이미지 정보 저장 중 오류가 발생했습니다." };
+  }
+
+  revalidateProductPaths(productId);
+  return { success: true, productId };
+}
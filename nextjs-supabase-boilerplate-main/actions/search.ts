@@ -0,0 +1,69 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { createSearchHistoryRepository } from "@/lib/repositories";
+import { searchKeywordSchema } from "@/lib/validations/search";
+
+export type SearchHistoryErrorCode = "UNAUTHORIZED" | "INVALID_INPUT" | "UNKNOWN";
+
+export interface SearchHistoryResult {
+  success: boolean;
+  code?: SearchHistoryErrorCode;
+  error?: string;
+}
+
+const UNAUTHORIZED: SearchHistoryResult = {
+  success: false,
+  code: "UNAUTHORIZED",
+  error: "로그인이 필요합니다.",
+};
+
+/**
+ * 최근 검색어 저장 (Server Action)
+ *
+ * 비로그인 사용자는 클라이언트에서 localStorage에 저장합니다. (lib/search-history.ts)
+ */
+export async function recordSearch(keyword: string): Promise<SearchHistoryResult> {
+  const parsed = searchKeywordSchema.safeParse(keyword);
+
+  if (!parsed.success) {
+    return { success: false, code: "INVALID_INPUT", error: "잘못된 검색어입니다." };
+  }
+
+  const { userId } = await auth();
+  if (!userId) return UNAUTHORIZED;
+
+  try {
+    await createSearchHistoryRepository(createClerkSupabaseClient()).record(
+      userId,
+      parsed.data
+    );
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error recording search:", error);
+    return { success: false, code: "UNKNOWN", error: "검색어 저장 중 오류가 발생했습니다." };
+  }
+}
+
+/**
+ * 최근 검색어 전체 삭제 (Server Action)
+ */
+export async function clearSearchHistory(): Promise<SearchHistoryResult> {
+  const { userId } = await auth();
+  if (!userId) return UNAUTHORIZED;
+
+  try {
+    await createSearchHistoryRepository(createClerkSupabaseClient()).clear(userId);
+
+    return { success: true };
+  } catch (error) {
+    console.error("Error clearing search history:", error);
+    return {
+      success: false,
+      code: "UNKNOWN",
+      error: "최근 검색어 삭제 중 오류가 발생했습니다.",
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { CategoryForm } from "@/components/admin/CategoryForm";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { createCategoryRepository } from "@/lib/repositories";
+
+export default async function AdminEditCategoryPage({
+  params,
+}: {
+  params: Promise<{ slug: string }>;
+}) {
+  const { slug } = await params;
+  const categories = await createCategoryRepository(getServiceRoleClient()).listAll();
+  const category = categories.find((item) => item.slug === slug);
+
+  if (!category) {
+    notFound();
+  }
+
+  // 하위 카테고리가 있는 카테고리는 다른 카테고리 아래로 옮길 수 없음 (2단계까지)
+  const hasChildren = categories.some((item) => item.parent_slug === slug);
+
+  return (
+    <div className="min-h-[calc(100vh-80px)] max-w-3xl mx-auto px-8 py-8">
+      <Link
+        href="/admin/categories"
+        className="inline-flex items-center gap-2 text-gray-600 hover:text-primary mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        카테고리 목록으로 돌아가기
+      </Link>
+      <h1 className="text-4xl font-bold mb-8">카테고리 수정</h1>
+      <CategoryForm
+        category={category}
+        parentOptions={
+          hasChildren ? [] : categories.filter((item) => !item.parent_slug)
+        }
+      />
+    </div>
+  );
+}
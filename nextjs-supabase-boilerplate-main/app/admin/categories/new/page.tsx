@@ -0,0 +1,23 @@
+import Link from "next/link";
+import { ArrowLeft } from "lucide-react";
+import { CategoryForm } from "@/components/admin/CategoryForm";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { createCategoryRepository } from "@/lib/repositories";
+
+export default async function AdminNewCategoryPage() {
+  const categories = await createCategoryRepository(getServiceRoleClient()).listAll();
+
+  return (
+    <div className="min-h-[calc(100vh-80px)] max-w-3xl mx-auto px-8 py-8">
+      <Link
+        href="/admin/categories"
+        className="inline-flex items-center gap-2 text-gray-600 hover:text-primary mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        카테고리 목록으로 돌아가기
+      </Link>
+      <h1 className="text-4xl font-bold mb-8">카테고리 등록</h1>
+      <CategoryForm parentOptions={categories.filter((category) => !category.parent_slug)} />
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import Link from "next/link";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { createCategoryRepository } from "@/lib/repositories";
+import { getCategoryGradient, getCategoryIcon } from "@/lib/categories";
+import type { Category } from "@/types/category";
+
+/**
+ * 관리자 카테고리 목록
+ *
+ * 숨긴 카테고리까지 모두 표시하며, 하위 카테고리는 상위 카테고리 바로 아래에 표시합니다.
+ * (접근 권한은 app/admin/layout.tsx에서 확인)
+ */
+export default async function AdminCategoriesPage() {
+  let categories: Category[] = [];
+  let error: unknown = null;
+
+  try {
+    categories = await createCategoryRepository(getServiceRoleClient()).listAll();
+  } catch (err) {
+    console.error("Error fetching categories:", err);
+    error = err;
+  }
+
+  const labels = new Map(categories.map((category) => [category.slug, category.label]));
+  const rows = categories
+    .filter((category) => !category.parent_slug)
+    .flatMap((parent) => [
+      parent,
+      ...categories.filter((category) => category.parent_slug === parent.slug),
+    ]);
+
+  return (
+    <div className="min-h-[calc(100vh-80px)] max-w-7xl mx-auto px-8 py-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-4xl font-bold mb-2">카테고리 관리</h1>
+          <p className="text-gray-600">전체 {categories.length}개</p>
+        </div>
+        <Link href="/admin/categories/new">
+          <Button>
+            <Plus className="w-4 h-4 mr-2" />
+            카테고리 등록
+          </Button>
+        </Link>
+      </div>
+
+      {error ? (
+        <p className="text-red-600">카테고리 목록을 불러오는 중 오류가 발생했습니다.</p>
+      ) : (
+        <div className="border rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="px-4 py-3 font-semibold">카테고리</th>
+                <th className="px-4 py-3 font-semibold">슬러그</th>
+                <th className="px-4 py-3 font-semibold">상위 카테고리</th>
+                <th className="px-4 py-3 font-semibold text-right">정렬 순서</th>
+                <th className="px-4 py-3 font-semibold">상태</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((category) => {
+                const Icon = getCategoryIcon(category);
+
+                return (
+                  <tr key={category.slug} className="border-t">
+                    <td className="px-4 py-3">
+                      <div className={`flex items-center gap-3 ${category.parent_slug ? "pl-8" : ""}`}>
+                        <div
+                          className={`w-8 h-8 rounded-lg bg-gradient-to-br ${getCategoryGradient(category)} flex items-center justify-center`}
+                        >
+                          <Icon className="w-4 h-4 text-white" />
+                        </div>
+                        <span className="font-medium">{category.label}</span>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 font-mono text-gray-600">{category.slug}</td>
+                    <td className="px-4 py-3">
+                      {category.parent_slug ? labels.get(category.parent_slug) : "-"}
+                    </td>
+                    <td className="px-4 py-3 text-right">{category.sort_order}</td>
+                    <td className="px-4 py-3">
+                      <span
+                        className={`text-xs font-semibold px-2 py-1 rounded ${
+                          category.is_active
+                            ? "text-green-600 bg-green-50"
+                            : "text-gray-600 bg-gray-100"
+                        }`}
+                      >
+                        {category.is_active ? "표시" : "숨김"}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex justify-end">
+                        <Link href={`/admin/categories/${category.slug}/edit`}>
+                          <Button variant="outline" size="sm">
+                            수정
+                          </Button>
+                        </Link>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
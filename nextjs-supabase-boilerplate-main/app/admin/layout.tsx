@@ -0,0 +1,28 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { getRoleFromClaims, meetsRole } from "@/lib/auth";
+
+/**
+ * 관리자 영역 레이아웃
+ *
+ * admin 역할(Clerk publicMetadata.role)만 접근할 수 있습니다.
+ * Middleware의 라우트 정책과 같은 조건을 서버에서 한 번 더 확인합니다.
+ * 로그인하지 않은 경우 Clerk에 설정된 로그인 페이지로 보냅니다.
+ */
+export default async function AdminLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  const { userId, sessionClaims, redirectToSignIn } = await auth();
+
+  if (!userId) {
+    return redirectToSignIn();
+  }
+
+  if (!meetsRole(getRoleFromClaims(sessionClaims), "admin")) {
+    redirect("/forbidden");
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,44 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { ArrowLeft } from "lucide-react";
+import { ProductForm } from "@/components/admin/ProductForm";
+import { ProductImageManager } from "@/components/admin/ProductImageManager";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { createRepositories } from "@/lib/repositories";
+
+export default async function AdminEditProductPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const repositories = createRepositories(getServiceRoleClient());
+  const [product, categories] = await Promise.all([
+    repositories.products.getById(id),
+    repositories.categories.listAll(),
+  ]);
+
+  if (!product) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-80px)] max-w-3xl mx-auto px-8 py-8">
+      <Link
+        href="/admin/products"
+        className="inline-flex items-center gap-2 text-gray-600 hover:text-primary mb-4"
+      >
+        <ArrowLeft className="w-4 h-4" />
+        상품 목록으로 돌아가기
+      </Link>
+      <h1 className="text-4xl font-bold mb-8">상품 수정</h1>
+      <ProductForm product={product} categories={categories} />
+
+      <h2 className="text-2xl font-bold mt-12 mb-6">상품 이미지</h2>
+      <ProductImageManager
+        productId={product.id}
+        images={product.product_images ?? []}
+      />
+    </div>
+  );
+}
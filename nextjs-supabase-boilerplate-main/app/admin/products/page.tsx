@@ -0,0 +1,109 @@
+import Link from "next/link";
+import { FolderTree, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ProductActiveToggle } from "@/components/admin/ProductActiveToggle";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { createProductRepository } from "@/lib/repositories";
+import type { Product } from "@/types/product";
+
+/**
+ * 관리자 상품 목록
+ *
+ * 판매 중지된 상품까지 모두 표시하므로 service_role 클라이언트로 조회합니다.
+ * (접근 권한은 app/admin/layout.tsx에서 확인)
+ */
+export default async function AdminProductsPage() {
+  let products: Product[] = [];
+  let error: unknown = null;
+
+  try {
+    products = await createProductRepository(getServiceRoleClient()).listAll();
+  } catch (err) {
+    console.error("Error fetching products:", err);
+    error = err;
+  }
+
+  return (
+    <div className="min-h-[calc(100vh-80px)] max-w-7xl mx-auto px-8 py-8">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-4xl font-bold mb-2">상품 관리</h1>
+          <p className="text-gray-600">전체 {products.length}개</p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/admin/categories">
+            <Button variant="outline">
+              <FolderTree className="w-4 h-4 mr-2" />
+              카테고리 관리
+            </Button>
+          </Link>
+          <Link href="/admin/products/new">
+            <Button>
+              <Plus className="w-4 h-4 mr-2" />
+              상품 등록
+            </Button>
+          </Link>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-red-600">상품 목록을 불러오는 중 오류가 발생했습니다.</p>
+      ) : (
+        <div className="border rounded-lg overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left">
+              <tr>
+                <th className="px-4 py-3 font-semibold">상품명</th>
+                <th className="px-4 py-3 font-semibold">카테고리</th>
+                <th className="px-4 py-3 font-semibold text-right">가격</th>
+                <th className="px-4 py-3 font-semibold text-right">재고</th>
+                <th className="px-4 py-3 font-semibold">상태</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {products.map((product) => (
+                <tr key={product.id} className="border-t">
+                  <td className="px-4 py-3 font-medium">{product.name}</td>
+                  <td className="px-4 py-3">
+                    {product.category_info?.label ?? "-"}
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {Number(product.price).toLocaleString()}원
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    {product.stock_quantity.toLocaleString()}
+                  </td>
+                  <td className="px-4 py-3">
+                    <span
+                      className={`text-xs font-semibold px-2 py-1 rounded ${
+                        product.is_active
+                          ? "text-green-600 bg-green-50"
+                          : "text-gray-600 bg-gray-100"
+                      }`}
+                    >
+                      {product.is_active ? "판매중" : "판매 중지"}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex justify-end gap-2">
+                      <Link href={`/admin/products/${product.id}/edit`}>
+                        <Button variant="outline" size="sm">
+                          수정
+                        </Button>
+                      </Link>
+                      <ProductActiveToggle
+                        productId={product.id}
+                        isActive={product.is_active}
+                      />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { timingSafeEqual } from "crypto";
+import { NextResponse } from "next/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { createRepositories } from "@/lib/repositories";
+import { getPendingOrderTtlMinutes } from "@/lib/orders";
+
+/**
+ * 미결제 주문 만료 API (예약 작업)
+ *
+ * Vercel Cron(vercel.json)에서 주기적으로 호출되며,
+ * `PENDING_ORDER_TTL_MINUTES`(기본 30분)가 지난 pending 주문을 취소하고 재고를 복구합니다.
+ * vercel.json의 10분 주기는 Vercel Pro 플랜 이상이 필요합니다. (docs/DEPLOYMENT.md 참고)
+ *
+ * `Authorization: Bearer <CRON_SECRET>` 헤더가 있어야 실행됩니다.
+ * (Vercel Cron은 CRON_SECRET 환경 변수가 설정되어 있으면 이 헤더를 자동으로 보냅니다.)
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedCronRequest(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const ttlMinutes = getPendingOrderTtlMinutes();
+  const { orders } = createRepositories(getServiceRoleClient());
+
+  try {
+    const expired = await orders.expirePending(ttlMinutes);
+
+    return NextResponse.json({ success: true, expired, ttlMinutes });
+  } catch (error) {
+    console.error("Expire pending orders error:", error);
+    return NextResponse.json(
+      {
+        error: "Failed to expire orders",
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function isAuthorizedCronRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET;
+
+  // 시크릿이 설정되지 않았으면 누구도 호출할 수 없도록 거부
+  if (!secret) return false;
+
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get("authorization") ?? "");
+
+  return (
+    expected.length === received.length && timingSafeEqual(expected, received)
+  );
+}
@@ -0,0 +1,186 @@
+import { auth } from "@clerk/nextjs/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { createRepositories } from "@/lib/repositories";
+import {
+  applyPaymentStatusToOrder,
+  recordPayment,
+  refundPaymentForCancelledOrder,
+  voidPayment,
+} from "@/lib/payments";
+import { getTossPaymentsClient, TossPaymentsError } from "@/lib/toss/client";
+import { isPendingOrderExpired } from "@/lib/orders";
+import type { Order, OrderStatus } from "@/types/order";
+
+const confirmRequestSchema = z.object({
+  paymentKey: z.string().min(1),
+  orderId: z.string().uuid(),
+  amount: z.coerce.number().int().nonnegative(),
+});
+
+/**
+ * Toss Payments 결제 승인 API
+ *
+ * 결제 성공 리다이렉트(/payment/success)에서 호출됩니다.
+ * 1. 주문이 현재 사용자의 결제 대기(pending) 주문이고 유효 시간이 지나지 않았는지 확인
+ * 2. 요청 금액과 orders.total_amount 비교 (금액 위변조 방지)
+ * 3. Toss `/v1/payments/confirm` 호출로 결제 승인
+ * 4. 승인된 금액을 다시 확인한 뒤에만 주문을 confirmed로 변경
+ *    (다르면 승인된 결제를 바로 환불, 환불에 실패하면 관리자 확인 필요로 표시)
+ *    (가상계좌는 입금 전까지 pending 유지, 입금 완료는 웹훅으로 반영)
+ * 5. 승인 결과를 payments 테이블에 기록
+ * 6. 승인하는 사이 주문이 만료(취소)되었으면 결제를 전액 환불하고 409 반환
+ */
+export async function POST(request: Request) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const parsed = confirmRequestSchema.safeParse(
+      await request.json().catch(() => null)
+    );
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid request", details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { paymentKey, orderId, amount } = parsed.data;
+    const { orders, payments } = createRepositories(getServiceRoleClient());
+
+    let order: Order | null;
+    try {
+      order = await orders.getById(userId, orderId);
+    } catch (orderError) {
+      console.error("Order lookup error:", orderError);
+      return NextResponse.json(
+        {
+          error: "Failed to load order",
+          details: orderError instanceof Error ? orderError.message : String(orderError),
+        },
+        { status: 500 }
+      );
+    }
+
+    if (!order) {
+      return NextResponse.json({ error: "Order not found" }, { status: 404 });
+    }
+
+    // 이미 승인된 주문 (새로고침 등으로 재요청된 경우)
+    if (order.status === "confirmed") {
+      return NextResponse.json({
+        success: true,
+        orderId: order.id,
+        status: order.status,
+      });
+    }
+
+    if (order.status !== "pending") {
+      return NextResponse.json(
+        { error: "Order is not awaiting payment" },
+        { status: 409 }
+      );
+    }
+
+    // 만료 작업과 동시에 승인되지 않도록 유효 시간이 지난 주문은 결제하지 않음
+    if (isPendingOrderExpired(order.created_at)) {
+      return NextResponse.json({ error: "Order has expired" }, { status: 409 });
+    }
+
+    // 금액 검증: 결제 요청 금액이 주문 금액과 다르면 승인하지 않음
+    if (Number(order.total_amount) !== amount) {
+      return NextResponse.json(
+        { error: "Payment amount does not match order total" },
+        { status: 400 }
+      );
+    }
+
+    const toss = getTossPaymentsClient();
+    const payment = await toss.confirmPayment({ paymentKey, orderId, amount });
+
+    if (payment.totalAmount !== amount || payment.orderId !== orderId) {
+      console.error("Confirmed payment mismatch:", {
+        orderId,
+        amount,
+        payment,
+      });
+      await voidPayment({ orders, payments }, toss, {
+        orderId,
+        clerkId: userId,
+        payment,
+        source: "confirm",
+        cancelReason: "결제 금액이 주문 금액과 다름",
+        reviewReason: "PAYMENT_MISMATCH",
+      });
+      return NextResponse.json(
+        { error: "Confirmed payment does not match order" },
+        { status: 409 }
+      );
+    }
+
+    let orderStatus: OrderStatus | null;
+
+    try {
+      orderStatus = await applyPaymentStatusToOrder(orders, orderId, payment.status);
+    } catch (updateError) {
+      console.error("Order update error:", updateError);
+      return NextResponse.json(
+        { error: "Failed to update order" },
+        { status: 500 }
+      );
+    }
+
+    // 결제는 이미 승인되었으므로 기록 실패가 주문 확정을 되돌리지 않도록 함
+    try {
+      await recordPayment(payments, {
+        orderId,
+        clerkId: userId,
+        payment,
+        source: "confirm",
+      });
+    } catch (recordError) {
+      console.error("Payment record error:", recordError);
+    }
+
+    if (
+      !orderStatus &&
+      (await refundPaymentForCancelledOrder({ orders, payments }, toss, {
+        orderId,
+        clerkId: userId,
+        payment,
+        source: "confirm",
+      }))
+    ) {
+      return NextResponse.json(
+        { error: "Order was cancelled before payment was confirmed" },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      orderId,
+      status: orderStatus ?? order.status,
+    });
+  } catch (error) {
+    if (error instanceof TossPaymentsError) {
+      console.error("Toss confirm error:", error.code, error.message);
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.status >= 500 ? 502 : 400 }
+      );
+    }
+
+    console.error("Confirm payment error:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { createClerkSupabaseClient } from "@/lib/supabase/server";
+import { createRepositories, RepositoryError } from "@/lib/repositories";
+import { searchKeywordSchema } from "@/lib/validations/search";
+import type { SearchSuggestions } from "@/types/search";
+
+const MAX_PRODUCT_SUGGESTIONS = 5;
+
+/**
+ * 검색어 자동완성 API
+ *
+ * 상품 목록 검색창에서 입력이 멈추면(debounce) 호출합니다.
+ * `GET /api/search/suggestions?q=검색어`
+ * → 상품명이 비슷한 판매 중 상품과 이름이 일치하는 카테고리를 반환합니다.
+ */
+export async function GET(request: Request) {
+  const query = new URL(request.url).searchParams.get("q") ?? "";
+  const parsed = searchKeywordSchema.safeParse(query);
+
+  if (!parsed.success) {
+    return NextResponse.json<SearchSuggestions>({ products: [], categories: [] });
+  }
+
+  const keyword = parsed.data.toLowerCase();
+
+  try {
+    const repositories = createRepositories(createClerkSupabaseClient());
+    const [products, categories] = await Promise.all([
+      repositories.products.suggest(keyword, MAX_PRODUCT_SUGGESTIONS),
+      repositories.categories.listActive(),
+    ]);
+
+    return NextResponse.json<SearchSuggestions>({
+      products,
+      categories: categories.filter(
+        (category) =>
+          category.slug.includes(keyword) || category.label.toLowerCase().includes(keyword)
+      ),
+    });
+  } catch (error) {
+    console.error(
+      "Search suggestions error:",
+      error instanceof RepositoryError ? error.cause : error
+    );
+    return NextResponse.json({ error: "Failed to load suggestions" }, { status: 500 });
+  }
+}
@@ -0,0 +1,176 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/sync-user/route";
+import { detectCartChanges } from "@/lib/cart";
+import {
+  createInMemoryCartRepository,
+  createInMemoryStore,
+  createInMemoryUserRepository,
+  type InMemoryStore,
+} from "@/lib/repositories/in-memory";
+import type { Repositories } from "@/lib/repositories";
+import type { CartItem, GuestCartItem } from "@/types/cart";
+import type { Product } from "@/types/product";
+
+// Clerk 세션, 비로그인 장바구니 쿠키, 저장소를 테스트용으로 교체
+const context = vi.hoisted(() => ({
+  userId: null as string | null,
+  guestItems: [] as GuestCartItem[],
+  repositories: {} as Partial<Repositories>,
+}));
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: async () => ({ userId: context.userId }),
+  clerkClient: async () => ({
+    users: {
+      getUser: async (id: string) => ({
+        id,
+        fullName: "테스트 고객",
+        username: null,
+        emailAddresses: [],
+      }),
+    },
+  }),
+}));
+
+vi.mock("@/lib/guest-cart", () => ({
+  readGuestCart: async () => context.guestItems,
+  clearGuestCart: vi.fn(async () => {
+    context.guestItems = [];
+  }),
+}));
+
+vi.mock("@/lib/supabase/service-role", () => ({ getServiceRoleClient: vi.fn() }));
+
+vi.mock("@/lib/repositories", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/repositories")>()),
+  createRepositories: () => context.repositories,
+}));
+
+const CLERK_ID = "user_sync";
+const PRODUCT_A = "00000000-0000-4000-8000-0000000000a1";
+const PRODUCT_B = "00000000-0000-4000-8000-0000000000b1";
+
+function buildProduct(id: string, price: number, stockQuantity = 10): Product {
+  return {
+    id,
+    name: `상품 ${id.slice(-2)}`,
+    description: null,
+    category: null,
+    price,
+    stock_quantity: stockQuantity,
+    is_active: true,
+    created_at: "2025-12-07T00:00:00.000Z",
+    updated_at: "2025-12-07T00:00:00.000Z",
+  };
+}
+
+function buildCartItem(productId: string, quantity: number, priceAtAdd: number): CartItem {
+  return {
+    id: `cart_${productId.slice(-2)}`,
+    clerk_id: CLERK_ID,
+    product_id: productId,
+    quantity,
+    price_at_add: priceAtAdd,
+    created_at: "2025-12-07T00:00:00.000Z",
+    updated_at: "2025-12-07T00:00:00.000Z",
+  };
+}
+
+let store: InMemoryStore;
+
+function setup(seed: Partial<InMemoryStore>, guestItems: GuestCartItem[]) {
+  store = createInMemoryStore(seed);
+  context.userId = CLERK_ID;
+  context.guestItems = guestItems;
+  context.repositories = {
+    users: createInMemoryUserRepository(store),
+    cart: createInMemoryCartRepository(store),
+  };
+}
+
+describe("POST /api/sync-user", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("로그인하지 않았으면 401을 반환한다", async () => {
+    setup({}, []);
+    context.userId = null;
+
+    const response = await POST();
+
+    expect(response.status).toBe(401);
+  });
+
+  it("사용자를 동기화하고 비로그인 장바구니를 병합한 뒤 쿠키를 비운다", async () => {
+    setup({ products: [buildProduct(PRODUCT_A, 10000)] }, [
+      { productId: PRODUCT_A, quantity: 2, priceAtAdd: 10000 },
+    ]);
+
+    const response = await POST();
+
+    await expect(response.json()).resolves.toMatchObject({ success: true, mergedCartItems: 1 });
+    expect(store.users).toEqual([expect.objectContaining({ clerk_id: CLERK_ID, name: "테스트 고객" })]);
+    expect(store.cartItems).toEqual([
+      expect.objectContaining({ product_id: PRODUCT_A, quantity: 2 }),
+    ]);
+    expect(context.guestItems).toEqual([]);
+  });
+
+  it("새로 병합한 상품은 담은 가격을 유지해 가격 변경을 확인하게 한다", async () => {
+    setup({ products: [buildProduct(PRODUCT_A, 12000)] }, [
+      { productId: PRODUCT_A, quantity: 1, priceAtAdd: 10000 },
+    ]);
+
+    await POST();
+
+    const items = await context.repositories.cart!.listItems(CLERK_ID);
+    expect(items[0].price_at_add).toBe(10000);
+    expect(detectCartChanges(items)).toEqual([
+      expect.objectContaining({
+        type: "PRICE_INCREASED",
+        previousPrice: 10000,
+        currentPrice: 12000,
+      }),
+    ]);
+  });
+
+  it("이미 담겨 있던 상품은 수량만 합치고 담은 가격은 바꾸지 않는다", async () => {
+    setup(
+      {
+        products: [buildProduct(PRODUCT_A, 10000, 3)],
+        cartItems: [buildCartItem(PRODUCT_A, 2, 11000)],
+      },
+      [{ productId: PRODUCT_A, quantity: 2, priceAtAdd: 8000 }]
+    );
+
+    await POST();
+
+    // 재고(3개)까지만 병합
+    expect(store.cartItems).toEqual([
+      expect.objectContaining({ quantity: 3, price_at_add: 11000 }),
+    ]);
+  });
+
+  it("이전 형식의 쿠키(priceAtAdd 없음)와 판매 중지 상품도 처리한다", async () => {
+    setup(
+      {
+        products: [
+          buildProduct(PRODUCT_A, 12000),
+          { ...buildProduct(PRODUCT_B, 5000), is_active: false },
+        ],
+      },
+      [
+        { productId: PRODUCT_A, quantity: 1 },
+        { productId: PRODUCT_B, quantity: 1, priceAtAdd: 5000 },
+      ]
+    );
+
+    const response = await POST();
+
+    await expect(response.json()).resolves.toMatchObject({ mergedCartItems: 1 });
+    expect(store.cartItems).toEqual([
+      expect.objectContaining({ product_id: PRODUCT_A, price_at_add: 12000 }),
+    ]);
+  });
+});
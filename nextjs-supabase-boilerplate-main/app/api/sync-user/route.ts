@@ -1,12 +1,15 @@
 import { auth, clerkClient } from "@clerk/nextjs/server";
 import { NextResponse } from "next/server";
 import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import { createRepositories, RepositoryError } from "@/lib/repositories";
+import { clearGuestCart, readGuestCart } from "@/lib/guest-cart";
 
 /**
  * Clerk 사용자를 Supabase users 테이블에 동기화하는 API
  *
  * 클라이언트에서 로그인 후 이 API를 호출하여 사용자 정보를 Supabase에 저장합니다.
  * 이미 존재하는 경우 업데이트하고, 없으면 새로 생성합니다.
+ * 비로그인 상태에서 담아 둔 장바구니 쿠키가 있으면 사용자 장바구니에 합친 뒤 쿠키를 삭제합니다.
  */
 export async function POST() {
   try {
@@ -26,39 +29,40 @@ export async function POST() {
     }
 
     // Supabase에 사용자 정보 동기화
-    const supabase = getServiceRoleClient();
+    const { users, cart } = createRepositories(getServiceRoleClient());
 
-    const { data, error } = await supabase
-      .from("users")
-      .upsert(
-        {
-          clerk_id: clerkUser.id,
-          name:
-            clerkUser.fullName ||
-            clerkUser.username ||
-            clerkUser.emailAddresses[0]?.emailAddress ||
-            "Unknown",
-        },
-        {
-          onConflict: "clerk_id",
-        }
-      )
-      .select()
-      .single();
+    const user = await users.upsert({
+      clerkId: clerkUser.id,
+      name:
+        clerkUser.fullName ||
+        clerkUser.username ||
+        clerkUser.emailAddresses[0]?.emailAddress ||
+        "Unknown",
+    });
 
-    if (error) {
-      console.error("Supabase sync error:", error);
-      return NextResponse.json(
-        { error: "Failed to sync user", details: error.message },
-        { status: 500 }
-      );
+    // 비로그인 장바구니 병합 (같은 상품은 수량을 합치고 재고만큼으로 제한)
+    const guestItems = await readGuestCart();
+    let mergedCartItems = 0;
+
+    if (guestItems.length > 0) {
+      mergedCartItems = await cart.mergeGuestItems(userId, guestItems);
+      await clearGuestCart();
     }
 
     return NextResponse.json({
       success: true,
-      user: data,
+      user,
+      mergedCartItems,
     });
   } catch (error) {
+    if (error instanceof RepositoryError) {
+      console.error("Supabase sync error:", error.cause);
+      return NextResponse.json(
+        { error: "Failed to sync user", details: error.message },
+        { status: 500 }
+      );
+    }
+
     console.error("Sync user error:", error);
     return NextResponse.json(
       { error: "Internal server error" },
@@ -0,0 +1,272 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/webhooks/toss/route";
+import { recordPayment } from "@/lib/payments";
+import {
+  createInMemoryOrderRepository,
+  createInMemoryPaymentRepository,
+  createInMemoryStore,
+  createInMemoryWebhookEventRepository,
+  type InMemoryStore,
+} from "@/lib/repositories/in-memory";
+import { createFixtureTossPaymentsClient, paymentFixtures } from "@/lib/toss/fixtures";
+import depositCallbackDone from "@/lib/toss/fixtures/webhooks/deposit-callback-done.json";
+import statusChangedCanceled from "@/lib/toss/fixtures/webhooks/payment-status-changed-canceled.json";
+import statusChangedDone from "@/lib/toss/fixtures/webhooks/payment-status-changed-done.json";
+import statusChangedExpired from "@/lib/toss/fixtures/webhooks/payment-status-changed-expired.json";
+import statusChangedPartialCanceled from "@/lib/toss/fixtures/webhooks/payment-status-changed-partial-canceled.json";
+import statusChangedWaitingForDeposit from "@/lib/toss/fixtures/webhooks/payment-status-changed-waiting-for-deposit.json";
+import type { Repositories } from "@/lib/repositories";
+import type { TossPaymentsClient } from "@/lib/toss/client";
+import type { Order, OrderStatus } from "@/types/order";
+import type { TossPayment } from "@/types/toss";
+
+// 라우트가 생성하는 저장소와 Toss 클라이언트를 인메모리 저장소와 fixture 클라이언트로 교체
+const context = vi.hoisted(() => ({
+  repositories: {} as Partial<Repositories>,
+  toss: {} as TossPaymentsClient,
+}));
+
+vi.mock("@/lib/supabase/service-role", () => ({ getServiceRoleClient: vi.fn() }));
+
+vi.mock("@/lib/repositories", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/repositories")>()),
+  createRepositories: () => context.repositories,
+}));
+
+vi.mock("@/lib/toss/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/toss/client")>()),
+  getTossPaymentsClient: () => context.toss,
+}));
+
+const VBANK_ORDER_ID = depositCallbackDone.orderId;
+
+function buildOrder(id: string, status: OrderStatus): Order {
+  return {
+    id,
+    clerk_id: "user_webhook",
+    status,
+    subtotal_amount: 10000,
+    discount_amount: 0,
+    shipping_fee: 0,
+    total_amount: 10000,
+    coupon_code: null,
+    order_note: null,
+    shipping_address: null,
+    expired_at: null,
+    review_requested_at: null,
+    review_reason: null,
+    created_at: "2025-12-07T00:00:00.000Z",
+    updated_at: "2025-12-07T00:00:00.000Z",
+  };
+}
+
+function findFixture(paymentKey: string): TossPayment {
+  return paymentFixtures.find((payment) => payment.paymentKey === paymentKey)!;
+}
+
+function postWebhook(body: unknown) {
+  return POST(
+    new Request("http://localhost/api/webhooks/toss", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    })
+  );
+}
+
+let store: InMemoryStore;
+let tossStore: Map<string, TossPayment>;
+
+/** fixture 주문을 만들고, 테스트마다 새 Toss 결제 저장소를 사용 */
+function setup(orders: Order[]) {
+  store = createInMemoryStore({ orders });
+  tossStore = new Map(paymentFixtures.map((payment) => [payment.paymentKey, payment]));
+
+  context.repositories = {
+    orders: createInMemoryOrderRepository(store),
+    payments: createInMemoryPaymentRepository(store),
+    webhookEvents: createInMemoryWebhookEventRepository(store),
+  };
+  context.toss = createFixtureTossPaymentsClient(tossStore);
+  vi.spyOn(context.toss, "getPayment");
+}
+
+beforeEach(() => {
+  vi.spyOn(console, "error").mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("POST /api/webhooks/toss", () => {
+  describe("PAYMENT_STATUS_CHANGED", () => {
+    it.each([
+      ["DONE", statusChangedDone, "pending", "confirmed"],
+      ["CANCELED", statusChangedCanceled, "confirmed", "cancelled"],
+      ["PARTIAL_CANCELED", statusChangedPartialCanceled, "confirmed", "confirmed"],
+      ["WAITING_FOR_DEPOSIT", statusChangedWaitingForDeposit, "pending", "pending"],
+      ["EXPIRED", statusChangedExpired, "pending", "cancelled"],
+    ] as const)("%s 결제를 주문 상태에 반영한다", async (status, event, before, after) => {
+      setup([buildOrder(event.data.orderId, before)]);
+
+      const response = await postWebhook(event);
+
+      expect(response.status).toBe(200);
+      await expect(response.json()).resolves.toEqual({ success: true, status: "processed" });
+      expect(store.orders[0].status).toBe(after);
+      expect(store.payments[0]).toMatchObject({ payment_key: event.data.paymentKey, status });
+      expect(store.webhookEvents[0].status).toBe("processed");
+    });
+
+    it("부분 취소 내역을 환불 기록으로 저장한다", async () => {
+      setup([buildOrder(statusChangedPartialCanceled.data.orderId, "confirmed")]);
+
+      await postWebhook(statusChangedPartialCanceled);
+
+      expect(store.refunds).toEqual([
+        expect.objectContaining({ transaction_key: "tfix_tx_cancel_partial", cancel_amount: 25000 }),
+      ]);
+    });
+
+    it("본문 대신 Toss API로 다시 조회한 결제 상태를 반영한다", async () => {
+      setup([buildOrder(statusChangedDone.data.orderId, "pending")]);
+
+      // 결제 완료로 위조된 본문이지만 Toss에서는 아직 입금 대기
+      tossStore.set(statusChangedDone.data.paymentKey, {
+        ...findFixture(statusChangedDone.data.paymentKey),
+        status: "WAITING_FOR_DEPOSIT",
+      });
+
+      await postWebhook(statusChangedDone);
+
+      expect(store.orders[0].status).toBe("pending");
+      expect(store.payments[0].status).toBe("WAITING_FOR_DEPOSIT");
+    });
+
+    it("Toss에 없는 결제면 400을 반환하고 실패로 기록한다", async () => {
+      setup([buildOrder(statusChangedDone.data.orderId, "pending")]);
+      tossStore.clear();
+
+      const response = await postWebhook(statusChangedDone);
+
+      expect(response.status).toBe(400);
+      expect(store.orders[0].status).toBe("pending");
+      expect(store.payments).toHaveLength(0);
+      expect(store.webhookEvents[0]).toMatchObject({
+        status: "failed",
+        error: "Unknown payment: tfix_card_done",
+      });
+    });
+
+    it("다른 주문의 결제를 가리키면 400을 반환한다", async () => {
+      setup([buildOrder(statusChangedDone.data.orderId, "pending")]);
+
+      const response = await postWebhook({
+        ...statusChangedDone,
+        data: { ...statusChangedDone.data, paymentKey: "tfix_card_canceled" },
+      });
+
+      expect(response.status).toBe(400);
+      expect(store.orders[0].status).toBe("pending");
+    });
+
+    it("이 서비스에서 생성하지 않은 주문의 결제는 무시한다", async () => {
+      setup([]);
+
+      const response = await postWebhook(statusChangedDone);
+
+      expect(response.status).toBe(200);
+      await expect(response.json()).resolves.toEqual({ success: true, status: "ignored" });
+      expect(store.payments).toHaveLength(0);
+      expect(store.webhookEvents[0].status).toBe("ignored");
+    });
+  });
+
+  describe("재전송", () => {
+    it("처리된 이벤트는 수신 횟수만 기록하고 다시 처리하지 않는다", async () => {
+      setup([buildOrder(statusChangedDone.data.orderId, "pending")]);
+
+      await postWebhook(statusChangedDone);
+      const response = await postWebhook(statusChangedDone);
+
+      await expect(response.json()).resolves.toEqual({ success: true, duplicate: true });
+      expect(context.toss.getPayment).toHaveBeenCalledTimes(1);
+      expect(store.webhookEvents).toHaveLength(1);
+      expect(store.webhookEvents[0].delivery_count).toBe(2);
+    });
+
+    it("실패한 이벤트는 재전송되면 다시 처리한다", async () => {
+      setup([buildOrder(statusChangedDone.data.orderId, "pending")]);
+      const payment = findFixture(statusChangedDone.data.paymentKey);
+      tossStore.clear();
+
+      await postWebhook(statusChangedDone);
+      tossStore.set(payment.paymentKey, payment);
+      const response = await postWebhook(statusChangedDone);
+
+      await expect(response.json()).resolves.toEqual({ success: true, status: "processed" });
+      expect(store.orders[0].status).toBe("confirmed");
+      expect(store.webhookEvents[0]).toMatchObject({ status: "processed", delivery_count: 2 });
+    });
+  });
+
+  describe("가상계좌 입금 콜백", () => {
+    /** 결제 승인 시처럼 입금 대기 결제와 secret을 저장 */
+    async function setupWaitingDeposit() {
+      setup([buildOrder(VBANK_ORDER_ID, "pending")]);
+
+      await recordPayment(context.repositories.payments!, {
+        orderId: VBANK_ORDER_ID,
+        clerkId: "user_webhook",
+        payment: findFixture("tfix_vbank_waiting"),
+        source: "confirm",
+      });
+    }
+
+    it("Toss에서 입금 완료된 결제면 주문을 확정한다", async () => {
+      await setupWaitingDeposit();
+      tossStore.set("tfix_vbank_waiting", {
+        ...findFixture("tfix_vbank_waiting"),
+        status: "DONE",
+        approvedAt: "2025-12-07T15:00:00+09:00",
+      });
+
+      const response = await postWebhook(depositCallbackDone);
+
+      expect(response.status).toBe(200);
+      expect(store.orders[0].status).toBe("confirmed");
+      expect(store.payments[0].status).toBe("DONE");
+    });
+
+    it("secret이 맞아도 콜백의 status는 믿지 않고 Toss의 결제 상태를 반영한다", async () => {
+      await setupWaitingDeposit();
+
+      const response = await postWebhook(depositCallbackDone);
+
+      expect(response.status).toBe(200);
+      expect(context.toss.getPayment).toHaveBeenCalledWith("tfix_vbank_waiting");
+      expect(store.orders[0].status).toBe("pending");
+      expect(store.payments[0].status).toBe("WAITING_FOR_DEPOSIT");
+    });
+
+    it("secret이 다르면 400을 반환하고 Toss를 조회하지 않는다", async () => {
+      await setupWaitingDeposit();
+
+      const response = await postWebhook({ ...depositCallbackDone, secret: "forged_secret" });
+
+      expect(response.status).toBe(400);
+      expect(context.toss.getPayment).not.toHaveBeenCalled();
+      expect(store.orders[0].status).toBe("pending");
+    });
+
+    it("저장된 결제가 없는 주문의 콜백은 400을 반환한다", async () => {
+      setup([buildOrder(VBANK_ORDER_ID, "pending")]);
+
+      const response = await postWebhook(depositCallbackDone);
+
+      expect(response.status).toBe(400);
+      expect(store.orders[0].status).toBe("pending");
+    });
+  });
+});
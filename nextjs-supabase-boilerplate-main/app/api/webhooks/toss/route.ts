@@ -0,0 +1,219 @@
+import { NextResponse } from "next/server";
+import { getServiceRoleClient } from "@/lib/supabase/service-role";
+import {
+  createRepositories,
+  RepositoryError,
+  type Repositories,
+  type WebhookEvent,
+  type WebhookEventOutcome,
+} from "@/lib/repositories";
+import { getTossPaymentsClient, TossPaymentsError } from "@/lib/toss/client";
+import {
+  applyPaymentStatusToOrder,
+  recordPayment,
+  refundPaymentForCancelledOrder,
+} from "@/lib/payments";
+import {
+  getWebhookEventKey,
+  isDepositCallbackEvent,
+  isPaymentStatusChangedEvent,
+  isValidDepositSecret,
+} from "@/lib/toss/webhook";
+import type { Json } from "@/database.types";
+import type { TossDepositCallbackEvent, TossPayment } from "@/types/toss";
+
+const PROVIDER = "toss";
+
+type EventOutcome = Exclude<WebhookEventOutcome, "failed">;
+
+/**
+ * Toss Payments 웹훅 수신 API
+ *
+ * 가상계좌 입금, 결제 취소/부분 취소 등 사용자가 결제 페이지를 떠난 뒤
+ * 발생하는 결제 상태 변경을 주문에 반영합니다.
+ *
+ * - PAYMENT_STATUS_CHANGED: 본문을 믿지 않고 Toss API로 결제를 다시 조회해 검증
+ * - 가상계좌 입금 콜백: 결제 승인 시 받은 secret과 비교한 뒤 Toss API로 결제를 다시 조회해 검증
+ * - 모든 수신 이벤트를 webhook_events에 기록하고, 재전송된 이벤트는 중복 처리하지 않음
+ * - 이미 취소(만료)된 주문의 결제 완료는 전액 환불
+ *
+ * Toss는 200 응답을 받지 못하면 재전송하므로, 처리 실패 시 500을 반환합니다.
+ */
+export async function POST(request: Request) {
+  const rawBody = await request.text();
+
+  let event: unknown;
+  try {
+    event = JSON.parse(rawBody);
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  // "null", 숫자, 문자열, 배열처럼 객체가 아닌 JSON 본문
+  if (typeof event !== "object" || event === null || Array.isArray(event)) {
+    return NextResponse.json({ error: "Invalid event" }, { status: 400 });
+  }
+
+  const statusChangedEvent = isPaymentStatusChangedEvent(event) ? event : null;
+  const depositCallbackEvent = isDepositCallbackEvent(event) ? event : null;
+
+  if (!statusChangedEvent && !depositCallbackEvent) {
+    return NextResponse.json({ error: "Unsupported event" }, { status: 400 });
+  }
+
+  const repositories = createRepositories(getServiceRoleClient());
+  const { webhookEvents } = repositories;
+  const eventKey = getWebhookEventKey(rawBody);
+
+  // 1. 이벤트 기록 (재전송된 이벤트는 수신 횟수만 증가)
+  let eventId: string;
+
+  try {
+    eventId = await webhookEvents.create({
+      provider: PROVIDER,
+      eventKey,
+      eventType: statusChangedEvent?.eventType ?? "DEPOSIT_CALLBACK",
+      payload: event as Json,
+    });
+  } catch (insertError) {
+    // 이미 수신한 이벤트
+    if (!(insertError instanceof RepositoryError && insertError.code === "CONFLICT")) {
+      console.error("Webhook event insert error:", insertError);
+      return NextResponse.json({ error: "Failed to record event" }, { status: 500 });
+    }
+
+    let existing: WebhookEvent | null;
+    try {
+      existing = await webhookEvents.getByKey(PROVIDER, eventKey);
+    } catch (existingError) {
+      console.error("Webhook event lookup error:", existingError);
+      return NextResponse.json({ error: "Failed to record event" }, { status: 500 });
+    }
+
+    if (!existing) {
+      return NextResponse.json({ error: "Failed to record event" }, { status: 500 });
+    }
+
+    await webhookEvents
+      .recordRedelivery(existing)
+      .catch((error) => console.error("Webhook redelivery update error:", error));
+
+    // 이미 처리 완료된 이벤트는 다시 처리하지 않음 (실패했던 이벤트만 재처리)
+    if (existing.status === "processed" || existing.status === "ignored") {
+      return NextResponse.json({ success: true, duplicate: true });
+    }
+
+    eventId = existing.id;
+  }
+
+  // 2. 이벤트 검증 및 주문 반영
+  try {
+    const outcome = statusChangedEvent
+      ? await handlePaymentStatusChanged(repositories, statusChangedEvent.data)
+      : await handleDepositCallback(repositories, depositCallbackEvent);
+
+    await webhookEvents
+      .markOutcome(eventId, outcome)
+      .catch((error) => console.error("Webhook event update error:", error));
+
+    return NextResponse.json({ success: true, status: outcome });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error("Webhook processing error:", error);
+
+    await webhookEvents
+      .markOutcome(eventId, "failed", message)
+      .catch((updateError) => console.error("Webhook event update error:", updateError));
+
+    // 검증 실패(존재하지 않는 결제 등)는 재전송해도 소용없으므로 400
+    if (error instanceof WebhookVerificationError) {
+      return NextResponse.json({ error: message }, { status: 400 });
+    }
+
+    return NextResponse.json({ error: "Failed to process event" }, { status: 500 });
+  }
+}
+
+class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookVerificationError";
+  }
+}
+
+/**
+ * 웹훅 본문 대신 Toss API로 결제를 다시 조회
+ * 존재하지 않는 결제이거나 다른 주문의 결제면 WebhookVerificationError
+ */
+async function fetchVerifiedPayment(paymentKey: string, orderId: string): Promise<TossPayment> {
+  let payment: TossPayment;
+  try {
+    payment = await getTossPaymentsClient().getPayment(paymentKey);
+  } catch (error) {
+    if (error instanceof TossPaymentsError && error.status === 404) {
+      throw new WebhookVerificationError(`Unknown payment: ${paymentKey}`);
+    }
+    throw error;
+  }
+
+  if (payment.orderId !== orderId) {
+    throw new WebhookVerificationError("Payment does not match event order");
+  }
+
+  return payment;
+}
+
+async function handlePaymentStatusChanged(
+  repositories: Repositories,
+  data: TossPayment
+): Promise<EventOutcome> {
+  const payment = await fetchVerifiedPayment(data.paymentKey, data.orderId);
+
+  return applyPayment(repositories, payment);
+}
+
+/**
+ * 가상계좌 입금 콜백
+ *
+ * secret은 결제 승인 시 받은 값과 비교해 위조된 요청을 걸러내는 데만 사용하고,
+ * 콜백의 status는 믿지 않고 Toss API로 조회한 결제 상태와 금액을 반영합니다.
+ */
+async function handleDepositCallback(
+  repositories: Repositories,
+  event: TossDepositCallbackEvent
+): Promise<EventOutcome> {
+  const stored = await repositories.payments.getLatestByOrder(event.orderId);
+
+  if (!stored || !isValidDepositSecret(stored.deposit_secret, event.secret)) {
+    throw new WebhookVerificationError("Invalid deposit callback secret");
+  }
+
+  const payment = await fetchVerifiedPayment(stored.payment_key, event.orderId);
+
+  return applyPayment(repositories, payment);
+}
+
+async function applyPayment(
+  { orders, payments }: Repositories,
+  payment: TossPayment
+): Promise<EventOutcome> {
+  const order = await orders.findById(payment.orderId);
+
+  // 이 서비스에서 생성하지 않은 주문 (다른 환경의 테스트 결제 등)
+  if (!order) return "ignored";
+
+  const params = {
+    orderId: order.id,
+    clerkId: order.clerk_id,
+    payment,
+    source: "webhook" as const,
+  };
+
+  await recordPayment(payments, params);
+
+  if (!(await applyPaymentStatusToOrder(orders, order.id, payment.status))) {
+    await refundPaymentForCancelledOrder({ orders, payments }, getTossPaymentsClient(), params);
+  }
+
+  return "processed";
+}
@@ -1,102 +1,46 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
-import { useUser } from "@clerk/nextjs";
-import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { SignInButton, useUser } from "@clerk/nextjs";
+import { useRepositories } from "@/hooks/use-repositories";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import Link from "next/link";
 import { ShoppingCart, Trash2, Plus, Minus, ArrowLeft, ShoppingBag } from "lucide-react";
-import { Product } from "@/types/product";
-
-interface CartItem {
-  id: string;
-  clerk_id: string;
-  product_id: string;
-  quantity: number;
-  created_at: string;
-  updated_at: string;
-  product: Product;
-}
+import type { CartLine } from "@/types/cart";
+import { ProductThumbnail } from "@/components/products/ProductThumbnail";
+import {
+  acknowledgeCartChanges,
+  clearCart,
+  getGuestCart,
+  removeCartItem,
+  updateCartQuantity,
+} from "@/actions/cart";
+import { detectCartChanges, getMaxCartQuantity } from "@/lib/cart";
+import { formatShippingFee } from "@/lib/shipping";
+import { CartChangesNotice } from "@/components/cart/CartChangesNotice";
 
 export default function CartPage() {
   const router = useRouter();
   const { user, isLoaded } = useUser();
-  const supabase = useClerkSupabaseClient();
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const { cart, shipping } = useRepositories();
+  const [cartItems, setCartItems] = useState<CartLine[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [updating, setUpdating] = useState<string | null>(null);
+  const [acknowledging, setAcknowledging] = useState(false);
+  const [shippingFee, setShippingFee] = useState<number | null>(null);
 
   const fetchCartItems = useCallback(async () => {
-    if (!user) {
-      setLoading(false);
-      return;
-    }
-
     try {
       setLoading(true);
       setError(null);
 
-      const { data, error: queryError } = await supabase
-        .from("cart_items")
-        .select(
-          `
-          *,
-          product:products(*)
-        `
-        )
-        .eq("clerk_id", user.id)
-        .order("created_at", { ascending: false });
-
-      if (queryError) throw queryError;
-
-      // 타입 변환
-      const items = (data || []).map((item: any) => ({
-        ...item,
-        product: item.product as Product,
-      }));
-
-      // 품절 상품 자동 제거
-      const validItems: CartItem[] = [];
-      const outOfStockItems: CartItem[] = [];
-
-      for (const item of items) {
-        if (item.product.stock_quantity === 0) {
-          outOfStockItems.push(item);
-        } else {
-          validItems.push(item);
-        }
-      }
-
-      // 품절 상품이 있으면 제거
-      if (outOfStockItems.length > 0) {
-        const idsToRemove = outOfStockItems.map((item) => item.id);
-        await supabase.from("cart_items").delete().in("id", idsToRemove);
-
-        // 품절 상품이 제거되었음을 알림
-        if (outOfStockItems.length === 1) {
-          alert(
-            `${outOfStockItems[0].product.name} 상품이 품절되어 장바구니에서 제거되었습니다.`
-          );
-        } else {
-          alert(`${outOfStockItems.length}개의 품절 상품이 장바구니에서 제거되었습니다.`);
-        }
-      }
-
-      // 재고 부족 상품 수량 자동 조정
-      for (const item of validItems) {
-        if (item.quantity > item.product.stock_quantity) {
-          await supabase
-            .from("cart_items")
-            .update({ quantity: item.product.stock_quantity })
-            .eq("id", item.id);
-          item.quantity = item.product.stock_quantity;
-        }
-      }
+      // 비로그인 사용자는 쿠키에 저장된 장바구니를 조회
+      const items: CartLine[] = user ? await cart.listItems(user.id) : await getGuestCart();
 
-      setCartItems(validItems);
+      setCartItems(items);
     } catch (err) {
       const errorMessage =
         err instanceof Error ? err.message : "장바구니를 가져오는 중 오류가 발생했습니다.";
@@ -105,7 +49,7 @@ export default function CartPage() {
     } finally {
       setLoading(false);
     }
-  }, [user, supabase]);
+  }, [user, cart]);
 
   useEffect(() => {
     if (isLoaded) {
@@ -113,25 +57,27 @@ export default function CartPage() {
     }
   }, [isLoaded, fetchCartItems]);
 
+  // 로그인 후 비로그인 장바구니가 병합되면 다시 조회
+  useEffect(() => {
+    window.addEventListener("guestCartMerged", fetchCartItems);
+    return () => window.removeEventListener("guestCartMerged", fetchCartItems);
+  }, [fetchCartItems]);
+
   const updateQuantity = async (cartItemId: string, newQuantity: number) => {
     if (newQuantity < 1) return;
 
     try {
       setUpdating(cartItemId);
-      const { error: updateError } = await supabase
-        .from("cart_items")
-        .update({ quantity: newQuantity })
-        .eq("id", cartItemId);
+      const result = await updateCartQuantity({ cartItemId, quantity: newQuantity });
 
-      if (updateError) throw updateError;
+      if (!result.success) {
+        alert(result.error);
+      }
 
       await fetchCartItems();
       
       // CartBadge 업데이트를 위한 Custom Event 발생
       window.dispatchEvent(new CustomEvent("cartUpdated"));
-    } catch (err) {
-      console.error("Error updating quantity:", err);
-      alert("수량 변경 중 오류가 발생했습니다.");
     } finally {
       setUpdating(null);
     }
@@ -142,29 +88,87 @@ export default function CartPage() {
 
     try {
       setUpdating(cartItemId);
-      const { error: deleteError } = await supabase
-        .from("cart_items")
-        .delete()
-        .eq("id", cartItemId);
+      const result = await removeCartItem(cartItemId);
 
-      if (deleteError) throw deleteError;
+      if (!result.success) {
+        alert(result.error);
+        return;
+      }
 
       await fetchCartItems();
       
       // CartBadge 업데이트를 위한 Custom Event 발생
       window.dispatchEvent(new CustomEvent("cartUpdated"));
-    } catch (err) {
-      console.error("Error removing item:", err);
-      alert("상품 제거 중 오류가 발생했습니다.");
     } finally {
       setUpdating(null);
     }
   };
 
-  const totalAmount = cartItems.reduce(
+  const handleClearCart = async () => {
+    if (!confirm("장바구니의 모든 상품을 제거하시겠습니까?")) return;
+
+    const result = await clearCart();
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    await fetchCartItems();
+    window.dispatchEvent(new CustomEvent("cartUpdated"));
+  };
+
+  const handleAcknowledgeChanges = async () => {
+    try {
+      setAcknowledging(true);
+      const result = await acknowledgeCartChanges();
+
+      if (!result.success) {
+        alert(result.error);
+        return;
+      }
+
+      await fetchCartItems();
+      window.dispatchEvent(new CustomEvent("cartUpdated"));
+    } finally {
+      setAcknowledging(false);
+    }
+  };
+
+  // 담은 뒤 가격/재고/판매 여부가 바뀐 상품 (확인 전에는 주문 불가)
+  const cartChanges = useMemo(() => detectCartChanges(cartItems), [cartItems]);
+
+  const subtotalAmount = cartItems.reduce(
     (sum, item) => sum + item.product.price * item.quantity,
     0
   );
+  const totalAmount = subtotalAmount + (shippingFee ?? 0);
+
+  // 배송비 계산 (배송지를 모르므로 제주/도서산간 추가 배송비는 주문서에서 계산)
+  useEffect(() => {
+    if (cartItems.length === 0) {
+      setShippingFee(0);
+      return;
+    }
+
+    let ignore = false;
+
+    const fetchShippingFee = async () => {
+      try {
+        setShippingFee(null);
+        const fee = await shipping.calculateFee(subtotalAmount);
+        if (!ignore) setShippingFee(fee);
+      } catch (err) {
+        console.error("Error calculating shipping fee:", err);
+      }
+    };
+
+    fetchShippingFee();
+
+    return () => {
+      ignore = true;
+    };
+  }, [cartItems.length, subtotalAmount, shipping]);
 
   if (!isLoaded) {
     return (
@@ -177,21 +181,6 @@ export default function CartPage() {
     );
   }
 
-  if (!user) {
-    return (
-      <div className="min-h-[calc(100vh-80px)] flex items-center justify-center px-8">
-        <div className="text-center max-w-md">
-          <ShoppingCart className="w-16 h-16 mx-auto mb-4 text-gray-400" />
-          <h2 className="text-2xl font-bold mb-4">로그인이 필요합니다</h2>
-          <p className="text-gray-600 mb-6">장바구니를 사용하려면 먼저 로그인해주세요.</p>
-          <Link href="/sign-in">
-            <Button size="lg">로그인하기</Button>
-          </Link>
-        </div>
-      </div>
-    );
-  }
-
   if (loading) {
     return (
       <div className="min-h-[calc(100vh-80px)] flex items-center justify-center">
@@ -224,9 +213,27 @@ export default function CartPage() {
           <ArrowLeft className="w-4 h-4" />
           쇼핑 계속하기
         </Link>
-        <h1 className="text-4xl font-bold">장바구니</h1>
+        <div className="flex items-center justify-between">
+          <h1 className="text-4xl font-bold">장바구니</h1>
+          {cartItems.length > 0 && (
+            <Button
+              variant="ghost"
+              onClick={handleClearCart}
+              className="text-red-600 hover:text-red-700"
+            >
+              <Trash2 className="w-4 h-4 mr-2" />
+              전체 삭제
+            </Button>
+          )}
+        </div>
       </div>
 
+      <CartChangesNotice
+        changes={cartChanges}
+        onAcknowledge={handleAcknowledgeChanges}
+        acknowledging={acknowledging}
+      />
+
       {cartItems.length === 0 ? (
         <div className="text-center py-16">
           <ShoppingCart className="w-16 h-16 mx-auto mb-4 text-gray-400" />
@@ -250,8 +257,13 @@ export default function CartPage() {
                 style={{ opacity: updating === item.id ? 0.5 : 1 }}
               >
                 <Link href={`/products/${item.product.id}`} className="flex-shrink-0">
-                  <div className="w-24 h-24 bg-gray-100 rounded-lg flex items-center justify-center">
-                    <ShoppingBag className="w-12 h-12 text-gray-400" />
+                  <div className="relative w-24 h-24 bg-gray-100 rounded-lg overflow-hidden flex items-center justify-center">
+                    <ProductThumbnail
+                      product={item.product}
+                      sizes="96px"
+                      className="object-cover"
+                      fallback={<ShoppingBag className="w-12 h-12 text-gray-400" />}
+                    />
                   </div>
                 </Link>
                 <div className="flex-1 min-w-0">
@@ -294,13 +306,16 @@ export default function CartPage() {
                       <Input
                         type="number"
                         min={1}
-                        max={item.product.stock_quantity}
+                        max={getMaxCartQuantity(item.product.stock_quantity)}
                         value={item.quantity}
                         onChange={(e) => {
                           const value = parseInt(e.target.value) || 1;
                           updateQuantity(
                             item.id,
-                            Math.max(1, Math.min(item.product.stock_quantity, value))
+                            Math.max(
+                              1,
+                              Math.min(getMaxCartQuantity(item.product.stock_quantity), value)
+                            )
                           );
                         }}
                         className="w-20 text-center"
@@ -312,8 +327,7 @@ export default function CartPage() {
                         onClick={() => updateQuantity(item.id, item.quantity + 1)}
                         disabled={
                           updating === item.id ||
-                          item.quantity >= item.product.stock_quantity ||
-                          item.product.stock_quantity === 0
+                          item.quantity >= getMaxCartQuantity(item.product.stock_quantity)
                         }
                       >
                         <Plus className="w-4 h-4" />
@@ -349,8 +363,15 @@ export default function CartPage() {
                 </div>
                 <div className="flex justify-between text-gray-600">
                   <span>상품 금액</span>
-                  <span>{totalAmount.toLocaleString()}원</span>
+                  <span>{subtotalAmount.toLocaleString()}원</span>
+                </div>
+                <div className="flex justify-between text-gray-600">
+                  <span>배송비</span>
+                  <span>{shippingFee === null ? "계산 중..." : formatShippingFee(shippingFee)}</span>
                 </div>
+                <p className="text-xs text-gray-500">
+                  제주/도서산간 지역은 주문서에서 추가 배송비가 계산됩니다.
+                </p>
                 <div className="border-t pt-4">
                   <div className="flex justify-between text-xl font-bold">
                     <span>총 결제금액</span>
@@ -358,14 +379,27 @@ export default function CartPage() {
                   </div>
                 </div>
               </div>
-              <Button
-                size="lg"
-                className="w-full"
-                onClick={() => router.push("/checkout")}
-                disabled={cartItems.length === 0}
-              >
-                주문하기
-              </Button>
+              {user ? (
+                <Button
+                  size="lg"
+                  className="w-full"
+                  onClick={() => router.push("/checkout")}
+                  disabled={cartItems.length === 0 || cartChanges.length > 0}
+                >
+                  주문하기
+                </Button>
+              ) : (
+                <>
+                  <SignInButton mode="modal">
+                    <Button size="lg" className="w-full">
+                      로그인 후 주문하기
+                    </Button>
+                  </SignInButton>
+                  <p className="text-sm text-gray-600 mt-3 text-center">
+                    로그인하면 담아 둔 상품이 내 장바구니로 옮겨집니다.
+                  </p>
+                </>
+              )}
             </div>
           </div>
         </div>
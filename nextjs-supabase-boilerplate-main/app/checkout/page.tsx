@@ -1,51 +1,73 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useRouter } from "next/navigation";
 import { useUser } from "@clerk/nextjs";
-import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useRepositories } from "@/hooks/use-repositories";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
 import Link from "next/link";
 import { ArrowLeft, ShoppingBag } from "lucide-react";
-import { Product } from "@/types/product";
-
-interface CartItem {
-  id: string;
-  clerk_id: string;
-  product_id: string;
-  quantity: number;
-  created_at: string;
-  updated_at: string;
-  product: Product;
-}
-
-interface ShippingAddress {
-  name: string;
-  phone: string;
-  address: string;
-  addressDetail: string;
-  zipCode: string;
-}
+import type { CartItemWithProduct } from "@/types/cart";
+import type { ShippingAddress } from "@/types/order";
+import type { UserAddress } from "@/types/address";
+import type { AppliedCoupon } from "@/types/coupon";
+import { createOrder } from "@/actions/orders";
+import { acknowledgeCartChanges } from "@/actions/cart";
+import { applyCoupon } from "@/actions/coupons";
+import { detectCartChanges } from "@/lib/cart";
+import { formatShippingFee } from "@/lib/shipping";
+import { CartChangesNotice } from "@/components/cart/CartChangesNotice";
+import { CouponField } from "@/components/cart/CouponField";
+import { AddressPicker } from "@/components/addresses/AddressPicker";
+import { ShippingAddressFields } from "@/components/addresses/ShippingAddressFields";
+import { createAddress } from "@/actions/addresses";
+import { isSameShippingAddress, MAX_USER_ADDRESSES, toShippingAddress } from "@/lib/addresses";
+import {
+  checkoutFormSchema,
+  MAX_ORDER_NOTE_LENGTH,
+  ZIP_CODE_REGEX,
+  type CheckoutFormValues,
+} from "@/lib/validations/shipping";
+
+const EMPTY_VALUES: CheckoutFormValues = {
+  name: "",
+  phone: "",
+  zipCode: "",
+  address: "",
+  addressDetail: "",
+  jibunAddress: "",
+  orderNote: "",
+  saveAddress: false,
+};
 
 export default function CheckoutPage() {
   const router = useRouter();
   const { user, isLoaded } = useUser();
-  const supabase = useClerkSupabaseClient();
-  const [cartItems, setCartItems] = useState<CartItem[]>([]);
+  const { cart, addresses, shipping } = useRepositories();
+  const [cartItems, setCartItems] = useState<CartItemWithProduct[]>([]);
   const [loading, setLoading] = useState(true);
-  const [submitting, setSubmitting] = useState(false);
+  const [acknowledging, setAcknowledging] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [shippingAddress, setShippingAddress] = useState<ShippingAddress>({
-    name: "",
-    phone: "",
-    address: "",
-    addressDetail: "",
-    zipCode: "",
+  const [savedAddresses, setSavedAddresses] = useState<UserAddress[]>([]);
+  const [appliedCoupon, setAppliedCoupon] = useState<AppliedCoupon | null>(null);
+  const [shippingFee, setShippingFee] = useState<number | null>(null);
+
+  const form = useForm<CheckoutFormValues>({
+    resolver: zodResolver(checkoutFormSchema),
+    defaultValues: EMPTY_VALUES,
   });
-  const [orderNote, setOrderNote] = useState("");
 
   const fetchCartItems = useCallback(async () => {
     if (!user) {
@@ -57,23 +79,7 @@ export default function CheckoutPage() {
       setLoading(true);
       setError(null);
 
-      const { data, error: queryError } = await supabase
-        .from("cart_items")
-        .select(
-          `
-          *,
-          product:products(*)
-        `
-        )
-        .eq("clerk_id", user.id)
-        .order("created_at", { ascending: false });
-
-      if (queryError) throw queryError;
-
-      const items = (data || []).map((item: any) => ({
-        ...item,
-        product: item.product as Product,
-      }));
+      const items = await cart.listItems(user.id);
 
       setCartItems(items);
 
@@ -88,7 +94,7 @@ export default function CheckoutPage() {
     } finally {
       setLoading(false);
     }
-  }, [user, supabase, router]);
+  }, [user, cart, router]);
 
   useEffect(() => {
     if (isLoaded) {
@@ -96,85 +102,173 @@ export default function CheckoutPage() {
     }
   }, [isLoaded, fetchCartItems]);
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // 저장된 배송지 조회 (기본 배송지로 배송지 정보를 채움)
+  const fetchSavedAddresses = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const list = await addresses.listByUser(user.id);
+      setSavedAddresses(list);
+
+      const defaultAddress = list.find((address) => address.is_default);
+      if (defaultAddress) {
+        form.reset({ ...EMPTY_VALUES, ...toShippingAddress(defaultAddress) });
+      }
+    } catch (err) {
+      // 배송지 목록 없이도 직접 입력해서 주문할 수 있음
+      console.error("Error fetching addresses:", err);
+    }
+  }, [user, addresses, form]);
+
+  useEffect(() => {
+    if (isLoaded) {
+      fetchSavedAddresses();
+    }
+  }, [isLoaded, fetchSavedAddresses]);
+
+  // 저장된 배송지를 선택하면 배송지 필드를 채움
+  const fillShippingAddress = (address: ShippingAddress) => {
+    for (const [field, value] of Object.entries(address)) {
+      form.setValue(field as keyof ShippingAddress, value ?? "", {
+        shouldDirty: true,
+        shouldValidate: true,
+      });
+    }
+  };
+
+  // 입력한 배송지와 같은 저장된 배송지 (없으면 새 배송지)
+  const values = form.watch();
+  const selectedAddressId =
+    savedAddresses.find((address) =>
+      isSameShippingAddress(toShippingAddress(address), values as ShippingAddress)
+    )?.id ?? null;
+  const isNewAddress = selectedAddressId === null;
+
+  // 장바구니에 담은 뒤 가격/재고/판매 여부가 바뀐 상품
+  const cartChanges = useMemo(() => detectCartChanges(cartItems), [cartItems]);
+
+  const handleAcknowledgeChanges = async () => {
+    try {
+      setAcknowledging(true);
+      const result = await acknowledgeCartChanges();
+
+      if (!result.success) {
+        alert(result.error);
+        return;
+      }
+
+      await fetchCartItems();
+      await refreshCoupon();
+      window.dispatchEvent(new CustomEvent("cartUpdated"));
+    } finally {
+      setAcknowledging(false);
+    }
+  };
+
+  // 장바구니가 바뀌면 적용한 쿠폰의 할인 금액을 다시 계산 (사용할 수 없게 되면 적용 취소)
+  const refreshCoupon = async () => {
+    if (!appliedCoupon) return;
+
+    const result = await applyCoupon(appliedCoupon.code);
+    setAppliedCoupon(result.success ? result.coupon : null);
+  };
 
+  const subtotalAmount = cartItems.reduce(
+    (sum, item) => sum + item.product.price * item.quantity,
+    0
+  );
+  const discountAmount = appliedCoupon?.discountAmount ?? 0;
+  const totalAmount = subtotalAmount - discountAmount + (shippingFee ?? 0);
+
+  // 배송비 계산 (우편번호를 입력하면 제주/도서산간 추가 배송비 포함)
+  const zipCode = ZIP_CODE_REGEX.test(values.zipCode) ? values.zipCode : undefined;
+
+  useEffect(() => {
+    if (cartItems.length === 0) return;
+
+    let ignore = false;
+
+    const fetchShippingFee = async () => {
+      try {
+        setShippingFee(null);
+        const fee = await shipping.calculateFee(subtotalAmount, zipCode);
+        if (!ignore) setShippingFee(fee);
+      } catch (err) {
+        console.error("Error calculating shipping fee:", err);
+      }
+    };
+
+    fetchShippingFee();
+
+    return () => {
+      ignore = true;
+    };
+  }, [cartItems.length, subtotalAmount, zipCode, shipping]);
+
+  const onSubmit = async ({ orderNote, saveAddress, ...shippingAddress }: CheckoutFormValues) => {
     if (!user || cartItems.length === 0) return;
 
-    // 배송지 정보 검증
-    if (
-      !shippingAddress.name ||
-      !shippingAddress.phone ||
-      !shippingAddress.address ||
-      !shippingAddress.zipCode
-    ) {
-      alert("배송지 정보를 모두 입력해주세요.");
+    // 변경 내역을 확인하기 전에는 주문 불가
+    if (cartChanges.length > 0) {
+      alert("장바구니 변경 내역을 먼저 확인해주세요.");
       return;
     }
 
     try {
-      setSubmitting(true);
       setError(null);
 
-      const totalAmount = cartItems.reduce(
-        (sum, item) => sum + item.product.price * item.quantity,
-        0
-      );
-
-      // 주문 생성
-      const { data: order, error: orderError } = await supabase
-        .from("orders")
-        .insert({
-          clerk_id: user.id,
-          total_amount: totalAmount,
-          status: "pending",
-          shipping_address: shippingAddress,
-          order_note: orderNote || null,
-        })
-        .select()
-        .single();
-
-      if (orderError) throw orderError;
-
-      // 주문 상세 아이템 생성
-      const orderItems = cartItems.map((item) => ({
-        order_id: order.id,
-        product_id: item.product.id,
-        product_name: item.product.name,
-        quantity: item.quantity,
-        price: item.product.price,
-      }));
-
-      const { error: itemsError } = await supabase.from("order_items").insert(orderItems);
-
-      if (itemsError) throw itemsError;
-
-      // 장바구니 비우기
-      const { error: deleteError } = await supabase
-        .from("cart_items")
-        .delete()
-        .eq("clerk_id", user.id);
-
-      if (deleteError) throw deleteError;
+      // 주문 생성 (서버에서 같은 스키마로 재검증하고 가격 재계산, 재고 차감, 장바구니 비우기를 한 번에 처리)
+      const result = await createOrder({
+        shippingAddress: shippingAddress as ShippingAddress,
+        orderNote,
+        expectedTotal: totalAmount,
+        couponCode: appliedCoupon?.code,
+      });
+
+      if (!result.success) {
+        setError(result.error);
+
+        // 쿠폰을 더 이상 사용할 수 없으면 적용 취소
+        if (result.code?.startsWith("COUPON_")) {
+          setAppliedCoupon(null);
+          return;
+        }
+
+        // 가격/재고가 바뀐 경우 최신 장바구니 정보를 다시 불러와 변경 내역을 표시
+        if (result.code !== "INVALID_INPUT" && result.code !== "UNKNOWN") {
+          alert(result.error);
+          await fetchCartItems();
+          await refreshCoupon();
+        }
+        return;
+      }
+
+      // CartBadge 업데이트를 위한 Custom Event 발생
+      window.dispatchEvent(new CustomEvent("cartUpdated"));
+
+      // 새로 입력한 배송지 저장 (실패해도 주문은 계속 진행)
+      if (saveAddress && isNewAddress) {
+        const saved = await createAddress({
+          ...(shippingAddress as ShippingAddress),
+          label: "",
+          isDefault: false,
+        });
+        if (!saved.success) {
+          console.error("Error saving address:", saved.error);
+        }
+      }
 
       // 결제 페이지로 이동
-      router.push(`/payment/${order.id}`);
+      router.push(`/payment/${result.orderId}`);
     } catch (err) {
       console.error("Error creating order:", err);
       const errorMessage =
         err instanceof Error ? err.message : "주문 생성 중 오류가 발생했습니다.";
       setError(errorMessage);
       alert(errorMessage);
-    } finally {
-      setSubmitting(false);
     }
   };
 
-  const totalAmount = cartItems.reduce(
-    (sum, item) => sum + item.product.price * item.quantity,
-    0
-  );
-
   if (!isLoaded || loading) {
     return (
       <div className="min-h-[calc(100vh-80px)] flex items-center justify-center">
@@ -217,117 +311,134 @@ export default function CheckoutPage() {
         <h1 className="text-4xl font-bold">주문하기</h1>
       </div>
 
-      <form onSubmit={handleSubmit}>
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
-          {/* 배송지 정보 */}
-          <div className="lg:col-span-2 space-y-6">
-            <div className="border rounded-lg p-6">
-              <h2 className="text-2xl font-bold mb-6">배송지 정보</h2>
-              <div className="space-y-4">
-                <div>
-                  <Label htmlFor="name">받는 분 이름 *</Label>
-                  <Input
-                    id="name"
-                    value={shippingAddress.name}
-                    onChange={(e) =>
-                      setShippingAddress({ ...shippingAddress, name: e.target.value })
-                    }
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="phone">연락처 *</Label>
-                  <Input
-                    id="phone"
-                    type="tel"
-                    value={shippingAddress.phone}
-                    onChange={(e) =>
-                      setShippingAddress({ ...shippingAddress, phone: e.target.value })
-                    }
-                    placeholder="010-1234-5678"
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="zipCode">우편번호 *</Label>
-                  <Input
-                    id="zipCode"
-                    value={shippingAddress.zipCode}
-                    onChange={(e) =>
-                      setShippingAddress({ ...shippingAddress, zipCode: e.target.value })
-                    }
-                    placeholder="12345"
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="address">주소 *</Label>
-                  <Input
-                    id="address"
-                    value={shippingAddress.address}
-                    onChange={(e) =>
-                      setShippingAddress({ ...shippingAddress, address: e.target.value })
-                    }
-                    placeholder="서울시 강남구 테헤란로 123"
-                    required
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="addressDetail">상세주소</Label>
-                  <Input
-                    id="addressDetail"
-                    value={shippingAddress.addressDetail}
-                    onChange={(e) =>
-                      setShippingAddress({ ...shippingAddress, addressDetail: e.target.value })
-                    }
-                    placeholder="101동 101호"
-                  />
-                </div>
-                <div>
-                  <Label htmlFor="orderNote">배송 요청사항</Label>
-                  <Textarea
-                    id="orderNote"
-                    value={orderNote}
-                    onChange={(e) => setOrderNote(e.target.value)}
-                    placeholder="배송 시 요청사항을 입력해주세요"
-                    rows={3}
+      <CartChangesNotice
+        changes={cartChanges}
+        onAcknowledge={handleAcknowledgeChanges}
+        acknowledging={acknowledging}
+      />
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)}>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* 배송지 정보 */}
+            <div className="lg:col-span-2 space-y-6">
+              <div className="border rounded-lg p-6">
+                <h2 className="text-2xl font-bold mb-6">배송지 정보</h2>
+                <AddressPicker
+                  addresses={savedAddresses}
+                  selectedId={selectedAddressId}
+                  onSelect={(address) => fillShippingAddress(toShippingAddress(address))}
+                />
+                <div className="space-y-4">
+                  <ShippingAddressFields />
+                  {isNewAddress && savedAddresses.length < MAX_USER_ADDRESSES && (
+                    <FormField
+                      control={form.control}
+                      name="saveAddress"
+                      render={({ field }) => (
+                        <FormItem>
+                          <div className="flex items-center gap-2">
+                            <FormControl>
+                              <input
+                                type="checkbox"
+                                className="w-4 h-4"
+                                checked={field.value}
+                                onChange={(e) => field.onChange(e.target.checked)}
+                                onBlur={field.onBlur}
+                                name={field.name}
+                                ref={field.ref}
+                              />
+                            </FormControl>
+                            <FormLabel>이 배송지를 배송지 목록에 저장</FormLabel>
+                          </div>
+                        </FormItem>
+                      )}
+                    />
+                  )}
+                  <FormField
+                    control={form.control}
+                    name="orderNote"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>배송 요청사항</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder="배송 시 요청사항을 입력해주세요"
+                            rows={3}
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          {field.value.length}/{MAX_ORDER_NOTE_LENGTH}자
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
                 </div>
               </div>
             </div>
-          </div>
 
-          {/* 주문 요약 */}
-          <div className="lg:col-span-1">
-            <div className="border rounded-lg p-6 sticky top-24">
-              <h2 className="text-2xl font-bold mb-6">주문 요약</h2>
-              <div className="space-y-4 mb-6">
-                {cartItems.map((item) => (
-                  <div key={item.id} className="flex justify-between text-sm">
-                    <span className="text-gray-600">
-                      {item.product.name} x {item.quantity}
-                    </span>
-                    <span>{(item.product.price * item.quantity).toLocaleString()}원</span>
+            {/* 주문 요약 */}
+            <div className="lg:col-span-1">
+              <div className="border rounded-lg p-6 sticky top-24">
+                <h2 className="text-2xl font-bold mb-6">주문 요약</h2>
+                <div className="space-y-4 mb-6">
+                  {cartItems.map((item) => (
+                    <div key={item.id} className="flex justify-between text-sm">
+                      <span className="text-gray-600">
+                        {item.product.name} x {item.quantity}
+                      </span>
+                      <span>{(item.product.price * item.quantity).toLocaleString()}원</span>
+                    </div>
+                  ))}
+                  <div className="border-t pt-4 space-y-2">
+                    <CouponField
+                      applied={appliedCoupon}
+                      onChange={setAppliedCoupon}
+                      disabled={form.formState.isSubmitting}
+                    />
+                    <div className="flex justify-between text-gray-600">
+                      <span>상품 금액</span>
+                      <span>{subtotalAmount.toLocaleString()}원</span>
+                    </div>
+                    {discountAmount > 0 && (
+                      <div className="flex justify-between text-gray-600">
+                        <span>쿠폰 할인</span>
+                        <span className="text-red-600">-{discountAmount.toLocaleString()}원</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between text-gray-600">
+                      <span>배송비</span>
+                      <span>{shippingFee === null ? "계산 중..." : formatShippingFee(shippingFee)}</span>
+                    </div>
                   </div>
-                ))}
-                <div className="border-t pt-4">
-                  <div className="flex justify-between text-xl font-bold">
-                    <span>총 결제금액</span>
-                    <span className="text-primary">{totalAmount.toLocaleString()}원</span>
+                  <div className="border-t pt-4">
+                    <div className="flex justify-between text-xl font-bold">
+                      <span>총 결제금액</span>
+                      <span className="text-primary">{totalAmount.toLocaleString()}원</span>
+                    </div>
                   </div>
                 </div>
+                {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
+                <Button
+                  type="submit"
+                  size="lg"
+                  className="w-full"
+                  disabled={
+                    form.formState.isSubmitting || cartChanges.length > 0 || shippingFee === null
+                  }
+                >
+                  {form.formState.isSubmitting ? "주문 처리 중..." : "주문하기"}
+                </Button>
+                <p className="text-xs text-gray-500 mt-4 text-center">
+                  주문 후 결제 페이지로 이동합니다
+                </p>
               </div>
-              {error && <p className="text-red-600 text-sm mb-4">{error}</p>}
-              <Button type="submit" size="lg" className="w-full" disabled={submitting}>
-                {submitting ? "주문 처리 중..." : "주문하기"}
-              </Button>
-              <p className="text-xs text-gray-500 mt-4 text-center">
-                주문 후 결제 페이지로 이동합니다
-              </p>
             </div>
           </div>
-        </div>
-      </form>
+        </form>
+      </Form>
     </div>
   );
 }
@@ -0,0 +1,29 @@
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Home, ShieldAlert } from "lucide-react";
+
+/**
+ * 403 페이지
+ *
+ * 역할이 부족한 사용자가 보호된 경로에 접근하면 Middleware가 이 페이지로 rewrite합니다.
+ */
+export default function Forbidden() {
+  return (
+    <div className="min-h-[calc(100vh-80px)] flex items-center justify-center px-8">
+      <div className="text-center max-w-md">
+        <ShieldAlert className="w-16 h-16 mx-auto mb-4 text-red-500" />
+        <h1 className="text-6xl font-bold mb-4">403</h1>
+        <h2 className="text-2xl font-bold mb-4">접근 권한이 없습니다</h2>
+        <p className="text-gray-600 mb-8">
+          이 페이지를 볼 수 있는 권한이 없습니다. 필요한 경우 관리자에게 문의해주세요.
+        </p>
+        <Link href="/">
+          <Button size="lg">
+            <Home className="w-5 h-5 mr-2" />
+            홈으로 가기
+          </Button>
+        </Link>
+      </div>
+    </div>
+  );
+}
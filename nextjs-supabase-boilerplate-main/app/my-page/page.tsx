@@ -3,21 +3,13 @@
 import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { useUser } from "@clerk/nextjs";
-import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { useRepositories } from "@/hooks/use-repositories";
+import type { OrderListFilter } from "@/lib/repositories";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { User, ShoppingBag, Package, ArrowRight } from "lucide-react";
-
-interface Order {
-  id: string;
-  clerk_id: string;
-  total_amount: number;
-  status: string;
-  shipping_address: any;
-  order_note: string | null;
-  created_at: string;
-  updated_at: string;
-}
+import type { Order } from "@/types/order";
+import { AddressBook } from "@/components/addresses/AddressBook";
 
 const getStatusLabel = (status: string) => {
   const labels: Record<string, string> = {
@@ -26,10 +18,15 @@ const getStatusLabel = (status: string) => {
     shipped: "배송 중",
     delivered: "배송 완료",
     cancelled: "취소됨",
+    expired: "기간 만료",
   };
   return labels[status] || status;
 };
 
+// 결제 기한이 지나 자동 취소된 주문은 일반 취소와 구분해서 표시
+const getDisplayStatus = (order: Order) =>
+  order.status === "cancelled" && order.expired_at ? "expired" : order.status;
+
 const getStatusColor = (status: string) => {
   const colors: Record<string, string> = {
     pending: "text-yellow-600 bg-yellow-50",
@@ -37,6 +34,7 @@ const getStatusColor = (status: string) => {
     shipped: "text-purple-600 bg-purple-50",
     delivered: "text-green-600 bg-green-50",
     cancelled: "text-red-600 bg-red-50",
+    expired: "text-gray-600 bg-gray-100",
   };
   return colors[status] || "text-gray-600 bg-gray-50";
 };
@@ -44,11 +42,11 @@ const getStatusColor = (status: string) => {
 export default function MyPage() {
   const router = useRouter();
   const { user, isLoaded } = useUser();
-  const supabase = useClerkSupabaseClient();
+  const { orders: orderRepository } = useRepositories();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [selectedStatus, setSelectedStatus] = useState<string>("all");
+  const [selectedStatus, setSelectedStatus] = useState<OrderListFilter>("all");
 
   const fetchOrders = useCallback(async () => {
     if (!user) {
@@ -60,31 +58,16 @@ export default function MyPage() {
       setLoading(true);
       setError(null);
 
-      let query = supabase
-        .from("orders")
-        .select("*")
-        .eq("clerk_id", user.id)
-        .order("created_at", { ascending: false });
-
-      if (selectedStatus !== "all") {
-        query = query.eq("status", selectedStatus);
-      }
-
-      const { data, error: queryError } = await query;
-
-      if (queryError) throw queryError;
-      setOrders(data || []);
+      setOrders(await orderRepository.listByUser(user.id, selectedStatus));
     } catch (err) {
-      // Supabase 에러인 경우 message 속성에서 에러 메시지 추출
-      const supabaseError = err as { message?: string; code?: string };
-      const errorMessage = supabaseError.message || 
-        (err instanceof Error ? err.message : "주문 내역을 가져오는 중 오류가 발생했습니다.");
+      const errorMessage =
+        err instanceof Error ? err.message : "주문 내역을 가져오는 중 오류가 발생했습니다.";
       setError(errorMessage);
-      console.error("Error fetching orders:", JSON.stringify(err, null, 2));
+      console.error("Error fetching orders:", err);
     } finally {
       setLoading(false);
     }
-  }, [user, supabase, selectedStatus]);
+  }, [user, orderRepository, selectedStatus]);
 
   useEffect(() => {
     if (isLoaded) {
@@ -137,13 +120,14 @@ export default function MyPage() {
     { value: "shipped", label: "배송 중" },
     { value: "delivered", label: "배송 완료" },
     { value: "cancelled", label: "취소됨" },
+    { value: "expired", label: "기간 만료" },
   ];
 
   return (
     <div className="min-h-[calc(100vh-80px)] max-w-7xl mx-auto px-8 py-8">
       <div className="mb-8">
         <h1 className="text-4xl font-bold mb-2">마이페이지</h1>
-        <p className="text-gray-600">주문 내역을 확인하고 관리하세요</p>
+        <p className="text-gray-600">주문 내역과 배송지를 확인하고 관리하세요</p>
       </div>
 
       {/* 사용자 정보 */}
@@ -159,13 +143,16 @@ export default function MyPage() {
         </div>
       </div>
 
+      {/* 배송지 관리 */}
+      <AddressBook clerkId={user.id} />
+
       {/* 주문 내역 필터 */}
       <div className="mb-6">
         <div className="flex items-center gap-4">
           <h2 className="text-2xl font-bold">주문 내역</h2>
           <select
             value={selectedStatus}
-            onChange={(e) => setSelectedStatus(e.target.value)}
+            onChange={(e) => setSelectedStatus(e.target.value as OrderListFilter)}
             className="px-4 py-2 border rounded-md"
           >
             {statusOptions.map((option) => (
@@ -204,10 +191,10 @@ export default function MyPage() {
                     <span className="text-sm text-gray-500">주문 번호: {order.id.slice(0, 8)}</span>
                     <span
                       className={`text-xs font-semibold px-2 py-1 rounded ${getStatusColor(
-                        order.status
+                        getDisplayStatus(order)
                       )}`}
                     >
-                      {getStatusLabel(order.status)}
+                      {getStatusLabel(getDisplayStatus(order))}
                     </span>
                   </div>
                   <p className="text-sm text-gray-600 mb-2">
@@ -1,128 +1,96 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useParams, useSearchParams, useRouter } from "next/navigation";
 import { useUser } from "@clerk/nextjs";
-import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { useRepositories } from "@/hooks/use-repositories";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
-import { CheckCircle, XCircle, ShoppingBag, ArrowLeft, CreditCard } from "lucide-react";
-
-interface Order {
-  id: string;
-  clerk_id: string;
-  total_amount: number;
-  status: string;
-  shipping_address: any;
-  order_note: string | null;
-  created_at: string;
-  updated_at: string;
-}
-
-interface OrderItem {
-  id: string;
-  order_id: string;
-  product_id: string;
-  product_name: string;
-  quantity: number;
-  price: number;
-  created_at: string;
-}
+import { CheckCircle, XCircle, ShoppingBag, ArrowLeft, CreditCard, Receipt } from "lucide-react";
+import { PaymentRefund, PaymentSummary } from "@/types/payment";
+import type { Order, OrderItem } from "@/types/order";
+import { cancelOrder } from "@/actions/orders";
+import { formatShippingFee } from "@/lib/shipping";
 
 export default function OrderDetailPage() {
   const params = useParams();
   const searchParams = useSearchParams();
   const router = useRouter();
   const { user, isLoaded } = useUser();
-  const supabase = useClerkSupabaseClient();
+  const { orders: orderRepository } = useRepositories();
   const orderId = params.id as string;
   const status = searchParams.get("status");
 
   const [order, setOrder] = useState<Order | null>(null);
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
+  const [payment, setPayment] = useState<PaymentSummary | null>(null);
+  const [refunds, setRefunds] = useState<PaymentRefund[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [cancelling, setCancelling] = useState(false);
 
-  useEffect(() => {
-    if (!isLoaded || !user || !orderId) return;
-
-    const fetchOrder = async () => {
-      try {
-        setLoading(true);
-        setError(null);
+  const fetchOrder = useCallback(async () => {
+    if (!user) return;
 
-        // 주문 정보 가져오기
-        const { data: orderData, error: orderError } = await supabase
-          .from("orders")
-          .select("*")
-          .eq("id", orderId)
-          .eq("clerk_id", user.id)
-          .single();
-
-        if (orderError) throw orderError;
-        if (!orderData) throw new Error("주문을 찾을 수 없습니다.");
-
-        setOrder(orderData);
+    try {
+      setLoading(true);
+      setError(null);
 
-        // 주문 상세 아이템 가져오기
-        const { data: itemsData, error: itemsError } = await supabase
-          .from("order_items")
-          .select("*")
-          .eq("order_id", orderId)
-          .order("created_at", { ascending: false });
+      // 주문, 주문 상품, 결제, 환불 내역 가져오기
+      const detail = await orderRepository.getDetail(user.id, orderId);
+      if (!detail) throw new Error("주문을 찾을 수 없습니다.");
 
-        if (itemsError) throw itemsError;
-        setOrderItems(itemsData || []);
-      } catch (err) {
-        const errorMessage =
-          err instanceof Error ? err.message : "주문 정보를 가져오는 중 오류가 발생했습니다.";
-        setError(errorMessage);
-        console.error("Error fetching order:", err);
-      } finally {
-        setLoading(false);
-      }
-    };
+      setOrder(detail.order);
+      setOrderItems(detail.items);
+      setPayment(detail.payment);
+      setRefunds(detail.refunds);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "주문 정보를 가져오는 중 오류가 발생했습니다.";
+      setError(errorMessage);
+      console.error("Error fetching order:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, orderId, orderRepository]);
 
+  useEffect(() => {
+    if (!isLoaded || !user || !orderId) return;
     fetchOrder();
-  }, [isLoaded, user, orderId, supabase]);
+  }, [isLoaded, user, orderId, fetchOrder]);
 
-  const handleCancelOrder = async () => {
-    if (!order || order.status !== "pending") return;
+  // 주문 취소 (item을 지정하면 해당 상품의 남은 수량만 부분 취소)
+  const handleCancelOrder = async (item?: OrderItem) => {
+    if (!order) return;
 
-    if (!confirm("정말 이 주문을 취소하시겠습니까?")) return;
+    const message = item
+      ? `"${item.product_name}" 상품을 취소하시겠습니까?`
+      : "정말 이 주문을 취소하시겠습니까?";
 
-    try {
-      setCancelling(true);
-      const { error: updateError } = await supabase
-        .from("orders")
-        .update({
-          status: "cancelled",
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", order.id)
-        .eq("clerk_id", user?.id || "");
+    if (!confirm(message)) return;
 
-      if (updateError) throw updateError;
+    setCancelling(true);
+    const result = await cancelOrder({
+      orderId: order.id,
+      items: item
+        ? [{ orderItemId: item.id, quantity: item.quantity - item.cancelled_quantity }]
+        : undefined,
+    });
+    setCancelling(false);
 
-      // 주문 정보 다시 불러오기
-      const { data: orderData, error: orderError } = await supabase
-        .from("orders")
-        .select("*")
-        .eq("id", orderId)
-        .eq("clerk_id", user?.id || "")
-        .single();
+    if (!result.success) {
+      alert(result.error || "주문 취소 중 오류가 발생했습니다.");
+      return;
+    }
 
-      if (orderError) throw orderError;
-      if (orderData) setOrder(orderData);
+    alert(
+      result.refundedAmount
+        ? `${result.refundedAmount.toLocaleString()}원이 환불 처리되었습니다.`
+        : "주문이 취소되었습니다."
+    );
 
-      alert("주문이 취소되었습니다.");
-    } catch (err) {
-      console.error("Error cancelling order:", err);
-      alert("주문 취소 중 오류가 발생했습니다.");
-    } finally {
-      setCancelling(false);
-    }
+    // 주문 정보 다시 불러오기
+    await fetchOrder();
   };
 
   if (!isLoaded || loading) {
@@ -167,6 +135,12 @@ export default function OrderDetailPage() {
   };
 
   const isPending = status === "pending" || order.status === "pending";
+  // 배송 시작 전까지 취소 가능 (결제 완료 주문은 환불 처리)
+  const isCancellable = order.status === "pending" || order.status === "confirmed";
+  const remainingItems = orderItems.filter((item) => item.cancelled_quantity < item.quantity);
+  // 쿠폰 할인은 주문 전체에 적용되므로 쿠폰을 사용한 주문은 전체 취소만 가능
+  const canPartialCancel =
+    order.status === "confirmed" && remainingItems.length > 1 && order.discount_amount === 0;
 
   return (
     <div className="min-h-[calc(100vh-80px)] max-w-4xl mx-auto px-8 py-8">
@@ -201,8 +175,15 @@ export default function OrderDetailPage() {
           <div>
             <div className="flex items-center gap-2 mb-4">
               <span className="text-lg font-semibold">주문 상태:</span>
-              <span className="text-lg">{getStatusLabel(order.status)}</span>
+              <span className="text-lg">
+                {order.expired_at ? "기간 만료" : getStatusLabel(order.status)}
+              </span>
             </div>
+            {order.expired_at && (
+              <p className="text-sm text-gray-600 mb-2">
+                결제 기한이 지나 주문이 자동으로 취소되었습니다.
+              </p>
+            )}
             <p className="text-sm text-gray-600">
               주문 번호: {order.id}
             </p>
@@ -224,14 +205,45 @@ export default function OrderDetailPage() {
                 <p className="text-sm text-gray-600">
                   {item.price.toLocaleString()}원 x {item.quantity}개
                 </p>
+                {item.cancelled_quantity > 0 && (
+                  <p className="text-sm text-red-500">
+                    {item.cancelled_quantity}개 취소됨
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-4">
+                {canPartialCancel && item.cancelled_quantity < item.quantity && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleCancelOrder(item)}
+                    disabled={cancelling}
+                  >
+                    상품 취소
+                  </Button>
+                )}
+                <span className="font-bold">
+                  {(item.price * item.quantity).toLocaleString()}원
+                </span>
               </div>
-              <span className="font-bold">
-                {(item.price * item.quantity).toLocaleString()}원
-              </span>
             </div>
           ))}
         </div>
-        <div className="mt-6 pt-6 border-t">
+        <div className="mt-6 pt-6 border-t space-y-2">
+          <div className="flex justify-between text-gray-600">
+            <span>상품 금액</span>
+            <span>{order.subtotal_amount.toLocaleString()}원</span>
+          </div>
+          {order.discount_amount > 0 && (
+            <div className="flex justify-between text-gray-600">
+              <span>쿠폰 할인 ({order.coupon_code})</span>
+              <span className="text-red-600">-{order.discount_amount.toLocaleString()}원</span>
+            </div>
+          )}
+          <div className="flex justify-between text-gray-600">
+            <span>배송비</span>
+            <span>{formatShippingFee(order.shipping_fee)}</span>
+          </div>
           <div className="flex justify-between text-xl font-bold">
             <span>총 결제금액</span>
             <span className="text-primary">{order.total_amount.toLocaleString()}원</span>
@@ -239,6 +251,55 @@ export default function OrderDetailPage() {
         </div>
       </div>
 
+      {/* 결제 정보 */}
+      {payment && (
+        <div className="border rounded-lg p-6 mb-6">
+          <h2 className="text-2xl font-bold mb-6">결제 정보</h2>
+          <div className="space-y-2 text-sm">
+            <p>
+              <span className="font-semibold">결제 수단:</span> {payment.method || "-"}
+            </p>
+            {payment.approved_at && (
+              <p>
+                <span className="font-semibold">결제일시:</span>{" "}
+                {new Date(payment.approved_at).toLocaleString("ko-KR")}
+              </p>
+            )}
+            <p>
+              <span className="font-semibold">결제금액:</span>{" "}
+              {Number(payment.total_amount).toLocaleString()}원
+            </p>
+          </div>
+          {refunds.length > 0 && (
+            <div className="mt-4 pt-4 border-t space-y-2 text-sm">
+              <h3 className="font-semibold">환불 내역</h3>
+              {refunds.map((refund) => (
+                <div key={refund.id} className="flex justify-between text-gray-600">
+                  <span>
+                    {new Date(refund.canceled_at).toLocaleString("ko-KR")}
+                    {refund.cancel_reason && ` · ${refund.cancel_reason}`}
+                  </span>
+                  <span className="text-red-500">
+                    -{Number(refund.cancel_amount).toLocaleString()}원
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+          {payment.receipt_url && (
+            <a
+              href={payment.receipt_url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-2 mt-4 text-sm text-primary hover:underline"
+            >
+              <Receipt className="w-4 h-4" />
+              영수증 보기
+            </a>
+          )}
+        </div>
+      )}
+
       {/* 배송지 정보 */}
       {order.shipping_address && (
         <div className="border rounded-lg p-6 mb-6">
@@ -255,6 +316,11 @@ export default function OrderDetailPage() {
               {order.shipping_address.address}
               {order.shipping_address.addressDetail && ` ${order.shipping_address.addressDetail}`}
             </p>
+            {order.shipping_address.jibunAddress && (
+              <p className="text-gray-500">
+                <span className="font-semibold">지번:</span> {order.shipping_address.jibunAddress}
+              </p>
+            )}
             {order.order_note && (
               <p>
                 <span className="font-semibold">배송 요청사항:</span> {order.order_note}
@@ -278,7 +344,7 @@ export default function OrderDetailPage() {
               variant="outline"
               size="lg"
               className="flex-1"
-              onClick={handleCancelOrder}
+              onClick={() => handleCancelOrder()}
               disabled={cancelling}
             >
               {cancelling ? "취소 중..." : "주문 취소"}
@@ -291,6 +357,16 @@ export default function OrderDetailPage() {
           </>
         ) : (
           <>
+            {isCancellable && (
+              <Button
+                variant="outline"
+                className="flex-1"
+                onClick={() => handleCancelOrder()}
+                disabled={cancelling}
+              >
+                {cancelling ? "취소 중..." : "주문 취소"}
+              </Button>
+            )}
             <Link href="/products" className="flex-1">
               <Button variant="outline" className="w-full">
                 쇼핑 계속하기
@@ -7,55 +7,54 @@ import {
   Tag,
 } from "lucide-react";
 import { createClient } from "@supabase/supabase-js";
-import { Product, CATEGORY_LABELS, ProductCategory } from "@/types/product";
+import type { Database } from "@/database.types";
+import { createRepositories } from "@/lib/repositories";
+import { buildProductListingUrl } from "@/lib/product-listing";
+import { getCategoryGradient, getCategoryIcon } from "@/lib/categories";
+import type { Category } from "@/types/category";
+import type { Product } from "@/types/product";
 import HeroSection from "@/components/hero/HeroSection";
 import { Button } from "@/components/ui/button";
+import { ProductThumbnail } from "@/components/products/ProductThumbnail";
 
 export const dynamic = "force-dynamic";
 
-async function getPopularProducts() {
+interface HomeData {
+  popularProducts: Product[];
+  /** 최상위 카테고리 */
+  categories: Category[];
+}
+
+async function getHomeData(): Promise<HomeData> {
   try {
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
     const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
 
     if (!supabaseUrl || !supabaseKey) {
       console.warn("Supabase 환경 변수가 설정되지 않았습니다.");
-      return [];
+      return { popularProducts: [], categories: [] };
     }
 
-    const supabase = createClient(supabaseUrl, supabaseKey);
-    const { data, error } = await supabase
-      .from("products")
-      .select("*")
-      .eq("is_active", true)
-      .order("created_at", { ascending: false })
-      .limit(8);
-
-    if (error) {
-      console.error("Error fetching popular products:", error);
-      return [];
-    }
+    const { products, categories } = createRepositories(
+      createClient<Database>(supabaseUrl, supabaseKey)
+    );
+    const [popularProducts, activeCategories] = await Promise.all([
+      products.listLatest(8),
+      categories.listActive(),
+    ]);
 
-    return data || [];
+    return {
+      popularProducts,
+      categories: activeCategories.filter((category) => !category.parent_slug),
+    };
   } catch (error) {
-    console.error("Error fetching popular products:", error);
-    return [];
+    console.error("Error fetching home data:", error);
+    return { popularProducts: [], categories: [] };
   }
 }
 
-// 카테고리 아이콘 매핑
-const categoryColors: Record<string, string> = {
-  electronics: "from-blue-500 to-cyan-500",
-  clothing: "from-pink-500 to-rose-500",
-  books: "from-amber-500 to-orange-500",
-  food: "from-green-500 to-emerald-500",
-  sports: "from-red-500 to-pink-500",
-  beauty: "from-purple-500 to-fuchsia-500",
-  home: "from-teal-500 to-cyan-500",
-};
-
 export default async function Home() {
-  const popularProducts = await getPopularProducts();
+  const { popularProducts, categories } = await getHomeData();
 
   return (
     <main className="min-h-screen">
@@ -84,33 +83,38 @@ export default async function Home() {
 
           {/* Category Grid */}
           <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
-            {Object.entries(CATEGORY_LABELS)
-              .filter(([key]) => key !== "all")
-              .map(([key, label]) => (
-                <Link key={key} href={`/products?category=${key}`}>
+            {categories.map((category) => {
+              const CategoryIcon = getCategoryIcon(category);
+
+              return (
+                <Link
+                  key={category.slug}
+                  href={buildProductListingUrl({ category: category.slug })}
+                >
                   <div className="group relative p-6 rounded-2xl border border-border/50 bg-card hover:border-primary/30 hover:shadow-lg transition-all duration-300 cursor-pointer overflow-hidden">
                     {/* Background Gradient */}
                     <div
-                      className={`absolute inset-0 bg-gradient-to-br ${
-                        categoryColors[key] || "from-gray-400 to-gray-500"
-                      } opacity-0 group-hover:opacity-5 transition-opacity duration-300`}
+                      className={`absolute inset-0 bg-gradient-to-br ${getCategoryGradient(
+                        category
+                      )} opacity-0 group-hover:opacity-5 transition-opacity duration-300`}
                     />
 
                     <div className="relative z-10">
                       <div
-                        className={`w-12 h-12 rounded-xl bg-gradient-to-br ${
-                          categoryColors[key] || "from-gray-400 to-gray-500"
-                        } flex items-center justify-center mb-4 shadow-lg group-hover:scale-110 transition-transform duration-300`}
+                        className={`w-12 h-12 rounded-xl bg-gradient-to-br ${getCategoryGradient(
+                          category
+                        )} flex items-center justify-center mb-4 shadow-lg group-hover:scale-110 transition-transform duration-300`}
                       >
-                        <ShoppingBag className="w-6 h-6 text-white" />
+                        <CategoryIcon className="w-6 h-6 text-white" />
                       </div>
                       <h3 className="font-semibold text-foreground group-hover:text-primary transition-colors">
-                        {label}
+                        {category.label}
                       </h3>
                     </div>
                   </div>
                 </Link>
-              ))}
+              );
+            })}
           </div>
         </div>
       </section>
@@ -165,30 +169,31 @@ export default async function Home() {
                   <div className="product-card relative bg-card rounded-2xl border border-border/50 overflow-hidden hover:border-primary/30 hover:shadow-xl">
                     {/* Product Image Area */}
                     <div className="relative aspect-square bg-gradient-to-br from-muted to-muted/50 overflow-hidden">
-                      <div className="product-image absolute inset-0 flex items-center justify-center">
-                        <div
-                          className={`w-24 h-24 rounded-2xl bg-gradient-to-br ${
-                            categoryColors[product.category || ""] ||
-                            "from-gray-400 to-gray-500"
-                          } opacity-20 blur-xl`}
-                        />
-                        <ShoppingBag className="absolute w-16 h-16 text-muted-foreground/40" />
-                      </div>
+                      <ProductThumbnail
+                        product={product}
+                        sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
+                        className="product-image object-cover"
+                        fallback={
+                          <div className="product-image absolute inset-0 flex items-center justify-center">
+                            <div
+                              className={`w-24 h-24 rounded-2xl bg-gradient-to-br ${getCategoryGradient(
+                                product.category_info
+                              )} opacity-20 blur-xl`}
+                            />
+                            <ShoppingBag className="absolute w-16 h-16 text-muted-foreground/40" />
+                          </div>
+                        }
+                      />
 
                       {/* Category Badge */}
                       <div className="absolute top-4 left-4">
                         <span
-                          className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium bg-gradient-to-r ${
-                            categoryColors[product.category || ""] ||
-                            "from-gray-400 to-gray-500"
-                          } text-white shadow-lg`}
+                          className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-medium bg-gradient-to-r ${getCategoryGradient(
+                            product.category_info
+                          )} text-white shadow-lg`}
                         >
                           <Tag className="w-3 h-3" />
-                          {product.category
-                            ? CATEGORY_LABELS[
-                                product.category as ProductCategory
-                              ] || product.category
-                            : "기타"}
+                          {product.category_info?.label ?? "기타"}
                         </span>
                       </div>
 
@@ -3,27 +3,19 @@
 import { useEffect, useRef, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
 import { useUser } from "@clerk/nextjs";
-import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { useRepositories } from "@/hooks/use-repositories";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { ArrowLeft, CreditCard, XCircle } from "lucide-react";
 import { loadPaymentWidget, PaymentWidgetInstance } from "@tosspayments/payment-widget-sdk";
-
-interface Order {
-  id: string;
-  clerk_id: string;
-  total_amount: number;
-  status: string;
-  shipping_address: any;
-  order_note: string | null;
-  created_at: string;
-}
+import type { Order } from "@/types/order";
+import { formatShippingFee } from "@/lib/shipping";
 
 export default function PaymentPage() {
   const params = useParams();
   const router = useRouter();
   const { user, isLoaded } = useUser();
-  const supabase = useClerkSupabaseClient();
+  const { orders: orderRepository } = useRepositories();
   const orderId = params.orderId as string;
 
   const paymentWidgetRef = useRef<PaymentWidgetInstance | null>(null);
@@ -44,15 +36,7 @@ export default function PaymentPage() {
         setLoading(true);
         setError(null);
 
-        const { data: orderData, error: orderError } = await supabase
-          .from("orders")
-          .select("*")
-          .eq("id", orderId)
-          .eq("clerk_id", user.id)
-          .eq("status", "pending")
-          .single();
-
-        if (orderError) throw orderError;
+        const orderData = await orderRepository.getPendingById(user.id, orderId);
         if (!orderData) throw new Error("결제 대기 중인 주문을 찾을 수 없습니다.");
 
         setOrder(orderData);
@@ -67,7 +51,7 @@ export default function PaymentPage() {
     };
 
     fetchOrder();
-  }, [isLoaded, user, orderId, supabase]);
+  }, [isLoaded, user, orderId, orderRepository]);
 
   useEffect(() => {
     if (!order || !CLIENT_KEY) return;
@@ -78,7 +62,7 @@ export default function PaymentPage() {
         const paymentWidget = await loadPaymentWidget(CLIENT_KEY, user?.id || "anonymous");
         paymentWidgetRef.current = paymentWidget;
 
-        // 결제 수단 위젯 렌더링
+        // 결제 수단 위젯 렌더링 (쿠폰 할인과 배송비를 반영한 최종 결제금액)
         const paymentMethodsWidget = paymentWidget.renderPaymentMethods(
           "#payment-widget",
           { value: order.total_amount, currency: "KRW" },
@@ -199,6 +183,22 @@ export default function PaymentPage() {
                 <span>주문 번호</span>
                 <span className="text-sm">{order.id.slice(0, 8)}</span>
               </div>
+              <div className="flex justify-between text-gray-600">
+                <span>상품 금액</span>
+                <span>{order.subtotal_amount.toLocaleString()}원</span>
+              </div>
+              {order.discount_amount > 0 && (
+                <div className="flex justify-between text-gray-600">
+                  <span>쿠폰 할인</span>
+                  <span className="text-red-600">
+                    -{order.discount_amount.toLocaleString()}원
+                  </span>
+                </div>
+              )}
+              <div className="flex justify-between text-gray-600">
+                <span>배송비</span>
+                <span>{formatShippingFee(order.shipping_fee)}</span>
+              </div>
               <div className="border-t pt-4">
                 <div className="flex justify-between text-xl font-bold">
                   <span>총 결제금액</span>
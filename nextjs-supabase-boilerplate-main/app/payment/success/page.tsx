@@ -1,9 +1,8 @@
 "use client";
 
-import { useEffect, useState, Suspense } from "react";
+import { useEffect, useRef, useState, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { useUser } from "@clerk/nextjs";
-import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
 import { CheckCircle } from "lucide-react";
@@ -12,44 +11,46 @@ function PaymentSuccessContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
   const { user, isLoaded } = useUser();
-  const supabase = useClerkSupabaseClient();
   const orderId = searchParams.get("orderId");
   const paymentKey = searchParams.get("paymentKey");
+  const amount = searchParams.get("amount");
   const [processing, setProcessing] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // 결제 승인은 한 번만 요청 (Strict Mode 중복 실행 방지)
+  const requestedRef = useRef(false);
 
   useEffect(() => {
-    if (!isLoaded || !user || !orderId || !paymentKey) {
-      if (!orderId || !paymentKey) {
+    if (!isLoaded || !user || !orderId || !paymentKey || !amount) {
+      if (!orderId || !paymentKey || !amount) {
         setError("결제 정보가 올바르지 않습니다.");
         setProcessing(false);
       }
       return;
     }
 
+    if (requestedRef.current) return;
+    requestedRef.current = true;
+
     const confirmPayment = async () => {
       try {
         setProcessing(true);
         setError(null);
 
-        // 주문 상태를 confirmed로 업데이트
-        const { error: updateError } = await supabase
-          .from("orders")
-          .update({
-            status: "confirmed",
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", orderId)
-          .eq("clerk_id", user.id)
-          .eq("status", "pending");
+        // 서버에서 Toss 결제 승인 및 금액 검증 후 주문 상태 변경
+        const response = await fetch("/api/payments/confirm", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ paymentKey, orderId, amount: Number(amount) }),
+        });
 
-        if (updateError) throw updateError;
+        const body = await response.json().catch(() => null);
 
-        // 결제 정보를 저장할 수 있다면 여기에 추가 (예: payments 테이블)
-        // 현재는 주문 상태만 업데이트
+        if (!response.ok) {
+          throw new Error(body?.error || "결제 승인에 실패했습니다.");
+        }
 
-        // 주문 상세 페이지로 리다이렉트
-        router.push(`/orders/${orderId}?status=confirmed`);
+        // 주문 상세 페이지로 리다이렉트 (가상계좌는 입금 전까지 pending)
+        router.push(`/orders/${orderId}?status=${body.status}`);
       } catch (err) {
         console.error("Error confirming payment:", err);
         setError("결제 확인 중 오류가 발생했습니다.");
@@ -58,7 +59,7 @@ function PaymentSuccessContent() {
     };
 
     confirmPayment();
-  }, [isLoaded, user, orderId, paymentKey, supabase, router]);
+  }, [isLoaded, user, orderId, paymentKey, amount, router]);
 
   if (processing) {
     return (
@@ -2,19 +2,20 @@
 
 import { useState, useEffect } from "react";
 import { useParams } from "next/navigation";
-import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
-import { useUser } from "@clerk/nextjs";
+import { useRepositories } from "@/hooks/use-repositories";
 import { Product } from "@/types/product";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import Link from "next/link";
 import { ShoppingBag, ArrowLeft, ShoppingCart, Plus, Minus } from "lucide-react";
 import { AddToCartDialog } from "@/components/cart/AddToCartDialog";
+import { ProductImageGallery } from "@/components/products/ProductImageGallery";
+import { addToCart, type CartActionResult } from "@/actions/cart";
+import { getMaxCartQuantity } from "@/lib/cart";
 
 export default function ProductDetailPage() {
   const params = useParams();
-  const { user } = useUser();
-  const supabase = useClerkSupabaseClient();
+  const { products } = useRepositories();
   const productId = params.id as string;
 
   const [product, setProduct] = useState<Product | null>(null);
@@ -23,7 +24,7 @@ export default function ProductDetailPage() {
   const [quantity, setQuantity] = useState(1);
   const [addingToCart, setAddingToCart] = useState(false);
   const [showDialog, setShowDialog] = useState(false);
-  const [cartItemCount, setCartItemCount] = useState(0);
+  const [cartResult, setCartResult] = useState<CartActionResult | null>(null);
 
   useEffect(() => {
     if (!productId) return;
@@ -33,14 +34,7 @@ export default function ProductDetailPage() {
         setLoading(true);
         setError(null);
 
-        const { data, error: queryError } = await supabase
-          .from("products")
-          .select("*")
-          .eq("id", productId)
-          .eq("is_active", true)
-          .single();
-
-        if (queryError) throw queryError;
+        const data = await products.getActiveById(productId);
         if (!data) throw new Error("상품을 찾을 수 없습니다.");
 
         setProduct(data);
@@ -55,77 +49,26 @@ export default function ProductDetailPage() {
     };
 
     fetchProduct();
-  }, [productId, supabase]);
-
-  // 장바구니 아이템 개수 가져오기
-  useEffect(() => {
-    if (!user || !supabase) return;
-
-    const fetchCartCount = async () => {
-      try {
-        const { count, error } = await supabase
-          .from("cart_items")
-          .select("*", { count: "exact", head: true })
-          .eq("clerk_id", user.id);
-
-        if (error) throw error;
-        setCartItemCount(count || 0);
-      } catch (error) {
-        console.error("Error fetching cart count:", error);
-      }
-    };
-
-    fetchCartCount();
-  }, [user, supabase]);
+  }, [productId, products]);
 
   const handleAddToCart = async () => {
-    if (!user || !product) return;
+    if (!product) return;
 
     try {
       setAddingToCart(true);
 
-      // 기존 장바구니 아이템 확인
-      const { data: existingItem } = await supabase
-        .from("cart_items")
-        .select("*")
-        .eq("clerk_id", user.id)
-        .eq("product_id", product.id)
-        .single();
+      // 재고/판매 여부는 서버에서 확인 (이미 담긴 상품이면 수량을 더함)
+      // 로그인하지 않은 경우 비로그인 장바구니(쿠키)에 담김
+      const result = await addToCart({ productId: product.id, quantity });
+      setCartResult(result);
 
-      if (existingItem) {
-        // 기존 아이템이 있으면 수량 업데이트
-        const { error: updateError } = await supabase
-          .from("cart_items")
-          .update({ quantity: existingItem.quantity + quantity })
-          .eq("id", existingItem.id);
-
-        if (updateError) throw updateError;
-      } else {
-        // 새 아이템 추가
-        const { error: insertError } = await supabase.from("cart_items").insert({
-          clerk_id: user.id,
-          product_id: product.id,
-          quantity: quantity,
-        });
-
-        if (insertError) throw insertError;
+      if (result.success) {
+        // CartBadge 업데이트를 위한 Custom Event 발생
+        window.dispatchEvent(new CustomEvent("cartUpdated"));
       }
 
-      // 장바구니 개수 업데이트
-      const { count } = await supabase
-        .from("cart_items")
-        .select("*", { count: "exact", head: true })
-        .eq("clerk_id", user.id);
-      setCartItemCount(count || 0);
-
-      // CartBadge 업데이트를 위한 Custom Event 발생
-      window.dispatchEvent(new CustomEvent("cartUpdated"));
-
-      // Dialog 표시
+      // Dialog 표시 (실패한 경우 오류 메시지 표시)
       setShowDialog(true);
-    } catch (err) {
-      console.error("Error adding to cart:", err);
-      alert("장바구니 추가 중 오류가 발생했습니다.");
     } finally {
       setAddingToCart(false);
     }
@@ -155,7 +98,7 @@ export default function ProductDetailPage() {
     );
   }
 
-  const maxQuantity = Math.min(product.stock_quantity, 99);
+  const maxQuantity = getMaxCartQuantity(product.stock_quantity);
 
   return (
     <div className="min-h-[calc(100vh-80px)] max-w-7xl mx-auto px-8 py-8">
@@ -166,15 +109,13 @@ export default function ProductDetailPage() {
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
         {/* 상품 이미지 */}
-        <div className="aspect-square bg-gray-100 rounded-lg flex items-center justify-center">
-          <ShoppingBag className="w-32 h-32 text-gray-400" />
-        </div>
+        <ProductImageGallery images={product.product_images} productName={product.name} />
 
         {/* 상품 정보 */}
         <div className="flex flex-col gap-6">
           <div>
             <span className="text-sm text-gray-500 bg-gray-100 px-3 py-1 rounded inline-block mb-2">
-              {product.category || "기타"}
+              {product.category_info?.label ?? "기타"}
             </span>
             <h1 className="text-4xl font-bold mb-4">{product.name}</h1>
             {product.description && (
@@ -232,21 +173,15 @@ export default function ProductDetailPage() {
                 </div>
 
                 <div className="flex gap-4">
-                  {user ? (
-                    <Button
-                      size="lg"
-                      className="flex-1"
-                      onClick={handleAddToCart}
-                      disabled={addingToCart || product.stock_quantity === 0}
-                    >
-                      <ShoppingCart className="w-5 h-5 mr-2" />
-                      {addingToCart ? "추가 중..." : "장바구니에 추가"}
-                    </Button>
-                  ) : (
-                    <Button size="lg" className="flex-1" asChild>
-                      <Link href="/sign-in">로그인 후 구매하기</Link>
-                    </Button>
-                  )}
+                  <Button
+                    size="lg"
+                    className="flex-1"
+                    onClick={handleAddToCart}
+                    disabled={addingToCart || product.stock_quantity === 0}
+                  >
+                    <ShoppingCart className="w-5 h-5 mr-2" />
+                    {addingToCart ? "추가 중..." : "장바구니에 추가"}
+                  </Button>
                 </div>
               </>
             )}
@@ -271,13 +206,12 @@ export default function ProductDetailPage() {
       </div>
 
       {/* 장바구니 추가 Dialog */}
-      {product && (
+      {product && cartResult && (
         <AddToCartDialog
           open={showDialog}
           onOpenChange={setShowDialog}
           product={product}
-          quantity={quantity}
-          cartItemCount={cartItemCount}
+          result={cartResult}
         />
       )}
     </div>
@@ -1,199 +1,186 @@
 "use client";
 
-import { Suspense, useState, useEffect, useCallback } from "react";
+import { Suspense, useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
-import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
-import { Product, ProductCategory, CATEGORY_LABELS } from "@/types/product";
-import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
+import { useRepositories } from "@/hooks/use-repositories";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import type { ProductSort } from "@/lib/repositories";
 import {
-  Search,
-  SlidersHorizontal,
-  Grid3X3,
-  Sparkles,
-  Package,
-} from "lucide-react";
+  buildProductListingUrl,
+  parseProductListingParams,
+  type ProductListingParams,
+} from "@/lib/product-listing";
+import { ALL_CATEGORIES } from "@/lib/categories";
+import type { Category } from "@/types/category";
+import { Product } from "@/types/product";
+import { Button } from "@/components/ui/button";
+import { Grid3X3, Package } from "lucide-react";
 import { ProductGrid } from "@/components/products/ProductGrid";
 import { Pagination } from "@/components/products/Pagination";
+import { SearchAutocomplete } from "@/components/products/SearchAutocomplete";
+import { PriceRangeFilter } from "@/components/products/PriceRangeFilter";
+import { CategoryFilter } from "@/components/products/CategoryFilter";
 
 const ITEMS_PER_PAGE = 12;
 
-// 카테고리별 색상
-const categoryColors: Record<string, string> = {
-  all: "from-primary to-chart-4",
-  electronics: "from-blue-500 to-cyan-500",
-  clothing: "from-pink-500 to-rose-500",
-  books: "from-amber-500 to-orange-500",
-  food: "from-green-500 to-emerald-500",
-  sports: "from-red-500 to-pink-500",
-  beauty: "from-purple-500 to-fuchsia-500",
-  home: "from-teal-500 to-cyan-500",
-};
-
-// 유효한 카테고리 목록
-const validCategories: ProductCategory[] = [
-  "all",
-  "electronics",
-  "clothing",
-  "books",
-  "food",
-  "sports",
-  "beauty",
-  "home",
+const SORT_OPTIONS: { value: ProductSort; label: string }[] = [
+  { value: "relevance", label: "추천순" },
+  { value: "newest", label: "최신순" },
+  { value: "best_selling", label: "판매량순" },
+  { value: "price_asc", label: "낮은 가격순" },
+  { value: "price_desc", label: "높은 가격순" },
+  { value: "name_asc", label: "이름순" },
 ];
 
+const SEARCH_DEBOUNCE_MS = 300;
+
 function ProductsPageContent() {
-  const supabase = useClerkSupabaseClient();
+  const { products: productRepository, categories: categoryRepository } = useRepositories();
   const searchParams = useSearchParams();
   const router = useRouter();
   const [products, setProducts] = useState<Product[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  
-  // URL 쿼리 파라미터에서 카테고리 읽기
-  const categoryFromUrl = searchParams.get("category");
-  const initialCategory = categoryFromUrl && validCategories.includes(categoryFromUrl as ProductCategory)
-    ? (categoryFromUrl as ProductCategory)
-    : "all";
-  
-  const [selectedCategory, setSelectedCategory] =
-    useState<ProductCategory>(initialCategory);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [sortBy, setSortBy] = useState<"newest" | "name_asc">("newest");
-  const [currentPage, setCurrentPage] = useState(1);
   const [totalCount, setTotalCount] = useState(0);
+  const [categories, setCategories] = useState<Category[] | null>(null);
+
+  // 조회 조건은 URL 쿼리 파라미터가 기준 (링크 공유, 새로고침, 뒤로/앞으로 가기 시 그대로 복원)
+  const listing = useMemo(() => parseProductListingParams(searchParams), [searchParams]);
+  const {
+    category: selectedCategory,
+    search: searchQuery,
+    sort: sortBy,
+    page: currentPage,
+    minPrice,
+    maxPrice,
+    inStockOnly,
+  } = listing;
+
+  // 검색창 입력값 (입력이 멈추면 URL에 반영)
+  const [searchInput, setSearchInput] = useState(searchQuery);
+  const debouncedSearch = useDebouncedValue(searchInput.trim(), SEARCH_DEBOUNCE_MS);
+  const lastDebouncedSearchRef = useRef(debouncedSearch);
 
   // 총 페이지 수 계산
   const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE);
 
+  // 조회 조건 변경 (page를 지정하지 않으면 첫 페이지로 이동)
+  const navigate = useCallback(
+    (updates: Partial<ProductListingParams>, { replace = false } = {}) => {
+      const url = buildProductListingUrl({ ...listing, page: 1, ...updates });
+      if (replace) {
+        router.replace(url, { scroll: false });
+      } else {
+        router.push(url, { scroll: false });
+      }
+    },
+    [listing, router]
+  );
+
+  // 마지막으로 보낸 상품 조회 요청 번호 (조건이 빠르게 바뀔 때 이전 응답 무시)
+  const latestRequestIdRef = useRef(0);
+
   // 상품 가져오기 (페이지네이션 적용)
   const fetchProducts = useCallback(async () => {
+    const requestId = ++latestRequestIdRef.current;
+    const isStale = () => requestId !== latestRequestIdRef.current;
+
     try {
       setLoading(true);
       setError(null);
 
-      // 기본 쿼리 빌더
-      let query = supabase
-        .from("products")
-        .select("*", { count: "exact" })
-        .eq("is_active", true);
-
-      // 카테고리 필터
-      if (selectedCategory !== "all") {
-        query = query.eq("category", selectedCategory);
-      }
-
-      // 검색 필터 (이름 또는 설명에서 검색)
-      if (searchQuery.trim()) {
-        query = query.or(
-          `name.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%`
-        );
-      }
+      const result = await productRepository.listActive({
+        ...listing,
+        pageSize: ITEMS_PER_PAGE,
+      });
+      if (isStale()) return;
 
-      // 정렬
-      switch (sortBy) {
-        case "name_asc":
-          query = query.order("name", { ascending: true });
-          break;
-        case "newest":
-        default:
-          query = query.order("created_at", { ascending: false });
-          break;
+      // 상품 수보다 큰 페이지로 들어오면 마지막 페이지로 이동
+      const lastPage = Math.ceil(result.totalCount / ITEMS_PER_PAGE);
+      if (lastPage > 0 && listing.page > lastPage) {
+        navigate({ page: lastPage }, { replace: true });
+        return;
       }
 
-      // 페이지네이션
-      const from = (currentPage - 1) * ITEMS_PER_PAGE;
-      const to = from + ITEMS_PER_PAGE - 1;
-      query = query.range(from, to);
-
-      const { data, error: queryError, count } = await query;
-
-      if (queryError) throw queryError;
-
-      setProducts(data || []);
-      setTotalCount(count || 0);
+      setProducts(result.products);
+      setTotalCount(result.totalCount);
     } catch (err) {
-      // Supabase 에러인 경우 message 속성에서 에러 메시지 추출
-      const supabaseError = err as { message?: string; code?: string };
+      if (isStale()) return;
+
       const errorMessage =
-        supabaseError.message ||
-        (err instanceof Error
-          ? err.message
-          : "상품을 가져오는 중 오류가 발생했습니다.");
+        err instanceof Error ? err.message : "상품을 가져오는 중 오류가 발생했습니다.";
       setError(errorMessage);
-      console.error("Error fetching products:", JSON.stringify(err, null, 2));
+      console.error("Error fetching products:", err);
     } finally {
-      setLoading(false);
+      if (!isStale()) setLoading(false);
     }
-  }, [supabase, selectedCategory, searchQuery, sortBy, currentPage]);
+  }, [productRepository, listing, navigate]);
 
-  // URL 쿼리 파라미터 변경 시 카테고리 업데이트
+  // 입력이 멈추면 검색어를 URL에 반영 (글자마다 방문 기록이 쌓이지 않도록 replace)
   useEffect(() => {
-    const categoryFromUrl = searchParams.get("category");
-    if (categoryFromUrl && validCategories.includes(categoryFromUrl as ProductCategory)) {
-      const newCategory = categoryFromUrl as ProductCategory;
-      // 현재 상태와 다를 때만 업데이트 (무한 루프 방지)
-      setSelectedCategory((prev) => {
-        if (prev !== newCategory) {
-          return newCategory;
-        }
-        return prev;
-      });
-    } else if (!categoryFromUrl) {
-      setSelectedCategory((prev) => {
-        if (prev !== "all") {
-          return "all";
-        }
-        return prev;
-      });
+    if (lastDebouncedSearchRef.current === debouncedSearch) return;
+    lastDebouncedSearchRef.current = debouncedSearch;
+
+    if (debouncedSearch !== searchQuery) {
+      navigate({ search: debouncedSearch }, { replace: true });
     }
-  }, [searchParams]);
-
-  // 카테고리 변경 시 URL 업데이트
-  const handleCategoryChange = (category: ProductCategory) => {
-    // 이미 선택된 카테고리면 무시
-    if (selectedCategory === category) return;
-    
-    // 상태 즉시 업데이트 (UI 반응성 향상)
-    setSelectedCategory(category);
-    
-    // URL 업데이트
-    const params = new URLSearchParams();
-    if (category !== "all") {
-      params.set("category", category);
+  }, [debouncedSearch, searchQuery, navigate]);
+
+  // URL의 검색어가 다른 경로로 바뀌면(뒤로 가기 등) 검색창도 맞춤
+  useEffect(() => {
+    if (searchQuery === lastDebouncedSearchRef.current) return;
+    setSearchInput((prev) => (prev.trim() === searchQuery ? prev : searchQuery));
+  }, [searchQuery]);
+
+  const handleSearch = (keyword: string) => {
+    setSearchInput(keyword);
+    if (keyword.trim() !== searchQuery) {
+      navigate({ search: keyword });
     }
-    const newUrl = params.toString() ? `/products?${params.toString()}` : "/products";
-    router.replace(newUrl, { scroll: false });
   };
 
-  // 필터/검색/정렬 변경 시 첫 페이지로 리셋
-  useEffect(() => {
-    setCurrentPage(1);
-  }, [selectedCategory, searchQuery, sortBy]);
+  const handlePriceRangeApply = (min: number | undefined, max: number | undefined) => {
+    navigate({ minPrice: min, maxPrice: max });
+  };
+
+  // 카테고리 가져오기 (실패해도 상품 목록은 표시)
+  const fetchCategories = useCallback(async () => {
+    try {
+      setCategories(await categoryRepository.listActive());
+    } catch (err) {
+      console.error("Error fetching categories:", err);
+      setCategories([]);
+    }
+  }, [categoryRepository]);
 
   // 데이터 가져오기
   useEffect(() => {
     fetchProducts();
   }, [fetchProducts]);
 
+  useEffect(() => {
+    fetchCategories();
+  }, [fetchCategories]);
+
+  // 없거나 숨긴 카테고리로 들어오면 전체로 이동
+  useEffect(() => {
+    if (
+      categories &&
+      categories.length > 0 &&
+      selectedCategory !== ALL_CATEGORIES &&
+      !categories.some((category) => category.slug === selectedCategory)
+    ) {
+      navigate({ category: ALL_CATEGORIES }, { replace: true });
+    }
+  }, [categories, selectedCategory, navigate]);
+
   // 페이지 변경 핸들러
   const handlePageChange = (page: number) => {
-    setCurrentPage(page);
+    navigate({ page });
     // 페이지 변경 시 스크롤 상단으로 이동
     window.scrollTo({ top: 0, behavior: "smooth" });
   };
 
-  const categories: ProductCategory[] = [
-    "all",
-    "electronics",
-    "clothing",
-    "books",
-    "food",
-    "sports",
-    "beauty",
-    "home",
-  ];
-
   // 에러 상태
   if (error && !loading) {
     return (
@@ -235,16 +222,16 @@ function ProductsPageContent() {
 
             {/* 검색 바 */}
             <div className="w-full md:w-96">
-              <div className="relative">
-                <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-muted-foreground w-5 h-5" />
-                <Input
-                  type="text"
-                  placeholder="상품명 또는 설명으로 검색..."
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                  className="pl-12 h-12 rounded-xl border-border/50 bg-background/80 focus:bg-background transition-colors"
-                />
-              </div>
+              <SearchAutocomplete
+                value={searchInput}
+                onChange={setSearchInput}
+                onSearch={handleSearch}
+                onSelectCategory={(category) => {
+                  setSearchInput("");
+                  navigate({ category, search: "" });
+                }}
+                placeholder="상품명, 설명, 카테고리로 검색..."
+              />
             </div>
           </div>
         </div>
@@ -254,46 +241,47 @@ function ProductsPageContent() {
         {/* 필터 & 정렬 바 */}
         <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-6 mb-8">
           {/* 카테고리 필터 */}
-          <div className="flex flex-wrap gap-2">
-            {categories.map((category) => (
-              <Button
-                key={category}
-                variant={selectedCategory === category ? "default" : "outline"}
-                size="sm"
-                onClick={() => handleCategoryChange(category)}
-                className={`
-                  rounded-full transition-all duration-300
-                  ${
-                    selectedCategory === category
-                      ? `bg-gradient-to-r ${categoryColors[category]} text-white border-0 shadow-lg`
-                      : "hover:border-primary/50"
-                  }
-                `}
-              >
-                {category === "all" ? (
-                  <Sparkles className="w-4 h-4 mr-2" />
-                ) : (
-                  <SlidersHorizontal className="w-4 h-4 mr-2" />
-                )}
-                {CATEGORY_LABELS[category]}
-              </Button>
-            ))}
-          </div>
+          <CategoryFilter
+            categories={categories ?? []}
+            selected={selectedCategory}
+            onChange={(category) => navigate({ category })}
+          />
 
           {/* 정렬 */}
           <div className="flex items-center gap-3">
             <span className="text-sm text-muted-foreground">정렬:</span>
             <select
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+              onChange={(e) => navigate({ sort: e.target.value as ProductSort })}
               className="px-4 py-2 rounded-xl border border-border/50 bg-card text-foreground text-sm font-medium focus:outline-none focus:ring-2 focus:ring-primary/50 focus:border-primary/50 transition-all cursor-pointer"
             >
-              <option value="newest">최신순</option>
-              <option value="name_asc">이름순</option>
+              {SORT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
             </select>
           </div>
         </div>
 
+        {/* 가격대 & 재고 필터 */}
+        <div className="flex flex-wrap items-center gap-6 mb-8">
+          <PriceRangeFilter
+            minPrice={minPrice}
+            maxPrice={maxPrice}
+            onApply={handlePriceRangeApply}
+          />
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              className="w-4 h-4"
+              checked={inStockOnly}
+              onChange={(e) => navigate({ inStockOnly: e.target.checked })}
+            />
+            재고 있는 상품만
+          </label>
+        </div>
+
         {/* 상품 그리드 */}
         <ProductGrid
           products={products}
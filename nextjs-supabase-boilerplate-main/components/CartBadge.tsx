@@ -1,58 +1,54 @@
 "use client";
 
-import { useEffect, useState, useCallback } from "react";
+import { useEffect, useState, useCallback, useMemo } from "react";
 import { useUser } from "@clerk/nextjs";
 import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { createCartRepository } from "@/lib/repositories";
+import { getGuestCartCount } from "@/actions/cart";
 
+/**
+ * 장바구니 상품 수 배지
+ *
+ * 로그인하지 않은 경우 쿠키에 저장된 비로그인 장바구니의 상품 수를 표시합니다.
+ */
 export function CartBadge() {
-  const { user } = useUser();
+  const { user, isLoaded } = useUser();
   const supabase = useClerkSupabaseClient();
+  const cart = useMemo(() => createCartRepository(supabase), [supabase]);
   const [itemCount, setItemCount] = useState(0);
 
   const fetchCartCount = useCallback(async () => {
-    if (!user || !supabase) {
-      setItemCount(0);
-      return;
-    }
-
     try {
-      const { count, error } = await supabase
-        .from("cart_items")
-        .select("*", { count: "exact", head: true })
-        .eq("clerk_id", user.id);
-
-      if (error) throw error;
-      setItemCount(count || 0);
+      setItemCount(user ? await cart.countItems(user.id) : await getGuestCartCount());
     } catch (error) {
       console.error("Error fetching cart count:", error);
     }
-  }, [user, supabase]);
+  }, [user, cart]);
 
   useEffect(() => {
-    if (!user) {
-      setItemCount(0);
-      return;
-    }
+    if (!isLoaded) return;
 
     // 초기 로드
     fetchCartCount();
 
-    // 실시간 업데이트를 위한 구독
-    const channel = supabase
-      .channel(`cart-changes-${user.id}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "cart_items",
-          filter: `clerk_id=eq.${user.id}`,
-        },
-        () => {
-          fetchCartCount();
-        }
-      )
-      .subscribe();
+    // 실시간 업데이트를 위한 구독 (로그인 사용자만)
+    const channel = user
+      ? supabase
+          .channel(`cart-changes-${user.id}`)
+          .on(
+            "postgres_changes",
+            {
+              event: "*",
+              schema: "public",
+              table: "cart_items",
+              filter: `clerk_id=eq.${user.id}`,
+            },
+            () => {
+              fetchCartCount();
+            }
+          )
+          .subscribe()
+      : null;
 
     // 페이지 포커스 시 업데이트
     const handleFocus = () => {
@@ -67,11 +63,11 @@ export function CartBadge() {
     window.addEventListener("cartUpdated", handleCartUpdate);
 
     return () => {
-      supabase.removeChannel(channel);
+      if (channel) supabase.removeChannel(channel);
       window.removeEventListener("focus", handleFocus);
       window.removeEventListener("cartUpdated", handleCartUpdate);
     };
-  }, [user, supabase, fetchCartCount]);
+  }, [isLoaded, user, supabase, fetchCartCount]);
 
   if (itemCount === 0) return null;
 
@@ -28,21 +28,12 @@ const Navbar = () => {
           </Link>
           
           {/* 장바구니 아이콘 */}
-          <SignedIn>
-            <Link href="/cart" className="relative">
-              <Button variant="ghost" size="icon" aria-label="장바구니" className="relative hover:bg-accent">
-                <ShoppingCart className="h-5 w-5" />
-                <CartBadge />
-              </Button>
-            </Link>
-          </SignedIn>
-          <SignedOut>
-            <SignInButton mode="modal">
-              <Button variant="ghost" size="icon" aria-label="장바구니 (로그인 필요)" className="hover:bg-accent">
-                <ShoppingCart className="h-5 w-5" />
-              </Button>
-            </SignInButton>
-          </SignedOut>
+          <Link href="/cart" className="relative">
+            <Button variant="ghost" size="icon" aria-label="장바구니" className="relative hover:bg-accent">
+              <ShoppingCart className="h-5 w-5" />
+              <CartBadge />
+            </Button>
+          </Link>
 
           {/* 마이페이지 */}
           <SignedIn>
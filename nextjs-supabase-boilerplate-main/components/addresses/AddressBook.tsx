@@ -0,0 +1,181 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { MapPin, Plus, Pencil, Trash2 } from "lucide-react";
+import { useRepositories } from "@/hooks/use-repositories";
+import { Button } from "@/components/ui/button";
+import { AddressFormDialog } from "@/components/addresses/AddressFormDialog";
+import { deleteAddress, setDefaultAddress } from "@/actions/addresses";
+import { MAX_USER_ADDRESSES } from "@/lib/addresses";
+import type { UserAddress } from "@/types/address";
+
+interface AddressBookProps {
+  clerkId: string;
+}
+
+/**
+ * 배송지 주소록 관리 (마이페이지)
+ */
+export function AddressBook({ clerkId }: AddressBookProps) {
+  const { addresses: addressRepository } = useRepositories();
+  const [addresses, setAddresses] = useState<UserAddress[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingAddress, setEditingAddress] = useState<UserAddress | null>(null);
+
+  const fetchAddresses = useCallback(async () => {
+    try {
+      setError(null);
+      setAddresses(await addressRepository.listByUser(clerkId));
+    } catch (err) {
+      setError("배송지를 가져오는 중 오류가 발생했습니다.");
+      console.error("Error fetching addresses:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [addressRepository, clerkId]);
+
+  useEffect(() => {
+    fetchAddresses();
+  }, [fetchAddresses]);
+
+  const openDialog = (address: UserAddress | null) => {
+    setEditingAddress(address);
+    setDialogOpen(true);
+  };
+
+  const handleSetDefault = async (addressId: string) => {
+    try {
+      setUpdating(addressId);
+      const result = await setDefaultAddress(addressId);
+
+      if (!result.success) {
+        alert(result.error);
+        return;
+      }
+
+      await fetchAddresses();
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const handleDelete = async (addressId: string) => {
+    if (!confirm("이 배송지를 삭제하시겠습니까?")) return;
+
+    try {
+      setUpdating(addressId);
+      const result = await deleteAddress(addressId);
+
+      if (!result.success) {
+        alert(result.error);
+        return;
+      }
+
+      await fetchAddresses();
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  return (
+    <div className="border rounded-lg p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-2xl font-bold">배송지 관리</h2>
+        <Button
+          variant="outline"
+          onClick={() => openDialog(null)}
+          disabled={addresses.length >= MAX_USER_ADDRESSES}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          새 배송지 추가
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-gray-600">배송지를 불러오는 중...</p>
+      ) : error ? (
+        <div className="flex items-center gap-4">
+          <p className="text-red-600">{error}</p>
+          <Button variant="outline" size="sm" onClick={fetchAddresses}>
+            다시 시도
+          </Button>
+        </div>
+      ) : addresses.length === 0 ? (
+        <p className="text-gray-600">저장된 배송지가 없습니다.</p>
+      ) : (
+        <ul className="space-y-3">
+          {addresses.map((address) => (
+            <li
+              key={address.id}
+              className="border rounded-lg p-4 flex items-start justify-between gap-4"
+              style={{ opacity: updating === address.id ? 0.5 : 1 }}
+            >
+              <div className="flex gap-3 min-w-0">
+                <MapPin className="w-5 h-5 mt-0.5 text-gray-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className="font-semibold">
+                      {address.label || address.recipient_name}
+                    </span>
+                    {address.is_default && (
+                      <span className="text-xs font-semibold px-2 py-0.5 rounded text-primary bg-primary/10">
+                        기본 배송지
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {address.recipient_name} · {address.phone}
+                  </p>
+                  <p className="text-sm text-gray-600">
+                    ({address.zip_code}) {address.address} {address.address_detail}
+                  </p>
+                </div>
+              </div>
+              <div className="flex items-center gap-1 flex-shrink-0">
+                {!address.is_default && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleSetDefault(address.id)}
+                    disabled={updating === address.id}
+                  >
+                    기본으로 설정
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="배송지 수정"
+                  onClick={() => openDialog(address)}
+                  disabled={updating === address.id}
+                >
+                  <Pencil className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="배송지 삭제"
+                  onClick={() => handleDelete(address.id)}
+                  disabled={updating === address.id}
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AddressFormDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        address={editingAddress}
+        onSaved={fetchAddresses}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { ShippingAddressFields } from "@/components/addresses/ShippingAddressFields";
+import { createAddress, updateAddress } from "@/actions/addresses";
+import { toShippingAddress } from "@/lib/addresses";
+import { addressFormSchema, type AddressFormValues } from "@/lib/validations/shipping";
+import type { UserAddress, UserAddressInput } from "@/types/address";
+
+interface AddressFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** 수정할 배송지 (생략하면 새 배송지 추가) */
+  address?: UserAddress | null;
+  onSaved: (address: UserAddress) => void;
+}
+
+const EMPTY_VALUES: AddressFormValues = {
+  label: "",
+  name: "",
+  phone: "",
+  zipCode: "",
+  address: "",
+  addressDetail: "",
+  jibunAddress: "",
+  isDefault: false,
+};
+
+function toFormValues(address: UserAddress): AddressFormValues {
+  return {
+    ...toShippingAddress(address),
+    label: address.label,
+    isDefault: address.is_default,
+  };
+}
+
+export function AddressFormDialog({
+  open,
+  onOpenChange,
+  address,
+  onSaved,
+}: AddressFormDialogProps) {
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const form = useForm<AddressFormValues>({
+    resolver: zodResolver(addressFormSchema),
+    defaultValues: EMPTY_VALUES,
+  });
+
+  // 열릴 때마다 선택한 배송지로 초기화
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset(address ? toFormValues(address) : EMPTY_VALUES);
+    setSubmitError(null);
+  }, [open, address, form]);
+
+  const onSubmit = async (values: AddressFormValues) => {
+    setSubmitError(null);
+
+    const input = values as UserAddressInput;
+    const result = address
+      ? await updateAddress(address.id, input)
+      : await createAddress(input);
+
+    if (!result.success) {
+      setSubmitError(result.error);
+      return;
+    }
+
+    onSaved(result.address);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)}>
+            <DialogHeader>
+              <DialogTitle>{address ? "배송지 수정" : "새 배송지 추가"}</DialogTitle>
+              <DialogDescription>주문할 때 저장된 배송지를 불러올 수 있습니다.</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4 py-4">
+              <FormField
+                control={form.control}
+                name="label"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>배송지 이름</FormLabel>
+                    <FormControl>
+                      <Input placeholder="집, 회사" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <ShippingAddressFields />
+              {/* 기본 배송지 해제는 다른 배송지를 기본으로 지정해서만 가능 */}
+              {!address?.is_default && (
+                <FormField
+                  control={form.control}
+                  name="isDefault"
+                  render={({ field }) => (
+                    <FormItem>
+                      <div className="flex items-center gap-2">
+                        <FormControl>
+                          <input
+                            type="checkbox"
+                            className="w-4 h-4"
+                            checked={field.value}
+                            onChange={(e) => field.onChange(e.target.checked)}
+                            onBlur={field.onBlur}
+                            name={field.name}
+                            ref={field.ref}
+                          />
+                        </FormControl>
+                        <FormLabel>기본 배송지로 설정</FormLabel>
+                      </div>
+                    </FormItem>
+                  )}
+                />
+              )}
+              {submitError && <p className="text-red-600 text-sm">{submitError}</p>}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                취소
+              </Button>
+              <Button type="submit" disabled={form.formState.isSubmitting}>
+                {form.formState.isSubmitting ? "저장 중..." : "저장"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { Check } from "lucide-react";
+import type { UserAddress } from "@/types/address";
+
+interface AddressPickerProps {
+  addresses: UserAddress[];
+  selectedId: string | null;
+  onSelect: (address: UserAddress) => void;
+}
+
+/**
+ * 저장된 배송지 선택 (주문서)
+ *
+ * 선택하면 주문서 배송지 입력 필드를 채웁니다.
+ */
+export function AddressPicker({ addresses, selectedId, onSelect }: AddressPickerProps) {
+  if (addresses.length === 0) return null;
+
+  return (
+    <div className="mb-6">
+      <p className="text-sm font-medium mb-2">저장된 배송지</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        {addresses.map((address) => {
+          const selected = address.id === selectedId;
+
+          return (
+            <button
+              key={address.id}
+              type="button"
+              onClick={() => onSelect(address)}
+              aria-pressed={selected}
+              className={`text-left border rounded-lg p-3 transition-colors ${
+                selected ? "border-primary bg-primary/5" : "hover:border-primary/50"
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <span className="font-semibold text-sm truncate">
+                  {address.label || address.recipient_name}
+                  {address.is_default && (
+                    <span className="ml-2 text-xs text-primary">기본</span>
+                  )}
+                </span>
+                {selected && <Check className="w-4 h-4 text-primary flex-shrink-0" />}
+              </div>
+              <p className="text-xs text-gray-600 truncate">
+                {address.address} {address.address_detail}
+              </p>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Search } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getPostcodeProvider, type PostcodeProvider } from "@/lib/postcode/client";
+import type { PostcodeAddress } from "@/types/postcode";
+
+interface AddressSearchButtonProps {
+  onSelect: (address: PostcodeAddress) => void;
+  /** 생략하면 환경 변수에 따라 Daum 우편번호 서비스 또는 고정 결과 사용 */
+  provider?: PostcodeProvider;
+}
+
+/**
+ * 우편번호 검색 버튼
+ *
+ * 검색 창에서 주소를 선택하면 우편번호, 도로명 주소, 지번 주소를 전달합니다.
+ */
+export function AddressSearchButton({ onSelect, provider }: AddressSearchButtonProps) {
+  const postcode = useMemo(() => provider ?? getPostcodeProvider(), [provider]);
+  const [searching, setSearching] = useState(false);
+
+  const handleClick = async () => {
+    try {
+      setSearching(true);
+
+      const address = await postcode.search();
+      if (address) onSelect(address);
+    } catch (error) {
+      console.error("Error searching postcode:", error);
+      alert(error instanceof Error ? error.message : "주소 검색 중 오류가 발생했습니다.");
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <Button type="button" variant="outline" onClick={handleClick} disabled={searching}>
+      <Search className="w-4 h-4 mr-2" />
+      {searching ? "검색 중..." : "주소 검색"}
+    </Button>
+  );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useFormContext } from "react-hook-form";
+import { Input } from "@/components/ui/input";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { AddressSearchButton } from "@/components/addresses/AddressSearchButton";
+import type { ShippingAddress } from "@/types/order";
+
+/**
+ * 배송지 입력 필드 (주문서, 배송지 주소록에서 공통 사용)
+ *
+ * 배송지 필드(ShippingAddress)를 최상위에 가진 react-hook-form `<Form>` 안에서 사용합니다.
+ * 우편번호와 주소는 직접 입력할 수 없고 우편번호 검색으로만 채웁니다.
+ */
+export function ShippingAddressFields() {
+  const form = useFormContext<ShippingAddress>();
+  const jibunAddress = form.watch("jibunAddress");
+
+  return (
+    <>
+      <FormField
+        control={form.control}
+        name="name"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>받는 분 이름 *</FormLabel>
+            <FormControl>
+              <Input {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="phone"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>연락처 *</FormLabel>
+            <FormControl>
+              <Input type="tel" placeholder="010-1234-5678" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="zipCode"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>우편번호 *</FormLabel>
+            <div className="flex gap-2">
+              <FormControl>
+                <Input placeholder="주소 검색으로 입력" readOnly {...field} />
+              </FormControl>
+              <AddressSearchButton
+                onSelect={(result) => {
+                  const options = { shouldDirty: true, shouldValidate: true };
+
+                  // 다른 주소를 선택하면 상세주소를 다시 입력
+                  if (result.zipCode !== form.getValues("zipCode")) {
+                    form.setValue("addressDetail", "", options);
+                  }
+                  form.setValue("zipCode", result.zipCode, options);
+                  form.setValue("address", result.roadAddress, options);
+                  form.setValue("jibunAddress", result.jibunAddress, options);
+                }}
+              />
+            </div>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="address"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>주소 *</FormLabel>
+            <FormControl>
+              <Input placeholder="도로명 주소" readOnly {...field} />
+            </FormControl>
+            {jibunAddress && <FormDescription>지번: {jibunAddress}</FormDescription>}
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={form.control}
+        name="addressDetail"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>상세주소</FormLabel>
+            <FormControl>
+              <Input placeholder="101동 101호" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+}
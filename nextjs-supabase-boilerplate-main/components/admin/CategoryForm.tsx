@@ -0,0 +1,271 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { createCategory, updateCategory } from "@/actions/categories";
+import {
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  getCategoryGradient,
+  getCategoryIcon,
+  type CategoryColor,
+  type CategoryIcon,
+} from "@/lib/categories";
+import {
+  categoryFormSchema,
+  type CategoryFormValues,
+} from "@/lib/validations/category";
+import type { Category } from "@/types/category";
+
+interface CategoryFormProps {
+  /** 수정할 카테고리 (없으면 신규 등록) */
+  category?: Category;
+  /** 상위 카테고리로 선택할 수 있는 최상위 카테고리 */
+  parentOptions: Category[];
+}
+
+const EMPTY_VALUES: CategoryFormValues = {
+  slug: "",
+  label: "",
+  color: "gray",
+  icon: "shopping-bag",
+  sort_order: 0,
+  parent_slug: "",
+  is_active: true,
+};
+
+const SELECT_CLASS_NAME =
+  "border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs md:text-sm";
+
+function toFormValues(category: Category): CategoryFormValues {
+  return {
+    slug: category.slug,
+    label: category.label,
+    color: category.color in CATEGORY_COLORS ? (category.color as CategoryColor) : "gray",
+    icon: category.icon in CATEGORY_ICONS ? (category.icon as CategoryIcon) : "shopping-bag",
+    sort_order: category.sort_order,
+    parent_slug: category.parent_slug ?? "",
+    is_active: category.is_active,
+  };
+}
+
+/**
+ * 관리자 카테고리 등록/수정 폼
+ *
+ * slug는 등록할 때만 입력할 수 있습니다. (상품과 URL에 저장되는 값)
+ */
+export function CategoryForm({ category, parentOptions }: CategoryFormProps) {
+  const router = useRouter();
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  const form = useForm<CategoryFormValues>({
+    resolver: zodResolver(categoryFormSchema),
+    defaultValues: category ? toFormValues(category) : EMPTY_VALUES,
+  });
+
+  const color = form.watch("color");
+  const icon = form.watch("icon");
+  const label = form.watch("label");
+  const PreviewIcon = getCategoryIcon({ icon });
+
+  const onSubmit = async (values: CategoryFormValues) => {
+    setSubmitError(null);
+
+    const result = category
+      ? await updateCategory(category.slug, values)
+      : await createCategory(values);
+
+    if (!result.success) {
+      setSubmitError(result.error || "카테고리 저장 중 오류가 발생했습니다.");
+      return;
+    }
+
+    router.push("/admin/categories");
+    router.refresh();
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <FormField
+            control={form.control}
+            name="label"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>카테고리 이름</FormLabel>
+                <FormControl>
+                  <Input placeholder="예: 반려동물" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="slug"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>슬러그</FormLabel>
+                <FormControl>
+                  <Input placeholder="예: pets" disabled={!!category} {...field} />
+                </FormControl>
+                <FormDescription>
+                  상품 목록 주소(/products?category=...)에 사용되며 등록 후 변경할 수 없습니다.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <FormField
+            control={form.control}
+            name="parent_slug"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>상위 카테고리</FormLabel>
+                <FormControl>
+                  <select className={SELECT_CLASS_NAME} {...field}>
+                    <option value="">없음 (최상위)</option>
+                    {parentOptions
+                      .filter((option) => option.slug !== category?.slug)
+                      .map((option) => (
+                        <option key={option.slug} value={option.slug}>
+                          {option.label}
+                        </option>
+                      ))}
+                  </select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="color"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>색상</FormLabel>
+                <FormControl>
+                  <select className={SELECT_CLASS_NAME} {...field}>
+                    {Object.entries(CATEGORY_COLORS).map(([key, { label }]) => (
+                      <option key={key} value={key}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="icon"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>아이콘</FormLabel>
+                <FormControl>
+                  <select className={SELECT_CLASS_NAME} {...field}>
+                    {Object.entries(CATEGORY_ICONS).map(([key, { label }]) => (
+                      <option key={key} value={key}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* 미리보기 */}
+        <div className="flex items-center gap-3">
+          <div
+            className={`w-12 h-12 rounded-xl bg-gradient-to-br ${getCategoryGradient({ color })} flex items-center justify-center shadow-lg`}
+          >
+            <PreviewIcon className="w-6 h-6 text-white" />
+          </div>
+          <span className="font-semibold">{label || "카테고리 이름"}</span>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="sort_order"
+          render={({ field }) => (
+            <FormItem className="max-w-48">
+              <FormLabel>정렬 순서</FormLabel>
+              <FormControl>
+                <Input type="number" step={1} {...field} />
+              </FormControl>
+              <FormDescription>작은 숫자가 먼저 표시됩니다.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="is_active"
+          render={({ field }) => (
+            <FormItem>
+              <div className="flex items-center gap-2">
+                <FormControl>
+                  <input
+                    type="checkbox"
+                    className="w-4 h-4"
+                    checked={field.value}
+                    onChange={(e) => field.onChange(e.target.checked)}
+                    onBlur={field.onBlur}
+                    name={field.name}
+                    ref={field.ref}
+                  />
+                </FormControl>
+                <FormLabel>표시</FormLabel>
+              </div>
+              <FormDescription>
+                숨긴 카테고리는 홈과 상품 목록의 카테고리 메뉴에 표시되지 않습니다.
+              </FormDescription>
+            </FormItem>
+          )}
+        />
+
+        {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
+        <div className="flex gap-4">
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {category ? "카테고리 수정" : "카테고리 등록"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => router.push("/admin/categories")}
+          >
+            취소
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
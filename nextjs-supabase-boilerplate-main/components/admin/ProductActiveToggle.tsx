@@ -0,0 +1,49 @@
+"use client";
+
+import { useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Button } from "@/components/ui/button";
+import { setProductActive } from "@/actions/products";
+
+interface ProductActiveToggleProps {
+  productId: string;
+  isActive: boolean;
+}
+
+/**
+ * 관리자 상품 목록의 판매 중지/재개 버튼
+ */
+export function ProductActiveToggle({ productId, isActive }: ProductActiveToggleProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+
+  const handleClick = () => {
+    const message = isActive
+      ? "이 상품의 판매를 중지하시겠습니까?"
+      : "이 상품의 판매를 재개하시겠습니까?";
+
+    if (!confirm(message)) return;
+
+    startTransition(async () => {
+      const result = await setProductActive(productId, !isActive);
+
+      if (!result.success) {
+        alert(result.error || "상품 상태 변경 중 오류가 발생했습니다.");
+        return;
+      }
+
+      router.refresh();
+    });
+  };
+
+  return (
+    <Button
+      variant={isActive ? "outline" : "default"}
+      size="sm"
+      onClick={handleClick}
+      disabled={isPending}
+    >
+      {isActive ? "판매 중지" : "판매 재개"}
+    </Button>
+  );
+}
@@ -0,0 +1,222 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { createProduct, updateProduct } from "@/actions/products";
+import {
+  productFormSchema,
+  type ProductFormValues,
+} from "@/lib/validations/product";
+import type { Category } from "@/types/category";
+import type { Product } from "@/types/product";
+
+interface ProductFormProps {
+  /** 수정할 상품 (없으면 신규 등록) */
+  product?: Product;
+  /** 선택할 수 있는 카테고리 (숨긴 카테고리 포함) */
+  categories: Category[];
+}
+
+const EMPTY_VALUES: ProductFormValues = {
+  name: "",
+  description: "",
+  price: 0,
+  category: "",
+  stock_quantity: 0,
+  is_active: true,
+};
+
+function toFormValues(product: Product): ProductFormValues {
+  return {
+    name: product.name,
+    description: product.description ?? "",
+    price: Number(product.price),
+    category: product.category ?? "",
+    stock_quantity: product.stock_quantity,
+    is_active: product.is_active,
+  };
+}
+
+/**
+ * 관리자 상품 등록/수정 폼
+ */
+export function ProductForm({ product, categories }: ProductFormProps) {
+  const router = useRouter();
+  const [submitError, setSubmitError] = useState<string | null>(null);
+
+  // 하위 카테고리는 상위 카테고리 바로 아래에 표시
+  const categoryOptions = categories
+    .filter((category) => !category.parent_slug)
+    .flatMap((parent) => [
+      { slug: parent.slug, label: parent.label },
+      ...categories
+        .filter((category) => category.parent_slug === parent.slug)
+        .map((child) => ({ slug: child.slug, label: `${parent.label} > ${child.label}` })),
+    ]);
+
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: product ? toFormValues(product) : EMPTY_VALUES,
+  });
+
+  const onSubmit = async (values: ProductFormValues) => {
+    setSubmitError(null);
+
+    const result = product
+      ? await updateProduct(product.id, values)
+      : await createProduct(values);
+
+    if (!result.success) {
+      setSubmitError(result.error || "상품 저장 중 오류가 발생했습니다.");
+      return;
+    }
+
+    router.push("/admin/products");
+    router.refresh();
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>상품명</FormLabel>
+              <FormControl>
+                <Input placeholder="상품명을 입력하세요" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>상품 설명</FormLabel>
+              <FormControl>
+                <Textarea rows={5} placeholder="상품 설명을 입력하세요" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <FormField
+            control={form.control}
+            name="price"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>가격 (원)</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step={1} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="stock_quantity"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>재고 수량</FormLabel>
+                <FormControl>
+                  <Input type="number" min={0} step={1} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>카테고리</FormLabel>
+                <FormControl>
+                  <select
+                    className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-base shadow-xs md:text-sm"
+                    {...field}
+                  >
+                    <option value="">카테고리 선택</option>
+                    {categoryOptions.map((option) => (
+                      <option key={option.slug} value={option.slug}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="is_active"
+          render={({ field }) => (
+            <FormItem>
+              <div className="flex items-center gap-2">
+                <FormControl>
+                  <input
+                    type="checkbox"
+                    className="w-4 h-4"
+                    checked={field.value}
+                    onChange={(e) => field.onChange(e.target.checked)}
+                    onBlur={field.onBlur}
+                    name={field.name}
+                    ref={field.ref}
+                  />
+                </FormControl>
+                <FormLabel>판매중</FormLabel>
+              </div>
+              <FormDescription>
+                판매를 중지하면 상품 목록에 표시되지 않고 주문할 수 없습니다.
+              </FormDescription>
+            </FormItem>
+          )}
+        />
+
+        {submitError && <p className="text-sm text-red-600">{submitError}</p>}
+
+        <div className="flex gap-4">
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {form.formState.isSubmitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {product ? "상품 수정" : "상품 등록"}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => router.push("/admin/products")}
+          >
+            취소
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
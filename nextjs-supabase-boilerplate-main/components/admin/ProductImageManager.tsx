@@ -0,0 +1,206 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Image from "next/image";
+import { useRouter } from "next/navigation";
+import { ArrowDown, ArrowUp, Star, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  deleteProductImage,
+  setPrimaryProductImage,
+  updateProductImages,
+  uploadProductImage,
+  type ProductActionResult,
+} from "@/actions/products";
+import {
+  getProductImageUrl,
+  PRODUCT_IMAGE_MIME_TYPES,
+  sortProductImages,
+} from "@/lib/product-images";
+import { PRODUCT_IMAGE_ALT_TEXT_MAX_LENGTH } from "@/lib/validations/product";
+import type { ProductImage } from "@/types/product";
+
+interface ProductImageManagerProps {
+  productId: string;
+  images: ProductImage[];
+}
+
+/**
+ * 관리자 상품 이미지 관리
+ *
+ * 업로드, 삭제, 대표 이미지 지정, 순서/대체 텍스트 변경을 처리합니다.
+ */
+export function ProductImageManager({ productId, images }: ProductImageManagerProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [items, setItems] = useState(() =>
+    sortProductImages(images).map((image) => ({ ...image, alt_text: image.alt_text ?? "" }))
+  );
+  const [isDirty, setIsDirty] = useState(false);
+
+  // 서버에서 이미지 목록이 바뀌면(업로드/삭제 후 refresh) 편집 상태를 초기화
+  const [sourceImages, setSourceImages] = useState(images);
+  if (sourceImages !== images) {
+    setSourceImages(images);
+    setItems(
+      sortProductImages(images).map((image) => ({ ...image, alt_text: image.alt_text ?? "" }))
+    );
+    setIsDirty(false);
+  }
+
+  const run = (action: () => Promise<ProductActionResult>) => {
+    startTransition(async () => {
+      const result = await action();
+
+      if (!result.success) {
+        alert(result.error || "이미지 처리 중 오류가 발생했습니다.");
+        return;
+      }
+
+      router.refresh();
+    });
+  };
+
+  const handleUpload = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const form = event.currentTarget;
+    const formData = new FormData(form);
+
+    run(async () => {
+      const result = await uploadProductImage(productId, formData);
+      if (result.success) form.reset();
+      return result;
+    });
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= items.length) return;
+
+    const next = [...items];
+    [next[index], next[target]] = [next[target], next[index]];
+    setItems(next);
+    setIsDirty(true);
+  };
+
+  const changeAltText = (id: string, altText: string) => {
+    setItems(items.map((item) => (item.id === id ? { ...item, alt_text: altText } : item)));
+    setIsDirty(true);
+  };
+
+  return (
+    <div className="space-y-6">
+      {items.length === 0 ? (
+        <p className="text-sm text-gray-600">등록된 이미지가 없습니다.</p>
+      ) : (
+        <ul className="space-y-3">
+          {items.map((image, index) => (
+            <li key={image.id} className="flex items-center gap-4 border rounded-lg p-3">
+              <div className="relative w-20 h-20 shrink-0 rounded overflow-hidden bg-gray-100">
+                <Image
+                  src={getProductImageUrl(image.storage_path)}
+                  alt={image.alt_text}
+                  fill
+                  sizes="80px"
+                  className="object-cover"
+                />
+              </div>
+              <Input
+                value={image.alt_text}
+                onChange={(e) => changeAltText(image.id, e.target.value)}
+                placeholder="대체 텍스트 (이미지 설명)"
+                maxLength={PRODUCT_IMAGE_ALT_TEXT_MAX_LENGTH}
+                className="flex-1"
+              />
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="위로 이동"
+                  onClick={() => move(index, -1)}
+                  disabled={isPending || index === 0}
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="아래로 이동"
+                  onClick={() => move(index, 1)}
+                  disabled={isPending || index === items.length - 1}
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant={image.is_primary ? "default" : "ghost"}
+                  size="icon"
+                  aria-label="대표 이미지로 지정"
+                  onClick={() => run(() => setPrimaryProductImage(image.id))}
+                  disabled={isPending || image.is_primary}
+                >
+                  <Star className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  aria-label="이미지 삭제"
+                  onClick={() => {
+                    if (confirm("이 이미지를 삭제하시겠습니까?")) {
+                      run(() => deleteProductImage(image.id));
+                    }
+                  }}
+                  disabled={isPending}
+                >
+                  <Trash2 className="w-4 h-4 text-red-500" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isDirty && (
+        <Button
+          type="button"
+          onClick={() =>
+            run(() =>
+              updateProductImages(
+                productId,
+                items.map((item) => ({ id: item.id, altText: item.alt_text }))
+              )
+            )
+          }
+          disabled={isPending}
+        >
+          순서/설명 저장
+        </Button>
+      )}
+
+      <form onSubmit={handleUpload} className="flex flex-col md:flex-row gap-3 border-t pt-6">
+        <Input
+          type="file"
+          name="file"
+          accept={PRODUCT_IMAGE_MIME_TYPES.join(",")}
+          required
+          className="md:w-64"
+        />
+        <Input
+          name="altText"
+          placeholder="대체 텍스트 (선택)"
+          maxLength={PRODUCT_IMAGE_ALT_TEXT_MAX_LENGTH}
+          className="flex-1"
+        />
+        <Button type="submit" disabled={isPending}>
+          <Upload className="w-4 h-4 mr-2" />
+          업로드
+        </Button>
+      </form>
+      <p className="text-xs text-gray-500">JPG, PNG, WEBP, GIF / 최대 5MB</p>
+    </div>
+  );
+}
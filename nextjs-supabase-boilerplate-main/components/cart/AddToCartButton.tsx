@@ -0,0 +1,71 @@
+"use client";
+
+import { useState } from "react";
+import { ShoppingCart } from "lucide-react";
+import { AddToCartDialog } from "@/components/cart/AddToCartDialog";
+import { addToCart, type CartActionResult } from "@/actions/cart";
+import { Product } from "@/types/product";
+
+interface AddToCartButtonProps {
+  product: Product;
+}
+
+/**
+ * 상품 카드용 장바구니 담기 버튼
+ *
+ * 상품 1개를 담고 결과를 AddToCartDialog로 보여줍니다.
+ * 로그인하지 않은 경우 비로그인 장바구니(쿠키)에 담깁니다.
+ * 카드 전체가 상세 페이지 링크이므로 클릭이 링크로 전달되지 않도록 막습니다.
+ */
+export function AddToCartButton({ product }: AddToCartButtonProps) {
+  const [adding, setAdding] = useState(false);
+  const [showDialog, setShowDialog] = useState(false);
+  const [result, setResult] = useState<CartActionResult | null>(null);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+
+    try {
+      setAdding(true);
+
+      const cartResult = await addToCart({ productId: product.id, quantity: 1 });
+      setResult(cartResult);
+
+      if (cartResult.success) {
+        // CartBadge 업데이트를 위한 Custom Event 발생
+        window.dispatchEvent(new CustomEvent("cartUpdated"));
+      }
+
+      setShowDialog(true);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        type="button"
+        aria-label="장바구니에 추가"
+        onClick={handleClick}
+        disabled={adding || product.stock_quantity === 0}
+        className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center hover:bg-primary hover:text-white transition-all duration-300 disabled:opacity-50 disabled:pointer-events-none"
+      >
+        <ShoppingCart className={`w-5 h-5 ${adding ? "animate-pulse" : ""}`} />
+      </button>
+
+      {/* Dialog는 포털로 렌더링되지만 React 이벤트는 링크까지 전달되므로 막음 */}
+      {result && (
+        <div onClick={(e) => e.stopPropagation()}>
+          <AddToCartDialog
+            open={showDialog}
+            onOpenChange={setShowDialog}
+            product={product}
+            result={result}
+          />
+        </div>
+      )}
+    </>
+  );
+}
@@ -11,22 +11,22 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Product } from "@/types/product";
-import { ShoppingCart, Check } from "lucide-react";
+import { ShoppingCart, Check, AlertCircle } from "lucide-react";
+import type { CartActionResult } from "@/actions/cart";
 
 interface AddToCartDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   product: Product;
-  quantity: number;
-  cartItemCount?: number;
+  /** addToCart Server Action 결과 */
+  result: CartActionResult;
 }
 
 export function AddToCartDialog({
   open,
   onOpenChange,
   product,
-  quantity,
-  cartItemCount = 0,
+  result,
 }: AddToCartDialogProps) {
   const router = useRouter();
 
@@ -39,6 +39,33 @@ export function AddToCartDialog({
     onOpenChange(false);
   };
 
+  if (!result.success) {
+    return (
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent>
+          <DialogHeader>
+            <div className="flex items-center gap-3 mb-2">
+              <div className="w-12 h-12 bg-red-50 rounded-full flex items-center justify-center">
+                <AlertCircle className="w-6 h-6 text-red-600" />
+              </div>
+              <DialogTitle>장바구니에 담지 못했습니다</DialogTitle>
+            </div>
+            <DialogDescription>{result.error}</DialogDescription>
+          </DialogHeader>
+
+          <DialogFooter>
+            <Button onClick={handleContinueShopping} className="w-full sm:w-auto">
+              확인
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  }
+
+  const quantity = result.quantity ?? 0;
+  const cartItemCount = result.cartItemCount ?? 0;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent>
@@ -0,0 +1,86 @@
+"use client";
+
+import {
+  AlertTriangle,
+  TrendingDown,
+  TrendingUp,
+  PackageX,
+  Ban,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { CartChange, CartChangeType } from "@/types/cart";
+
+interface CartChangesNoticeProps {
+  changes: CartChange[];
+  onAcknowledge: () => void;
+  acknowledging?: boolean;
+}
+
+function describeChange(change: CartChange): string {
+  switch (change.type) {
+    case "PRICE_INCREASED":
+    case "PRICE_DECREASED":
+      return `가격이 ${change.previousPrice.toLocaleString()}원에서 ${change.currentPrice.toLocaleString()}원으로 ${
+        change.type === "PRICE_INCREASED" ? "올랐습니다" : "내렸습니다"
+      }.`;
+    case "INSUFFICIENT_STOCK":
+      return `재고가 ${change.stockQuantity}개 남아 담은 수량(${change.quantity}개)이 ${change.stockQuantity}개로 조정됩니다.`;
+    case "OUT_OF_STOCK":
+      return "품절되어 장바구니에서 삭제됩니다.";
+    case "INACTIVE":
+      return "판매가 중지되어 장바구니에서 삭제됩니다.";
+  }
+}
+
+const CHANGE_ICONS: Record<CartChangeType, LucideIcon> = {
+  PRICE_INCREASED: TrendingUp,
+  PRICE_DECREASED: TrendingDown,
+  INSUFFICIENT_STOCK: AlertTriangle,
+  OUT_OF_STOCK: PackageX,
+  INACTIVE: Ban,
+};
+
+/**
+ * 장바구니 변경 내역 안내
+ *
+ * 담은 뒤 가격이 바뀌었거나 품절/판매 중지된 상품을 보여주고,
+ * 사용자가 확인해야 주문을 진행할 수 있습니다.
+ */
+export function CartChangesNotice({
+  changes,
+  onAcknowledge,
+  acknowledging = false,
+}: CartChangesNoticeProps) {
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="border border-amber-300 bg-amber-50 dark:bg-amber-950/30 rounded-lg p-6 mb-8">
+      <div className="flex items-center gap-2 mb-4">
+        <AlertTriangle className="w-5 h-5 text-amber-600" />
+        <h2 className="text-lg font-bold">장바구니에 담은 뒤 변경된 상품이 있습니다</h2>
+      </div>
+      <ul className="space-y-2 mb-4">
+        {changes.map((change) => {
+          const Icon = CHANGE_ICONS[change.type];
+
+          return (
+            <li key={`${change.cartItemId}-${change.type}`} className="flex gap-2 text-sm">
+              <Icon className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-600" />
+              <span>
+                <span className="font-semibold">{change.productName}</span>{" "}
+                {describeChange(change)}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+      <div className="flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-600">변경 내역을 확인해야 주문할 수 있습니다.</p>
+        <Button onClick={onAcknowledge} disabled={acknowledging}>
+          {acknowledging ? "처리 중..." : "확인했습니다"}
+        </Button>
+      </div>
+    </div>
+  );
+}
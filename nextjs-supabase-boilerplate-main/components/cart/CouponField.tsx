@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { Ticket, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { applyCoupon } from "@/actions/coupons";
+import type { AppliedCoupon } from "@/types/coupon";
+
+interface CouponFieldProps {
+  applied: AppliedCoupon | null;
+  onChange: (coupon: AppliedCoupon | null) => void;
+  disabled?: boolean;
+}
+
+/**
+ * 주문서 쿠폰 코드 입력
+ *
+ * 서버에서 현재 장바구니 기준으로 쿠폰을 확인한 뒤 할인 금액을 onChange로 전달합니다.
+ * 주문서 form 안에 있으므로 Enter 키로 주문이 제출되지 않도록 막습니다.
+ */
+export function CouponField({ applied, onChange, disabled }: CouponFieldProps) {
+  const [code, setCode] = useState("");
+  const [applying, setApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    try {
+      setApplying(true);
+      setError(null);
+
+      const result = await applyCoupon(code);
+
+      if (!result.success) {
+        setError(result.error);
+        return;
+      }
+
+      onChange(result.coupon);
+      setCode("");
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  if (applied) {
+    return (
+      <div className="flex items-center justify-between gap-2 rounded-md border border-primary/30 bg-primary/5 px-3 py-2 text-sm">
+        <div className="flex items-center gap-2 min-w-0">
+          <Ticket className="w-4 h-4 flex-shrink-0 text-primary" />
+          <span className="truncate">
+            {applied.name} ({applied.code})
+          </span>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={() => onChange(null)}
+          disabled={disabled}
+          aria-label="쿠폰 적용 취소"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              if (code.trim()) handleApply();
+            }
+          }}
+          placeholder="쿠폰 코드"
+          maxLength={30}
+          disabled={disabled || applying}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleApply}
+          disabled={disabled || applying || !code.trim()}
+        >
+          {applying ? "확인 중..." : "적용"}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { Sparkles, type LucideIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ALL_CATEGORIES, getCategoryGradient, getCategoryIcon } from "@/lib/categories";
+import type { Category } from "@/types/category";
+
+interface CategoryFilterProps {
+  /** 표시할 카테고리 (categories.listActive 결과) */
+  categories: Category[];
+  /** 선택한 카테고리 slug (ALL_CATEGORIES면 전체) */
+  selected: string;
+  onChange: (category: string) => void;
+}
+
+const ALL_GRADIENT = "from-primary to-chart-4";
+
+interface CategoryButtonProps {
+  label: string;
+  gradient: string;
+  icon: LucideIcon;
+  isActive: boolean;
+  onClick: () => void;
+}
+
+function CategoryButton({ label, gradient, icon: Icon, isActive, onClick }: CategoryButtonProps) {
+  return (
+    <Button
+      variant={isActive ? "default" : "outline"}
+      size="sm"
+      onClick={onClick}
+      className={`
+        rounded-full transition-all duration-300
+        ${
+          isActive
+            ? `bg-gradient-to-r ${gradient} text-white border-0 shadow-lg`
+            : "hover:border-primary/50"
+        }
+      `}
+    >
+      <Icon className="w-4 h-4 mr-2" />
+      {label}
+    </Button>
+  );
+}
+
+/**
+ * 상품 목록 카테고리 필터
+ *
+ * 최상위 카테고리를 표시하고, 하위 카테고리가 있는 카테고리를 선택하면
+ * 그 아래 줄에 하위 카테고리를 표시합니다.
+ */
+export function CategoryFilter({ categories, selected, onChange }: CategoryFilterProps) {
+  const selectedCategory = categories.find((category) => category.slug === selected);
+  const activeParent = selectedCategory?.parent_slug ?? selectedCategory?.slug;
+  const topLevel = categories.filter((category) => !category.parent_slug);
+  const children = categories.filter(
+    (category) => activeParent && category.parent_slug === activeParent
+  );
+
+  const handleClick = (category: string) => {
+    // 이미 선택된 카테고리면 무시
+    if (category !== selected) onChange(category);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2">
+        <CategoryButton
+          label="전체"
+          gradient={ALL_GRADIENT}
+          icon={Sparkles}
+          isActive={selected === ALL_CATEGORIES}
+          onClick={() => handleClick(ALL_CATEGORIES)}
+        />
+        {topLevel.map((category) => (
+          <CategoryButton
+            key={category.slug}
+            label={category.label}
+            gradient={getCategoryGradient(category)}
+            icon={getCategoryIcon(category)}
+            isActive={category.slug === activeParent}
+            onClick={() => handleClick(category.slug)}
+          />
+        ))}
+      </div>
+
+      {children.length > 0 && (
+        <div className="flex flex-wrap gap-2 pl-4 border-l-2 border-border/50">
+          {children.map((category) => (
+            <CategoryButton
+              key={category.slug}
+              label={category.label}
+              gradient={getCategoryGradient(category)}
+              icon={getCategoryIcon(category)}
+              isActive={category.slug === selected}
+              onClick={() => handleClick(category.slug)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
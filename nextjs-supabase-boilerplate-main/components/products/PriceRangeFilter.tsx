@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface PriceRangeFilterProps {
+  minPrice?: number;
+  maxPrice?: number;
+  onApply: (minPrice: number | undefined, maxPrice: number | undefined) => void;
+}
+
+// 빈 값이나 음수/소수는 제한 없음으로 취급
+const toPrice = (value: string) => {
+  const price = Number(value);
+  return value.trim() && Number.isInteger(price) && price >= 0 ? price : undefined;
+};
+
+/**
+ * 상품 목록 가격대 필터
+ *
+ * 입력 중에는 목록을 다시 조회하지 않고, 적용 버튼이나 Enter로 한 번에 반영합니다.
+ * 최소 가격이 최대 가격보다 크면 두 값을 바꿔서 적용합니다.
+ */
+export function PriceRangeFilter({ minPrice, maxPrice, onApply }: PriceRangeFilterProps) {
+  const [minInput, setMinInput] = useState(minPrice?.toString() ?? "");
+  const [maxInput, setMaxInput] = useState(maxPrice?.toString() ?? "");
+
+  // URL이 바뀌면(뒤로 가기, 초기화 등) 입력값도 맞춤
+  useEffect(() => {
+    setMinInput(minPrice?.toString() ?? "");
+    setMaxInput(maxPrice?.toString() ?? "");
+  }, [minPrice, maxPrice]);
+
+  const handleApply = () => {
+    const min = toPrice(minInput);
+    const max = toPrice(maxInput);
+
+    if (min !== undefined && max !== undefined && min > max) {
+      onApply(max, min);
+      return;
+    }
+
+    onApply(min, max);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      handleApply();
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-muted-foreground">가격:</span>
+      <Input
+        type="number"
+        inputMode="numeric"
+        min={0}
+        step={1000}
+        value={minInput}
+        onChange={(e) => setMinInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="최소"
+        aria-label="최소 가격"
+        className="w-28 h-9"
+      />
+      <span className="text-muted-foreground">~</span>
+      <Input
+        type="number"
+        inputMode="numeric"
+        min={0}
+        step={1000}
+        value={maxInput}
+        onChange={(e) => setMaxInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="최대"
+        aria-label="최대 가격"
+        className="w-28 h-9"
+      />
+      <span className="text-sm text-muted-foreground">원</span>
+      <Button type="button" variant="outline" size="sm" onClick={handleApply}>
+        적용
+      </Button>
+    </div>
+  );
+}
@@ -1,31 +1,19 @@
 import Link from "next/link";
-import { Product, ProductCategory, CATEGORY_LABELS } from "@/types/product";
-import { ShoppingBag, ArrowRight, Tag } from "lucide-react";
+import { Product } from "@/types/product";
+import { ShoppingBag, Tag } from "lucide-react";
+import { ProductThumbnail } from "@/components/products/ProductThumbnail";
+import { AddToCartButton } from "@/components/cart/AddToCartButton";
+import { getCategoryGradient } from "@/lib/categories";
 
 interface ProductCardProps {
   product: Product;
 }
 
-// 카테고리별 색상
-const categoryColors: Record<string, string> = {
-  electronics: "from-blue-500 to-cyan-500",
-  clothing: "from-pink-500 to-rose-500",
-  books: "from-amber-500 to-orange-500",
-  food: "from-green-500 to-emerald-500",
-  sports: "from-red-500 to-pink-500",
-  beauty: "from-purple-500 to-fuchsia-500",
-  home: "from-teal-500 to-cyan-500",
-};
-
 export function ProductCard({ product }: ProductCardProps) {
   const isOutOfStock = product.stock_quantity === 0;
   const isLowStock = product.stock_quantity > 0 && product.stock_quantity <= 5;
-  const categoryLabel =
-    product.category && product.category in CATEGORY_LABELS
-      ? CATEGORY_LABELS[product.category as ProductCategory]
-      : "기타";
-  const gradientColor =
-    categoryColors[product.category || ""] || "from-gray-400 to-gray-500";
+  const categoryLabel = product.category_info?.label ?? "기타";
+  const gradientColor = getCategoryGradient(product.category_info);
 
   return (
     <Link href={`/products/${product.id}`} className="group block h-full">
@@ -39,13 +27,20 @@ export function ProductCard({ product }: ProductCardProps) {
       >
         {/* 상품 이미지 영역 */}
         <div className="relative aspect-square bg-gradient-to-br from-muted to-muted/50 overflow-hidden">
-          <div className="product-image absolute inset-0 flex items-center justify-center">
-            {/* 배경 그라데이션 효과 */}
-            <div
-              className={`w-24 h-24 rounded-2xl bg-gradient-to-br ${gradientColor} opacity-20 blur-xl`}
-            />
-            <ShoppingBag className="absolute w-16 h-16 text-muted-foreground/40 group-hover:scale-110 transition-transform duration-500" />
-          </div>
+          <ProductThumbnail
+            product={product}
+            sizes="(min-width: 1024px) 25vw, (min-width: 640px) 50vw, 100vw"
+            className="product-image object-cover group-hover:scale-110 transition-transform duration-500"
+            fallback={
+              <div className="product-image absolute inset-0 flex items-center justify-center">
+                {/* 배경 그라데이션 효과 */}
+                <div
+                  className={`w-24 h-24 rounded-2xl bg-gradient-to-br ${gradientColor} opacity-20 blur-xl`}
+                />
+                <ShoppingBag className="absolute w-16 h-16 text-muted-foreground/40 group-hover:scale-110 transition-transform duration-500" />
+              </div>
+            }
+          />
 
           {/* 카테고리 배지 */}
           <div className="absolute top-4 left-4 z-10">
@@ -106,9 +101,7 @@ export function ProductCard({ product }: ProductCardProps) {
               {product.price.toLocaleString()}
               <span className="text-sm ml-1 text-foreground">원</span>
             </span>
-            <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center group-hover:bg-primary group-hover:text-white transition-all duration-300">
-              <ArrowRight className="w-5 h-5" />
-            </div>
+            <AddToCartButton product={product} />
           </div>
         </div>
       </div>
@@ -1,4 +1,5 @@
 import { ShoppingBag, Search } from "lucide-react";
+import { ALL_CATEGORIES } from "@/lib/categories";
 
 interface ProductEmptyStateProps {
   searchQuery?: string;
@@ -10,7 +11,7 @@ export function ProductEmptyState({
   selectedCategory,
 }: ProductEmptyStateProps) {
   const hasSearchQuery = searchQuery && searchQuery.trim().length > 0;
-  const hasCategoryFilter = selectedCategory && selectedCategory !== "all";
+  const hasCategoryFilter = selectedCategory && selectedCategory !== ALL_CATEGORIES;
 
   let title = "상품이 없습니다";
   let description = "현재 등록된 상품이 없습니다.";
@@ -0,0 +1,137 @@
+"use client";
+
+import { useState } from "react";
+import Image from "next/image";
+import { ShoppingBag, ZoomIn } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import { getProductImageUrl, sortProductImages } from "@/lib/product-images";
+import type { ProductImage } from "@/types/product";
+
+interface ProductImageGalleryProps {
+  images: ProductImage[] | undefined;
+  productName: string;
+}
+
+/**
+ * 상품 상세 이미지 갤러리
+ *
+ * - 대표 이미지를 먼저 보여주고, 썸네일로 다른 이미지를 선택
+ * - 메인 이미지를 클릭하면 확대 보기 (확대 보기에서 클릭한 위치 기준 2배 확대)
+ * - 이미지가 없으면 플레이스홀더 표시
+ */
+export function ProductImageGallery({ images, productName }: ProductImageGalleryProps) {
+  const sortedImages = sortProductImages(images);
+  const primaryIndex = Math.max(
+    sortedImages.findIndex((image) => image.is_primary),
+    0
+  );
+  const [selectedIndex, setSelectedIndex] = useState(primaryIndex);
+  const [isZoomOpen, setIsZoomOpen] = useState(false);
+  const [zoomOrigin, setZoomOrigin] = useState<string | null>(null);
+
+  const selected = sortedImages[selectedIndex] ?? sortedImages[0];
+
+  if (!selected) {
+    return (
+      <div className="aspect-square bg-gray-100 rounded-lg flex items-center justify-center">
+        <ShoppingBag className="w-32 h-32 text-gray-400" />
+      </div>
+    );
+  }
+
+  const selectedAlt = selected.alt_text || productName;
+
+  const handleZoomClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (zoomOrigin) {
+      setZoomOrigin(null);
+      return;
+    }
+
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * 100;
+    const y = ((event.clientY - rect.top) / rect.height) * 100;
+    setZoomOrigin(`${x}% ${y}%`);
+  };
+
+  return (
+    <div className="flex flex-col gap-4">
+      <button
+        type="button"
+        onClick={() => setIsZoomOpen(true)}
+        className="group relative aspect-square bg-gray-100 rounded-lg overflow-hidden cursor-zoom-in"
+        aria-label="이미지 확대 보기"
+      >
+        <Image
+          src={getProductImageUrl(selected.storage_path)}
+          alt={selectedAlt}
+          fill
+          priority
+          sizes="(min-width: 1024px) 50vw, 100vw"
+          className="object-cover"
+        />
+        <span className="absolute bottom-4 right-4 rounded-full bg-background/80 p-2 opacity-0 group-hover:opacity-100 transition-opacity">
+          <ZoomIn className="w-5 h-5" />
+        </span>
+      </button>
+
+      {sortedImages.length > 1 && (
+        <div className="grid grid-cols-5 gap-2">
+          {sortedImages.map((image, index) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => setSelectedIndex(index)}
+              className={cn(
+                "relative aspect-square rounded-md overflow-hidden border-2 bg-gray-100",
+                index === selectedIndex ? "border-primary" : "border-transparent"
+              )}
+              aria-label={`${index + 1}번째 이미지 보기`}
+              aria-current={index === selectedIndex}
+            >
+              <Image
+                src={getProductImageUrl(image.storage_path)}
+                alt={image.alt_text || productName}
+                fill
+                sizes="120px"
+                className="object-cover"
+              />
+            </button>
+          ))}
+        </div>
+      )}
+
+      <Dialog
+        open={isZoomOpen}
+        onOpenChange={(open) => {
+          setIsZoomOpen(open);
+          setZoomOrigin(null);
+        }}
+      >
+        <DialogContent className="sm:max-w-4xl p-2">
+          <DialogTitle className="sr-only">{selectedAlt}</DialogTitle>
+          <div
+            onClick={handleZoomClick}
+            className={cn(
+              "relative aspect-square w-full overflow-hidden rounded-md bg-gray-100",
+              zoomOrigin ? "cursor-zoom-out" : "cursor-zoom-in"
+            )}
+          >
+            <Image
+              src={getProductImageUrl(selected.storage_path)}
+              alt={selectedAlt}
+              fill
+              sizes="(min-width: 896px) 896px, 100vw"
+              className="object-contain transition-transform duration-200"
+              style={
+                zoomOrigin
+                  ? { transform: "scale(2)", transformOrigin: zoomOrigin }
+                  : undefined
+              }
+            />
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import Image from "next/image";
+import { getPrimaryProductImage, getProductImageUrl } from "@/lib/product-images";
+import type { Product } from "@/types/product";
+
+interface ProductThumbnailProps {
+  product: Pick<Product, "name" | "product_images">;
+  /** next/image sizes 속성 */
+  sizes: string;
+  className?: string;
+  /** 대표 이미지가 없을 때 표시할 플레이스홀더 */
+  fallback: React.ReactNode;
+}
+
+/**
+ * 상품 대표 이미지
+ *
+ * 부모 요소를 채우므로(fill) 부모에 relative와 크기를 지정해야 합니다.
+ * 상품 조회 시 `product_images(*)`를 함께 select해야 이미지가 표시됩니다.
+ */
+export function ProductThumbnail({ product, sizes, className, fallback }: ProductThumbnailProps) {
+  const image = getPrimaryProductImage(product);
+
+  if (!image) return <>{fallback}</>;
+
+  return (
+    <Image
+      src={getProductImageUrl(image.storage_path)}
+      alt={image.alt_text || product.name}
+      fill
+      sizes={sizes}
+      className={className}
+    />
+  );
+}
@@ -0,0 +1,305 @@
+"use client";
+
+import { useCallback, useEffect, useId, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useUser } from "@clerk/nextjs";
+import { Clock, Package, Search, Tag } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useRepositories } from "@/hooks/use-repositories";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { clearSearchHistory, recordSearch } from "@/actions/search";
+import {
+  clearGuestSearches,
+  MAX_RECENT_SEARCHES,
+  readGuestSearches,
+  saveGuestSearch,
+} from "@/lib/search-history";
+import { cn } from "@/lib/utils";
+import type { Category } from "@/types/category";
+import type { SearchSuggestions } from "@/types/search";
+
+const SUGGESTION_DEBOUNCE_MS = 300;
+
+type SearchOption =
+  | { type: "recent"; keyword: string }
+  | { type: "product"; id: string; name: string }
+  | { type: "category"; category: Category };
+
+interface SearchAutocompleteProps {
+  value: string;
+  /** 입력할 때마다 호출 (목록 즉시 검색) */
+  onChange: (value: string) => void;
+  /** Enter 또는 최근 검색어 선택 시 호출 */
+  onSearch: (keyword: string) => void;
+  /** 카테고리 slug */
+  onSelectCategory: (category: string) => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * 상품 검색창 (자동완성 + 최근 검색어)
+ *
+ * - 입력이 없으면 최근 검색어, 입력 중에는 /api/search/suggestions의 상품명/카테고리를 보여줍니다.
+ * - 위/아래 방향키로 이동, Enter로 선택, Esc로 닫습니다.
+ * - 최근 검색어는 로그인한 사용자는 search_history 테이블, 비로그인 사용자는 localStorage에 저장합니다.
+ */
+export function SearchAutocomplete({
+  value,
+  onChange,
+  onSearch,
+  onSelectCategory,
+  placeholder,
+  className,
+}: SearchAutocompleteProps) {
+  const router = useRouter();
+  const { user, isLoaded } = useUser();
+  const { searchHistory } = useRepositories();
+  const listboxId = useId();
+
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [recentSearches, setRecentSearches] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<SearchSuggestions>({
+    products: [],
+    categories: [],
+  });
+
+  const keyword = value.trim();
+  const debouncedKeyword = useDebouncedValue(keyword, SUGGESTION_DEBOUNCE_MS);
+
+  // 최근 검색어 조회
+  const fetchRecentSearches = useCallback(async () => {
+    if (!user) {
+      setRecentSearches(readGuestSearches());
+      return;
+    }
+
+    try {
+      const entries = await searchHistory.listRecent(user.id, MAX_RECENT_SEARCHES);
+      setRecentSearches(entries.map((entry) => entry.keyword));
+    } catch (err) {
+      console.error("Error fetching search history:", err);
+    }
+  }, [user, searchHistory]);
+
+  useEffect(() => {
+    if (isLoaded) {
+      fetchRecentSearches();
+    }
+  }, [isLoaded, fetchRecentSearches]);
+
+  // 자동완성 조회 (입력이 멈춘 뒤, 이전 요청은 취소)
+  useEffect(() => {
+    if (!debouncedKeyword) {
+      setSuggestions({ products: [], categories: [] });
+      return;
+    }
+
+    const controller = new AbortController();
+
+    const fetchSuggestions = async () => {
+      try {
+        const response = await fetch(
+          `/api/search/suggestions?q=${encodeURIComponent(debouncedKeyword)}`,
+          { signal: controller.signal }
+        );
+        if (!response.ok) throw new Error(`Failed to load suggestions: ${response.status}`);
+
+        setSuggestions(await response.json());
+        setActiveIndex(-1);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("Error fetching suggestions:", err);
+      }
+    };
+
+    fetchSuggestions();
+
+    return () => controller.abort();
+  }, [debouncedKeyword]);
+
+  const options: SearchOption[] = keyword
+    ? [
+        ...suggestions.categories.map((category) => ({ type: "category" as const, category })),
+        ...suggestions.products.map(({ id, name }) => ({ type: "product" as const, id, name })),
+      ]
+    : recentSearches.map((recent) => ({ type: "recent" as const, keyword: recent }));
+
+  const saveRecentSearch = async (searched: string) => {
+    const trimmed = searched.trim();
+    if (!trimmed) return;
+
+    if (!user) {
+      setRecentSearches(saveGuestSearch(trimmed));
+      return;
+    }
+
+    setRecentSearches((prev) =>
+      [trimmed, ...prev.filter((k) => k !== trimmed)].slice(0, MAX_RECENT_SEARCHES)
+    );
+
+    const result = await recordSearch(trimmed);
+    if (!result.success) {
+      console.error("Error recording search:", result.error);
+    }
+  };
+
+  const handleClearHistory = async () => {
+    if (!user) {
+      clearGuestSearches();
+      setRecentSearches([]);
+      return;
+    }
+
+    const result = await clearSearchHistory();
+
+    if (!result.success) {
+      alert(result.error);
+      return;
+    }
+
+    setRecentSearches([]);
+  };
+
+  const close = () => {
+    setOpen(false);
+    setActiveIndex(-1);
+  };
+
+  const submit = (searched: string) => {
+    onSearch(searched);
+    saveRecentSearch(searched);
+    close();
+  };
+
+  const selectOption = (option: SearchOption) => {
+    switch (option.type) {
+      case "recent":
+        submit(option.keyword);
+        break;
+      case "product":
+        saveRecentSearch(keyword);
+        close();
+        router.push(`/products/${option.id}`);
+        break;
+      case "category":
+        onSelectCategory(option.category.slug);
+        close();
+        break;
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case "ArrowDown":
+        e.preventDefault();
+        setOpen(true);
+        setActiveIndex((prev) => (options.length === 0 ? -1 : (prev + 1) % options.length));
+        break;
+      case "ArrowUp":
+        e.preventDefault();
+        setActiveIndex((prev) =>
+          options.length === 0 ? -1 : (prev - 1 + options.length) % options.length
+        );
+        break;
+      case "Enter":
+        e.preventDefault();
+        if (open && activeIndex >= 0 && options[activeIndex]) {
+          selectOption(options[activeIndex]);
+        } else if (keyword) {
+          submit(keyword);
+        }
+        break;
+      case "Escape":
+        close();
+        break;
+    }
+  };
+
+  const getOptionId = (index: number) => `${listboxId}-option-${index}`;
+  const showDropdown = open && (options.length > 0 || !keyword);
+
+  return (
+    <div className={cn("relative", className)}>
+      <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 text-muted-foreground w-5 h-5" />
+      <Input
+        type="text"
+        role="combobox"
+        aria-expanded={showDropdown}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={activeIndex >= 0 ? getOptionId(activeIndex) : undefined}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setActiveIndex(-1);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={close}
+        onKeyDown={handleKeyDown}
+        className="pl-12 h-12 rounded-xl border-border/50 bg-background/80 focus:bg-background transition-colors"
+      />
+
+      {showDropdown && (
+        // 항목을 누를 때 입력창 blur로 목록이 닫히지 않도록 mousedown 기본 동작을 막음
+        <div
+          className="absolute z-20 mt-2 w-full rounded-xl border bg-popover text-popover-foreground shadow-lg overflow-hidden"
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {!keyword && (
+            <div className="flex items-center justify-between px-4 py-2 text-xs text-muted-foreground border-b">
+              <span>최근 검색어</span>
+              {recentSearches.length > 0 && (
+                <button
+                  type="button"
+                  onClick={handleClearHistory}
+                  className="hover:text-foreground transition-colors"
+                >
+                  전체 삭제
+                </button>
+              )}
+            </div>
+          )}
+
+          {!keyword && recentSearches.length === 0 && (
+            <p className="px-4 py-3 text-sm text-muted-foreground">최근 검색어가 없습니다.</p>
+          )}
+
+          <ul id={listboxId} role="listbox" className="max-h-80 overflow-y-auto py-1">
+            {options.map((option, index) => {
+              const Icon =
+                option.type === "recent" ? Clock : option.type === "product" ? Package : Tag;
+              const label =
+                option.type === "recent"
+                  ? option.keyword
+                  : option.type === "product"
+                    ? option.name
+                    : `${option.category.label} 카테고리`;
+
+              return (
+                <li
+                  key={`${option.type}-${label}-${index}`}
+                  id={getOptionId(index)}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onClick={() => selectOption(option)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={cn(
+                    "flex items-center gap-3 px-4 py-2 text-sm cursor-pointer",
+                    index === activeIndex && "bg-accent text-accent-foreground"
+                  )}
+                >
+                  <Icon className="w-4 h-4 flex-shrink-0 text-muted-foreground" />
+                  <span className="truncate">{label}</span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
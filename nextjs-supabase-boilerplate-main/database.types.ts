@@ -0,0 +1,947 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "12.2.3 (519615d)"
+  }
+  public: {
+    Tables: {
+      cart_items: {
+        Row: {
+          clerk_id: string
+          created_at: string
+          id: string
+          price_at_add: number
+          product_id: string
+          quantity: number
+          updated_at: string
+        }
+        Insert: {
+          clerk_id: string
+          created_at?: string
+          id?: string
+          price_at_add?: number
+          product_id: string
+          quantity?: number
+          updated_at?: string
+        }
+        Update: {
+          clerk_id?: string
+          created_at?: string
+          id?: string
+          price_at_add?: number
+          product_id?: string
+          quantity?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cart_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          color: string
+          created_at: string
+          icon: string
+          is_active: boolean
+          label: string
+          parent_slug: string | null
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          icon?: string
+          is_active?: boolean
+          label: string
+          parent_slug?: string | null
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          icon?: string
+          is_active?: boolean
+          label?: string
+          parent_slug?: string | null
+          slug?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "categories_parent_slug_fkey"
+            columns: ["parent_slug"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+        ]
+      }
+      coupon_redemptions: {
+        Row: {
+          clerk_id: string
+          coupon_id: string
+          created_at: string
+          discount_amount: number
+          id: string
+          order_id: string
+        }
+        Insert: {
+          clerk_id: string
+          coupon_id: string
+          created_at?: string
+          discount_amount: number
+          id?: string
+          order_id: string
+        }
+        Update: {
+          clerk_id?: string
+          coupon_id?: string
+          created_at?: string
+          discount_amount?: number
+          id?: string
+          order_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coupon_redemptions_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coupon_redemptions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coupons: {
+        Row: {
+          categories: string[] | null
+          code: string
+          created_at: string
+          discount_type: string
+          discount_value: number
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          max_discount_amount: number | null
+          min_order_amount: number
+          name: string
+          per_user_limit: number
+          starts_at: string
+          updated_at: string
+        }
+        Insert: {
+          categories?: string[] | null
+          code: string
+          created_at?: string
+          discount_type: string
+          discount_value: number
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_discount_amount?: number | null
+          min_order_amount?: number
+          name: string
+          per_user_limit?: number
+          starts_at?: string
+          updated_at?: string
+        }
+        Update: {
+          categories?: string[] | null
+          code?: string
+          created_at?: string
+          discount_type?: string
+          discount_value?: number
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_discount_amount?: number | null
+          min_order_amount?: number
+          name?: string
+          per_user_limit?: number
+          starts_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      order_items: {
+        Row: {
+          cancelled_quantity: number
+          created_at: string
+          id: string
+          order_id: string
+          price: number
+          product_id: string
+          product_name: string
+          quantity: number
+        }
+        Insert: {
+          cancelled_quantity?: number
+          created_at?: string
+          id?: string
+          order_id: string
+          price: number
+          product_id: string
+          product_name: string
+          quantity: number
+        }
+        Update: {
+          cancelled_quantity?: number
+          created_at?: string
+          id?: string
+          order_id?: string
+          price?: number
+          product_id?: string
+          product_name?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          clerk_id: string
+          coupon_code: string | null
+          created_at: string
+          discount_amount: number
+          expired_at: string | null
+          id: string
+          order_note: string | null
+          review_reason: string | null
+          review_requested_at: string | null
+          shipping_address: Json | null
+          shipping_fee: number
+          status: Database["public"]["Enums"]["order_status"]
+          subtotal_amount: number
+          total_amount: number
+          updated_at: string
+        }
+        Insert: {
+          clerk_id: string
+          coupon_code?: string | null
+          created_at?: string
+          discount_amount?: number
+          expired_at?: string | null
+          id?: string
+          order_note?: string | null
+          review_reason?: string | null
+          review_requested_at?: string | null
+          shipping_address?: Json | null
+          shipping_fee?: number
+          status?: Database["public"]["Enums"]["order_status"]
+          subtotal_amount: number
+          total_amount: number
+          updated_at?: string
+        }
+        Update: {
+          clerk_id?: string
+          coupon_code?: string | null
+          created_at?: string
+          discount_amount?: number
+          expired_at?: string | null
+          id?: string
+          order_note?: string | null
+          review_reason?: string | null
+          review_requested_at?: string | null
+          shipping_address?: Json | null
+          shipping_fee?: number
+          status?: Database["public"]["Enums"]["order_status"]
+          subtotal_amount?: number
+          total_amount?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payment_refunds: {
+        Row: {
+          cancel_amount: number
+          cancel_reason: string | null
+          canceled_at: string
+          clerk_id: string
+          created_at: string
+          id: string
+          order_id: string
+          payment_id: string
+          transaction_key: string
+        }
+        Insert: {
+          cancel_amount: number
+          cancel_reason?: string | null
+          canceled_at: string
+          clerk_id: string
+          created_at?: string
+          id?: string
+          order_id: string
+          payment_id: string
+          transaction_key: string
+        }
+        Update: {
+          cancel_amount?: number
+          cancel_reason?: string | null
+          canceled_at?: string
+          clerk_id?: string
+          created_at?: string
+          id?: string
+          order_id?: string
+          payment_id?: string
+          transaction_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_refunds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_refunds_payment_id_fkey"
+            columns: ["payment_id"]
+            isOneToOne: false
+            referencedRelation: "payments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          approved_at: string | null
+          clerk_id: string
+          created_at: string
+          deposit_secret: string | null
+          id: string
+          method: string | null
+          order_id: string
+          payment_key: string
+          raw_response: Json
+          receipt_url: string | null
+          status: string
+          status_history: Json
+          total_amount: number
+          updated_at: string
+        }
+        Insert: {
+          approved_at?: string | null
+          clerk_id: string
+          created_at?: string
+          deposit_secret?: string | null
+          id?: string
+          method?: string | null
+          order_id: string
+          payment_key: string
+          raw_response: Json
+          receipt_url?: string | null
+          status: string
+          status_history?: Json
+          total_amount: number
+          updated_at?: string
+        }
+        Update: {
+          approved_at?: string | null
+          clerk_id?: string
+          created_at?: string
+          deposit_secret?: string | null
+          id?: string
+          method?: string | null
+          order_id?: string
+          payment_key?: string
+          raw_response?: Json
+          receipt_url?: string | null
+          status?: string
+          status_history?: Json
+          total_amount?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_images: {
+        Row: {
+          alt_text: string | null
+          created_at: string
+          id: string
+          is_primary: boolean
+          product_id: string
+          sort_order: number
+          storage_path: string
+        }
+        Insert: {
+          alt_text?: string | null
+          created_at?: string
+          id?: string
+          is_primary?: boolean
+          product_id: string
+          sort_order?: number
+          storage_path: string
+        }
+        Update: {
+          alt_text?: string | null
+          created_at?: string
+          id?: string
+          is_primary?: boolean
+          product_id?: string
+          sort_order?: number
+          storage_path?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_images_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          category: string | null
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          price: number
+          stock_quantity: number | null
+          updated_at: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          price: number
+          stock_quantity?: number | null
+          updated_at?: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          price?: number
+          stock_quantity?: number | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+        ]
+      }
+      search_history: {
+        Row: {
+          clerk_id: string
+          id: string
+          keyword: string
+          searched_at: string
+        }
+        Insert: {
+          clerk_id: string
+          id?: string
+          keyword: string
+          searched_at?: string
+        }
+        Update: {
+          clerk_id?: string
+          id?: string
+          keyword?: string
+          searched_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "search_history_clerk_id_fkey"
+            columns: ["clerk_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["clerk_id"]
+          },
+        ]
+      }
+      shipping_policy: {
+        Row: {
+          base_fee: number
+          free_shipping_threshold: number | null
+          id: boolean
+          updated_at: string
+        }
+        Insert: {
+          base_fee: number
+          free_shipping_threshold?: number | null
+          id?: boolean
+          updated_at?: string
+        }
+        Update: {
+          base_fee?: number
+          free_shipping_threshold?: number | null
+          id?: boolean
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      shipping_remote_areas: {
+        Row: {
+          created_at: string
+          extra_fee: number
+          id: string
+          name: string
+          zip_prefix: string
+        }
+        Insert: {
+          created_at?: string
+          extra_fee: number
+          id?: string
+          name: string
+          zip_prefix: string
+        }
+        Update: {
+          created_at?: string
+          extra_fee?: number
+          id?: string
+          name?: string
+          zip_prefix?: string
+        }
+        Relationships: []
+      }
+      tasks: {
+        Row: {
+          completed: boolean
+          created_at: string
+          description: string | null
+          id: number
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed?: boolean
+          created_at?: string
+          description?: string | null
+          id?: number
+          name: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          completed?: boolean
+          created_at?: string
+          description?: string | null
+          id?: number
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_addresses: {
+        Row: {
+          address: string
+          address_detail: string
+          clerk_id: string
+          created_at: string
+          id: string
+          is_default: boolean
+          jibun_address: string
+          label: string
+          phone: string
+          recipient_name: string
+          updated_at: string
+          zip_code: string
+        }
+        Insert: {
+          address: string
+          address_detail?: string
+          clerk_id: string
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          jibun_address?: string
+          label?: string
+          phone: string
+          recipient_name: string
+          updated_at?: string
+          zip_code: string
+        }
+        Update: {
+          address?: string
+          address_detail?: string
+          clerk_id?: string
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          jibun_address?: string
+          label?: string
+          phone?: string
+          recipient_name?: string
+          updated_at?: string
+          zip_code?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_addresses_clerk_id_fkey"
+            columns: ["clerk_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["clerk_id"]
+          },
+        ]
+      }
+      users: {
+        Row: {
+          clerk_id: string
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          clerk_id: string
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          clerk_id?: string
+          created_at?: string
+          id?: string
+          name?: string
+        }
+        Relationships: []
+      }
+      webhook_events: {
+        Row: {
+          delivery_count: number
+          error: string | null
+          event_key: string
+          event_type: string
+          id: string
+          last_received_at: string
+          payload: Json
+          processed_at: string | null
+          provider: string
+          received_at: string
+          status: string
+        }
+        Insert: {
+          delivery_count?: number
+          error?: string | null
+          event_key: string
+          event_type: string
+          id?: string
+          last_received_at?: string
+          payload: Json
+          processed_at?: string | null
+          provider: string
+          received_at?: string
+          status?: string
+        }
+        Update: {
+          delivery_count?: number
+          error?: string | null
+          event_key?: string
+          event_type?: string
+          id?: string
+          last_received_at?: string
+          payload?: Json
+          processed_at?: string | null
+          provider?: string
+          received_at?: string
+          status?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      acknowledge_cart_changes: {
+        Args: { p_clerk_id: string }
+        Returns: number
+      }
+      calculate_coupon_discount: {
+        Args: { p_clerk_id: string; p_code: string }
+        Returns: {
+          coupon_code: string
+          coupon_id: string
+          coupon_name: string
+          discount_amount: number
+        }[]
+      }
+      calculate_shipping_fee: {
+        Args: { p_subtotal: number; p_zip_code?: string }
+        Returns: number
+      }
+      cancel_order: {
+        Args: { p_order_id: string }
+        Returns: boolean
+      }
+      cancel_order_items: {
+        Args: { p_items: Json; p_order_id: string }
+        Returns: boolean
+      }
+      create_order_from_cart: {
+        Args: {
+          p_clerk_id: string
+          p_coupon_code?: string
+          p_expected_total?: number
+          p_order_note?: string
+          p_shipping_address: Json
+        }
+        Returns: string
+      }
+      current_user_role: { Args: never; Returns: string }
+      expire_pending_orders: {
+        Args: { p_ttl_minutes: number }
+        Returns: number
+      }
+      has_role: { Args: { p_required: string }; Returns: boolean }
+      merge_guest_cart: {
+        Args: { p_clerk_id: string; p_items: Json }
+        Returns: number
+      }
+      product_search_document: {
+        Args: { p_category: string; p_description: string; p_name: string }
+        Returns: string
+      }
+      record_search_keyword: {
+        Args: { p_clerk_id: string; p_keyword: string }
+        Returns: undefined
+      }
+      search_products: {
+        Args: {
+          p_category?: string
+          p_in_stock?: boolean
+          p_max_price?: number
+          p_min_price?: number
+          p_query?: string
+          p_sort?: string
+        }
+        Returns: {
+          category: string | null
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean | null
+          name: string
+          price: number
+          stock_quantity: number | null
+          updated_at: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "products"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      set_primary_product_image: {
+        Args: { p_image_id: string }
+        Returns: undefined
+      }
+      suggest_products: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: {
+          category: string
+          id: string
+          name: string
+        }[]
+      }
+    }
+    Enums: {
+      order_status:
+        | "pending"
+        | "confirmed"
+        | "shipped"
+        | "delivered"
+        | "cancelled"
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {
+      order_status: [
+        "pending",
+        "confirmed",
+        "shipped",
+        "delivered",
+        "cancelled",
+      ],
+    },
+  },
+} as const
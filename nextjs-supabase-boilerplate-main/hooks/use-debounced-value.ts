@@ -0,0 +1,23 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/**
+ * 값이 delay(ms) 동안 바뀌지 않으면 갱신되는 값을 반환하는 훅
+ *
+ * @example
+ * ```tsx
+ * const debouncedQuery = useDebouncedValue(query, 300);
+ * useEffect(() => { fetchSuggestions(debouncedQuery); }, [debouncedQuery]);
+ * ```
+ */
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
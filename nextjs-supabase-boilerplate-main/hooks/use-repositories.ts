@@ -0,0 +1,26 @@
+"use client";
+
+import { useMemo } from "react";
+import { useClerkSupabaseClient } from "@/lib/supabase/clerk-client";
+import { createRepositories } from "@/lib/repositories";
+
+/**
+ * Clerk 세션 클라이언트로 만든 저장소를 반환하는 훅 (Client Component용)
+ *
+ * @example
+ * ```tsx
+ * 'use client';
+ *
+ * import { useRepositories } from '@/hooks/use-repositories';
+ *
+ * export default function CartPage() {
+ *   const { cart } = useRepositories();
+ *   // await cart.listItems(user.id);
+ * }
+ * ```
+ */
+export function useRepositories() {
+  const supabase = useClerkSupabaseClient();
+
+  return useMemo(() => createRepositories(supabase), [supabase]);
+}
@@ -8,6 +8,7 @@ import { useEffect, useRef } from "react";
  *
  * 사용자가 로그인한 상태에서 이 훅을 사용하면
  * 자동으로 /api/sync-user를 호출하여 Supabase users 테이블에 사용자 정보를 저장합니다.
+ * 비로그인 장바구니가 병합되면 `guestCartMerged`, `cartUpdated` 이벤트를 발생시킵니다.
  *
  * @example
  * ```tsx
@@ -26,6 +27,12 @@ export function useSyncUser() {
   const syncedRef = useRef(false);
 
   useEffect(() => {
+    // 로그아웃하면 다음 로그인 시 다시 동기화 (그 사이 담은 비로그인 장바구니 병합)
+    if (isLoaded && !userId) {
+      syncedRef.current = false;
+      return;
+    }
+
     // 이미 동기화했거나, 로딩 중이거나, 로그인하지 않은 경우 무시
     if (syncedRef.current || !isLoaded || !userId) {
       return;
@@ -44,6 +51,12 @@ export function useSyncUser() {
         }
 
         syncedRef.current = true;
+
+        const { mergedCartItems } = await response.json();
+        if (mergedCartItems > 0) {
+          window.dispatchEvent(new CustomEvent("guestCartMerged"));
+          window.dispatchEvent(new CustomEvent("cartUpdated"));
+        }
       } catch (error) {
         console.error("Error syncing user:", error);
       }
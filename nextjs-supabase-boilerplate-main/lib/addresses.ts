@@ -0,0 +1,28 @@
+import type { ShippingAddress } from "@/types/order";
+import type { UserAddress } from "@/types/address";
+
+/** 사용자당 저장할 수 있는 최대 배송지 수 */
+export const MAX_USER_ADDRESSES = 10;
+
+/** 저장된 배송지를 주문서 배송지 형식으로 변환 */
+export function toShippingAddress(address: UserAddress): ShippingAddress {
+  return {
+    name: address.recipient_name,
+    phone: address.phone,
+    address: address.address,
+    addressDetail: address.address_detail,
+    zipCode: address.zip_code,
+    jibunAddress: address.jibun_address,
+  };
+}
+
+/** 주문서에 입력한 배송지가 저장된 배송지와 같은지 비교 */
+export function isSameShippingAddress(a: ShippingAddress, b: ShippingAddress): boolean {
+  return (
+    a.name.trim() === b.name.trim() &&
+    a.phone.trim() === b.phone.trim() &&
+    a.address.trim() === b.address.trim() &&
+    a.addressDetail.trim() === b.addressDetail.trim() &&
+    a.zipCode.trim() === b.zipCode.trim()
+  );
+}
@@ -0,0 +1,51 @@
+import { auth } from "@clerk/nextjs/server";
+import type { UserRole } from "@/types/auth";
+
+/** 역할 등급 (숫자가 클수록 상위 역할) */
+const ROLE_LEVELS: Record<UserRole, number> = {
+  customer: 0,
+  staff: 1,
+  admin: 2,
+};
+
+/**
+ * 세션 토큰 클레임에서 역할 추출
+ *
+ * 역할이 없거나 알 수 없는 값이면 customer로 취급합니다.
+ * ("toString"처럼 Object.prototype에 있는 이름도 알 수 없는 값으로 취급)
+ * Middleware처럼 auth()의 sessionClaims를 이미 가지고 있을 때 사용합니다.
+ */
+export function getRoleFromClaims(
+  sessionClaims: CustomJwtSessionClaims | null | undefined
+): UserRole {
+  const role = sessionClaims?.metadata?.role;
+
+  return role && Object.hasOwn(ROLE_LEVELS, role) ? role : "customer";
+}
+
+/** role이 required 이상의 역할인지 확인 */
+export function meetsRole(role: UserRole, required: UserRole): boolean {
+  return ROLE_LEVELS[role] >= ROLE_LEVELS[required];
+}
+
+/**
+ * 현재 사용자의 역할 조회 (Server Component, Server Action, Route Handler용)
+ *
+ * 세션 토큰의 metadata.role을 사용하므로 Clerk API를 호출하지 않습니다.
+ * 역할은 Clerk Dashboard에서 사용자의 public metadata에 `{ "role": "admin" }`처럼 지정합니다.
+ * 로그인하지 않은 경우 null을 반환합니다.
+ */
+export async function getUserRole(): Promise<UserRole | null> {
+  const { userId, sessionClaims } = await auth();
+
+  if (!userId) return null;
+
+  return getRoleFromClaims(sessionClaims);
+}
+
+/** 현재 사용자가 required 이상의 역할인지 확인 */
+export async function hasRole(required: UserRole): Promise<boolean> {
+  const role = await getUserRole();
+
+  return role !== null && meetsRole(role, required);
+}
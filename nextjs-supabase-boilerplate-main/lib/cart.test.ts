@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { detectCartChanges, getMaxCartQuantity, MAX_CART_ITEM_QUANTITY } from "@/lib/cart";
+import type { CartLine } from "@/types/cart";
+import type { Product } from "@/types/product";
+
+function buildLine(
+  priceAtAdd: number,
+  quantity: number,
+  product: Partial<Product> = {}
+): CartLine {
+  return {
+    id: "cart_item_1",
+    quantity,
+    price_at_add: priceAtAdd,
+    product: {
+      id: "product_1",
+      name: "테스트 상품",
+      description: null,
+      category: null,
+      price: 10000,
+      stock_quantity: 10,
+      is_active: true,
+      created_at: "2025-12-07T00:00:00.000Z",
+      updated_at: "2025-12-07T00:00:00.000Z",
+      ...product,
+    },
+  };
+}
+
+describe("getMaxCartQuantity", () => {
+  it("재고와 최대 수량 중 작은 값을 반환한다", () => {
+    expect(getMaxCartQuantity(5)).toBe(5);
+    expect(getMaxCartQuantity(500)).toBe(MAX_CART_ITEM_QUANTITY);
+    expect(getMaxCartQuantity(0)).toBe(0);
+  });
+});
+
+describe("detectCartChanges", () => {
+  it("담을 당시와 같으면 변경 내역이 없다", () => {
+    expect(detectCartChanges([buildLine(10000, 1)])).toEqual([]);
+  });
+
+  it("가격이 오르거나 내리면 이전 가격과 현재 가격을 표시한다", () => {
+    expect(detectCartChanges([buildLine(9000, 1)])).toEqual([
+      {
+        type: "PRICE_INCREASED",
+        cartItemId: "cart_item_1",
+        productName: "테스트 상품",
+        previousPrice: 9000,
+        currentPrice: 10000,
+      },
+    ]);
+    expect(detectCartChanges([buildLine(12000, 1)])[0]).toMatchObject({
+      type: "PRICE_DECREASED",
+      previousPrice: 12000,
+      currentPrice: 10000,
+    });
+  });
+
+  it("DECIMAL 문자열로 조회된 가격도 숫자로 비교한다", () => {
+    const line = buildLine("10000.00" as unknown as number, 1);
+
+    expect(detectCartChanges([line])).toEqual([]);
+  });
+
+  it("가격 변경과 재고 부족을 함께 표시한다", () => {
+    const changes = detectCartChanges([buildLine(9000, 5, { stock_quantity: 3 })]);
+
+    expect(changes.map((change) => change.type)).toEqual([
+      "PRICE_INCREASED",
+      "INSUFFICIENT_STOCK",
+    ]);
+    expect(changes[1]).toMatchObject({ quantity: 5, stockQuantity: 3 });
+  });
+
+  it("판매 중지/품절 상품은 가격 변경 없이 삭제 대상으로만 표시한다", () => {
+    expect(
+      detectCartChanges([
+        buildLine(9000, 1, { is_active: false }),
+        buildLine(9000, 1, { stock_quantity: 0 }),
+      ]).map((change) => change.type)
+    ).toEqual(["INACTIVE", "OUT_OF_STOCK"]);
+  });
+});
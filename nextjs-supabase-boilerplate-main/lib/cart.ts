@@ -0,0 +1,49 @@
+import type { CartChange, CartLine } from "@/types/cart";
+
+/** 장바구니 상품 하나에 담을 수 있는 최대 수량 */
+export const MAX_CART_ITEM_QUANTITY = 99;
+
+/** 재고를 고려해 장바구니에 담을 수 있는 최대 수량 */
+export function getMaxCartQuantity(stockQuantity: number): number {
+  return Math.max(0, Math.min(stockQuantity, MAX_CART_ITEM_QUANTITY));
+}
+
+/**
+ * 담을 당시와 달라진 장바구니 상품 목록
+ *
+ * 판매 중지/품절 상품은 삭제 대상이므로 가격 변경은 함께 표시하지 않습니다.
+ * 재고 부족과 가격 변경은 한 상품에서 동시에 나올 수 있습니다.
+ */
+export function detectCartChanges(lines: CartLine[]): CartChange[] {
+  return lines.flatMap((line): CartChange[] => {
+    const { product } = line;
+    const base = { cartItemId: line.id, productName: product.name };
+
+    if (!product.is_active) return [{ ...base, type: "INACTIVE" }];
+    if (product.stock_quantity <= 0) return [{ ...base, type: "OUT_OF_STOCK" }];
+
+    const changes: CartChange[] = [];
+    const previousPrice = Number(line.price_at_add);
+    const currentPrice = Number(product.price);
+
+    if (previousPrice !== currentPrice) {
+      changes.push({
+        ...base,
+        type: currentPrice > previousPrice ? "PRICE_INCREASED" : "PRICE_DECREASED",
+        previousPrice,
+        currentPrice,
+      });
+    }
+
+    if (line.quantity > product.stock_quantity) {
+      changes.push({
+        ...base,
+        type: "INSUFFICIENT_STOCK",
+        quantity: line.quantity,
+        stockQuantity: product.stock_quantity,
+      });
+    }
+
+    return changes;
+  });
+}
@@ -0,0 +1,77 @@
+import {
+  Baby,
+  BookOpen,
+  Car,
+  Dog,
+  Dumbbell,
+  Gamepad2,
+  Gift,
+  House,
+  Laptop,
+  Music,
+  Shirt,
+  ShoppingBag,
+  Sparkles,
+  UtensilsCrossed,
+  type LucideIcon,
+} from "lucide-react";
+import type { Category } from "@/types/category";
+
+/** 상품 목록의 전체 카테고리 필터 값 (categories.slug로는 사용할 수 없음) */
+export const ALL_CATEGORIES = "all";
+
+/**
+ * 카테고리 색상 (categories.color)
+ *
+ * Tailwind는 코드에 있는 클래스만 생성하므로 DB에는 키만 저장하고 그라데이션 클래스는 여기서 매핑합니다.
+ * 키를 추가하면 categories 테이블의 color CHECK 제약 조건도 함께 변경해야 합니다.
+ */
+export const CATEGORY_COLORS = {
+  blue: { label: "파랑", gradient: "from-blue-500 to-cyan-500" },
+  pink: { label: "분홍", gradient: "from-pink-500 to-rose-500" },
+  amber: { label: "주황", gradient: "from-amber-500 to-orange-500" },
+  green: { label: "초록", gradient: "from-green-500 to-emerald-500" },
+  red: { label: "빨강", gradient: "from-red-500 to-pink-500" },
+  purple: { label: "보라", gradient: "from-purple-500 to-fuchsia-500" },
+  teal: { label: "청록", gradient: "from-teal-500 to-cyan-500" },
+  indigo: { label: "남색", gradient: "from-indigo-500 to-violet-500" },
+  gray: { label: "회색", gradient: "from-gray-400 to-gray-500" },
+} as const satisfies Record<string, { label: string; gradient: string }>;
+
+export type CategoryColor = keyof typeof CATEGORY_COLORS;
+
+/**
+ * 카테고리 아이콘 (categories.icon)
+ *
+ * 키를 추가하면 categories 테이블의 icon CHECK 제약 조건도 함께 변경해야 합니다.
+ */
+export const CATEGORY_ICONS = {
+  "shopping-bag": { label: "쇼핑백", icon: ShoppingBag },
+  laptop: { label: "노트북", icon: Laptop },
+  shirt: { label: "셔츠", icon: Shirt },
+  "book-open": { label: "책", icon: BookOpen },
+  utensils: { label: "식기", icon: UtensilsCrossed },
+  dumbbell: { label: "덤벨", icon: Dumbbell },
+  sparkles: { label: "반짝임", icon: Sparkles },
+  house: { label: "집", icon: House },
+  gift: { label: "선물", icon: Gift },
+  baby: { label: "아기", icon: Baby },
+  car: { label: "자동차", icon: Car },
+  gamepad: { label: "게임", icon: Gamepad2 },
+  music: { label: "음악", icon: Music },
+  dog: { label: "반려동물", icon: Dog },
+} as const satisfies Record<string, { label: string; icon: LucideIcon }>;
+
+export type CategoryIcon = keyof typeof CATEGORY_ICONS;
+
+/** 카테고리 그라데이션 클래스 (미분류이거나 알 수 없는 색상이면 회색) */
+export function getCategoryGradient(category?: Pick<Category, "color"> | null): string {
+  return (
+    CATEGORY_COLORS[category?.color as CategoryColor]?.gradient ?? CATEGORY_COLORS.gray.gradient
+  );
+}
+
+/** 카테고리 아이콘 (미분류이거나 알 수 없는 아이콘이면 쇼핑백) */
+export function getCategoryIcon(category?: Pick<Category, "icon"> | null): LucideIcon {
+  return CATEGORY_ICONS[category?.icon as CategoryIcon]?.icon ?? ShoppingBag;
+}
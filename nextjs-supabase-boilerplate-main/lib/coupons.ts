@@ -0,0 +1,35 @@
+/** calculate_coupon_discount 함수의 오류 코드 (supabase/migrations/20251207220000_create_coupons.sql) */
+export type CouponErrorCode =
+  | "COUPON_NOT_FOUND"
+  | "COUPON_EXPIRED"
+  | "COUPON_NOT_APPLICABLE"
+  | "COUPON_MIN_ORDER_NOT_MET"
+  | "COUPON_LIMIT_REACHED";
+
+const COUPON_ERROR_CODES: CouponErrorCode[] = [
+  "COUPON_NOT_FOUND",
+  "COUPON_EXPIRED",
+  "COUPON_NOT_APPLICABLE",
+  "COUPON_MIN_ORDER_NOT_MET",
+  "COUPON_LIMIT_REACHED",
+];
+
+export function isCouponErrorCode(message: string): message is CouponErrorCode {
+  return (COUPON_ERROR_CODES as string[]).includes(message);
+}
+
+/** 쿠폰 오류 코드를 사용자에게 보여줄 메시지로 변환 */
+export function getCouponErrorMessage(code: CouponErrorCode, details: string | null): string {
+  switch (code) {
+    case "COUPON_NOT_FOUND":
+      return "존재하지 않는 쿠폰입니다.";
+    case "COUPON_EXPIRED":
+      return "사용 기간이 아닌 쿠폰입니다.";
+    case "COUPON_NOT_APPLICABLE":
+      return "장바구니에 쿠폰을 적용할 수 있는 상품이 없습니다.";
+    case "COUPON_MIN_ORDER_NOT_MET":
+      return `${Number(details).toLocaleString()}원 이상 주문 시 사용할 수 있는 쿠폰입니다.`;
+    case "COUPON_LIMIT_REACHED":
+      return "이미 사용한 쿠폰입니다.";
+  }
+}
@@ -0,0 +1,96 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { cookies } from "next/headers";
+import { z } from "zod";
+import { MAX_CART_ITEM_QUANTITY } from "@/lib/cart";
+import type { GuestCartItem } from "@/types/cart";
+
+const GUEST_CART_COOKIE = "guest_cart";
+const GUEST_CART_MAX_AGE = 60 * 60 * 24 * 30; // 30일
+
+/** 쿠키 크기 제한(4KB)을 넘지 않도록 담을 수 있는 상품 종류 수 */
+export const MAX_GUEST_CART_ITEMS = 30;
+
+const guestCartSchema = z
+  .array(
+    z.object({
+      productId: z.string().uuid(),
+      quantity: z.number().int().min(1).max(MAX_CART_ITEM_QUANTITY),
+      priceAtAdd: z.number().nonnegative().optional(),
+    })
+  )
+  .max(MAX_GUEST_CART_ITEMS);
+
+function getGuestCartSecret(): string {
+  const secret = process.env.GUEST_CART_SECRET;
+
+  if (!secret) {
+    throw new Error(
+      "GUEST_CART_SECRET is missing. Please check your environment variables."
+    );
+  }
+
+  return secret;
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", getGuestCartSecret()).update(payload).digest("base64url");
+}
+
+function verify(payload: string, signature: string): boolean {
+  const expected = Buffer.from(sign(payload));
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * 비로그인 장바구니 읽기 (Server Action, Route Handler용)
+ *
+ * 서명이 맞지 않거나 형식이 잘못된 쿠키는 빈 장바구니로 취급합니다.
+ */
+export async function readGuestCart(): Promise<GuestCartItem[]> {
+  const value = (await cookies()).get(GUEST_CART_COOKIE)?.value;
+  if (!value) return [];
+
+  const [payload, signature] = value.split(".");
+  if (!payload || !signature || !verify(payload, signature)) return [];
+
+  try {
+    const parsed = guestCartSchema.safeParse(
+      JSON.parse(Buffer.from(payload, "base64url").toString("utf8"))
+    );
+    return parsed.success ? (parsed.data as GuestCartItem[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * 비로그인 장바구니 저장 (Server Action, Route Handler용)
+ *
+ * `{payload}.{HMAC 서명}` 형식의 httpOnly 쿠키로 저장하므로
+ * 브라우저에서 수량이나 상품을 조작할 수 없습니다.
+ */
+export async function writeGuestCart(items: GuestCartItem[]): Promise<void> {
+  const cookieStore = await cookies();
+
+  if (items.length === 0) {
+    cookieStore.delete(GUEST_CART_COOKIE);
+    return;
+  }
+
+  const payload = Buffer.from(JSON.stringify(items)).toString("base64url");
+
+  cookieStore.set(GUEST_CART_COOKIE, `${payload}.${sign(payload)}`, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    path: "/",
+    maxAge: GUEST_CART_MAX_AGE,
+  });
+}
+
+/** 비로그인 장바구니 삭제 (로그인 후 병합이 끝난 경우) */
+export async function clearGuestCart(): Promise<void> {
+  (await cookies()).delete(GUEST_CART_COOKIE);
+}
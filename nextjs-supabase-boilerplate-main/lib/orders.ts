@@ -0,0 +1,21 @@
+const DEFAULT_PENDING_ORDER_TTL_MINUTES = 30;
+
+/**
+ * 미결제(pending) 주문 유효 시간 (분)
+ *
+ * `PENDING_ORDER_TTL_MINUTES` 환경 변수로 설정하며, 기본값은 30분입니다.
+ * 이 시간이 지난 주문은 결제할 수 없고 /api/cron/expire-orders에서 취소됩니다.
+ */
+export function getPendingOrderTtlMinutes(): number {
+  const ttl = Number(process.env.PENDING_ORDER_TTL_MINUTES);
+
+  return Number.isInteger(ttl) && ttl > 0 ? ttl : DEFAULT_PENDING_ORDER_TTL_MINUTES;
+}
+
+/** 주문 생성 후 유효 시간이 지났는지 확인 */
+export function isPendingOrderExpired(createdAt: string): boolean {
+  const expiresAt =
+    new Date(createdAt).getTime() + getPendingOrderTtlMinutes() * 60 * 1000;
+
+  return Date.now() >= expiresAt;
+}
@@ -0,0 +1,243 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  applyPaymentStatusToOrder,
+  recordPayment,
+  refundPaymentForCancelledOrder,
+} from "@/lib/payments";
+import {
+  createInMemoryOrderRepository,
+  createInMemoryPaymentRepository,
+  createInMemoryStore,
+} from "@/lib/repositories/in-memory";
+import type { Order, OrderItem, OrderStatus } from "@/types/order";
+import type { TossPaymentsClient } from "@/lib/toss/client";
+import type { TossPayment } from "@/types/toss";
+
+const ORDER_ID = "00000000-0000-4000-8000-000000000001";
+const CLERK_ID = "user_test";
+
+function buildOrder(status: OrderStatus): Order {
+  return {
+    id: ORDER_ID,
+    clerk_id: CLERK_ID,
+    status,
+    subtotal_amount: 30000,
+    discount_amount: 0,
+    shipping_fee: 0,
+    total_amount: 30000,
+    coupon_code: null,
+    order_note: null,
+    shipping_address: null,
+    expired_at: null,
+    review_requested_at: null,
+    review_reason: null,
+    created_at: "2025-12-07T00:00:00.000Z",
+    updated_at: "2025-12-07T00:00:00.000Z",
+  };
+}
+
+function buildOrderItem(): OrderItem {
+  return {
+    id: "00000000-0000-4000-8000-000000000011",
+    order_id: ORDER_ID,
+    product_id: "00000000-0000-4000-8000-000000000021",
+    product_name: "테스트 상품",
+    price: 10000,
+    quantity: 3,
+    cancelled_quantity: 0,
+    created_at: "2025-12-07T00:00:00.000Z",
+  };
+}
+
+function buildTossPayment(overrides: Partial<TossPayment> = {}): TossPayment {
+  return {
+    paymentKey: "payment_key_test",
+    orderId: ORDER_ID,
+    orderName: "테스트 상품",
+    status: "DONE",
+    method: "카드",
+    totalAmount: 30000,
+    balanceAmount: 30000,
+    requestedAt: "2025-12-07T00:00:00+09:00",
+    approvedAt: "2025-12-07T00:00:10+09:00",
+    receipt: null,
+    cancels: null,
+    secret: null,
+    ...overrides,
+  };
+}
+
+describe("recordPayment", () => {
+  it("상태가 바뀔 때만 status_history에 이력을 추가한다", async () => {
+    const store = createInMemoryStore();
+    const payments = createInMemoryPaymentRepository(store);
+    const params = { orderId: ORDER_ID, clerkId: CLERK_ID, payment: buildTossPayment() };
+
+    await recordPayment(payments, { ...params, source: "confirm" });
+    const saved = await recordPayment(payments, { ...params, source: "webhook" });
+
+    expect(store.payments).toHaveLength(1);
+    expect(saved.status_history.map((entry) => entry.source)).toEqual(["confirm"]);
+
+    const cancelled = await recordPayment(payments, {
+      ...params,
+      payment: buildTossPayment({ status: "CANCELED", balanceAmount: 0 }),
+      source: "cancel",
+    });
+
+    expect(cancelled.status_history.map((entry) => entry.status)).toEqual(["DONE", "CANCELED"]);
+  });
+
+  it("가상계좌 secret은 raw_response에서 빼고 deposit_secret에 저장한다", async () => {
+    const store = createInMemoryStore();
+    const payments = createInMemoryPaymentRepository(store);
+    const params = { orderId: ORDER_ID, clerkId: CLERK_ID, source: "confirm" as const };
+
+    await recordPayment(payments, {
+      ...params,
+      payment: buildTossPayment({ status: "WAITING_FOR_DEPOSIT", secret: "deposit_secret_test" }),
+    });
+    // 웹훅으로 다시 조회한 결제에 secret이 없어도 저장된 값을 유지
+    const saved = await recordPayment(payments, { ...params, payment: buildTossPayment() });
+
+    expect(saved.deposit_secret).toBe("deposit_secret_test");
+    expect(saved.raw_response).not.toHaveProperty("secret");
+  });
+
+  it("취소 내역은 transaction_key마다 한 번만 저장한다", async () => {
+    const store = createInMemoryStore();
+    const payments = createInMemoryPaymentRepository(store);
+    const payment = buildTossPayment({
+      status: "PARTIAL_CANCELED",
+      balanceAmount: 20000,
+      cancels: [
+        {
+          transactionKey: "tx_1",
+          cancelAmount: 10000,
+          cancelReason: "고객 요청",
+          canceledAt: "2025-12-07T01:00:00+09:00",
+        },
+      ],
+    });
+
+    await recordPayment(payments, { orderId: ORDER_ID, clerkId: CLERK_ID, payment, source: "cancel" });
+    await recordPayment(payments, { orderId: ORDER_ID, clerkId: CLERK_ID, payment, source: "webhook" });
+
+    expect(store.refunds).toHaveLength(1);
+    expect(store.refunds[0]).toMatchObject({
+      payment_id: store.payments[0].id,
+      transaction_key: "tx_1",
+      cancel_amount: 10000,
+    });
+  });
+});
+
+describe("applyPaymentStatusToOrder", () => {
+  it("결제 완료(DONE)면 결제 대기 주문을 확정한다", async () => {
+    const store = createInMemoryStore({ orders: [buildOrder("pending")] });
+    const orders = createInMemoryOrderRepository(store);
+
+    await expect(applyPaymentStatusToOrder(orders, ORDER_ID, "DONE")).resolves.toBe("confirmed");
+    expect(store.orders[0].status).toBe("confirmed");
+  });
+
+  it("이미 취소된 주문은 결제 완료로 되살리지 않는다", async () => {
+    const store = createInMemoryStore({ orders: [buildOrder("cancelled")] });
+    const orders = createInMemoryOrderRepository(store);
+
+    await expect(applyPaymentStatusToOrder(orders, ORDER_ID, "DONE")).resolves.toBeNull();
+    expect(store.orders[0].status).toBe("cancelled");
+  });
+
+  it("결제 취소(CANCELED)면 확정된 주문을 취소한다", async () => {
+    const store = createInMemoryStore({
+      orders: [buildOrder("confirmed")],
+      orderItems: [buildOrderItem()],
+    });
+    const orders = createInMemoryOrderRepository(store);
+
+    await expect(applyPaymentStatusToOrder(orders, ORDER_ID, "CANCELED")).resolves.toBe(
+      "cancelled"
+    );
+    expect(store.orders[0].status).toBe("cancelled");
+    expect(store.orderItems[0].cancelled_quantity).toBe(3);
+  });
+
+  it("배송이 시작된 주문은 취소하지 않고 관리자 확인 필요로 표시한다", async () => {
+    const store = createInMemoryStore({ orders: [buildOrder("shipped")] });
+    const orders = createInMemoryOrderRepository(store);
+
+    await expect(applyPaymentStatusToOrder(orders, ORDER_ID, "CANCELED")).resolves.toBeNull();
+    expect(store.orders[0]).toMatchObject({
+      status: "shipped",
+      review_reason: "CANCEL_AFTER_SHIPMENT",
+    });
+    expect(store.orders[0].review_requested_at).not.toBeNull();
+  });
+
+  it("상태 변경이 필요 없는 결제 상태는 무시한다", async () => {
+    const store = createInMemoryStore({ orders: [buildOrder("pending")] });
+    const orders = createInMemoryOrderRepository(store);
+
+    await expect(applyPaymentStatusToOrder(orders, ORDER_ID, "IN_PROGRESS")).resolves.toBeNull();
+    expect(store.orders[0].status).toBe("pending");
+  });
+});
+
+describe("refundPaymentForCancelledOrder", () => {
+  function setup(status: OrderStatus, cancelPayment: TossPaymentsClient["cancelPayment"]) {
+    const store = createInMemoryStore({ orders: [buildOrder(status)] });
+    const repositories = {
+      orders: createInMemoryOrderRepository(store),
+      payments: createInMemoryPaymentRepository(store),
+    };
+    const toss: TossPaymentsClient = {
+      confirmPayment: vi.fn(),
+      getPayment: vi.fn(),
+      cancelPayment: vi.fn(cancelPayment),
+    };
+    return { store, repositories, toss };
+  }
+
+  const params = {
+    orderId: ORDER_ID,
+    clerkId: CLERK_ID,
+    payment: buildTossPayment(),
+    source: "confirm" as const,
+  };
+
+  it("취소된 주문의 결제를 같은 멱등 키로 전액 환불하고 기록한다", async () => {
+    const { store, repositories, toss } = setup("cancelled", async () =>
+      buildTossPayment({ status: "CANCELED", balanceAmount: 0 })
+    );
+
+    await expect(refundPaymentForCancelledOrder(repositories, toss, params)).resolves.toBe(true);
+    expect(toss.cancelPayment).toHaveBeenCalledWith(
+      expect.objectContaining({
+        paymentKey: "payment_key_test",
+        idempotencyKey: "void-payment_key_test",
+      })
+    );
+    expect(store.payments[0].status).toBe("CANCELED");
+  });
+
+  it("취소되지 않은 주문의 결제는 환불하지 않는다", async () => {
+    const { repositories, toss } = setup("confirmed", async () => buildTossPayment());
+
+    await expect(refundPaymentForCancelledOrder(repositories, toss, params)).resolves.toBe(false);
+    expect(toss.cancelPayment).not.toHaveBeenCalled();
+  });
+
+  it("환불에 실패하면 주문을 관리자 확인 필요로 표시한다", async () => {
+    const { store, repositories, toss } = setup("cancelled", async () => {
+      throw new Error("network error");
+    });
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(refundPaymentForCancelledOrder(repositories, toss, params)).resolves.toBe(true);
+    expect(store.orders[0].review_reason).toBe("PAID_AFTER_CANCEL");
+    expect(store.payments).toHaveLength(0);
+
+    consoleError.mockRestore();
+  });
+});
@@ -0,0 +1,170 @@
+import type { Json } from "@/database.types";
+import type { OrderRepository, PaymentRepository, Repositories } from "@/lib/repositories";
+import type {
+  Payment,
+  PaymentEventSource,
+  PaymentStatusHistoryEntry,
+} from "@/types/payment";
+import type { OrderReviewReason, OrderStatus } from "@/types/order";
+import type { TossPayment, TossPaymentStatus } from "@/types/toss";
+import { TOSS_STATUS_TO_ORDER_STATUS } from "@/lib/toss/webhook";
+import type { TossPaymentsClient } from "@/lib/toss/client";
+
+interface RecordPaymentParams {
+  orderId: string;
+  clerkId: string;
+  payment: TossPayment;
+  source: PaymentEventSource;
+}
+
+/**
+ * Toss Payment 객체를 payments 테이블에 저장
+ *
+ * 같은 paymentKey가 이미 있으면 최신 응답으로 갱신하고,
+ * 가상계좌 secret은 raw_response 대신 deposit_secret에 저장합니다.
+ * 상태가 바뀐 경우에만 status_history에 이력을 추가합니다.
+ * Payment.cancels의 취소 내역은 payment_refunds에 transaction_key 기준으로 한 번만 저장합니다.
+ * service_role 클라이언트로 생성한 저장소를 전달해야 합니다.
+ */
+export async function recordPayment(
+  payments: PaymentRepository,
+  { orderId, clerkId, payment, source }: RecordPaymentParams
+): Promise<Payment> {
+  const existing = await payments.getByPaymentKey(payment.paymentKey);
+  const history: PaymentStatusHistoryEntry[] = [...(existing?.status_history ?? [])];
+
+  if (existing?.status !== payment.status) {
+    history.push({
+      status: payment.status,
+      changed_at: new Date().toISOString(),
+      source,
+    });
+  }
+
+  // 입금 콜백 검증용 secret은 raw_response에 남기지 않고 deposit_secret 컬럼에만 저장
+  const { secret, ...response } = payment;
+
+  const saved = await payments.upsert({
+    order_id: orderId,
+    clerk_id: clerkId,
+    payment_key: payment.paymentKey,
+    method: payment.method,
+    status: payment.status,
+    total_amount: payment.totalAmount,
+    approved_at: payment.approvedAt,
+    receipt_url: payment.receipt?.url ?? null,
+    raw_response: response as unknown as Json,
+    deposit_secret: secret ?? existing?.deposit_secret ?? null,
+    status_history: history as unknown as Json,
+  });
+
+  await payments.recordRefunds(
+    (payment.cancels ?? []).map((cancel) => ({
+      payment_id: saved.id,
+      order_id: orderId,
+      clerk_id: clerkId,
+      transaction_key: cancel.transactionKey,
+      cancel_amount: cancel.cancelAmount,
+      cancel_reason: cancel.cancelReason,
+      canceled_at: cancel.canceledAt,
+    }))
+  );
+
+  return saved;
+}
+
+/**
+ * Toss 결제 상태를 주문 상태에 반영
+ *
+ * - confirmed: 결제 대기(pending) 주문만 확정
+ * - cancelled: cancel_order 함수로 취소 및 재고 복구 (이미 취소된 주문은 무시,
+ *   배송이 시작된 주문은 취소하지 않고 관리자 확인 필요로 표시)
+ *
+ * 상태가 실제로 바뀌었으면 변경된 주문 상태를, 아니면 null을 반환합니다.
+ * service_role 클라이언트로 생성한 저장소를 전달해야 합니다.
+ */
+export async function applyPaymentStatusToOrder(
+  orders: OrderRepository,
+  orderId: string,
+  status: TossPaymentStatus
+): Promise<OrderStatus | null> {
+  const target = TOSS_STATUS_TO_ORDER_STATUS[status];
+
+  if (target === "confirmed") {
+    return (await orders.confirmPending(orderId)) ? target : null;
+  }
+
+  if (target === "cancelled") {
+    return (await orders.cancel(orderId)) ? target : null;
+  }
+
+  return null;
+}
+
+interface VoidPaymentParams extends RecordPaymentParams {
+  cancelReason: string;
+  /** 환불에 실패했을 때 주문에 남길 관리자 확인 사유 */
+  reviewReason: OrderReviewReason;
+}
+
+/**
+ * 주문에 반영할 수 없는 결제를 전액 환불하고 payments에 기록
+ *
+ * 같은 결제를 두 번 환불하지 않도록 멱등 키를 `void-{paymentKey}`로 고정합니다.
+ * 환불에 실패하면 주문을 관리자 확인 필요(reviewReason)로 표시합니다.
+ * 환불했으면 true를 반환합니다.
+ */
+export async function voidPayment(
+  { orders, payments }: Pick<Repositories, "orders" | "payments">,
+  toss: TossPaymentsClient,
+  { orderId, clerkId, payment, source, cancelReason, reviewReason }: VoidPaymentParams
+): Promise<boolean> {
+  let refunded: TossPayment;
+  try {
+    refunded = await toss.cancelPayment({
+      paymentKey: payment.paymentKey,
+      cancelReason,
+      idempotencyKey: `void-${payment.paymentKey}`,
+    });
+  } catch (error) {
+    console.error("Error voiding payment:", { orderId, reviewReason, error });
+    await orders
+      .flagForReview(orderId, reviewReason)
+      .catch((flagError) => console.error("Error flagging order for review:", flagError));
+    return false;
+  }
+
+  await recordPayment(payments, { orderId, clerkId, payment: refunded, source }).catch(
+    (recordError) => console.error("Error recording voided payment:", recordError)
+  );
+
+  return true;
+}
+
+/**
+ * 이미 취소된 주문에 승인된 결제를 전액 환불
+ *
+ * 결제 승인과 미결제 주문 만료(expire_pending_orders)가 동시에 일어나면
+ * 주문은 취소되었는데 결제만 완료(DONE)될 수 있습니다. 결제 승인 API와 웹훅이
+ * applyPaymentStatusToOrder로 주문을 확정하지 못했을 때 호출합니다.
+ * 환불에 실패하면 주문을 관리자 확인 필요(PAID_AFTER_CANCEL)로 표시합니다.
+ * 주문이 취소된 상태라 환불을 시도했으면 true를 반환합니다.
+ */
+export async function refundPaymentForCancelledOrder(
+  repositories: Pick<Repositories, "orders" | "payments">,
+  toss: TossPaymentsClient,
+  params: RecordPaymentParams
+): Promise<boolean> {
+  if (params.payment.status !== "DONE") return false;
+
+  const order = await repositories.orders.findById(params.orderId);
+  if (order?.status !== "cancelled") return false;
+
+  await voidPayment(repositories, toss, {
+    ...params,
+    cancelReason: "취소된 주문의 결제 자동 환불",
+    reviewReason: "PAID_AFTER_CANCEL",
+  });
+
+  return true;
+}
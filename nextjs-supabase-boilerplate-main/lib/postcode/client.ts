@@ -0,0 +1,87 @@
+import type { DaumPostcodeData, PostcodeAddress } from "@/types/postcode";
+import { createFixturePostcodeProvider } from "@/lib/postcode/fixtures";
+
+const DAUM_POSTCODE_SCRIPT_URL =
+  "https://t1.daumcdn.net/mapjsapi/bundle/postcode/prod/postcode.v2.js";
+
+/**
+ * 우편번호 검색 제공자 (Client Component용)
+ *
+ * 주소 검색 컴포넌트는 이 인터페이스에만 의존하므로,
+ * 테스트 시 Daum 위젯 대신 고정 결과를 반환하는 제공자로 교체할 수 있습니다.
+ */
+export interface PostcodeProvider {
+  /** 주소 검색 창을 열고 선택한 주소를 반환 (선택하지 않고 닫으면 null) */
+  search(): Promise<PostcodeAddress | null>;
+}
+
+let daumScriptPromise: Promise<void> | null = null;
+
+function loadDaumPostcodeScript(): Promise<void> {
+  if (window.daum?.Postcode) return Promise.resolve();
+
+  daumScriptPromise ??= new Promise<void>((resolve, reject) => {
+    const script = document.createElement("script");
+    script.src = DAUM_POSTCODE_SCRIPT_URL;
+    script.async = true;
+    script.onload = () => resolve();
+    script.onerror = () => {
+      daumScriptPromise = null;
+      reject(new Error("우편번호 서비스를 불러오지 못했습니다."));
+    };
+    document.head.appendChild(script);
+  });
+
+  return daumScriptPromise;
+}
+
+/** Daum 위젯 결과를 검색 결과로 변환 */
+export function toPostcodeAddress(data: DaumPostcodeData): PostcodeAddress {
+  return {
+    zipCode: data.zonecode,
+    roadAddress: data.roadAddress,
+    jibunAddress: data.jibunAddress || data.autoJibunAddress,
+    buildingName: data.buildingName,
+  };
+}
+
+/**
+ * Daum(카카오) 우편번호 서비스 팝업을 사용하는 제공자
+ */
+export function createDaumPostcodeProvider(): PostcodeProvider {
+  return {
+    async search() {
+      await loadDaumPostcodeScript();
+
+      return new Promise<PostcodeAddress | null>((resolve) => {
+        let selected: PostcodeAddress | null = null;
+
+        new window.daum.Postcode({
+          oncomplete(data) {
+            selected = toPostcodeAddress(data);
+          },
+          onclose() {
+            resolve(selected);
+          },
+        }).open();
+      });
+    },
+  };
+}
+
+/**
+ * 환경 변수 기반 우편번호 검색 제공자
+ *
+ * - `NEXT_PUBLIC_POSTCODE_USE_FIXTURES`: `true`면 `lib/postcode/fixtures`의 고정 주소 사용
+ *   (개발 환경 전용, 외부 스크립트 없이 주문서 흐름 테스트)
+ */
+export function getPostcodeProvider(): PostcodeProvider {
+  if (
+    process.env.NEXT_PUBLIC_POSTCODE_USE_FIXTURES === "true" &&
+    process.env.NODE_ENV !== "production"
+  ) {
+    return createFixturePostcodeProvider();
+  }
+
+  return createDaumPostcodeProvider();
+}
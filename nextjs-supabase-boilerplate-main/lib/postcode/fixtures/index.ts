@@ -0,0 +1,48 @@
+import type { PostcodeProvider } from "@/lib/postcode/client";
+import type { PostcodeAddress } from "@/types/postcode";
+
+/**
+ * 우편번호 검색 고정 결과 (테스트용)
+ */
+export const postcodeFixtures: PostcodeAddress[] = [
+  {
+    zipCode: "06236",
+    roadAddress: "서울 강남구 테헤란로 152",
+    jibunAddress: "서울 강남구 역삼동 737",
+    buildingName: "강남파이낸스센터",
+  },
+  {
+    zipCode: "13529",
+    roadAddress: "경기 성남시 분당구 판교역로 166",
+    jibunAddress: "경기 성남시 분당구 백현동 532",
+    buildingName: "카카오 판교아지트",
+  },
+  {
+    zipCode: "48058",
+    roadAddress: "부산 해운대구 센텀중앙로 79",
+    jibunAddress: "부산 해운대구 우동 1505",
+    buildingName: "",
+  },
+];
+
+/**
+ * 고정 결과를 반환하는 우편번호 검색 제공자
+ *
+ * 검색할 때마다 `results`를 순서대로 반환하며, `results`가 비어 있으면
+ * 사용자가 검색 창을 닫은 경우처럼 null을 반환합니다.
+ */
+export function createFixturePostcodeProvider(
+  results: PostcodeAddress[] = postcodeFixtures
+): PostcodeProvider {
+  let index = 0;
+
+  return {
+    async search() {
+      if (results.length === 0) return null;
+
+      const result = results[index % results.length];
+      index += 1;
+      return result;
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import type { Product, ProductImage } from "@/types/product";
+
+/** 상품 이미지 Storage 버킷 (public) */
+export const PRODUCT_IMAGES_BUCKET = "product-images";
+
+/** 업로드 가능한 이미지 형식 (버킷의 allowed_mime_types와 동일) */
+export const PRODUCT_IMAGE_MIME_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+];
+
+/** 업로드 가능한 최대 크기 (버킷의 file_size_limit와 동일, 5MB) */
+export const PRODUCT_IMAGE_MAX_SIZE = 5 * 1024 * 1024;
+
+/**
+ * 상품 이미지 공개 URL
+ *
+ * public 버킷이므로 Supabase 클라이언트 없이 URL을 만들 수 있습니다.
+ * (Client/Server Component 모두 사용 가능)
+ */
+export function getProductImageUrl(storagePath: string): string {
+  return `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/${PRODUCT_IMAGES_BUCKET}/${storagePath}`;
+}
+
+/** 정렬 순서대로 정렬된 이미지 목록 (원본 배열은 변경하지 않음) */
+export function sortProductImages(images: ProductImage[] | undefined): ProductImage[] {
+  return [...(images ?? [])].sort((a, b) => a.sort_order - b.sort_order);
+}
+
+/** 대표 이미지 (지정되지 않았으면 첫 번째 이미지) */
+export function getPrimaryProductImage(
+  product: Pick<Product, "product_images">
+): ProductImage | null {
+  const images = sortProductImages(product.product_images);
+
+  return images.find((image) => image.is_primary) ?? images[0] ?? null;
+}
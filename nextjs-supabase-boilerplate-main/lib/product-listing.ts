@@ -0,0 +1,108 @@
+import { ALL_CATEGORIES } from "@/lib/categories";
+import type { ProductSort } from "@/lib/repositories";
+import { CATEGORY_SLUG_REGEX } from "@/lib/validations/category";
+
+/** 상품 목록 페이지(/products)의 조회 조건 */
+export interface ProductListingParams {
+  /** 카테고리 slug (ALL_CATEGORIES면 전체) */
+  category: string;
+  search: string;
+  sort: ProductSort;
+  /** 1부터 시작 */
+  page: number;
+  minPrice?: number;
+  maxPrice?: number;
+  inStockOnly: boolean;
+}
+
+export const DEFAULT_PRODUCT_LISTING_PARAMS: ProductListingParams = {
+  category: ALL_CATEGORIES,
+  search: "",
+  sort: "relevance",
+  page: 1,
+  inStockOnly: false,
+};
+
+export const PRODUCT_SORTS = [
+  "relevance",
+  "newest",
+  "best_selling",
+  "price_asc",
+  "price_desc",
+  "name_asc",
+] as const satisfies readonly ProductSort[];
+
+/** 읽기 전용 URLSearchParams (useSearchParams 반환값 포함) */
+type SearchParamsReader = Pick<URLSearchParams, "get">;
+
+const isOneOf = <T extends string>(values: readonly T[], value: string | null): value is T =>
+  value !== null && (values as readonly string[]).includes(value);
+
+// 0 이상의 정수가 아니면 undefined
+const parseNonNegativeInteger = (value: string | null) => {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+
+  const number = Number(value);
+  return Number.isSafeInteger(number) ? number : undefined;
+};
+
+/**
+ * URL 쿼리 파라미터를 상품 목록 조회 조건으로 변환
+ *
+ * 잘못된 값(형식이 맞지 않는 카테고리, 없는 정렬, 숫자가 아닌 페이지나 가격 등)은
+ * 오류 없이 기본값으로 취급합니다. 카테고리가 실제로 있는지는 목록 화면에서 확인합니다.
+ * 최소 가격이 최대 가격보다 크면 두 값을 바꿉니다.
+ */
+export function parseProductListingParams(searchParams: SearchParamsReader): ProductListingParams {
+  const category = searchParams.get("category");
+  const sort = searchParams.get("sort");
+  const page = parseNonNegativeInteger(searchParams.get("page"));
+  let minPrice = parseNonNegativeInteger(searchParams.get("minPrice"));
+  let maxPrice = parseNonNegativeInteger(searchParams.get("maxPrice"));
+
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    [minPrice, maxPrice] = [maxPrice, minPrice];
+  }
+
+  return {
+    category:
+      category && CATEGORY_SLUG_REGEX.test(category)
+        ? category
+        : DEFAULT_PRODUCT_LISTING_PARAMS.category,
+    search: searchParams.get("q")?.trim() ?? DEFAULT_PRODUCT_LISTING_PARAMS.search,
+    sort: isOneOf(PRODUCT_SORTS, sort) ? sort : DEFAULT_PRODUCT_LISTING_PARAMS.sort,
+    page: page && page >= 1 ? page : DEFAULT_PRODUCT_LISTING_PARAMS.page,
+    minPrice,
+    maxPrice,
+    inStockOnly: searchParams.get("inStock") === "1",
+  };
+}
+
+/**
+ * 상품 목록 조회 조건을 URL로 변환
+ *
+ * 기본값인 항목은 생략하므로 조건이 없으면 "/products"가 됩니다.
+ */
+export function buildProductListingUrl(params: Partial<ProductListingParams>): string {
+  const {
+    category = DEFAULT_PRODUCT_LISTING_PARAMS.category,
+    search = DEFAULT_PRODUCT_LISTING_PARAMS.search,
+    sort = DEFAULT_PRODUCT_LISTING_PARAMS.sort,
+    page = DEFAULT_PRODUCT_LISTING_PARAMS.page,
+    minPrice,
+    maxPrice,
+    inStockOnly = DEFAULT_PRODUCT_LISTING_PARAMS.inStockOnly,
+  } = params;
+  const searchParams = new URLSearchParams();
+
+  if (category !== DEFAULT_PRODUCT_LISTING_PARAMS.category) searchParams.set("category", category);
+  if (search.trim()) searchParams.set("q", search.trim());
+  if (sort !== DEFAULT_PRODUCT_LISTING_PARAMS.sort) searchParams.set("sort", sort);
+  if (minPrice !== undefined) searchParams.set("minPrice", String(minPrice));
+  if (maxPrice !== undefined) searchParams.set("maxPrice", String(maxPrice));
+  if (inStockOnly) searchParams.set("inStock", "1");
+  if (page > 1) searchParams.set("page", String(page));
+
+  const query = searchParams.toString();
+  return query ? `/products?${query}` : "/products";
+}
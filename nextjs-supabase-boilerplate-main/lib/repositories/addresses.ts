@@ -0,0 +1,137 @@
+import type { TablesInsert } from "@/database.types";
+import type { UserAddress, UserAddressInput } from "@/types/address";
+import { toRepositoryError } from "@/lib/repositories/errors";
+import type { DatabaseClient } from "@/lib/repositories/types";
+
+/**
+ * 배송지 주소록 저장소
+ *
+ * user_addresses RLS 정책으로 본인 배송지만 접근할 수 있으므로
+ * Clerk 세션 클라이언트로 생성해서 사용합니다.
+ * 추가/수정/삭제는 입력 검증이 필요하므로 actions/addresses.ts Server Action에서만 호출합니다.
+ * 기본 배송지 해제/승계는 DB 트리거가 처리합니다.
+ */
+export interface AddressRepository {
+  /** 기본 배송지, 최근 추가 순으로 조회 */
+  listByUser(clerkId: string): Promise<UserAddress[]>;
+  countByUser(clerkId: string): Promise<number>;
+  insert(clerkId: string, input: UserAddressInput): Promise<UserAddress>;
+  /** 본인 배송지가 아니면 null */
+  update(clerkId: string, addressId: string, input: UserAddressInput): Promise<UserAddress | null>;
+  setDefault(clerkId: string, addressId: string): Promise<UserAddress | null>;
+  /** 삭제되었으면 true */
+  remove(clerkId: string, addressId: string): Promise<boolean>;
+}
+
+function toAddressRow(
+  clerkId: string,
+  input: UserAddressInput
+): TablesInsert<"user_addresses"> {
+  return {
+    clerk_id: clerkId,
+    label: input.label,
+    recipient_name: input.name,
+    phone: input.phone,
+    zip_code: input.zipCode,
+    address: input.address,
+    address_detail: input.addressDetail,
+    jibun_address: input.jibunAddress ?? "",
+    is_default: input.isDefault,
+  };
+}
+
+export function createAddressRepository(supabase: DatabaseClient): AddressRepository {
+  return {
+    async listByUser(clerkId) {
+      const { data, error } = await supabase
+        .from("user_addresses")
+        .select("*")
+        .eq("clerk_id", clerkId)
+        .order("is_default", { ascending: false })
+        .order("created_at", { ascending: false });
+
+      if (error) throw toRepositoryError(error);
+      return data ?? [];
+    },
+
+    async countByUser(clerkId) {
+      const { count, error } = await supabase
+        .from("user_addresses")
+        .select("*", { count: "exact", head: true })
+        .eq("clerk_id", clerkId);
+
+      if (error) throw toRepositoryError(error);
+      return count ?? 0;
+    },
+
+    async insert(clerkId, input) {
+      const { data, error } = await supabase
+        .from("user_addresses")
+        .insert(toAddressRow(clerkId, input))
+        .select()
+        .single();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async update(clerkId, addressId, input) {
+      const {
+        label,
+        recipient_name,
+        phone,
+        zip_code,
+        address,
+        address_detail,
+        jibun_address,
+        is_default,
+      } = toAddressRow(clerkId, input);
+
+      const { data, error } = await supabase
+        .from("user_addresses")
+        .update({
+          label,
+          recipient_name,
+          phone,
+          zip_code,
+          address,
+          address_detail,
+          jibun_address,
+          // 기본 배송지 해제는 다른 배송지를 기본으로 지정해서만 가능
+          ...(is_default ? { is_default } : {}),
+        })
+        .eq("clerk_id", clerkId)
+        .eq("id", addressId)
+        .select()
+        .maybeSingle();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async setDefault(clerkId, addressId) {
+      const { data, error } = await supabase
+        .from("user_addresses")
+        .update({ is_default: true })
+        .eq("clerk_id", clerkId)
+        .eq("id", addressId)
+        .select()
+        .maybeSingle();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async remove(clerkId, addressId) {
+      const { data, error } = await supabase
+        .from("user_addresses")
+        .delete()
+        .eq("clerk_id", clerkId)
+        .eq("id", addressId)
+        .select("id");
+
+      if (error) throw toRepositoryError(error);
+      return (data ?? []).length > 0;
+    },
+  };
+}
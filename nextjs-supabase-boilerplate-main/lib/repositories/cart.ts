@@ -0,0 +1,146 @@
+import type { Json } from "@/database.types";
+import type { CartItem, CartItemWithProduct, GuestCartItem } from "@/types/cart";
+import { toRepositoryError } from "@/lib/repositories/errors";
+import type { DatabaseClient } from "@/lib/repositories/types";
+
+/**
+ * 장바구니 저장소
+ *
+ * cart_items RLS 정책으로 본인 장바구니만 접근할 수 있으므로
+ * 조회와 삭제는 Clerk 세션 클라이언트로 생성해서 사용합니다.
+ * 담기/수량 변경은 재고 확인이 필요하므로 actions/cart.ts Server Action에서
+ * service_role 클라이언트로만 호출합니다. (authenticated에게는 INSERT/UPDATE 권한 없음)
+ */
+export interface CartRepository {
+  /** 상품 정보(이미지 포함)와 함께 최근 담은 순으로 조회 */
+  listItems(clerkId: string): Promise<CartItemWithProduct[]>;
+  getItem(clerkId: string, cartItemId: string): Promise<CartItemWithProduct | null>;
+  findItemByProduct(clerkId: string, productId: string): Promise<CartItem | null>;
+  countItems(clerkId: string): Promise<number>;
+  /** service_role 클라이언트로 사용 */
+  insertItem(clerkId: string, productId: string, quantity: number): Promise<void>;
+  /** service_role 클라이언트로 사용 */
+  updateQuantity(clerkId: string, cartItemId: string, quantity: number): Promise<void>;
+  removeItems(clerkId: string, cartItemIds: string[]): Promise<void>;
+  clear(clerkId: string): Promise<void>;
+  /**
+   * 비로그인 장바구니를 병합 (merge_guest_cart 함수, service_role 클라이언트로 사용)
+   * 새로 추가한 항목은 비로그인 장바구니에 담은 가격(priceAtAdd)을 유지하므로,
+   * 그 사이 가격이 바뀌었으면 주문 전에 변경 내역을 확인해야 합니다.
+   * 추가되거나 수량이 바뀐 항목 수를 반환합니다.
+   */
+  mergeGuestItems(clerkId: string, items: GuestCartItem[]): Promise<number>;
+  /**
+   * 가격/재고 변경 내역 확인 처리 (acknowledge_cart_changes 함수, service_role 클라이언트로 사용)
+   * 삭제되거나 갱신된 항목 수를 반환합니다.
+   */
+  acknowledgeChanges(clerkId: string): Promise<number>;
+}
+
+const CART_ITEM_WITH_PRODUCT = "*, product:products(*, product_images(*))";
+
+export function createCartRepository(supabase: DatabaseClient): CartRepository {
+  return {
+    async listItems(clerkId) {
+      const { data, error } = await supabase
+        .from("cart_items")
+        .select(CART_ITEM_WITH_PRODUCT)
+        .eq("clerk_id", clerkId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw toRepositoryError(error);
+      return data ?? [];
+    },
+
+    async getItem(clerkId, cartItemId) {
+      const { data, error } = await supabase
+        .from("cart_items")
+        .select(CART_ITEM_WITH_PRODUCT)
+        .eq("clerk_id", clerkId)
+        .eq("id", cartItemId)
+        .maybeSingle();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async findItemByProduct(clerkId, productId) {
+      const { data, error } = await supabase
+        .from("cart_items")
+        .select("*")
+        .eq("clerk_id", clerkId)
+        .eq("product_id", productId)
+        .maybeSingle();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async countItems(clerkId) {
+      const { count, error } = await supabase
+        .from("cart_items")
+        .select("*", { count: "exact", head: true })
+        .eq("clerk_id", clerkId);
+
+      if (error) throw toRepositoryError(error);
+      return count ?? 0;
+    },
+
+    async insertItem(clerkId, productId, quantity) {
+      const { error } = await supabase
+        .from("cart_items")
+        .insert({ clerk_id: clerkId, product_id: productId, quantity });
+
+      if (error) throw toRepositoryError(error);
+    },
+
+    async updateQuantity(clerkId, cartItemId, quantity) {
+      const { error } = await supabase
+        .from("cart_items")
+        .update({ quantity })
+        .eq("clerk_id", clerkId)
+        .eq("id", cartItemId);
+
+      if (error) throw toRepositoryError(error);
+    },
+
+    async removeItems(clerkId, cartItemIds) {
+      if (cartItemIds.length === 0) return;
+
+      const { error } = await supabase
+        .from("cart_items")
+        .delete()
+        .eq("clerk_id", clerkId)
+        .in("id", cartItemIds);
+
+      if (error) throw toRepositoryError(error);
+    },
+
+    async clear(clerkId) {
+      const { error } = await supabase.from("cart_items").delete().eq("clerk_id", clerkId);
+
+      if (error) throw toRepositoryError(error);
+    },
+
+    async mergeGuestItems(clerkId, items) {
+      if (items.length === 0) return 0;
+
+      const { data, error } = await supabase.rpc("merge_guest_cart", {
+        p_clerk_id: clerkId,
+        p_items: items as unknown as Json,
+      });
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async acknowledgeChanges(clerkId) {
+      const { data, error } = await supabase.rpc("acknowledge_cart_changes", {
+        p_clerk_id: clerkId,
+      });
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+  };
+}
@@ -0,0 +1,73 @@
+import type { TablesInsert, TablesUpdate } from "@/database.types";
+import type { Category } from "@/types/category";
+import { toRepositoryError } from "@/lib/repositories/errors";
+import type { DatabaseClient } from "@/lib/repositories/types";
+
+/**
+ * 카테고리 저장소
+ *
+ * 카테고리는 누구나 조회할 수 있으며, 쇼핑몰 화면은 숨기지 않은(is_active) 카테고리만 사용합니다.
+ * 추가/수정은 관리자 Server Action(actions/categories.ts)에서 service_role 클라이언트로 생성한
+ * 저장소로 합니다. 목록은 정렬 순서(sort_order), 이름 순으로 반환합니다.
+ *
+ * 저장 오류: 이미 있는 slug는 RepositoryError(CONFLICT), 없는 상위 카테고리는
+ * RepositoryError(INVALID_REFERENCE), 3단계 이상 중첩은 message가 CATEGORY_DEPTH_EXCEEDED
+ */
+export interface CategoryRepository {
+  listActive(): Promise<Category[]>;
+  /** 숨긴 카테고리 포함 */
+  listAll(): Promise<Category[]>;
+  /** 카테고리 등록, 생성된 slug 반환 */
+  create(category: TablesInsert<"categories">): Promise<string>;
+  /** 카테고리 수정, 없는 카테고리면 false */
+  update(slug: string, changes: TablesUpdate<"categories">): Promise<boolean>;
+}
+
+export function createCategoryRepository(supabase: DatabaseClient): CategoryRepository {
+  return {
+    async listActive() {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("*")
+        .eq("is_active", true)
+        .order("sort_order", { ascending: true })
+        .order("label", { ascending: true });
+
+      if (error) throw toRepositoryError(error);
+      return data ?? [];
+    },
+
+    async listAll() {
+      const { data, error } = await supabase
+        .from("categories")
+        .select("*")
+        .order("sort_order", { ascending: true })
+        .order("label", { ascending: true });
+
+      if (error) throw toRepositoryError(error);
+      return data ?? [];
+    },
+
+    async create(category) {
+      const { data, error } = await supabase
+        .from("categories")
+        .insert(category)
+        .select("slug")
+        .single();
+
+      if (error) throw toRepositoryError(error);
+      return data.slug;
+    },
+
+    async update(slug, changes) {
+      const { data, error } = await supabase
+        .from("categories")
+        .update(changes)
+        .eq("slug", slug)
+        .select("slug");
+
+      if (error) throw toRepositoryError(error);
+      return data.length > 0;
+    },
+  };
+}
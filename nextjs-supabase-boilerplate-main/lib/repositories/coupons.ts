@@ -0,0 +1,34 @@
+import type { AppliedCoupon } from "@/types/coupon";
+import { toRepositoryError } from "@/lib/repositories/errors";
+import type { DatabaseClient } from "@/lib/repositories/types";
+
+/**
+ * 쿠폰 저장소
+ *
+ * 쿠폰과 사용 내역은 정책 없이 RLS가 켜져 있으므로 service_role 클라이언트로 생성해서 사용합니다.
+ * 쿠폰 사용 처리는 주문 생성(orders.createFromCart)과 같은 트랜잭션에서 합니다.
+ */
+export interface CouponRepository {
+  /**
+   * 현재 장바구니 기준 할인 금액 계산 (calculate_coupon_discount 함수)
+   * 사용할 수 없는 쿠폰이면 RepositoryError의 message가 쿠폰 오류 코드(COUPON_EXPIRED 등)
+   */
+  calculateDiscount(clerkId: string, code: string): Promise<AppliedCoupon>;
+}
+
+export function createCouponRepository(supabase: DatabaseClient): CouponRepository {
+  return {
+    async calculateDiscount(clerkId, code) {
+      const { data, error } = await supabase
+        .rpc("calculate_coupon_discount", { p_clerk_id: clerkId, p_code: code })
+        .single();
+
+      if (error) throw toRepositoryError(error);
+      return {
+        code: data.coupon_code,
+        name: data.coupon_name,
+        discountAmount: Number(data.discount_amount),
+      };
+    },
+  };
+}
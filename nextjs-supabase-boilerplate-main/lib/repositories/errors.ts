@@ -0,0 +1,55 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+
+/**
+ * 저장소 오류 코드
+ * - NOT_FOUND: 조회 대상 없음 (PGRST116)
+ * - CONFLICT: 유니크 제약 조건 위반 (23505)
+ * - INVALID_REFERENCE: 참조하는 행이 없음 (23503, 외래 키 제약 조건 위반)
+ * - FORBIDDEN: 권한 또는 RLS 정책 위반 (42501)
+ * - UNKNOWN: 그 외 데이터베이스 오류
+ */
+export type RepositoryErrorCode =
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "INVALID_REFERENCE"
+  | "FORBIDDEN"
+  | "UNKNOWN";
+
+const POSTGREST_ERROR_CODES: Record<string, RepositoryErrorCode> = {
+  PGRST116: "NOT_FOUND",
+  "23505": "CONFLICT",
+  "23503": "INVALID_REFERENCE",
+  "42501": "FORBIDDEN",
+};
+
+/**
+ * 저장소(lib/repositories) 조회/변경 중 발생한 오류
+ *
+ * Supabase(PostgREST) 오류를 코드별로 정규화하고, 원본 오류는 `cause`에 보관합니다.
+ * DB 함수가 RAISE EXCEPTION으로 보낸 오류는 `message`(예: OUT_OF_STOCK)와 `details`를 그대로 유지합니다.
+ */
+export class RepositoryError extends Error {
+  readonly code: RepositoryErrorCode;
+  readonly details: string | null;
+  readonly cause: unknown;
+
+  constructor(
+    code: RepositoryErrorCode,
+    message: string,
+    { details = null, cause }: { details?: string | null; cause?: unknown } = {}
+  ) {
+    super(message);
+    this.name = "RepositoryError";
+    this.code = code;
+    this.details = details;
+    this.cause = cause;
+  }
+}
+
+/** PostgrestError를 RepositoryError로 변환 */
+export function toRepositoryError(error: PostgrestError): RepositoryError {
+  return new RepositoryError(POSTGREST_ERROR_CODES[error.code] ?? "UNKNOWN", error.message, {
+    details: error.details,
+    cause: error,
+  });
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import {
+  createInMemoryOrderRepository,
+  createInMemoryPaymentRepository,
+  createInMemoryStore,
+} from "@/lib/repositories/in-memory";
+import type { Order, OrderItem, OrderStatus } from "@/types/order";
+
+const CLERK_ID = "user_test";
+const HOUR = 60 * 60 * 1000;
+
+function buildOrder(id: string, status: OrderStatus, createdAt: Date): Order {
+  return {
+    id,
+    clerk_id: CLERK_ID,
+    status,
+    subtotal_amount: 10000,
+    discount_amount: 0,
+    shipping_fee: 0,
+    total_amount: 10000,
+    coupon_code: null,
+    order_note: null,
+    shipping_address: null,
+    expired_at: null,
+    review_requested_at: null,
+    review_reason: null,
+    created_at: createdAt.toISOString(),
+    updated_at: createdAt.toISOString(),
+  };
+}
+
+function buildOrderItem(orderId: string): OrderItem {
+  return {
+    id: `${orderId}-item`,
+    order_id: orderId,
+    product_id: "00000000-0000-4000-8000-000000000021",
+    product_name: "테스트 상품",
+    price: 10000,
+    quantity: 1,
+    cancelled_quantity: 0,
+    created_at: "2025-12-07T00:00:00.000Z",
+  };
+}
+
+describe("createInMemoryOrderRepository", () => {
+  describe("expirePending", () => {
+    it("유효 시간이 지난 미결제 주문만 만료하고 주문 상품을 취소한다", async () => {
+      const old = new Date(Date.now() - 2 * HOUR);
+      const store = createInMemoryStore({
+        orders: [
+          buildOrder("order_old", "pending", old),
+          buildOrder("order_new", "pending", new Date()),
+          buildOrder("order_confirmed", "confirmed", old),
+        ],
+        orderItems: [buildOrderItem("order_old")],
+      });
+      const orders = createInMemoryOrderRepository(store);
+
+      await expect(orders.expirePending(30)).resolves.toBe(1);
+      expect(store.orders.map((order) => order.status)).toEqual([
+        "cancelled",
+        "pending",
+        "confirmed",
+      ]);
+      expect(store.orders[0].expired_at).not.toBeNull();
+      expect(store.orderItems[0].cancelled_quantity).toBe(1);
+    });
+
+    it("가상계좌 입금 대기처럼 결제 기록이 있는 주문은 만료하지 않는다", async () => {
+      const store = createInMemoryStore({
+        orders: [buildOrder("order_waiting", "pending", new Date(Date.now() - 2 * HOUR))],
+      });
+      const orders = createInMemoryOrderRepository(store);
+
+      await createInMemoryPaymentRepository(store).upsert({
+        order_id: "order_waiting",
+        clerk_id: CLERK_ID,
+        payment_key: "payment_key_waiting",
+        status: "WAITING_FOR_DEPOSIT",
+        total_amount: 10000,
+        raw_response: {},
+      });
+
+      await expect(orders.expirePending(30)).resolves.toBe(0);
+      expect(store.orders[0]).toMatchObject({ status: "pending", expired_at: null });
+    });
+  });
+});
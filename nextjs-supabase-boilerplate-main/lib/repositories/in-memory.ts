@@ -0,0 +1,669 @@
+import { ALL_CATEGORIES } from "@/lib/categories";
+import { getMaxCartQuantity } from "@/lib/cart";
+import type { CartItem, CartItemWithProduct } from "@/types/cart";
+import type { Order, OrderItem } from "@/types/order";
+import type { Payment, PaymentRefund, PaymentSummary } from "@/types/payment";
+import type { Product } from "@/types/product";
+import type { CartRepository } from "@/lib/repositories/cart";
+import { RepositoryError } from "@/lib/repositories/errors";
+import type { OrderRepository } from "@/lib/repositories/orders";
+import type { PaymentRepository } from "@/lib/repositories/payments";
+import type { ProductRepository } from "@/lib/repositories/products";
+import type { User, UserRepository } from "@/lib/repositories/users";
+import type {
+  WebhookEvent,
+  WebhookEventRepository,
+} from "@/lib/repositories/webhook-events";
+
+/**
+ * 인메모리 저장소가 공유하는 데이터
+ *
+ * 주문 취소가 결제 조회 결과에 영향을 주는 것처럼 저장소끼리 같은 데이터를 보도록
+ * 하나의 store를 여러 저장소에 전달합니다.
+ */
+export interface InMemoryStore {
+  products: Product[];
+  cartItems: CartItem[];
+  users: User[];
+  orders: Order[];
+  orderItems: OrderItem[];
+  payments: Payment[];
+  refunds: PaymentRefund[];
+  webhookEvents: WebhookEvent[];
+}
+
+export function createInMemoryStore(seed: Partial<InMemoryStore> = {}): InMemoryStore {
+  return {
+    products: seed.products ?? [],
+    cartItems: seed.cartItems ?? [],
+    users: seed.users ?? [],
+    orders: seed.orders ?? [],
+    orderItems: seed.orderItems ?? [],
+    payments: seed.payments ?? [],
+    refunds: seed.refunds ?? [],
+    webhookEvents: seed.webhookEvents ?? [],
+  };
+}
+
+// orders.getDetail이 조회하는 결제 컬럼만 남김
+const toPaymentSummary = ({
+  id,
+  order_id,
+  method,
+  status,
+  total_amount,
+  approved_at,
+  receipt_url,
+  created_at,
+}: Payment): PaymentSummary => ({
+  id,
+  order_id,
+  method,
+  status,
+  total_amount,
+  approved_at,
+  receipt_url,
+  created_at,
+});
+
+// cancel_order 함수가 취소하는 주문 상태
+const CANCELLABLE_ORDER_STATUSES = ["pending", "confirmed"];
+
+/**
+ * 주문 저장소 인메모리 구현 (테스트용)
+ *
+ * 주문 확정/취소는 DB 함수와 같은 규칙으로 처리합니다. 배송이 시작된 주문의 취소는
+ * 주문을 바꾸지 않고 관리자 확인 필요(review_requested_at)로 표시합니다.
+ * 재고와 장바구니는 다루지 않으므로 createFromCart는 지원하지 않습니다.
+ */
+export function createInMemoryOrderRepository(store: InMemoryStore): OrderRepository {
+  const findOrder = (orderId: string) =>
+    store.orders.find((order) => order.id === orderId) ?? null;
+
+  const findOwnOrder = (clerkId: string, orderId: string) => {
+    const order = findOrder(orderId);
+    return order?.clerk_id === clerkId ? order : null;
+  };
+
+  const touch = (order: Order) => {
+    order.updated_at = new Date().toISOString();
+  };
+
+  return {
+    async listByUser(clerkId, filter = "all") {
+      return store.orders
+        .filter((order) => order.clerk_id === clerkId)
+        .filter((order) => {
+          if (filter === "all") return true;
+          if (filter === "expired") return order.status === "cancelled" && !!order.expired_at;
+          if (filter === "cancelled") return order.status === "cancelled" && !order.expired_at;
+          return order.status === filter;
+        })
+        .sort((a, b) => b.created_at.localeCompare(a.created_at));
+    },
+
+    async getById(clerkId, orderId) {
+      return findOwnOrder(clerkId, orderId);
+    },
+
+    async getPendingById(clerkId, orderId) {
+      const order = findOwnOrder(clerkId, orderId);
+      return order?.status === "pending" ? order : null;
+    },
+
+    async getDetail(clerkId, orderId) {
+      const order = findOwnOrder(clerkId, orderId);
+      if (!order) return null;
+
+      const payment =
+        store.payments
+          .filter((candidate) => candidate.order_id === orderId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))[0] ?? null;
+
+      return {
+        order,
+        items: store.orderItems.filter((item) => item.order_id === orderId),
+        payment: payment && toPaymentSummary(payment),
+        refunds: store.refunds.filter((refund) => refund.order_id === orderId),
+      };
+    },
+
+    async findById(orderId) {
+      return findOrder(orderId);
+    },
+
+    async createFromCart() {
+      throw new RepositoryError("UNKNOWN", "createFromCart is not supported in memory");
+    },
+
+    async confirmPending(orderId) {
+      const order = findOrder(orderId);
+      if (order?.status !== "pending") return false;
+
+      order.status = "confirmed";
+      touch(order);
+      return true;
+    },
+
+    async cancel(orderId) {
+      const order = findOrder(orderId);
+      if (!order || order.status === "cancelled") return false;
+
+      if (!CANCELLABLE_ORDER_STATUSES.includes(order.status)) {
+        order.review_requested_at ??= new Date().toISOString();
+        order.review_reason = "CANCEL_AFTER_SHIPMENT";
+        touch(order);
+        return false;
+      }
+
+      order.status = "cancelled";
+      for (const item of store.orderItems) {
+        if (item.order_id === orderId) item.cancelled_quantity = item.quantity;
+      }
+      touch(order);
+      return true;
+    },
+
+    async cancelItems(orderId, items) {
+      const order = findOrder(orderId);
+      if (!order || order.status === "cancelled") {
+        throw new RepositoryError("UNKNOWN", "ORDER_NOT_CANCELLABLE", {
+          details: order?.status ?? "not_found",
+        });
+      }
+
+      const orderItems = store.orderItems.filter((item) => item.order_id === orderId);
+      const remaining = new Map(
+        orderItems.map((item) => [item.id, item.quantity - item.cancelled_quantity])
+      );
+
+      // DB 함수처럼 하나라도 잘못되면 아무것도 바꾸지 않음
+      for (const { orderItemId, quantity } of items) {
+        const left = remaining.get(orderItemId);
+        if (left === undefined || quantity <= 0 || quantity > left) {
+          throw new RepositoryError("UNKNOWN", "INVALID_CANCEL_ITEM", { details: orderItemId });
+        }
+        remaining.set(orderItemId, left - quantity);
+      }
+
+      for (const item of orderItems) {
+        item.cancelled_quantity = item.quantity - remaining.get(item.id)!;
+      }
+
+      touch(order);
+
+      if (orderItems.some((item) => item.cancelled_quantity < item.quantity)) return false;
+
+      order.status = "cancelled";
+      return true;
+    },
+
+    async expirePending(ttlMinutes) {
+      const cutoff = Date.now() - ttlMinutes * 60 * 1000;
+      // 가상계좌 입금 대기 등 결제 기록이 있는 주문은 DB 함수처럼 만료하지 않음
+      const expired = store.orders.filter(
+        (order) =>
+          order.status === "pending" &&
+          new Date(order.created_at).getTime() < cutoff &&
+          !store.payments.some((payment) => payment.order_id === order.id)
+      );
+
+      for (const order of expired) {
+        order.status = "cancelled";
+        order.expired_at = new Date().toISOString();
+        for (const item of store.orderItems) {
+          if (item.order_id === order.id) item.cancelled_quantity = item.quantity;
+        }
+        touch(order);
+      }
+
+      return expired.length;
+    },
+
+    async flagForReview(orderId, reason) {
+      const order = findOrder(orderId);
+      if (!order) return;
+
+      order.review_requested_at = new Date().toISOString();
+      order.review_reason = reason;
+      touch(order);
+    },
+  };
+}
+
+/**
+ * 결제 저장소 인메모리 구현 (테스트용)
+ */
+export function createInMemoryPaymentRepository(store: InMemoryStore): PaymentRepository {
+  return {
+    async getLatestByOrder(orderId) {
+      return (
+        store.payments
+          .filter((payment) => payment.order_id === orderId)
+          .sort((a, b) => b.created_at.localeCompare(a.created_at))[0] ?? null
+      );
+    },
+
+    async getByPaymentKey(paymentKey) {
+      return store.payments.find((payment) => payment.payment_key === paymentKey) ?? null;
+    },
+
+    async upsert(payment) {
+      const now = new Date().toISOString();
+      const existing = store.payments.find(
+        (candidate) => candidate.payment_key === payment.payment_key
+      );
+      const saved = {
+        approved_at: null,
+        method: null,
+        receipt_url: null,
+        status_history: [],
+        ...existing,
+        ...payment,
+        id: existing?.id ?? payment.id ?? crypto.randomUUID(),
+        created_at: existing?.created_at ?? payment.created_at ?? now,
+        updated_at: now,
+      } as unknown as Payment;
+
+      if (existing) {
+        store.payments[store.payments.indexOf(existing)] = saved;
+      } else {
+        store.payments.push(saved);
+      }
+
+      return saved;
+    },
+
+    async recordRefunds(refunds) {
+      for (const refund of refunds) {
+        if (store.refunds.some((saved) => saved.transaction_key === refund.transaction_key)) {
+          continue;
+        }
+
+        store.refunds.push({
+          cancel_reason: null,
+          ...refund,
+          id: refund.id ?? crypto.randomUUID(),
+          created_at: refund.created_at ?? new Date().toISOString(),
+        });
+      }
+    },
+  };
+}
+
+/**
+ * 웹훅 수신 기록 저장소 인메모리 구현 (테스트용)
+ *
+ * provider/eventKey 유니크 제약처럼 같은 이벤트를 다시 기록하면 RepositoryError(CONFLICT)
+ */
+export function createInMemoryWebhookEventRepository(
+  store: InMemoryStore
+): WebhookEventRepository {
+  const findEvent = (id: string) => store.webhookEvents.find((event) => event.id === id);
+
+  return {
+    async create({ provider, eventKey, eventType, payload }) {
+      if (
+        store.webhookEvents.some(
+          (event) => event.provider === provider && event.event_key === eventKey
+        )
+      ) {
+        throw new RepositoryError("CONFLICT", "Webhook event already exists", {
+          details: eventKey,
+        });
+      }
+
+      const now = new Date().toISOString();
+      const id = crypto.randomUUID();
+
+      store.webhookEvents.push({
+        id,
+        provider,
+        event_key: eventKey,
+        event_type: eventType,
+        payload,
+        status: "received",
+        delivery_count: 1,
+        error: null,
+        processed_at: null,
+        received_at: now,
+        last_received_at: now,
+      });
+
+      return id;
+    },
+
+    async getByKey(provider, eventKey) {
+      return (
+        store.webhookEvents.find(
+          (event) => event.provider === provider && event.event_key === eventKey
+        ) ?? null
+      );
+    },
+
+    async recordRedelivery({ id, delivery_count }) {
+      const event = findEvent(id);
+      if (!event) return;
+
+      event.delivery_count = delivery_count + 1;
+      event.last_received_at = new Date().toISOString();
+    },
+
+    async markOutcome(id, outcome, errorMessage) {
+      const event = findEvent(id);
+      if (!event) return;
+
+      event.status = outcome;
+      if (outcome === "failed") {
+        event.error = errorMessage ?? null;
+      } else {
+        event.processed_at = new Date().toISOString();
+      }
+    },
+  };
+}
+
+/**
+ * 상품 저장소 인메모리 구현 (테스트용)
+ *
+ * 검색은 상품명 부분 일치, 카테고리는 slug 일치로만 처리합니다.
+ * (search_products 함수의 오타 허용 검색과 하위 카테고리 포함은 지원하지 않음)
+ */
+export function createInMemoryProductRepository(store: InMemoryStore): ProductRepository {
+  const findProduct = (productId: string) =>
+    store.products.find((product) => product.id === productId) ?? null;
+
+  const byNewest = (a: Product, b: Product) => b.created_at.localeCompare(a.created_at);
+
+  // 결제 완료된 주문의 판매 수량 (취소 수량 제외)
+  const soldQuantity = (productId: string) =>
+    store.orderItems
+      .filter((item) => item.product_id === productId)
+      .filter((item) =>
+        store.orders.some(
+          (order) =>
+            order.id === item.order_id && !["pending", "cancelled"].includes(order.status)
+        )
+      )
+      .reduce((sum, item) => sum + item.quantity - item.cancelled_quantity, 0);
+
+  return {
+    async listActive({
+      category = ALL_CATEGORIES,
+      search = "",
+      sort = "relevance",
+      minPrice,
+      maxPrice,
+      inStockOnly = false,
+      page = 1,
+      pageSize = 12,
+    } = {}) {
+      const query = search.trim().toLowerCase();
+      const products = store.products
+        .filter((product) => product.is_active)
+        .filter((product) => category === ALL_CATEGORIES || product.category === category)
+        .filter((product) => !query || product.name.toLowerCase().includes(query))
+        .filter((product) => minPrice === undefined || product.price >= minPrice)
+        .filter((product) => maxPrice === undefined || product.price <= maxPrice)
+        .filter((product) => !inStockOnly || product.stock_quantity > 0)
+        .sort((a, b) => {
+          switch (sort) {
+            case "name_asc":
+              return a.name.localeCompare(b.name);
+            case "price_asc":
+              return a.price - b.price;
+            case "price_desc":
+              return b.price - a.price;
+            case "best_selling":
+              return soldQuantity(b.id) - soldQuantity(a.id) || byNewest(a, b);
+            default:
+              return byNewest(a, b);
+          }
+        });
+
+      const from = (page - 1) * pageSize;
+      return { products: products.slice(from, from + pageSize), totalCount: products.length };
+    },
+
+    async listLatest(limit) {
+      return store.products.filter((product) => product.is_active).sort(byNewest).slice(0, limit);
+    },
+
+    async getActiveById(productId) {
+      const product = findProduct(productId);
+      return product?.is_active ? product : null;
+    },
+
+    async listActiveByIds(productIds) {
+      return store.products.filter(
+        (product) => product.is_active && productIds.includes(product.id)
+      );
+    },
+
+    async suggest(query, limit) {
+      const keyword = query.trim().toLowerCase();
+      return store.products
+        .filter((product) => product.is_active && product.name.toLowerCase().includes(keyword))
+        .slice(0, limit)
+        .map(({ id, name, category }) => ({ id, name, category }));
+    },
+
+    async listAll() {
+      return [...store.products].sort(byNewest);
+    },
+
+    async getById(productId) {
+      return findProduct(productId);
+    },
+
+    async create(product) {
+      const now = new Date().toISOString();
+      const id = product.id ?? crypto.randomUUID();
+
+      store.products.push({
+        category: null,
+        description: null,
+        is_active: true,
+        stock_quantity: 0,
+        created_at: now,
+        updated_at: now,
+        ...product,
+        id,
+      });
+
+      return id;
+    },
+
+    async update(productId, changes) {
+      const product = findProduct(productId);
+      if (!product) return false;
+
+      Object.assign(product, changes, { updated_at: new Date().toISOString() });
+      return true;
+    },
+  };
+}
+
+/**
+ * 장바구니 저장소 인메모리 구현 (테스트용)
+ *
+ * DB와 같은 규칙으로 처리합니다.
+ * - 담을 때 price_at_add는 현재 상품 가격 (set_cart_item_price_at_add 트리거)
+ * - mergeGuestItems: 판매 중이고 재고가 있는 상품만 재고와 최대 수량까지 병합하고,
+ *   새로 추가한 항목만 비로그인 장바구니에 담은 가격을 유지 (merge_guest_cart 함수)
+ * - acknowledgeChanges: 판매 중지/품절 상품 삭제, 재고만큼 수량 조정, 담은 가격 갱신
+ *   (acknowledge_cart_changes 함수)
+ */
+export function createInMemoryCartRepository(store: InMemoryStore): CartRepository {
+  const findProduct = (productId: string) =>
+    store.products.find((product) => product.id === productId) ?? null;
+
+  const ownItems = (clerkId: string) =>
+    store.cartItems.filter((item) => item.clerk_id === clerkId);
+
+  const withProduct = (item: CartItem): CartItemWithProduct => ({
+    ...item,
+    product: findProduct(item.product_id)!,
+  });
+
+  const touch = (item: CartItem) => {
+    item.updated_at = new Date().toISOString();
+  };
+
+  const insert = (clerkId: string, product: Product, quantity: number) => {
+    if (ownItems(clerkId).some((item) => item.product_id === product.id)) {
+      throw new RepositoryError("CONFLICT", "Cart item already exists", { details: product.id });
+    }
+
+    const now = new Date().toISOString();
+    const item: CartItem = {
+      id: crypto.randomUUID(),
+      clerk_id: clerkId,
+      product_id: product.id,
+      quantity,
+      price_at_add: product.price,
+      created_at: now,
+      updated_at: now,
+    };
+
+    store.cartItems.push(item);
+    return item;
+  };
+
+  return {
+    async listItems(clerkId) {
+      return ownItems(clerkId)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at))
+        .map(withProduct);
+    },
+
+    async getItem(clerkId, cartItemId) {
+      const item = ownItems(clerkId).find((candidate) => candidate.id === cartItemId);
+      return item ? withProduct(item) : null;
+    },
+
+    async findItemByProduct(clerkId, productId) {
+      return ownItems(clerkId).find((item) => item.product_id === productId) ?? null;
+    },
+
+    async countItems(clerkId) {
+      return ownItems(clerkId).length;
+    },
+
+    async insertItem(clerkId, productId, quantity) {
+      const product = findProduct(productId);
+      if (!product) {
+        throw new RepositoryError("INVALID_REFERENCE", "Product not found", { details: productId });
+      }
+
+      insert(clerkId, product, quantity);
+    },
+
+    async updateQuantity(clerkId, cartItemId, quantity) {
+      const item = ownItems(clerkId).find((candidate) => candidate.id === cartItemId);
+      if (!item) return;
+
+      item.quantity = quantity;
+      touch(item);
+    },
+
+    async removeItems(clerkId, cartItemIds) {
+      store.cartItems = store.cartItems.filter(
+        (item) => item.clerk_id !== clerkId || !cartItemIds.includes(item.id)
+      );
+    },
+
+    async clear(clerkId) {
+      store.cartItems = store.cartItems.filter((item) => item.clerk_id !== clerkId);
+    },
+
+    async mergeGuestItems(clerkId, items) {
+      // 같은 상품은 수량을 합치고 담은 가격은 가장 낮은 값 사용
+      const guest = new Map<string, { quantity: number; priceAtAdd?: number }>();
+      for (const { productId, quantity, priceAtAdd } of items) {
+        const merged = guest.get(productId);
+        guest.set(productId, {
+          quantity: (merged?.quantity ?? 0) + quantity,
+          priceAtAdd:
+            merged?.priceAtAdd === undefined || priceAtAdd === undefined
+              ? merged?.priceAtAdd ?? priceAtAdd
+              : Math.min(merged.priceAtAdd, priceAtAdd),
+        });
+      }
+
+      let merged = 0;
+
+      for (const [productId, { quantity, priceAtAdd }] of guest) {
+        const product = findProduct(productId);
+        if (!product?.is_active || product.stock_quantity <= 0 || quantity <= 0) continue;
+
+        const maxQuantity = getMaxCartQuantity(product.stock_quantity);
+        const existing = ownItems(clerkId).find((item) => item.product_id === productId);
+
+        if (existing) {
+          const nextQuantity = Math.min(existing.quantity + quantity, maxQuantity);
+          if (nextQuantity === existing.quantity) continue;
+
+          existing.quantity = nextQuantity;
+          touch(existing);
+        } else {
+          const item = insert(clerkId, product, Math.min(quantity, maxQuantity));
+          if (priceAtAdd !== undefined) item.price_at_add = priceAtAdd;
+        }
+
+        merged += 1;
+      }
+
+      return merged;
+    },
+
+    async acknowledgeChanges(clerkId) {
+      let changed = 0;
+
+      for (const item of ownItems(clerkId)) {
+        const product = findProduct(item.product_id)!;
+
+        if (!product.is_active || product.stock_quantity <= 0) {
+          store.cartItems.splice(store.cartItems.indexOf(item), 1);
+          changed += 1;
+          continue;
+        }
+
+        if (item.price_at_add !== product.price || item.quantity > product.stock_quantity) {
+          item.price_at_add = product.price;
+          item.quantity = Math.min(item.quantity, product.stock_quantity);
+          touch(item);
+          changed += 1;
+        }
+      }
+
+      return changed;
+    },
+  };
+}
+
+/**
+ * 사용자 저장소 인메모리 구현 (테스트용)
+ */
+export function createInMemoryUserRepository(store: InMemoryStore): UserRepository {
+  return {
+    async upsert({ clerkId, name }) {
+      const existing = store.users.find((user) => user.clerk_id === clerkId);
+
+      if (existing) {
+        existing.name = name;
+        return existing;
+      }
+
+      const user: User = {
+        id: crypto.randomUUID(),
+        clerk_id: clerkId,
+        name,
+        created_at: new Date().toISOString(),
+      };
+
+      store.users.push(user);
+      return user;
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { createAddressRepository, type AddressRepository } from "@/lib/repositories/addresses";
+import { createCartRepository, type CartRepository } from "@/lib/repositories/cart";
+import {
+  createCategoryRepository,
+  type CategoryRepository,
+} from "@/lib/repositories/categories";
+import { createCouponRepository, type CouponRepository } from "@/lib/repositories/coupons";
+import { createOrderRepository, type OrderRepository } from "@/lib/repositories/orders";
+import { createPaymentRepository, type PaymentRepository } from "@/lib/repositories/payments";
+import {
+  createProductImageRepository,
+  type ProductImageRepository,
+} from "@/lib/repositories/product-images";
+import { createProductRepository, type ProductRepository } from "@/lib/repositories/products";
+import {
+  createSearchHistoryRepository,
+  type SearchHistoryRepository,
+} from "@/lib/repositories/search-history";
+import { createShippingRepository, type ShippingRepository } from "@/lib/repositories/shipping";
+import { createUserRepository, type UserRepository } from "@/lib/repositories/users";
+import {
+  createWebhookEventRepository,
+  type WebhookEventRepository,
+} from "@/lib/repositories/webhook-events";
+import type { DatabaseClient } from "@/lib/repositories/types";
+
+export * from "@/lib/repositories/addresses";
+export * from "@/lib/repositories/cart";
+export * from "@/lib/repositories/categories";
+export * from "@/lib/repositories/coupons";
+export * from "@/lib/repositories/errors";
+export * from "@/lib/repositories/orders";
+export * from "@/lib/repositories/payments";
+export * from "@/lib/repositories/product-images";
+export * from "@/lib/repositories/products";
+export * from "@/lib/repositories/search-history";
+export * from "@/lib/repositories/shipping";
+export * from "@/lib/repositories/types";
+export * from "@/lib/repositories/users";
+export * from "@/lib/repositories/webhook-events";
+
+export interface Repositories {
+  products: ProductRepository;
+  productImages: ProductImageRepository;
+  categories: CategoryRepository;
+  cart: CartRepository;
+  coupons: CouponRepository;
+  orders: OrderRepository;
+  payments: PaymentRepository;
+  users: UserRepository;
+  addresses: AddressRepository;
+  shipping: ShippingRepository;
+  searchHistory: SearchHistoryRepository;
+  webhookEvents: WebhookEventRepository;
+}
+
+/**
+ * 데이터 접근 계층
+ *
+ * 페이지와 라우트 핸들러는 Supabase 쿼리를 직접 작성하지 않고 저장소를 사용합니다.
+ * 저장소는 전달받은 클라이언트로만 쿼리하므로, 로컬 Supabase 클라이언트를 넘기거나
+ * 같은 인터페이스의 인메모리 구현으로 교체해 테스트할 수 있습니다.
+ *
+ * @example
+ * ```ts
+ * const { orders } = createRepositories(getServiceRoleClient());
+ * const order = await orders.getById(userId, orderId);
+ * ```
+ */
+export function createRepositories(supabase: DatabaseClient): Repositories {
+  return {
+    products: createProductRepository(supabase),
+    productImages: createProductImageRepository(supabase),
+    categories: createCategoryRepository(supabase),
+    cart: createCartRepository(supabase),
+    coupons: createCouponRepository(supabase),
+    orders: createOrderRepository(supabase),
+    payments: createPaymentRepository(supabase),
+    users: createUserRepository(supabase),
+    addresses: createAddressRepository(supabase),
+    shipping: createShippingRepository(supabase),
+    searchHistory: createSearchHistoryRepository(supabase),
+    webhookEvents: createWebhookEventRepository(supabase),
+  };
+}
@@ -0,0 +1,239 @@
+import type { Json } from "@/database.types";
+import type {
+  Order,
+  OrderItem,
+  OrderReviewReason,
+  OrderStatus,
+  ShippingAddress,
+} from "@/types/order";
+import type { PaymentRefund, PaymentSummary } from "@/types/payment";
+import { toRepositoryError } from "@/lib/repositories/errors";
+import type { DatabaseClient } from "@/lib/repositories/types";
+
+/**
+ * 주문 목록 필터
+ * - expired: 결제 기한이 지나 자동 취소된 주문
+ * - cancelled: 사용자/결제 취소로 취소된 주문 (기간 만료 제외)
+ */
+export type OrderListFilter = OrderStatus | "expired" | "all";
+
+export interface OrderDetail {
+  order: Order;
+  items: OrderItem[];
+  /** 가장 최근 결제 (결제 전이면 null, 화면 표시용 컬럼만 조회) */
+  payment: PaymentSummary | null;
+  refunds: PaymentRefund[];
+}
+
+export interface CreateOrderFromCartParams {
+  clerkId: string;
+  shippingAddress: ShippingAddress;
+  orderNote?: string;
+  /** 사용자가 화면에서 확인한 결제 금액 (다르면 PRICE_CHANGED 오류) */
+  expectedTotal: number;
+  couponCode?: string;
+}
+
+export interface CancelOrderItemParams {
+  orderItemId: string;
+  quantity: number;
+}
+
+/**
+ * 주문 저장소
+ *
+ * 조회는 clerk_id 조건을 함께 걸어 본인 주문만 반환합니다.
+ * 주문 생성/확정/취소는 재고와 결제 금액이 함께 바뀌므로 DB 함수로 처리하며,
+ * service_role 클라이언트로 생성한 저장소에서만 호출할 수 있습니다.
+ * DB 함수의 오류 코드(CART_EMPTY, ORDER_NOT_CANCELLABLE 등)는 RepositoryError의
+ * message와 details로 전달됩니다.
+ */
+export interface OrderRepository {
+  listByUser(clerkId: string, filter?: OrderListFilter): Promise<Order[]>;
+  getById(clerkId: string, orderId: string): Promise<Order | null>;
+  /** 결제 대기(pending) 상태인 주문만 조회 */
+  getPendingById(clerkId: string, orderId: string): Promise<Order | null>;
+  /** 주문, 주문 상품, 최근 결제, 환불 내역을 함께 조회 */
+  getDetail(clerkId: string, orderId: string): Promise<OrderDetail | null>;
+  /** 사용자 조건 없이 조회 (웹훅 등 서버 작업용) */
+  findById(orderId: string): Promise<Order | null>;
+  /** 장바구니로 주문 생성 (create_order_from_cart 함수), 생성된 주문 id 반환 */
+  createFromCart(params: CreateOrderFromCartParams): Promise<string>;
+  /** 결제 대기(pending) 주문을 확정, 확정했으면 true */
+  confirmPending(orderId: string): Promise<boolean>;
+  /** 주문 전체 취소 및 재고 복구 (cancel_order 함수), 취소했으면 true */
+  cancel(orderId: string): Promise<boolean>;
+  /**
+   * 일부 상품 취소 및 재고 복구 (cancel_order_items 함수)
+   * 남은 상품이 없어 주문까지 취소되었으면 true
+   */
+  cancelItems(orderId: string, items: CancelOrderItemParams[]): Promise<boolean>;
+  /** 유효 시간이 지난 미결제 주문 취소 (expire_pending_orders 함수), 취소한 주문 수 반환 */
+  expirePending(ttlMinutes: number): Promise<number>;
+  /** 자동으로 처리하지 못한 주문을 관리자 확인 필요로 표시 (review_requested_at, review_reason) */
+  flagForReview(orderId: string, reason: OrderReviewReason): Promise<void>;
+}
+
+// authenticated가 조회할 수 있는 payments 컬럼 (raw_response 등은 service_role만 조회)
+const PAYMENT_SUMMARY_COLUMNS =
+  "id, order_id, method, status, total_amount, approved_at, receipt_url, created_at";
+
+export function createOrderRepository(supabase: DatabaseClient): OrderRepository {
+  async function findOrder(clerkId: string, orderId: string, status?: OrderStatus) {
+    let query = supabase
+      .from("orders")
+      .select("*")
+      .eq("id", orderId)
+      .eq("clerk_id", clerkId);
+
+    if (status) {
+      query = query.eq("status", status);
+    }
+
+    const { data, error } = await query.maybeSingle<Order>();
+
+    if (error) throw toRepositoryError(error);
+    return data;
+  }
+
+  return {
+    async listByUser(clerkId, filter = "all") {
+      let query = supabase
+        .from("orders")
+        .select("*")
+        .eq("clerk_id", clerkId)
+        .order("created_at", { ascending: false });
+
+      if (filter === "expired") {
+        query = query.eq("status", "cancelled").not("expired_at", "is", null);
+      } else if (filter === "cancelled") {
+        query = query.eq("status", "cancelled").is("expired_at", null);
+      } else if (filter !== "all") {
+        query = query.eq("status", filter);
+      }
+
+      const { data, error } = await query.overrideTypes<Order[], { merge: false }>();
+
+      if (error) throw toRepositoryError(error);
+      return data ?? [];
+    },
+
+    getById(clerkId, orderId) {
+      return findOrder(clerkId, orderId);
+    },
+
+    getPendingById(clerkId, orderId) {
+      return findOrder(clerkId, orderId, "pending");
+    },
+
+    async getDetail(clerkId, orderId) {
+      const order = await findOrder(clerkId, orderId);
+      if (!order) return null;
+
+      const [itemsResult, paymentResult, refundsResult] = await Promise.all([
+        supabase
+          .from("order_items")
+          .select("*")
+          .eq("order_id", orderId)
+          .order("created_at", { ascending: false }),
+        supabase
+          .from("payments")
+          .select(PAYMENT_SUMMARY_COLUMNS)
+          .eq("order_id", orderId)
+          .order("created_at", { ascending: false })
+          .limit(1)
+          .maybeSingle<PaymentSummary>(),
+        supabase
+          .from("payment_refunds")
+          .select("*")
+          .eq("order_id", orderId)
+          .order("canceled_at", { ascending: true }),
+      ]);
+
+      if (itemsResult.error) throw toRepositoryError(itemsResult.error);
+      if (paymentResult.error) throw toRepositoryError(paymentResult.error);
+      if (refundsResult.error) throw toRepositoryError(refundsResult.error);
+
+      return {
+        order,
+        items: itemsResult.data ?? [],
+        payment: paymentResult.data,
+        refunds: refundsResult.data ?? [],
+      };
+    },
+
+    async findById(orderId) {
+      const { data, error } = await supabase
+        .from("orders")
+        .select("*")
+        .eq("id", orderId)
+        .maybeSingle<Order>();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async createFromCart({ clerkId, shippingAddress, orderNote, expectedTotal, couponCode }) {
+      const { data, error } = await supabase.rpc("create_order_from_cart", {
+        p_clerk_id: clerkId,
+        p_shipping_address: shippingAddress as unknown as Json,
+        p_order_note: orderNote || undefined,
+        p_expected_total: expectedTotal,
+        p_coupon_code: couponCode,
+      });
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async confirmPending(orderId) {
+      const { data, error } = await supabase
+        .from("orders")
+        .update({ status: "confirmed" })
+        .eq("id", orderId)
+        .eq("status", "pending")
+        .select("id");
+
+      if (error) throw toRepositoryError(error);
+      return data.length > 0;
+    },
+
+    async cancel(orderId) {
+      const { data, error } = await supabase.rpc("cancel_order", { p_order_id: orderId });
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async cancelItems(orderId, items) {
+      const { data, error } = await supabase.rpc("cancel_order_items", {
+        p_order_id: orderId,
+        p_items: items.map((item) => ({
+          order_item_id: item.orderItemId,
+          quantity: item.quantity,
+        })),
+      });
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async expirePending(ttlMinutes) {
+      const { data, error } = await supabase.rpc("expire_pending_orders", {
+        p_ttl_minutes: ttlMinutes,
+      });
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async flagForReview(orderId, reason) {
+      const { error } = await supabase
+        .from("orders")
+        .update({ review_requested_at: new Date().toISOString(), review_reason: reason })
+        .eq("id", orderId);
+
+      if (error) throw toRepositoryError(error);
+    },
+  };
+}
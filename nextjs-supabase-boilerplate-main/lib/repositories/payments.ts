@@ -0,0 +1,69 @@
+import type { TablesInsert } from "@/database.types";
+import type { Payment } from "@/types/payment";
+import { toRepositoryError } from "@/lib/repositories/errors";
+import type { DatabaseClient } from "@/lib/repositories/types";
+
+/**
+ * 결제 저장소 (payments, payment_refunds)
+ *
+ * 결제와 환불 기록은 서버에서만 저장하므로 service_role 클라이언트로 생성해서 사용합니다.
+ * 사용자 화면의 결제 조회는 표시용 컬럼만 조회하는 orders.getDetail을 사용합니다.
+ */
+export interface PaymentRepository {
+  /** 주문의 가장 최근 결제 (결제 전이면 null) */
+  getLatestByOrder(orderId: string): Promise<Payment | null>;
+  getByPaymentKey(paymentKey: string): Promise<Payment | null>;
+  /** payment_key 기준으로 저장 (이미 있으면 갱신) */
+  upsert(payment: TablesInsert<"payments">): Promise<Payment>;
+  /** 환불 내역 저장 (이미 저장된 transaction_key는 무시) */
+  recordRefunds(refunds: TablesInsert<"payment_refunds">[]): Promise<void>;
+}
+
+export function createPaymentRepository(supabase: DatabaseClient): PaymentRepository {
+  return {
+    async getLatestByOrder(orderId) {
+      const { data, error } = await supabase
+        .from("payments")
+        .select("*")
+        .eq("order_id", orderId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle<Payment>();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async getByPaymentKey(paymentKey) {
+      const { data, error } = await supabase
+        .from("payments")
+        .select("*")
+        .eq("payment_key", paymentKey)
+        .maybeSingle<Payment>();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async upsert(payment) {
+      const { data, error } = await supabase
+        .from("payments")
+        .upsert(payment, { onConflict: "payment_key" })
+        .select()
+        .single<Payment>();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async recordRefunds(refunds) {
+      if (refunds.length === 0) return;
+
+      const { error } = await supabase
+        .from("payment_refunds")
+        .upsert(refunds, { onConflict: "transaction_key", ignoreDuplicates: true });
+
+      if (error) throw toRepositoryError(error);
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import type { TablesInsert } from "@/database.types";
+import type { ProductImage } from "@/types/product";
+import { PRODUCT_IMAGES_BUCKET } from "@/lib/product-images";
+import { RepositoryError, toRepositoryError } from "@/lib/repositories/errors";
+import type { DatabaseClient } from "@/lib/repositories/types";
+
+export interface ProductImageSortSummary {
+  count: number;
+  /** 가장 큰 sort_order (이미지가 없으면 null) */
+  lastSortOrder: number | null;
+}
+
+export interface ProductImageOrderParams {
+  id: string;
+  altText: string | null;
+}
+
+/**
+ * 상품 이미지 저장소 (product_images 테이블, product-images Storage 버킷)
+ *
+ * 이미지 변경은 관리자 Server Action에서만 하므로 service_role 클라이언트로 생성해서 사용합니다.
+ * 쇼핑몰 화면은 products 저장소가 상품과 함께 조회한 이미지를 사용합니다.
+ */
+export interface ProductImageRepository {
+  getSortSummary(productId: string): Promise<ProductImageSortSummary>;
+  /** 정렬 순서가 가장 앞선 이미지 */
+  getFirst(productId: string): Promise<ProductImage | null>;
+  create(image: TablesInsert<"product_images">): Promise<void>;
+  /** 삭제한 이미지 반환 (없는 이미지면 null, Storage 파일은 removeFiles로 삭제) */
+  delete(imageId: string): Promise<ProductImage | null>;
+  /** 대표 이미지 지정 (set_primary_product_image 함수, 없는 이미지면 message가 IMAGE_NOT_FOUND) */
+  setPrimary(imageId: string): Promise<void>;
+  /** 전달한 순서대로 sort_order를 다시 매기고 대체 텍스트 갱신 */
+  updateOrder(productId: string, images: ProductImageOrderParams[]): Promise<void>;
+  uploadFile(storagePath: string, file: File): Promise<void>;
+  removeFiles(storagePaths: string[]): Promise<void>;
+}
+
+export function createProductImageRepository(
+  supabase: DatabaseClient
+): ProductImageRepository {
+  const bucket = () => supabase.storage.from(PRODUCT_IMAGES_BUCKET);
+
+  return {
+    async getSortSummary(productId) {
+      const { data, count, error } = await supabase
+        .from("product_images")
+        .select("sort_order", { count: "exact" })
+        .eq("product_id", productId)
+        .order("sort_order", { ascending: false })
+        .limit(1);
+
+      if (error) throw toRepositoryError(error);
+      return { count: count ?? 0, lastSortOrder: data[0]?.sort_order ?? null };
+    },
+
+    async getFirst(productId) {
+      const { data, error } = await supabase
+        .from("product_images")
+        .select("*")
+        .eq("product_id", productId)
+        .order("sort_order", { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async create(image) {
+      const { error } = await supabase.from("product_images").insert(image);
+
+      if (error) throw toRepositoryError(error);
+    },
+
+    async delete(imageId) {
+      const { data, error } = await supabase
+        .from("product_images")
+        .delete()
+        .eq("id", imageId)
+        .select("*")
+        .maybeSingle();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async setPrimary(imageId) {
+      const { error } = await supabase.rpc("set_primary_product_image", {
+        p_image_id: imageId,
+      });
+
+      if (error) throw toRepositoryError(error);
+    },
+
+    async updateOrder(productId, images) {
+      const results = await Promise.all(
+        images.map((image, index) =>
+          supabase
+            .from("product_images")
+            .update({ sort_order: index, alt_text: image.altText })
+            .eq("id", image.id)
+            .eq("product_id", productId)
+        )
+      );
+
+      const failed = results.find((result) => result.error);
+      if (failed?.error) throw toRepositoryError(failed.error);
+    },
+
+    async uploadFile(storagePath, file) {
+      const { error } = await bucket().upload(storagePath, file, { contentType: file.type });
+
+      if (error) throw new RepositoryError("UNKNOWN", error.message, { cause: error });
+    },
+
+    async removeFiles(storagePaths) {
+      if (storagePaths.length === 0) return;
+
+      const { error } = await bucket().remove(storagePaths);
+
+      if (error) throw new RepositoryError("UNKNOWN", error.message, { cause: error });
+    },
+  };
+}
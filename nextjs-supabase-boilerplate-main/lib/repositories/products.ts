@@ -0,0 +1,189 @@
+import type { TablesInsert, TablesUpdate } from "@/database.types";
+import { ALL_CATEGORIES } from "@/lib/categories";
+import type { Product } from "@/types/product";
+import type { ProductSuggestion } from "@/types/search";
+import { toRepositoryError } from "@/lib/repositories/errors";
+import type { DatabaseClient } from "@/lib/repositories/types";
+
+/**
+ * relevance: 검색 관련도순 (검색어가 없으면 최신순)
+ * best_selling: 결제 완료된 주문의 판매 수량순
+ */
+export type ProductSort =
+  | "relevance"
+  | "newest"
+  | "name_asc"
+  | "price_asc"
+  | "price_desc"
+  | "best_selling";
+
+export interface ListActiveProductsParams {
+  /** 카테고리 slug (상위 카테고리면 하위 카테고리 포함, 기본값 ALL_CATEGORIES) */
+  category?: string;
+  /** 상품명/설명/카테고리 검색어 (오타 허용) */
+  search?: string;
+  sort?: ProductSort;
+  /** 가격 범위 (원, 양 끝 포함) */
+  minPrice?: number;
+  maxPrice?: number;
+  /** 품절(재고 0) 상품 제외 */
+  inStockOnly?: boolean;
+  /** 1부터 시작 */
+  page?: number;
+  pageSize?: number;
+}
+
+export interface ProductPage {
+  products: Product[];
+  totalCount: number;
+}
+
+/**
+ * 상품 저장소
+ *
+ * 쇼핑몰 화면은 판매 중(is_active)인 상품만, 관리자 화면은 모든 상품을 조회합니다.
+ * 상품 목록 검색은 search_products 함수(pg_trgm)로 관련도 순 정렬까지 처리합니다.
+ * 이미지(product_images)와 카테고리(category_info)는 항상 함께 조회합니다.
+ * 등록/수정은 관리자 Server Action에서 service_role 클라이언트로 생성한 저장소로 합니다.
+ */
+export interface ProductRepository {
+  listActive(params?: ListActiveProductsParams): Promise<ProductPage>;
+  listLatest(limit: number): Promise<Product[]>;
+  getActiveById(productId: string): Promise<Product | null>;
+  listActiveByIds(productIds: string[]): Promise<Product[]>;
+  /** 검색어 자동완성용 상품명 (suggest_products 함수) */
+  suggest(query: string, limit: number): Promise<ProductSuggestion[]>;
+  /** 판매 중지 상품 포함 (service_role 클라이언트로 사용) */
+  listAll(): Promise<Product[]>;
+  /** 판매 중지 상품 포함 (service_role 클라이언트로 사용) */
+  getById(productId: string): Promise<Product | null>;
+  /** 상품 등록, 생성된 id 반환 (없는 카테고리면 RepositoryError(INVALID_REFERENCE)) */
+  create(product: TablesInsert<"products">): Promise<string>;
+  /** 상품 수정, 없는 상품이면 false (없는 카테고리면 RepositoryError(INVALID_REFERENCE)) */
+  update(productId: string, changes: TablesUpdate<"products">): Promise<boolean>;
+}
+
+const PRODUCT_WITH_DETAILS = "*, product_images(*), category_info:categories(*)";
+const DEFAULT_PAGE_SIZE = 12;
+
+export function createProductRepository(supabase: DatabaseClient): ProductRepository {
+  return {
+    async listActive({
+      category = ALL_CATEGORIES,
+      search = "",
+      sort = "relevance",
+      minPrice,
+      maxPrice,
+      inStockOnly = false,
+      page = 1,
+      pageSize = DEFAULT_PAGE_SIZE,
+    } = {}) {
+      // 검색어는 함수 인자로 전달되므로 PostgREST 예약 문자(쉼표, 괄호 등)를 그대로 검색할 수 있음
+      const from = (page - 1) * pageSize;
+      const { data, error, count } = await supabase
+        .rpc(
+          "search_products",
+          {
+            p_query: search.trim() || undefined,
+            p_category: category === ALL_CATEGORIES ? undefined : category,
+            p_sort: sort,
+            p_min_price: minPrice,
+            p_max_price: maxPrice,
+            p_in_stock: inStockOnly,
+          },
+          { count: "exact" }
+        )
+        .select(PRODUCT_WITH_DETAILS)
+        .range(from, from + pageSize - 1);
+
+      if (error) throw toRepositoryError(error);
+      return { products: data ?? [], totalCount: count ?? 0 };
+    },
+
+    async listLatest(limit) {
+      const { data, error } = await supabase
+        .from("products")
+        .select(PRODUCT_WITH_DETAILS)
+        .eq("is_active", true)
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw toRepositoryError(error);
+      return data ?? [];
+    },
+
+    async getActiveById(productId) {
+      const { data, error } = await supabase
+        .from("products")
+        .select(PRODUCT_WITH_DETAILS)
+        .eq("id", productId)
+        .eq("is_active", true)
+        .maybeSingle();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async listActiveByIds(productIds) {
+      if (productIds.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from("products")
+        .select(PRODUCT_WITH_DETAILS)
+        .in("id", productIds)
+        .eq("is_active", true);
+
+      if (error) throw toRepositoryError(error);
+      return data ?? [];
+    },
+
+    async suggest(query, limit) {
+      const { data, error } = await supabase.rpc("suggest_products", {
+        p_query: query,
+        p_limit: limit,
+      });
+
+      if (error) throw toRepositoryError(error);
+      return data ?? [];
+    },
+
+    async listAll() {
+      const { data, error } = await supabase
+        .from("products")
+        .select(PRODUCT_WITH_DETAILS)
+        .order("created_at", { ascending: false });
+
+      if (error) throw toRepositoryError(error);
+      return data ?? [];
+    },
+
+    async getById(productId) {
+      const { data, error } = await supabase
+        .from("products")
+        .select(PRODUCT_WITH_DETAILS)
+        .eq("id", productId)
+        .maybeSingle();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async create(product) {
+      const { data, error } = await supabase.from("products").insert(product).select("id").single();
+
+      if (error) throw toRepositoryError(error);
+      return data.id;
+    },
+
+    async update(productId, changes) {
+      const { data, error } = await supabase
+        .from("products")
+        .update(changes)
+        .eq("id", productId)
+        .select("id");
+
+      if (error) throw toRepositoryError(error);
+      return data.length > 0;
+    },
+  };
+}
@@ -0,0 +1,58 @@
+import type { Tables } from "@/database.types";
+import { toRepositoryError } from "@/lib/repositories/errors";
+import type { DatabaseClient } from "@/lib/repositories/types";
+
+export type SearchHistoryEntry = Tables<"search_history">;
+
+/**
+ * 최근 검색어 저장소 (로그인한 사용자)
+ *
+ * search_history RLS 정책으로 본인 검색어만 접근할 수 있으므로
+ * Clerk 세션 클라이언트로 생성해서 사용합니다.
+ * 사용자당 최근 10개만 DB 트리거가 유지합니다.
+ * 저장은 record_search_keyword 함수로 합니다. (authenticated는 searched_at만 수정할 수 있어
+ * PostgREST upsert를 사용할 수 없음)
+ */
+export interface SearchHistoryRepository {
+  /** 최근 검색한 순으로 조회 */
+  listRecent(clerkId: string, limit: number): Promise<SearchHistoryEntry[]>;
+  /** 검색어 저장 (이미 있으면 검색 시각만 갱신) */
+  record(clerkId: string, keyword: string): Promise<void>;
+  clear(clerkId: string): Promise<void>;
+}
+
+export function createSearchHistoryRepository(
+  supabase: DatabaseClient
+): SearchHistoryRepository {
+  return {
+    async listRecent(clerkId, limit) {
+      const { data, error } = await supabase
+        .from("search_history")
+        .select("*")
+        .eq("clerk_id", clerkId)
+        .order("searched_at", { ascending: false })
+        .limit(limit);
+
+      if (error) throw toRepositoryError(error);
+      return data ?? [];
+    },
+
+    async record(clerkId, keyword) {
+      const { error } = await supabase.rpc("record_search_keyword", {
+        p_clerk_id: clerkId,
+        p_keyword: keyword,
+      });
+
+      if (error) throw toRepositoryError(error);
+    },
+
+    async clear(clerkId) {
+      const { error } = await supabase
+        .from("search_history")
+        .delete()
+        .eq("clerk_id", clerkId);
+
+      if (error) throw toRepositoryError(error);
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { toRepositoryError } from "@/lib/repositories/errors";
+import type { DatabaseClient } from "@/lib/repositories/types";
+
+/**
+ * 배송비 저장소
+ *
+ * 배송비 정책(shipping_policy, shipping_remote_areas)은 누구나 조회할 수 있으므로
+ * 비로그인 장바구니에서도 사용할 수 있습니다.
+ * 주문 생성 시에는 create_order_from_cart가 같은 함수로 다시 계산합니다.
+ */
+export interface ShippingRepository {
+  /**
+   * 상품 금액(쿠폰 할인 전)과 우편번호로 배송비 계산 (calculate_shipping_fee 함수)
+   * 우편번호를 생략하면 제주/도서산간 추가 배송비 없이 계산합니다.
+   */
+  calculateFee(subtotal: number, zipCode?: string): Promise<number>;
+}
+
+export function createShippingRepository(supabase: DatabaseClient): ShippingRepository {
+  return {
+    async calculateFee(subtotal, zipCode) {
+      const { data, error } = await supabase.rpc("calculate_shipping_fee", {
+        p_subtotal: subtotal,
+        p_zip_code: zipCode,
+      });
+
+      if (error) throw toRepositoryError(error);
+      return Number(data);
+    },
+  };
+}
@@ -0,0 +1,10 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/database.types";
+
+/**
+ * 저장소가 사용하는 Supabase 클라이언트
+ *
+ * Clerk 세션 클라이언트(RLS 적용)와 service_role 클라이언트 모두 사용할 수 있으며,
+ * 테스트에서는 로컬 Supabase를 가리키는 클라이언트를 넘길 수 있습니다.
+ */
+export type DatabaseClient = SupabaseClient<Database>;
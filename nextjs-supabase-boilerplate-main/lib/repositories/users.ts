@@ -0,0 +1,30 @@
+import type { Tables } from "@/database.types";
+import { toRepositoryError } from "@/lib/repositories/errors";
+import type { DatabaseClient } from "@/lib/repositories/types";
+
+export type User = Tables<"users">;
+
+/**
+ * 사용자 저장소
+ *
+ * users 테이블은 /api/sync-user에서 service_role 클라이언트로만 변경합니다.
+ */
+export interface UserRepository {
+  /** clerk_id 기준으로 생성하거나 이름을 갱신 */
+  upsert(params: { clerkId: string; name: string }): Promise<User>;
+}
+
+export function createUserRepository(supabase: DatabaseClient): UserRepository {
+  return {
+    async upsert({ clerkId, name }) {
+      const { data, error } = await supabase
+        .from("users")
+        .upsert({ clerk_id: clerkId, name }, { onConflict: "clerk_id" })
+        .select()
+        .single();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import type { Json, Tables } from "@/database.types";
+import { toRepositoryError } from "@/lib/repositories/errors";
+import type { DatabaseClient } from "@/lib/repositories/types";
+
+export type WebhookEvent = Tables<"webhook_events">;
+
+/** 웹훅 처리 결과 (webhook_events.status의 received 제외) */
+export type WebhookEventOutcome = "processed" | "ignored" | "failed";
+
+export interface CreateWebhookEventParams {
+  provider: string;
+  /** 재전송된 이벤트를 식별하는 키 (요청 본문 해시) */
+  eventKey: string;
+  eventType: string;
+  payload: Json;
+}
+
+/**
+ * 결제 웹훅 수신 기록 저장소
+ *
+ * 정책 없이 RLS가 켜져 있으므로 service_role 클라이언트로 생성해서 사용합니다.
+ */
+export interface WebhookEventRepository {
+  /**
+   * 수신한 이벤트 기록, 생성된 id 반환
+   * 같은 provider/eventKey가 이미 있으면 RepositoryError(CONFLICT)
+   */
+  create(params: CreateWebhookEventParams): Promise<string>;
+  getByKey(provider: string, eventKey: string): Promise<WebhookEvent | null>;
+  /** 재전송된 이벤트의 수신 횟수와 마지막 수신 시각 갱신 */
+  recordRedelivery(event: Pick<WebhookEvent, "id" | "delivery_count">): Promise<void>;
+  /** 처리 결과 저장 (failed면 오류 메시지도 저장) */
+  markOutcome(id: string, outcome: WebhookEventOutcome, errorMessage?: string): Promise<void>;
+}
+
+export function createWebhookEventRepository(
+  supabase: DatabaseClient
+): WebhookEventRepository {
+  return {
+    async create({ provider, eventKey, eventType, payload }) {
+      const { data, error } = await supabase
+        .from("webhook_events")
+        .insert({ provider, event_key: eventKey, event_type: eventType, payload })
+        .select("id")
+        .single();
+
+      if (error) throw toRepositoryError(error);
+      return data.id;
+    },
+
+    async getByKey(provider, eventKey) {
+      const { data, error } = await supabase
+        .from("webhook_events")
+        .select("*")
+        .eq("provider", provider)
+        .eq("event_key", eventKey)
+        .maybeSingle();
+
+      if (error) throw toRepositoryError(error);
+      return data;
+    },
+
+    async recordRedelivery({ id, delivery_count }) {
+      const { error } = await supabase
+        .from("webhook_events")
+        .update({
+          delivery_count: delivery_count + 1,
+          last_received_at: new Date().toISOString(),
+        })
+        .eq("id", id);
+
+      if (error) throw toRepositoryError(error);
+    },
+
+    async markOutcome(id, outcome, errorMessage) {
+      const { error } = await supabase
+        .from("webhook_events")
+        .update(
+          outcome === "failed"
+            ? { status: outcome, error: errorMessage ?? null }
+            : { status: outcome, processed_at: new Date().toISOString() }
+        )
+        .eq("id", id);
+
+      if (error) throw toRepositoryError(error);
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/** 사용자당 저장하는 최근 검색어 수 (search_history 정리 트리거와 같음) */
+export const MAX_RECENT_SEARCHES = 10;
+
+const GUEST_STORAGE_KEY = "recent-searches";
+
+/**
+ * 비로그인 사용자의 최근 검색어 (localStorage)
+ *
+ * 로그인한 사용자는 search_history 테이블에 저장합니다. (actions/search.ts)
+ * 저장소를 사용할 수 없거나 값이 손상된 경우 빈 목록으로 취급합니다.
+ */
+export function readGuestSearches(): string[] {
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(GUEST_STORAGE_KEY) ?? "[]");
+
+    return Array.isArray(parsed)
+      ? parsed.filter((keyword): keyword is string => typeof keyword === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/** 검색어를 맨 앞에 추가하고 갱신된 목록을 반환 */
+export function saveGuestSearch(keyword: string): string[] {
+  const keywords = [keyword, ...readGuestSearches().filter((k) => k !== keyword)].slice(
+    0,
+    MAX_RECENT_SEARCHES
+  );
+
+  try {
+    localStorage.setItem(GUEST_STORAGE_KEY, JSON.stringify(keywords));
+  } catch {
+    // 저장 공간이 없거나 사용할 수 없는 경우 무시
+  }
+
+  return keywords;
+}
+
+export function clearGuestSearches(): void {
+  try {
+    localStorage.removeItem(GUEST_STORAGE_KEY);
+  } catch {
+    // 사용할 수 없는 경우 무시
+  }
+}
@@ -0,0 +1,4 @@
+/** 배송비 표시 문자열 (0원이면 "무료") */
+export function formatShippingFee(fee: number): string {
+  return fee === 0 ? "무료" : `${fee.toLocaleString()}원`;
+}
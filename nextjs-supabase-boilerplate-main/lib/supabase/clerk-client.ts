@@ -3,6 +3,7 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import { useAuth } from "@clerk/nextjs";
 import { useMemo } from "react";
+import type { Database } from "@/database.types";
 
 /**
  * Clerk + Supabase 네이티브 통합 클라이언트 (Client Component용)
@@ -30,14 +31,14 @@ import { useMemo } from "react";
  * }
  * ```
  */
-export function useClerkSupabaseClient(): SupabaseClient {
+export function useClerkSupabaseClient(): SupabaseClient<Database> {
   const { getToken } = useAuth();
 
   const supabase = useMemo(() => {
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
     const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
-    return createClient(supabaseUrl, supabaseKey, {
+    return createClient<Database>(supabaseUrl, supabaseKey, {
       async accessToken() {
         // getToken이 함수가 아닌 경우 null 반환 (로그인 안 된 상태)
         if (typeof getToken !== "function") {
@@ -1,5 +1,6 @@
 import { createClient } from "@supabase/supabase-js";
 import { auth } from "@clerk/nextjs/server";
+import type { Database } from "@/database.types";
 
 /**
  * Clerk + Supabase 네이티브 통합 클라이언트 (Server Component용)
@@ -25,7 +26,7 @@ export function createClerkSupabaseClient() {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
   const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
 
-  return createClient(supabaseUrl, supabaseKey, {
+  return createClient<Database>(supabaseUrl, supabaseKey, {
     async accessToken() {
       return (await auth()).getToken();
     },
@@ -0,0 +1,139 @@
+import type { TossErrorResponse, TossPayment } from "@/types/toss";
+import { TossPaymentsError } from "@/lib/toss/errors";
+import { createFixtureTossPaymentsClient } from "@/lib/toss/fixtures";
+
+export { TossPaymentsError };
+
+const DEFAULT_TOSS_API_URL = "https://api.tosspayments.com";
+
+export interface ConfirmPaymentParams {
+  paymentKey: string;
+  orderId: string;
+  amount: number;
+}
+
+export interface CancelPaymentParams {
+  paymentKey: string;
+  cancelReason: string;
+  /** 부분 취소 금액 (생략하면 전액 취소) */
+  cancelAmount?: number;
+  /** 같은 키로 재요청하면 Toss가 중복 취소하지 않음 */
+  idempotencyKey: string;
+}
+
+/**
+ * 서버에서 사용하는 Toss Payments 클라이언트
+ *
+ * 라우트 핸들러는 이 인터페이스에만 의존하므로,
+ * 테스트 시 로컬 Mock 서버를 가리키는 클라이언트로 교체할 수 있습니다.
+ */
+export interface TossPaymentsClient {
+  confirmPayment(params: ConfirmPaymentParams): Promise<TossPayment>;
+  getPayment(paymentKey: string): Promise<TossPayment>;
+  cancelPayment(params: CancelPaymentParams): Promise<TossPayment>;
+}
+
+interface TossPaymentsClientOptions {
+  secretKey: string;
+  baseUrl?: string;
+}
+
+/**
+ * Toss Payments REST API 클라이언트 생성
+ *
+ * `baseUrl`을 지정하면 실제 Toss 서버 대신 해당 주소로 요청합니다.
+ * (예: `http://localhost:4010` 로컬 Mock 서버)
+ */
+export function createTossPaymentsClient({
+  secretKey,
+  baseUrl = DEFAULT_TOSS_API_URL,
+}: TossPaymentsClientOptions): TossPaymentsClient {
+  // Basic 인증: 시크릿 키 뒤에 콜론을 붙여 base64 인코딩
+  const authorization = `Basic ${Buffer.from(`${secretKey}:`).toString("base64")}`;
+
+  async function request<T>(
+    path: string,
+    body?: unknown,
+    headers?: Record<string, string>
+  ): Promise<T> {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: body === undefined ? "GET" : "POST",
+      headers: {
+        Authorization: authorization,
+        "Content-Type": "application/json",
+        ...headers,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      cache: "no-store",
+    });
+
+    const data = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const error = data as TossErrorResponse | null;
+      throw new TossPaymentsError(
+        error?.code ?? "UNKNOWN_ERROR",
+        error?.message ?? "Toss Payments 요청에 실패했습니다.",
+        response.status
+      );
+    }
+
+    return data as T;
+  }
+
+  return {
+    confirmPayment(params) {
+      return request<TossPayment>("/v1/payments/confirm", params);
+    },
+    getPayment(paymentKey) {
+      return request<TossPayment>(
+        `/v1/payments/${encodeURIComponent(paymentKey)}`
+      );
+    },
+    cancelPayment({ paymentKey, cancelReason, cancelAmount, idempotencyKey }) {
+      return request<TossPayment>(
+        `/v1/payments/${encodeURIComponent(paymentKey)}/cancel`,
+        { cancelReason, cancelAmount },
+        { "Idempotency-Key": idempotencyKey }
+      );
+    },
+  };
+}
+
+/**
+ * 환경 변수 기반 Toss Payments 클라이언트
+ *
+ * - `TOSS_PAYMENTS_SECRET_KEY`: 시크릿 키 (서버 전용)
+ * - `TOSS_PAYMENTS_API_URL`: API 주소 (선택, 로컬 Mock 서버 테스트용)
+ * - `TOSS_PAYMENTS_USE_FIXTURES`: `true`면 `lib/toss/fixtures`의 고정 응답 사용
+ *   (개발 환경 전용, Toss 호출 없이 웹훅/결제 승인 흐름 테스트)
+ *
+ * @example
+ * ```ts
+ * import { getTossPaymentsClient } from '@/lib/toss/client';
+ *
+ * const toss = getTossPaymentsClient();
+ * const payment = await toss.confirmPayment({ paymentKey, orderId, amount });
+ * ```
+ */
+export function getTossPaymentsClient(): TossPaymentsClient {
+  if (
+    process.env.TOSS_PAYMENTS_USE_FIXTURES === "true" &&
+    process.env.NODE_ENV !== "production"
+  ) {
+    return createFixtureTossPaymentsClient();
+  }
+
+  const secretKey = process.env.TOSS_PAYMENTS_SECRET_KEY;
+
+  if (!secretKey) {
+    throw new Error(
+      "Toss Payments Secret Key is missing. Please check your environment variables."
+    );
+  }
+
+  return createTossPaymentsClient({
+    secretKey,
+    baseUrl: process.env.TOSS_PAYMENTS_API_URL || undefined,
+  });
+}
@@ -0,0 +1,16 @@
+/**
+ * Toss Payments API 호출 중 발생한 오류
+ *
+ * Toss가 반환한 에러 코드(`code`)와 HTTP 상태(`status`)를 함께 보관합니다.
+ */
+export class TossPaymentsError extends Error {
+  readonly code: string;
+  readonly status: number;
+
+  constructor(code: string, message: string, status: number) {
+    super(message);
+    this.name = "TossPaymentsError";
+    this.code = code;
+    this.status = status;
+  }
+}
@@ -0,0 +1,92 @@
+import type { TossPaymentsClient } from "@/lib/toss/client";
+import { TossPaymentsError } from "@/lib/toss/errors";
+import type { TossPayment } from "@/types/toss";
+import cardDone from "./payments/card-done.json";
+import cardCanceled from "./payments/card-canceled.json";
+import cardPartialCanceled from "./payments/card-partial-canceled.json";
+import virtualAccountWaiting from "./payments/virtual-account-waiting.json";
+import virtualAccountExpired from "./payments/virtual-account-expired.json";
+
+/**
+ * Toss Payments 고정 응답 (테스트용)
+ *
+ * `webhooks/*.json`은 Toss가 보내는 웹훅 요청 본문이고,
+ * `payments/*.json`은 웹훅 검증 시 조회되는 Payment 객체입니다.
+ * 각 시나리오는 서로 다른 paymentKey/orderId를 사용합니다.
+ */
+export const paymentFixtures: TossPayment[] = [
+  cardDone,
+  cardCanceled,
+  cardPartialCanceled,
+  virtualAccountWaiting,
+  virtualAccountExpired,
+] as TossPayment[];
+
+// 개발 서버 프로세스 동안 승인/취소 결과를 유지 (요청마다 클라이언트가 새로 생성되므로 모듈 단위 저장)
+const defaultStore = new Map<string, TossPayment>(
+  paymentFixtures.map((payment) => [payment.paymentKey, payment])
+);
+
+/**
+ * 고정 응답을 반환하는 Toss Payments 클라이언트
+ *
+ * - confirmPayment: 요청한 paymentKey/orderId/amount로 승인 완료(DONE) 응답 생성
+ * - getPayment: 승인된 결제 또는 `payments/*.json`에서 paymentKey로 조회
+ * - cancelPayment: 조회한 결제에 취소 내역을 추가한 응답 생성
+ */
+export function createFixtureTossPaymentsClient(
+  store: Map<string, TossPayment> = defaultStore
+): TossPaymentsClient {
+  async function getPayment(paymentKey: string) {
+    const payment = store.get(paymentKey);
+
+    if (!payment) {
+      throw new TossPaymentsError(
+        "NOT_FOUND_PAYMENT",
+        "존재하지 않는 결제 정보 입니다.",
+        404
+      );
+    }
+
+    return payment;
+  }
+
+  return {
+    async confirmPayment({ paymentKey, orderId, amount }) {
+      const payment: TossPayment = {
+        ...(cardDone as TossPayment),
+        paymentKey,
+        orderId,
+        totalAmount: amount,
+        balanceAmount: amount,
+        approvedAt: new Date().toISOString(),
+      };
+
+      store.set(paymentKey, payment);
+      return payment;
+    },
+    getPayment,
+    async cancelPayment({ paymentKey, cancelReason, cancelAmount }) {
+      const payment = await getPayment(paymentKey);
+      const amount = cancelAmount ?? payment.balanceAmount;
+      const balanceAmount = payment.balanceAmount - amount;
+      const cancelled: TossPayment = {
+        ...payment,
+        status: balanceAmount > 0 ? "PARTIAL_CANCELED" : "CANCELED",
+        balanceAmount,
+        cancels: [
+          ...(payment.cancels ?? []),
+          {
+            cancelAmount: amount,
+            cancelReason,
+            canceledAt: new Date().toISOString(),
+            transactionKey: `tfix_tx_${Date.now()}`,
+          },
+        ],
+      };
+
+      store.set(paymentKey, cancelled);
+      return cancelled;
+    },
+  };
+}
@@ -0,0 +1,85 @@
+import { createHash, timingSafeEqual } from "crypto";
+import type { OrderStatus } from "@/types/order";
+import type {
+  TossDepositCallbackEvent,
+  TossPaymentStatus,
+  TossPaymentStatusChangedEvent,
+} from "@/types/toss";
+
+/**
+ * Toss 결제 상태 → orders.status 매핑
+ *
+ * - null: 주문 상태를 바꾸지 않음 (결제 기록만 갱신)
+ * - PARTIAL_CANCELED: 일부 금액만 환불되었으므로 주문은 유지
+ * - WAITING_FOR_DEPOSIT: 가상계좌 입금 전이므로 결제 대기 유지
+ */
+export const TOSS_STATUS_TO_ORDER_STATUS: Record<
+  TossPaymentStatus,
+  OrderStatus | null
+> = {
+  READY: null,
+  IN_PROGRESS: null,
+  WAITING_FOR_DEPOSIT: "pending",
+  DONE: "confirmed",
+  CANCELED: "cancelled",
+  PARTIAL_CANCELED: null,
+  ABORTED: null,
+  EXPIRED: "cancelled",
+};
+
+/** JSON 값이 객체인지 확인 (null, 배열, 문자열·숫자 등 원시 값 제외) */
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isPaymentStatusChangedEvent(
+  event: unknown
+): event is TossPaymentStatusChangedEvent {
+  return (
+    isJsonObject(event) &&
+    event.eventType === "PAYMENT_STATUS_CHANGED" &&
+    isJsonObject(event.data) &&
+    typeof event.data.paymentKey === "string"
+  );
+}
+
+export function isDepositCallbackEvent(
+  event: unknown
+): event is TossDepositCallbackEvent {
+  return (
+    isJsonObject(event) &&
+    !("eventType" in event) &&
+    typeof event.secret === "string" &&
+    typeof event.orderId === "string"
+  );
+}
+
+/**
+ * 웹훅 중복 판별 키
+ *
+ * Toss는 응답이 실패하면 같은 본문으로 재전송하므로,
+ * 요청 본문 해시를 키로 사용해 재전송된 이벤트를 식별합니다.
+ */
+export function getWebhookEventKey(rawBody: string): string {
+  return createHash("sha256").update(rawBody).digest("hex");
+}
+
+/**
+ * 가상계좌 콜백의 secret 검증
+ *
+ * 결제 승인 시 받은 Payment.secret과 콜백의 secret이 같아야 합니다.
+ */
+export function isValidDepositSecret(
+  expected: string | null | undefined,
+  received: string
+): boolean {
+  if (!expected) return false;
+
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+
+  return (
+    expectedBuffer.length === receivedBuffer.length &&
+    timingSafeEqual(expectedBuffer, receivedBuffer)
+  );
+}
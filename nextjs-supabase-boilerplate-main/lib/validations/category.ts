@@ -0,0 +1,45 @@
+import { z } from "zod";
+import {
+  ALL_CATEGORIES,
+  CATEGORY_COLORS,
+  CATEGORY_ICONS,
+  type CategoryColor,
+  type CategoryIcon,
+} from "@/lib/categories";
+
+/** 카테고리 slug 형식 (categories.slug CHECK 제약 조건과 같음) */
+export const CATEGORY_SLUG_REGEX = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+
+/**
+ * 카테고리 등록/수정 폼 스키마
+ *
+ * 관리자 카테고리 폼(클라이언트)과 Server Action(서버)에서 같은 스키마로 검증합니다.
+ * parent_slug가 빈 문자열이면 최상위 카테고리입니다.
+ */
+export const categoryFormSchema = z.object({
+  slug: z
+    .string()
+    .trim()
+    .min(1, "슬러그를 입력해주세요.")
+    .max(30, "슬러그는 30자 이하로 입력해주세요.")
+    .regex(CATEGORY_SLUG_REGEX, "영문 소문자, 숫자, 하이픈(-)만 사용할 수 있습니다.")
+    .refine((slug) => slug !== ALL_CATEGORIES, "사용할 수 없는 슬러그입니다."),
+  label: z
+    .string()
+    .trim()
+    .min(1, "카테고리 이름을 입력해주세요.")
+    .max(30, "카테고리 이름은 30자 이하로 입력해주세요."),
+  color: z.enum(Object.keys(CATEGORY_COLORS) as [CategoryColor, ...CategoryColor[]], {
+    errorMap: () => ({ message: "색상을 선택해주세요." }),
+  }),
+  icon: z.enum(Object.keys(CATEGORY_ICONS) as [CategoryIcon, ...CategoryIcon[]], {
+    errorMap: () => ({ message: "아이콘을 선택해주세요." }),
+  }),
+  sort_order: z.coerce
+    .number({ invalid_type_error: "정렬 순서를 입력해주세요." })
+    .int("정렬 순서는 정수로 입력해주세요."),
+  parent_slug: z.string(),
+  is_active: z.boolean(),
+});
+
+export type CategoryFormValues = z.infer<typeof categoryFormSchema>;
@@ -0,0 +1,9 @@
+import { z } from "zod";
+
+/** 쿠폰 코드 입력값 (DB에는 대문자로 저장) */
+export const couponCodeSchema = z
+  .string()
+  .trim()
+  .min(1, "쿠폰 코드를 입력해주세요.")
+  .max(30, "쿠폰 코드가 올바르지 않습니다.")
+  .transform((code) => code.toUpperCase());
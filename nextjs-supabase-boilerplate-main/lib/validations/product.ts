@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { CATEGORY_SLUG_REGEX } from "@/lib/validations/category";
+
+/**
+ * 상품 등록/수정 폼 스키마
+ *
+ * 관리자 상품 폼(클라이언트)과 Server Action(서버)에서 같은 스키마로 검증합니다.
+ * 가격과 재고는 db.sql의 CHECK 제약 조건(0 이상)과 같습니다.
+ * 카테고리는 형식만 확인하고, 존재 여부는 products.category 외래 키로 확인합니다.
+ */
+export const productFormSchema = z.object({
+  name: z.string().trim().min(1, "상품명을 입력해주세요.").max(100),
+  description: z.string().trim().max(2000),
+  price: z.coerce
+    .number({ invalid_type_error: "가격을 입력해주세요." })
+    .int("가격은 정수로 입력해주세요.")
+    .min(0, "가격은 0원 이상이어야 합니다."),
+  category: z.string().regex(CATEGORY_SLUG_REGEX, "카테고리를 선택해주세요."),
+  stock_quantity: z.coerce
+    .number({ invalid_type_error: "재고 수량을 입력해주세요." })
+    .int("재고 수량은 정수로 입력해주세요.")
+    .min(0, "재고 수량은 0개 이상이어야 합니다."),
+  is_active: z.boolean(),
+});
+
+export type ProductFormValues = z.infer<typeof productFormSchema>;
+
+/** 상품 이미지 대체 텍스트 최대 길이 */
+export const PRODUCT_IMAGE_ALT_TEXT_MAX_LENGTH = 200;
+
+/** 상품당 등록할 수 있는 최대 이미지 수 */
+export const MAX_PRODUCT_IMAGES = 20;
+
+const productImageAltTextSchema = z.string().trim().max(PRODUCT_IMAGE_ALT_TEXT_MAX_LENGTH);
+
+/** 상품 이미지 업로드 입력 (파일은 Server Action에서 별도로 확인) */
+export const productImageUploadSchema = z.object({
+  productId: z.string().uuid(),
+  altText: productImageAltTextSchema,
+});
+
+/** 상품 이미지 순서/대체 텍스트 일괄 수정 입력 (배열 순서가 sort_order) */
+export const productImagesUpdateSchema = z.object({
+  productId: z.string().uuid(),
+  images: z
+    .array(
+      z.object({
+        id: z.string().uuid(),
+        altText: productImageAltTextSchema,
+      })
+    )
+    .max(MAX_PRODUCT_IMAGES),
+});
@@ -0,0 +1,4 @@
+import { z } from "zod";
+
+/** 최근 검색어로 저장할 검색어 (search_history.keyword CHECK 제약 조건과 같음) */
+export const searchKeywordSchema = z.string().trim().min(1).max(50);
@@ -0,0 +1,66 @@
+import { z } from "zod";
+
+/** 휴대폰 번호 (010, 011, 016, 017, 018, 019 / 하이픈 생략 가능) */
+export const MOBILE_PHONE_REGEX = /^01[016789]-?\d{3,4}-?\d{4}$/;
+
+/** 5자리 우편번호 (도로명 주소 기준 국가기초구역번호) */
+export const ZIP_CODE_REGEX = /^\d{5}$/;
+
+/** 배송 요청사항 최대 길이 */
+export const MAX_ORDER_NOTE_LENGTH = 200;
+
+/**
+ * 배송지 스키마
+ *
+ * 주문서/배송지 관리 폼(클라이언트)과 주문 생성/배송지 저장 Server Action(서버)에서
+ * 같은 스키마로 검증합니다. 우편번호와 주소는 우편번호 검색으로만 입력됩니다.
+ */
+export const shippingAddressSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "받는 분 이름을 입력해주세요.")
+    .max(50, "받는 분 이름은 50자 이하로 입력해주세요."),
+  phone: z
+    .string()
+    .trim()
+    .regex(MOBILE_PHONE_REGEX, "휴대폰 번호 형식이 올바르지 않습니다. (예: 010-1234-5678)"),
+  zipCode: z
+    .string()
+    .trim()
+    .regex(ZIP_CODE_REGEX, "주소 검색으로 5자리 우편번호를 입력해주세요."),
+  address: z
+    .string()
+    .trim()
+    .min(1, "주소 검색으로 주소를 입력해주세요.")
+    .max(200, "주소가 너무 깁니다."),
+  addressDetail: z.string().trim().max(100, "상세주소는 100자 이하로 입력해주세요."),
+  jibunAddress: z.string().trim().max(200).optional(),
+});
+
+export const orderNoteSchema = z
+  .string()
+  .trim()
+  .max(MAX_ORDER_NOTE_LENGTH, `배송 요청사항은 ${MAX_ORDER_NOTE_LENGTH}자 이하로 입력해주세요.`);
+
+/** 주문서 폼 스키마 */
+export const checkoutFormSchema = shippingAddressSchema.extend({
+  orderNote: orderNoteSchema,
+  /** 새로 입력한 배송지를 주소록에 저장 */
+  saveAddress: z.boolean(),
+});
+
+export type CheckoutFormValues = z.infer<typeof checkoutFormSchema>;
+
+/** 배송지 추가/수정 폼 스키마 (마이페이지 배송지 관리) */
+export const addressFormSchema = shippingAddressSchema.extend({
+  label: z.string().trim().max(20, "배송지 이름은 20자 이하로 입력해주세요."),
+  isDefault: z.boolean(),
+});
+
+export type AddressFormValues = z.infer<typeof addressFormSchema>;
+
+/** 검증 실패 시 사용자에게 보여줄 첫 번째 오류 메시지 */
+export function getFirstIssueMessage(error: z.ZodError, fallback: string): string {
+  return error.issues[0]?.message ?? fallback;
+}
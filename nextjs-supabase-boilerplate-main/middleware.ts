@@ -1,6 +1,38 @@
-import { clerkMiddleware } from "@clerk/nextjs/server";
+import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 import { updateSession } from "@/utils/supabase/middleware";
-import { type NextRequest } from "next/server";
+import { NextResponse, type NextRequest } from "next/server";
+import { getRoleFromClaims, meetsRole } from "@/lib/auth";
+import type { UserRole } from "@/types/auth";
+
+/**
+ * 라우트별 접근 정책
+ *
+ * 위에서부터 처음 일치하는 정책을 적용합니다.
+ * 목록에 없는 경로는 누구나 접근할 수 있습니다.
+ * (API 라우트는 각 Route Handler에서 인증을 처리합니다.)
+ */
+const ROUTE_POLICIES: { matches: (request: NextRequest) => boolean; role: UserRole }[] = [
+  // 개발용 테스트 페이지
+  {
+    matches: createRouteMatcher(["/auth-test(.*)", "/storage-test(.*)", "/tasks-test(.*)"]),
+    role: "admin",
+  },
+  // 관리자 페이지 (상품 관리)
+  {
+    matches: createRouteMatcher(["/admin(.*)"]),
+    role: "admin",
+  },
+  // 로그인한 고객 전용 페이지 (/cart는 비로그인 장바구니를 위해 공개)
+  {
+    matches: createRouteMatcher([
+      "/checkout(.*)",
+      "/my-page(.*)",
+      "/orders(.*)",
+      "/payment(.*)",
+    ]),
+    role: "customer",
+  },
+];
 
 /**
  * Next.js Middleware
@@ -8,14 +40,34 @@ import { type NextRequest } from "next/server";
  * Clerk와 Supabase 세션 관리를 모두 처리합니다.
  *
  * 1. Clerk 인증 미들웨어 실행
- * 2. Supabase 세션 갱신 (만료된 토큰 자동 갱신)
+ * 2. 라우트 접근 정책 확인
+ *    - 로그인하지 않은 사용자: 로그인 페이지로 리다이렉트
+ *    - 역할이 부족한 사용자: 403 (/forbidden)
+ * 3. Supabase 세션 갱신 (만료된 토큰 자동 갱신)
  *
  * 참고:
  * - Clerk는 사용자 인증을 처리합니다
+ * - 역할은 세션 토큰의 metadata.role 클레임에서 읽습니다 (lib/auth.ts)
  * - Supabase는 데이터베이스 접근을 위한 세션을 관리합니다
  * - 두 시스템은 독립적으로 작동하며, Clerk를 third-party auth provider로 사용할 수 있습니다
  */
 export default clerkMiddleware(async (auth, request: NextRequest) => {
+  const policy = ROUTE_POLICIES.find(({ matches }) => matches(request));
+
+  if (policy) {
+    const { userId, sessionClaims, redirectToSignIn } = await auth();
+
+    if (!userId) {
+      return redirectToSignIn({ returnBackUrl: request.url });
+    }
+
+    if (!meetsRole(getRoleFromClaims(sessionClaims), policy.role)) {
+      return NextResponse.rewrite(new URL("/forbidden", request.url), {
+        status: 403,
+      });
+    }
+  }
+
   const supabaseResponse = await updateSession(request);
   return supabaseResponse;
 });
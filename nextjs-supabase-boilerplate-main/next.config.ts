@@ -1,8 +1,24 @@
 import type { NextConfig } from "next";
 
+// 상품 이미지(product-images 버킷)를 next/image로 최적화하기 위한 Supabase Storage 호스트
+const supabaseHostname = process.env.NEXT_PUBLIC_SUPABASE_URL
+  ? new URL(process.env.NEXT_PUBLIC_SUPABASE_URL).hostname
+  : null;
+
 const nextConfig: NextConfig = {
   images: {
-    remotePatterns: [{ hostname: "img.clerk.com" }],
+    remotePatterns: [
+      { hostname: "img.clerk.com" },
+      ...(supabaseHostname
+        ? [{ hostname: supabaseHostname, pathname: "/storage/v1/object/public/**" }]
+        : []),
+    ],
+  },
+  experimental: {
+    serverActions: {
+      // 관리자 상품 이미지 업로드 (최대 5MB)
+      bodySizeLimit: "6mb",
+    },
   },
 };
 
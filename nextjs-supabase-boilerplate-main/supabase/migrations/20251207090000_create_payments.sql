@@ -0,0 +1,53 @@
+-- ==========================================
+-- 결제 정보 테이블 (payments)
+-- Toss Payments 승인 결과와 상태 변경 이력을 저장
+-- ==========================================
+
+-- 1. 결제 테이블 생성
+CREATE TABLE IF NOT EXISTS public.payments (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE RESTRICT,
+    clerk_id TEXT NOT NULL,
+    payment_key TEXT NOT NULL UNIQUE,
+    method TEXT,
+    status TEXT NOT NULL,
+    total_amount DECIMAL(10,2) NOT NULL CHECK (total_amount >= 0),
+    approved_at TIMESTAMP WITH TIME ZONE,
+    receipt_url TEXT,
+    -- Toss Payment 객체 원본 (가장 최근 응답)
+    raw_response JSONB NOT NULL,
+    -- 상태 변경 이력: [{ "status": "DONE", "changed_at": "...", "source": "confirm" }, ...]
+    status_history JSONB NOT NULL DEFAULT '[]'::jsonb,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 2. updated_at 트리거 등록
+CREATE TRIGGER set_updated_at_payments
+    BEFORE UPDATE ON payments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_payments_order_id ON payments(order_id);
+CREATE INDEX IF NOT EXISTS idx_payments_clerk_id ON payments(clerk_id);
+
+-- 4. 테이블 소유자 설정
+ALTER TABLE public.payments OWNER TO postgres;
+
+-- 5. Row Level Security (RLS) 활성화
+-- 결제 정보 기록은 서버(service_role)에서만 수행합니다.
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- 6. 권한 부여
+GRANT SELECT ON TABLE public.payments TO authenticated;
+GRANT ALL ON TABLE public.payments TO service_role;
+
+-- RLS 정책: 사용자는 자신의 결제 정보만 조회 가능
+CREATE POLICY "Users can view their own payments"
+ON public.payments
+FOR SELECT
+TO authenticated
+USING (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
@@ -0,0 +1,101 @@
+-- ==========================================
+-- 장바구니 → 주문 생성 함수 (create_order_from_cart)
+-- 주문 생성, 주문 상세 저장, 재고 차감, 장바구니 비우기를
+-- 하나의 트랜잭션으로 처리합니다.
+--
+-- 서버(service_role)에서만 호출할 수 있으며,
+-- 클라이언트 가격 대신 products 테이블의 현재 가격으로 금액을 재계산합니다.
+--
+-- 오류 (MESSAGE / DETAIL):
+--   CART_EMPTY          / -            : 장바구니가 비어 있음
+--   PRODUCT_UNAVAILABLE / 상품명       : 판매 중지된 상품 포함
+--   OUT_OF_STOCK        / 상품명       : 재고 부족
+--   PRICE_CHANGED       / 재계산 금액  : 클라이언트가 본 금액과 현재 금액이 다름
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION public.create_order_from_cart(
+    p_clerk_id TEXT,
+    p_shipping_address JSONB,
+    p_order_note TEXT DEFAULT NULL,
+    p_expected_total DECIMAL(10,2) DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    v_order_id UUID;
+    v_total DECIMAL(10,2) := 0;
+    v_item_count INTEGER := 0;
+    v_item RECORD;
+BEGIN
+    -- 1. 장바구니 상품 잠금 (상품 id 순서로 잠가 교착 상태 방지)
+    FOR v_item IN
+        SELECT c.product_id, c.quantity, p.name, p.price, p.stock_quantity, p.is_active
+        FROM public.cart_items c
+        JOIN public.products p ON p.id = c.product_id
+        WHERE c.clerk_id = p_clerk_id
+        ORDER BY p.id
+        FOR UPDATE OF c, p
+    LOOP
+        IF NOT v_item.is_active THEN
+            RAISE EXCEPTION USING
+                ERRCODE = 'P0001',
+                MESSAGE = 'PRODUCT_UNAVAILABLE',
+                DETAIL = v_item.name;
+        END IF;
+
+        IF v_item.stock_quantity < v_item.quantity THEN
+            RAISE EXCEPTION USING
+                ERRCODE = 'P0001',
+                MESSAGE = 'OUT_OF_STOCK',
+                DETAIL = v_item.name;
+        END IF;
+
+        v_total := v_total + v_item.price * v_item.quantity;
+        v_item_count := v_item_count + 1;
+    END LOOP;
+
+    IF v_item_count = 0 THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'CART_EMPTY';
+    END IF;
+
+    -- 2. 가격 변경 확인
+    IF p_expected_total IS NOT NULL AND v_total <> p_expected_total THEN
+        RAISE EXCEPTION USING
+            ERRCODE = 'P0001',
+            MESSAGE = 'PRICE_CHANGED',
+            DETAIL = v_total::TEXT;
+    END IF;
+
+    -- 3. 주문 생성
+    INSERT INTO public.orders (clerk_id, total_amount, status, shipping_address, order_note)
+    VALUES (p_clerk_id, v_total, 'pending', p_shipping_address, p_order_note)
+    RETURNING id INTO v_order_id;
+
+    -- 4. 주문 상세 저장 (현재 상품명/가격 스냅샷)
+    INSERT INTO public.order_items (order_id, product_id, product_name, quantity, price)
+    SELECT v_order_id, p.id, p.name, c.quantity, p.price
+    FROM public.cart_items c
+    JOIN public.products p ON p.id = c.product_id
+    WHERE c.clerk_id = p_clerk_id;
+
+    -- 5. 재고 차감
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity - c.quantity
+    FROM public.cart_items c
+    WHERE c.clerk_id = p_clerk_id
+      AND c.product_id = p.id;
+
+    -- 6. 장바구니 비우기
+    DELETE FROM public.cart_items
+    WHERE clerk_id = p_clerk_id;
+
+    RETURN v_order_id;
+END;
+$$;
+
+-- 권한: clerk_id를 인자로 받으므로 서버(service_role)에서만 실행 가능
+REVOKE EXECUTE ON FUNCTION public.create_order_from_cart(TEXT, JSONB, TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_order_from_cart(TEXT, JSONB, TEXT, DECIMAL) TO service_role;
@@ -0,0 +1,77 @@
+-- ==========================================
+-- 결제 웹훅 이벤트 기록 (webhook_events)
+-- 및 주문 취소 함수 (cancel_order)
+--
+-- Toss Payments 웹훅을 모두 기록하고, 재전송된 이벤트는
+-- (provider, event_key) 유니크 제약으로 중복 처리를 막습니다.
+-- ==========================================
+
+-- 1. 웹훅 이벤트 테이블 생성
+CREATE TABLE IF NOT EXISTS public.webhook_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    provider TEXT NOT NULL,
+    -- 요청 본문 해시 (재전송된 이벤트는 같은 키를 가짐)
+    event_key TEXT NOT NULL,
+    event_type TEXT NOT NULL,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'received'
+        CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+    error TEXT,
+    delivery_count INTEGER NOT NULL DEFAULT 1,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    last_received_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    processed_at TIMESTAMP WITH TIME ZONE,
+    UNIQUE(provider, event_key)
+);
+
+-- 2. 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_webhook_events_status ON webhook_events(status);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_received_at ON
+webhook_events(received_at DESC);
+
+-- 3. 테이블 소유자 설정
+ALTER TABLE public.webhook_events OWNER TO postgres;
+
+-- 4. Row Level Security (RLS) 활성화
+-- 정책 없음: 서버(service_role)에서만 접근
+ALTER TABLE public.webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- 5. 권한 부여
+GRANT ALL ON TABLE public.webhook_events TO service_role;
+
+-- 6. 주문 취소 및 재고 복구 함수
+-- 이미 취소된 주문이면 아무것도 하지 않고 FALSE를 반환하므로
+-- 같은 취소 이벤트가 여러 번 들어와도 재고가 중복 복구되지 않습니다.
+CREATE OR REPLACE FUNCTION public.cancel_order(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+    UPDATE public.orders
+    SET status = 'cancelled'
+    WHERE id = p_order_id
+      AND status <> 'cancelled';
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    -- 주문 시 차감한 재고 복구
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity + oi.quantity
+    FROM (
+        SELECT product_id, SUM(quantity) AS quantity
+        FROM public.order_items
+        WHERE order_id = p_order_id
+        GROUP BY product_id
+    ) oi
+    WHERE p.id = oi.product_id;
+
+    RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_order(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID) TO service_role;
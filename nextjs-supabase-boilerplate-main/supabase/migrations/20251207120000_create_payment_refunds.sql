@@ -0,0 +1,164 @@
+-- ==========================================
+-- 주문 취소/환불
+-- 1. payment_refunds: Toss 결제 취소(환불) 내역
+-- 2. order_items.cancelled_quantity: 부분 취소된 수량
+-- 3. cancel_order: 남은 수량만 재고 복구하도록 수정
+-- 4. cancel_order_items: 일부 상품만 취소 (부분 환불)
+-- ==========================================
+
+-- 1. 환불 내역 테이블 생성
+-- Payment.cancels 배열의 각 항목을 transaction_key 기준으로 한 번만 저장
+CREATE TABLE IF NOT EXISTS public.payment_refunds (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE RESTRICT,
+    clerk_id TEXT NOT NULL,
+    transaction_key TEXT NOT NULL UNIQUE,
+    cancel_amount DECIMAL(10,2) NOT NULL CHECK (cancel_amount >= 0),
+    cancel_reason TEXT,
+    canceled_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_refunds_order_id ON payment_refunds(order_id);
+
+ALTER TABLE public.payment_refunds OWNER TO postgres;
+
+-- 환불 기록은 서버(service_role)에서만 수행합니다.
+ALTER TABLE public.payment_refunds ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.payment_refunds TO authenticated;
+GRANT ALL ON TABLE public.payment_refunds TO service_role;
+
+-- RLS 정책: 사용자는 자신의 환불 내역만 조회 가능
+CREATE POLICY "Users can view their own refunds"
+ON public.payment_refunds
+FOR SELECT
+TO authenticated
+USING (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+-- 2. 부분 취소 수량 컬럼 추가
+ALTER TABLE public.order_items
+    ADD COLUMN IF NOT EXISTS cancelled_quantity INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.order_items
+    ADD CONSTRAINT order_items_cancelled_quantity_check
+    CHECK (cancelled_quantity >= 0 AND cancelled_quantity <= quantity);
+
+-- 3. 주문 전체 취소: 아직 취소되지 않은 수량만 재고 복구
+CREATE OR REPLACE FUNCTION public.cancel_order(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+    UPDATE public.orders
+    SET status = 'cancelled'
+    WHERE id = p_order_id
+      AND status <> 'cancelled';
+
+    IF NOT FOUND THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity + oi.quantity
+    FROM (
+        SELECT product_id, SUM(quantity - cancelled_quantity) AS quantity
+        FROM public.order_items
+        WHERE order_id = p_order_id
+        GROUP BY product_id
+    ) oi
+    WHERE p.id = oi.product_id;
+
+    UPDATE public.order_items
+    SET cancelled_quantity = quantity
+    WHERE order_id = p_order_id;
+
+    RETURN TRUE;
+END;
+$$;
+
+-- 4. 일부 상품 취소
+-- p_items: [{ "order_item_id": "...", "quantity": 1 }, ...]
+-- 모든 상품이 취소되면 주문 상태도 cancelled로 변경합니다.
+--
+-- 오류 (MESSAGE / DETAIL):
+--   ORDER_NOT_CANCELLABLE / 주문 상태 : 이미 취소되었거나 존재하지 않는 주문
+--   INVALID_CANCEL_ITEM   / 주문 상세 id : 주문에 없는 상품이거나 취소 가능 수량 초과
+CREATE OR REPLACE FUNCTION public.cancel_order_items(
+    p_order_id UUID,
+    p_items JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    v_status TEXT;
+    v_item RECORD;
+    v_updated INTEGER;
+BEGIN
+    SELECT status INTO v_status
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF v_status IS NULL OR v_status = 'cancelled' THEN
+        RAISE EXCEPTION USING
+            ERRCODE = 'P0001',
+            MESSAGE = 'ORDER_NOT_CANCELLABLE',
+            DETAIL = COALESCE(v_status, 'not_found');
+    END IF;
+
+    FOR v_item IN
+        SELECT (item->>'order_item_id')::UUID AS order_item_id,
+               (item->>'quantity')::INTEGER AS quantity
+        FROM jsonb_array_elements(p_items) AS item
+    LOOP
+        UPDATE public.order_items
+        SET cancelled_quantity = cancelled_quantity + v_item.quantity
+        WHERE id = v_item.order_item_id
+          AND order_id = p_order_id
+          AND v_item.quantity > 0
+          AND cancelled_quantity + v_item.quantity <= quantity;
+
+        GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+        IF v_updated = 0 THEN
+            RAISE EXCEPTION USING
+                ERRCODE = 'P0001',
+                MESSAGE = 'INVALID_CANCEL_ITEM',
+                DETAIL = v_item.order_item_id::TEXT;
+        END IF;
+
+        UPDATE public.products p
+        SET stock_quantity = p.stock_quantity + v_item.quantity
+        FROM public.order_items oi
+        WHERE oi.id = v_item.order_item_id
+          AND p.id = oi.product_id;
+    END LOOP;
+
+    -- 남은 상품이 없으면 주문 전체 취소 처리
+    IF NOT EXISTS (
+        SELECT 1 FROM public.order_items
+        WHERE order_id = p_order_id
+          AND cancelled_quantity < quantity
+    ) THEN
+        UPDATE public.orders
+        SET status = 'cancelled'
+        WHERE id = p_order_id;
+
+        RETURN TRUE;
+    END IF;
+
+    RETURN FALSE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_order_items(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_order_items(UUID, JSONB) TO service_role;
@@ -0,0 +1,75 @@
+-- ==========================================
+-- 미결제 주문 자동 만료
+-- 주문 생성 시 재고를 차감하므로, 결제하지 않고 떠난 주문이
+-- 재고를 계속 점유하지 않도록 일정 시간이 지나면 취소하고 재고를 복구합니다.
+-- ==========================================
+
+-- 1. 만료 시각 컬럼 추가 (NULL이 아니면 기간 만료로 취소된 주문)
+ALTER TABLE public.orders
+    ADD COLUMN IF NOT EXISTS expired_at TIMESTAMP WITH TIME ZONE;
+
+-- 만료 대상 조회용 인덱스
+CREATE INDEX IF NOT EXISTS idx_orders_pending_created_at
+    ON public.orders(created_at)
+    WHERE status = 'pending';
+
+-- 2. 미결제 주문 만료 함수
+-- p_ttl_minutes 분보다 오래된 pending 주문을 취소하고 재고를 복구합니다.
+-- 가상계좌 입금 대기(WAITING_FOR_DEPOSIT) 등 결제가 진행 중인 주문은 제외합니다.
+-- (가상계좌 만료는 Toss 웹훅의 EXPIRED 상태로 처리됩니다.)
+-- 만료된 주문 수를 반환합니다.
+CREATE OR REPLACE FUNCTION public.expire_pending_orders(p_ttl_minutes INTEGER)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    v_order_id UUID;
+    v_count INTEGER := 0;
+BEGIN
+    IF p_ttl_minutes IS NULL OR p_ttl_minutes <= 0 THEN
+        RAISE EXCEPTION USING
+            ERRCODE = 'P0001',
+            MESSAGE = 'INVALID_TTL',
+            DETAIL = COALESCE(p_ttl_minutes::TEXT, 'null');
+    END IF;
+
+    -- 동시에 결제 승인/취소 중인 주문은 건너뜀 (SKIP LOCKED)
+    FOR v_order_id IN
+        SELECT o.id
+        FROM public.orders o
+        WHERE o.status = 'pending'
+          AND o.created_at < now() - make_interval(mins => p_ttl_minutes)
+          AND NOT EXISTS (
+              SELECT 1 FROM public.payments p
+              WHERE p.order_id = o.id
+          )
+        ORDER BY o.created_at
+        FOR UPDATE OF o SKIP LOCKED
+    LOOP
+        IF public.cancel_order(v_order_id) THEN
+            UPDATE public.orders
+            SET expired_at = now()
+            WHERE id = v_order_id;
+
+            v_count := v_count + 1;
+        END IF;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_pending_orders(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.expire_pending_orders(INTEGER) TO service_role;
+
+-- 3. (선택) pg_cron으로 예약 실행
+-- Vercel Cron(/api/cron/expire-orders) 대신 DB에서 직접 실행하려면
+-- Supabase 대시보드 → Database → Extensions에서 pg_cron을 활성화한 뒤 실행하세요.
+--
+-- SELECT cron.schedule(
+--     'expire-pending-orders',
+--     '*/10 * * * *',
+--     $$SELECT public.expire_pending_orders(30)$$
+-- );
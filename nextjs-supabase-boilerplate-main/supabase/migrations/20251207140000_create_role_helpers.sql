@@ -0,0 +1,55 @@
+-- ==========================================
+-- 역할 기반 접근 제어 (RLS용 헬퍼 함수)
+-- Clerk 세션 토큰의 metadata.role 클레임을 RLS 정책에서 사용합니다.
+--
+-- Clerk Dashboard → Sessions → Customize session token에
+-- { "metadata": "{{user.public_metadata}}" } 가 추가되어 있어야 합니다.
+-- 역할: customer(기본) < staff < admin
+-- ==========================================
+
+-- 1. 현재 요청의 역할 조회 (역할이 없으면 customer)
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+    SELECT CASE auth.jwt()->'metadata'->>'role'
+        WHEN 'admin' THEN 'admin'
+        WHEN 'staff' THEN 'staff'
+        ELSE 'customer'
+    END;
+$$;
+
+-- 2. 현재 요청이 p_required 이상의 역할인지 확인
+-- 예: USING (public.has_role('staff'))
+CREATE OR REPLACE FUNCTION public.has_role(p_required TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+    SELECT auth.jwt()->>'sub' IS NOT NULL
+       AND array_position(ARRAY['customer', 'staff', 'admin'], public.current_user_role())
+           >= array_position(ARRAY['customer', 'staff', 'admin'], p_required);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.current_user_role() TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.has_role(TEXT) TO authenticated, service_role;
+
+-- 3. staff 이상은 모든 결제/환불 내역 조회 가능 (주문 관리용)
+CREATE POLICY "Staff can view all payments"
+ON public.payments
+FOR SELECT
+TO authenticated
+USING (
+  (SELECT public.has_role('staff'))
+);
+
+CREATE POLICY "Staff can view all refunds"
+ON public.payment_refunds
+FOR SELECT
+TO authenticated
+USING (
+  (SELECT public.has_role('staff'))
+);
@@ -0,0 +1,120 @@
+-- ==========================================
+-- 쇼핑몰 테이블 Row Level Security 활성화
+-- db.sql은 products, cart_items, orders, order_items의 RLS를 끄고
+-- anon에게 모든 권한을 부여하므로, 클라이언트의 .eq("clerk_id", ...) 조건에만 의존합니다.
+-- 이 마이그레이션은 Clerk 사용자 id(auth.jwt()->>'sub') 기준 RLS를 적용합니다.
+--
+-- - products: 누구나 조회만 가능 (등록/수정은 관리자 Server Action에서 service_role로 처리)
+-- - cart_items: 본인 장바구니만 조회/추가/수량 변경/삭제
+-- - orders, order_items: 본인 주문만 조회
+--   (주문 생성, 상태 변경, 취소 등 금액/상태 변경은 service_role 서버 코드에서만 처리)
+-- - staff 이상 역할은 모든 주문 조회 가능 (20251207140000_create_role_helpers.sql)
+--
+-- 테스트: supabase/tests/database/shop_rls.test.sql (supabase test db)
+-- ==========================================
+
+-- 1. RLS 활성화
+ALTER TABLE public.products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cart_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_items ENABLE ROW LEVEL SECURITY;
+
+-- 2. 권한 재설정 (db.sql의 GRANT ALL 회수)
+REVOKE ALL ON TABLE public.products FROM anon, authenticated;
+REVOKE ALL ON TABLE public.cart_items FROM anon, authenticated;
+REVOKE ALL ON TABLE public.orders FROM anon, authenticated;
+REVOKE ALL ON TABLE public.order_items FROM anon, authenticated;
+
+GRANT SELECT ON TABLE public.products TO anon, authenticated;
+GRANT SELECT, INSERT, DELETE ON TABLE public.cart_items TO authenticated;
+GRANT UPDATE (quantity) ON TABLE public.cart_items TO authenticated;
+GRANT SELECT ON TABLE public.orders TO authenticated;
+GRANT SELECT ON TABLE public.order_items TO authenticated;
+
+GRANT ALL ON TABLE public.products TO service_role;
+GRANT ALL ON TABLE public.cart_items TO service_role;
+GRANT ALL ON TABLE public.orders TO service_role;
+GRANT ALL ON TABLE public.order_items TO service_role;
+
+-- 3. products: 누구나 조회 가능
+-- 판매 중지 상품도 장바구니/주문 내역에서 표시되어야 하므로 모두 조회 가능합니다.
+-- (상품 목록 페이지는 is_active = true 조건으로 조회)
+CREATE POLICY "Anyone can view products"
+ON public.products
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- 4. cart_items: 본인 장바구니만 접근
+CREATE POLICY "Users can view their own cart items"
+ON public.cart_items
+FOR SELECT
+TO authenticated
+USING (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+CREATE POLICY "Users can insert their own cart items"
+ON public.cart_items
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+CREATE POLICY "Users can update their own cart items"
+ON public.cart_items
+FOR UPDATE
+TO authenticated
+USING (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+)
+WITH CHECK (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+CREATE POLICY "Users can delete their own cart items"
+ON public.cart_items
+FOR DELETE
+TO authenticated
+USING (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+-- 5. orders: 본인 주문만 조회 (staff 이상은 전체 조회)
+CREATE POLICY "Users can view their own orders"
+ON public.orders
+FOR SELECT
+TO authenticated
+USING (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+CREATE POLICY "Staff can view all orders"
+ON public.orders
+FOR SELECT
+TO authenticated
+USING (
+  (SELECT public.has_role('staff'))
+);
+
+-- 6. order_items: 본인 주문의 상품만 조회 (staff 이상은 전체 조회)
+CREATE POLICY "Users can view their own order items"
+ON public.order_items
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM public.orders o
+    WHERE o.id = order_items.order_id
+      AND o.clerk_id = (SELECT auth.jwt()->>'sub')
+  )
+);
+
+CREATE POLICY "Staff can view all order items"
+ON public.order_items
+FOR SELECT
+TO authenticated
+USING (
+  (SELECT public.has_role('staff'))
+);
@@ -0,0 +1,94 @@
+-- ==========================================
+-- 상품 이미지
+-- 1. product_images: 상품별 이미지 (정렬 순서, 대체 텍스트, 대표 이미지)
+-- 2. product-images 버킷: 누구나 볼 수 있는 public 버킷
+--    (개인 파일용 uploads 버킷은 setup_storage.sql 참고)
+-- 3. set_primary_product_image: 대표 이미지 변경
+--
+-- 이미지 업로드/삭제는 관리자 Server Action(actions/products.ts)에서 service_role로 처리합니다.
+-- ==========================================
+
+-- 1. 상품 이미지 테이블 생성
+CREATE TABLE IF NOT EXISTS public.product_images (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    -- product-images 버킷 내 경로 ({product_id}/{파일명})
+    storage_path TEXT NOT NULL UNIQUE,
+    alt_text TEXT,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    is_primary BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_images_product_id
+    ON public.product_images(product_id, sort_order);
+
+-- 상품당 대표 이미지는 하나만
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_images_primary
+    ON public.product_images(product_id)
+    WHERE is_primary;
+
+ALTER TABLE public.product_images OWNER TO postgres;
+
+-- RLS: 누구나 조회 가능, 변경은 service_role만
+ALTER TABLE public.product_images ENABLE ROW LEVEL SECURITY;
+
+GRANT SELECT ON TABLE public.product_images TO anon, authenticated;
+GRANT ALL ON TABLE public.product_images TO service_role;
+
+CREATE POLICY "Anyone can view product images"
+ON public.product_images
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- 2. product-images 버킷 생성 (public: 공개 URL로 조회)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'product-images',
+  'product-images',
+  true,  -- public bucket
+  5242880,  -- 5MB 제한 (5 * 1024 * 1024)
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = true,
+  file_size_limit = 5242880,
+  allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+-- 3. 대표 이미지 변경
+-- 기존 대표 이미지를 해제한 뒤 지정한 이미지를 대표로 설정합니다.
+CREATE OR REPLACE FUNCTION public.set_primary_product_image(p_image_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    v_product_id UUID;
+BEGIN
+    SELECT product_id INTO v_product_id
+    FROM public.product_images
+    WHERE id = p_image_id;
+
+    IF v_product_id IS NULL THEN
+        RAISE EXCEPTION USING
+            ERRCODE = 'P0001',
+            MESSAGE = 'IMAGE_NOT_FOUND',
+            DETAIL = p_image_id::TEXT;
+    END IF;
+
+    UPDATE public.product_images
+    SET is_primary = false
+    WHERE product_id = v_product_id
+      AND is_primary
+      AND id <> p_image_id;
+
+    UPDATE public.product_images
+    SET is_primary = true
+    WHERE id = p_image_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_primary_product_image(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.set_primary_product_image(UUID) TO service_role;
@@ -0,0 +1,29 @@
+-- ==========================================
+-- 주문 상태 enum
+-- orders.status의 CHECK 제약 조건을 enum 타입으로 바꿔
+-- 생성된 타입(database.types.ts)의 Enums<"order_status">로 OrderStatus를 얻을 수 있게 합니다.
+-- ==========================================
+
+-- 1. enum 타입 생성 (db.sql의 CHECK 제약 조건과 같은 값)
+CREATE TYPE public.order_status AS ENUM (
+    'pending',
+    'confirmed',
+    'shipped',
+    'delivered',
+    'cancelled'
+);
+
+-- 2. status 컬럼 타입 변경
+-- 부분 인덱스 조건(status = 'pending')은 text 비교로 저장되어 있으므로 다시 생성합니다.
+DROP INDEX IF EXISTS public.idx_orders_pending_created_at;
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders ALTER COLUMN status DROP DEFAULT;
+ALTER TABLE public.orders
+    ALTER COLUMN status TYPE public.order_status
+    USING status::public.order_status;
+ALTER TABLE public.orders ALTER COLUMN status SET DEFAULT 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_orders_pending_created_at
+    ON public.orders(created_at)
+    WHERE status = 'pending';
@@ -0,0 +1,61 @@
+-- ==========================================
+-- 비로그인 장바구니 병합
+-- 로그인 전 쿠키에 담아 둔 장바구니(lib/guest-cart.ts)를 로그인한 사용자의 cart_items로 옮깁니다.
+-- /api/sync-user에서 service_role로 호출합니다.
+--
+-- - 같은 상품이 이미 담겨 있으면 UNIQUE(clerk_id, product_id) 기준으로 수량을 더함
+-- - 수량은 재고와 상품당 최대 수량(99개, lib/cart.ts의 MAX_CART_ITEM_QUANTITY)을 넘지 않도록 제한
+-- - 판매 중지/품절 상품은 건너뜀
+-- ==========================================
+
+-- p_items: [{ "productId": UUID, "quantity": INTEGER }, ...]
+-- 반환값: 추가되거나 수량이 바뀐 장바구니 항목 수
+CREATE OR REPLACE FUNCTION public.merge_guest_cart(
+    p_clerk_id TEXT,
+    p_items JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    v_merged INTEGER;
+BEGIN
+    WITH guest AS (
+        SELECT (item->>'productId')::UUID AS product_id,
+               SUM((item->>'quantity')::INTEGER) AS quantity
+        FROM jsonb_array_elements(p_items) AS item
+        GROUP BY 1
+    ),
+    available AS (
+        SELECT g.product_id,
+               LEAST(g.quantity, p.stock_quantity, 99) AS quantity
+        FROM guest g
+        JOIN public.products p ON p.id = g.product_id
+        WHERE p.is_active
+          AND p.stock_quantity > 0
+          AND g.quantity > 0
+    )
+    INSERT INTO public.cart_items (clerk_id, product_id, quantity)
+    SELECT p_clerk_id, product_id, quantity
+    FROM available
+    ON CONFLICT (clerk_id, product_id) DO UPDATE
+    SET quantity = LEAST(
+        public.cart_items.quantity + EXCLUDED.quantity,
+        (SELECT p.stock_quantity FROM public.products p WHERE p.id = EXCLUDED.product_id),
+        99
+    )
+    WHERE public.cart_items.quantity <> LEAST(
+        public.cart_items.quantity + EXCLUDED.quantity,
+        (SELECT p.stock_quantity FROM public.products p WHERE p.id = EXCLUDED.product_id),
+        99
+    );
+
+    GET DIAGNOSTICS v_merged = ROW_COUNT;
+    RETURN v_merged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_guest_cart(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_guest_cart(TEXT, JSONB) TO service_role;
@@ -0,0 +1,176 @@
+-- ==========================================
+-- 장바구니 가격 스냅샷 및 변경 확인
+-- cart_items에 담을 당시의 가격(price_at_add)을 저장하고,
+-- 주문 전에 가격 변경/품절/판매 중지 내역을 사용자가 확인하도록 합니다.
+--
+-- - price_at_add는 트리거가 담는 시점의 products.price로 채움 (클라이언트 값 무시)
+-- - acknowledge_cart_changes: 변경 내역 확인 처리
+--   (판매 중지/품절 상품 삭제, 수량을 재고에 맞춤, price_at_add를 현재 가격으로 갱신)
+-- - create_order_from_cart: 확인하지 않은 가격 변경이 있으면 CART_CHANGED 오류
+-- ==========================================
+
+-- 1. 가격 스냅샷 컬럼 추가 (기존 항목은 현재 가격으로 채움)
+ALTER TABLE public.cart_items ADD COLUMN IF NOT EXISTS price_at_add DECIMAL(10,2);
+
+UPDATE public.cart_items c
+SET price_at_add = p.price
+FROM public.products p
+WHERE p.id = c.product_id
+  AND c.price_at_add IS NULL;
+
+ALTER TABLE public.cart_items ALTER COLUMN price_at_add SET NOT NULL;
+
+-- 2. 담을 때 현재 가격을 저장하는 트리거
+-- authenticated는 cart_items INSERT 권한이 있으므로 전달된 값은 항상 덮어씁니다.
+CREATE OR REPLACE FUNCTION public.set_cart_item_price_at_add()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+    SELECT p.price INTO NEW.price_at_add
+    FROM public.products p
+    WHERE p.id = NEW.product_id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_cart_item_price_at_add ON public.cart_items;
+CREATE TRIGGER set_cart_item_price_at_add
+    BEFORE INSERT ON public.cart_items
+    FOR EACH ROW
+    EXECUTE FUNCTION public.set_cart_item_price_at_add();
+
+-- 3. 변경 내역 확인 처리
+-- 반환값: 삭제되거나 갱신된 장바구니 항목 수
+CREATE OR REPLACE FUNCTION public.acknowledge_cart_changes(p_clerk_id TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    v_removed INTEGER;
+    v_updated INTEGER;
+BEGIN
+    -- 판매 중지/품절 상품 삭제
+    DELETE FROM public.cart_items c
+    USING public.products p
+    WHERE p.id = c.product_id
+      AND c.clerk_id = p_clerk_id
+      AND (NOT p.is_active OR p.stock_quantity <= 0);
+
+    GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+    -- 재고 부족 수량 조정 및 가격 스냅샷 갱신
+    UPDATE public.cart_items c
+    SET price_at_add = p.price,
+        quantity = LEAST(c.quantity, p.stock_quantity)
+    FROM public.products p
+    WHERE p.id = c.product_id
+      AND c.clerk_id = p_clerk_id
+      AND (c.price_at_add <> p.price OR c.quantity > p.stock_quantity);
+
+    GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+    RETURN v_removed + v_updated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.acknowledge_cart_changes(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.acknowledge_cart_changes(TEXT) TO service_role;
+
+-- 4. 주문 생성 시 확인하지 않은 가격 변경 검사
+-- 오류 (MESSAGE / DETAIL)에 CART_CHANGED / 상품명 추가
+CREATE OR REPLACE FUNCTION public.create_order_from_cart(
+    p_clerk_id TEXT,
+    p_shipping_address JSONB,
+    p_order_note TEXT DEFAULT NULL,
+    p_expected_total DECIMAL(10,2) DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    v_order_id UUID;
+    v_total DECIMAL(10,2) := 0;
+    v_item_count INTEGER := 0;
+    v_item RECORD;
+BEGIN
+    -- 1. 장바구니 상품 잠금 (상품 id 순서로 잠가 교착 상태 방지)
+    FOR v_item IN
+        SELECT c.product_id, c.quantity, c.price_at_add,
+               p.name, p.price, p.stock_quantity, p.is_active
+        FROM public.cart_items c
+        JOIN public.products p ON p.id = c.product_id
+        WHERE c.clerk_id = p_clerk_id
+        ORDER BY p.id
+        FOR UPDATE OF c, p
+    LOOP
+        IF NOT v_item.is_active THEN
+            RAISE EXCEPTION USING
+                ERRCODE = 'P0001',
+                MESSAGE = 'PRODUCT_UNAVAILABLE',
+                DETAIL = v_item.name;
+        END IF;
+
+        IF v_item.stock_quantity < v_item.quantity THEN
+            RAISE EXCEPTION USING
+                ERRCODE = 'P0001',
+                MESSAGE = 'OUT_OF_STOCK',
+                DETAIL = v_item.name;
+        END IF;
+
+        IF v_item.price_at_add <> v_item.price THEN
+            RAISE EXCEPTION USING
+                ERRCODE = 'P0001',
+                MESSAGE = 'CART_CHANGED',
+                DETAIL = v_item.name;
+        END IF;
+
+        v_total := v_total + v_item.price * v_item.quantity;
+        v_item_count := v_item_count + 1;
+    END LOOP;
+
+    IF v_item_count = 0 THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'CART_EMPTY';
+    END IF;
+
+    -- 2. 가격 변경 확인
+    IF p_expected_total IS NOT NULL AND v_total <> p_expected_total THEN
+        RAISE EXCEPTION USING
+            ERRCODE = 'P0001',
+            MESSAGE = 'PRICE_CHANGED',
+            DETAIL = v_total::TEXT;
+    END IF;
+
+    -- 3. 주문 생성
+    INSERT INTO public.orders (clerk_id, total_amount, status, shipping_address, order_note)
+    VALUES (p_clerk_id, v_total, 'pending', p_shipping_address, p_order_note)
+    RETURNING id INTO v_order_id;
+
+    -- 4. 주문 상세 저장 (현재 상품명/가격 스냅샷)
+    INSERT INTO public.order_items (order_id, product_id, product_name, quantity, price)
+    SELECT v_order_id, p.id, p.name, c.quantity, p.price
+    FROM public.cart_items c
+    JOIN public.products p ON p.id = c.product_id
+    WHERE c.clerk_id = p_clerk_id;
+
+    -- 5. 재고 차감
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity - c.quantity
+    FROM public.cart_items c
+    WHERE c.clerk_id = p_clerk_id
+      AND c.product_id = p.id;
+
+    -- 6. 장바구니 비우기
+    DELETE FROM public.cart_items
+    WHERE clerk_id = p_clerk_id;
+
+    RETURN v_order_id;
+END;
+$$;
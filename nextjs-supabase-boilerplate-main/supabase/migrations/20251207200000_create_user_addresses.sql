@@ -0,0 +1,141 @@
+-- ==========================================
+-- 배송지 주소록 (user_addresses)
+-- 사용자별로 배송지를 저장해 두고 주문 시 불러옵니다.
+-- orders.shipping_address에는 지금처럼 주문 당시 주소를 JSON으로 복사해 저장합니다.
+--
+-- - 사용자당 기본 배송지는 하나 (is_default 부분 UNIQUE 인덱스)
+-- - 기본 배송지로 지정하면 기존 기본 배송지는 자동으로 해제
+-- - 첫 배송지는 자동으로 기본 배송지가 되고,
+--   기본 배송지를 삭제하면 가장 최근에 추가한 배송지가 기본 배송지가 됨
+-- ==========================================
+
+-- 1. 테이블 생성
+CREATE TABLE IF NOT EXISTS public.user_addresses (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    clerk_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+    -- 배송지 이름 (예: 집, 회사)
+    label TEXT NOT NULL DEFAULT '',
+    recipient_name TEXT NOT NULL,
+    phone TEXT NOT NULL,
+    zip_code TEXT NOT NULL,
+    address TEXT NOT NULL,
+    address_detail TEXT NOT NULL DEFAULT '',
+    is_default BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- 2. updated_at 트리거 등록
+CREATE TRIGGER set_updated_at_user_addresses
+    BEFORE UPDATE ON public.user_addresses
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. 인덱스 생성
+CREATE INDEX IF NOT EXISTS idx_user_addresses_clerk_id ON public.user_addresses(clerk_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_addresses_default
+    ON public.user_addresses(clerk_id)
+    WHERE is_default;
+
+-- 4. 기본 배송지 유지 트리거
+-- 본인 행만 변경하므로 호출한 사용자 권한(RLS 적용)으로 실행합니다.
+CREATE OR REPLACE FUNCTION public.maintain_default_user_address()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        -- 기본 배송지를 삭제하면 가장 최근 배송지를 기본으로 지정
+        IF OLD.is_default THEN
+            UPDATE public.user_addresses
+            SET is_default = true
+            WHERE id = (
+                SELECT a.id
+                FROM public.user_addresses a
+                WHERE a.clerk_id = OLD.clerk_id
+                ORDER BY a.created_at DESC
+                LIMIT 1
+            );
+        END IF;
+
+        RETURN OLD;
+    END IF;
+
+    -- 첫 배송지는 기본 배송지로 지정
+    IF TG_OP = 'INSERT' AND NOT NEW.is_default THEN
+        NEW.is_default := NOT EXISTS (
+            SELECT 1 FROM public.user_addresses a
+            WHERE a.clerk_id = NEW.clerk_id
+        );
+    END IF;
+
+    -- 기본 배송지로 지정하면 기존 기본 배송지 해제 (부분 UNIQUE 인덱스보다 먼저 처리)
+    IF NEW.is_default THEN
+        UPDATE public.user_addresses
+        SET is_default = false
+        WHERE clerk_id = NEW.clerk_id
+          AND id <> NEW.id
+          AND is_default;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER maintain_default_user_address
+    BEFORE INSERT OR UPDATE OF is_default ON public.user_addresses
+    FOR EACH ROW
+    EXECUTE FUNCTION public.maintain_default_user_address();
+
+CREATE TRIGGER promote_default_user_address
+    AFTER DELETE ON public.user_addresses
+    FOR EACH ROW
+    EXECUTE FUNCTION public.maintain_default_user_address();
+
+-- 5. 테이블 소유자 설정
+ALTER TABLE public.user_addresses OWNER TO postgres;
+
+-- 6. Row Level Security (RLS): 본인 배송지만 접근
+ALTER TABLE public.user_addresses ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.user_addresses FROM anon, authenticated;
+GRANT SELECT, INSERT, DELETE ON TABLE public.user_addresses TO authenticated;
+GRANT UPDATE (label, recipient_name, phone, zip_code, address, address_detail, is_default)
+    ON TABLE public.user_addresses TO authenticated;
+GRANT ALL ON TABLE public.user_addresses TO service_role;
+
+CREATE POLICY "Users can view their own addresses"
+ON public.user_addresses
+FOR SELECT
+TO authenticated
+USING (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+CREATE POLICY "Users can insert their own addresses"
+ON public.user_addresses
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+CREATE POLICY "Users can update their own addresses"
+ON public.user_addresses
+FOR UPDATE
+TO authenticated
+USING (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+)
+WITH CHECK (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+CREATE POLICY "Users can delete their own addresses"
+ON public.user_addresses
+FOR DELETE
+TO authenticated
+USING (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
@@ -0,0 +1,10 @@
+-- ==========================================
+-- 배송지 지번 주소 추가
+-- 우편번호 검색(Daum 우편번호 서비스)으로 채운 지번 주소를 도로명 주소와 함께 저장합니다.
+-- orders.shipping_address(JSONB)에는 jibunAddress 키로 저장됩니다.
+-- ==========================================
+
+ALTER TABLE public.user_addresses
+    ADD COLUMN IF NOT EXISTS jibun_address TEXT NOT NULL DEFAULT '';
+
+GRANT UPDATE (jibun_address) ON TABLE public.user_addresses TO authenticated;
@@ -0,0 +1,313 @@
+-- ==========================================
+-- 할인 쿠폰 (coupons, coupon_redemptions)
+-- 주문 시 쿠폰 코드를 입력하면 create_order_from_cart가 할인 금액을 계산해
+-- orders에 상품 금액(subtotal_amount), 할인 금액(discount_amount), 최종 결제금액(total_amount)을 저장합니다.
+-- 결제 위젯과 결제 승인(/api/payments/confirm)은 지금처럼 total_amount를 기준으로 합니다.
+--
+-- - 할인 방식: 정액(fixed) / 정률(percentage, max_discount_amount로 최대 할인 금액 제한)
+-- - 적용 대상: categories가 NULL이면 모든 상품, 지정하면 해당 카테고리 상품 금액에만 적용
+-- - 최소 주문 금액(min_order_amount)은 적용 대상 상품 금액 기준
+-- - 사용자당 사용 횟수(per_user_limit)는 취소되지 않은 주문 기준 (주문이 취소/만료되면 다시 사용 가능)
+-- - 쿠폰 등록은 Supabase Dashboard 또는 SQL로 합니다. 예:
+--   INSERT INTO public.coupons (code, name, discount_type, discount_value, min_order_amount)
+--   VALUES ('WELCOME10', '신규 가입 10% 할인', 'percentage', 10, 10000);
+-- ==========================================
+
+-- 1. 쿠폰 테이블
+CREATE TABLE IF NOT EXISTS public.coupons (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    -- 사용자가 입력하는 코드 (대문자로 저장)
+    code TEXT NOT NULL UNIQUE CHECK (code = upper(code) AND length(code) BETWEEN 1 AND 30),
+    name TEXT NOT NULL,
+    discount_type TEXT NOT NULL CHECK (discount_type IN ('fixed', 'percentage')),
+    -- 정액: 할인 금액(원), 정률: 할인율(%)
+    discount_value DECIMAL(10,2) NOT NULL CHECK (discount_value > 0),
+    -- 정률 할인의 최대 할인 금액 (NULL이면 제한 없음)
+    max_discount_amount DECIMAL(10,2) CHECK (max_discount_amount > 0),
+    min_order_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (min_order_amount >= 0),
+    -- 적용 카테고리 (NULL이면 전체 상품, types/product.ts의 ProductCategory)
+    categories TEXT[] CHECK (
+        categories <@ ARRAY['electronics', 'clothing', 'books', 'food', 'sports', 'beauty', 'home']
+    ),
+    per_user_limit INTEGER NOT NULL DEFAULT 1 CHECK (per_user_limit > 0),
+    starts_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    -- 만료 시각 (NULL이면 만료 없음)
+    expires_at TIMESTAMP WITH TIME ZONE,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CHECK (discount_type = 'fixed' OR discount_value <= 100),
+    -- 정액 할인으로 결제금액이 0원이 되지 않도록 최소 주문 금액을 할인 금액보다 크게 설정
+    CHECK (discount_type = 'percentage' OR min_order_amount > discount_value),
+    CHECK (expires_at IS NULL OR expires_at > starts_at)
+);
+
+CREATE TRIGGER set_updated_at_coupons
+    BEFORE UPDATE ON public.coupons
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. 주문 금액 컬럼 추가 (기존 주문은 할인 없음)
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS subtotal_amount DECIMAL(10,2);
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+-- 주문 당시 사용한 쿠폰 코드 (order_items.product_name처럼 스냅샷으로 저장)
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS coupon_code TEXT;
+
+UPDATE public.orders
+SET subtotal_amount = total_amount
+WHERE subtotal_amount IS NULL;
+
+ALTER TABLE public.orders ALTER COLUMN subtotal_amount SET NOT NULL;
+ALTER TABLE public.orders ADD CONSTRAINT orders_amounts_check
+    CHECK (discount_amount >= 0 AND total_amount = subtotal_amount - discount_amount);
+
+-- 3. 쿠폰 사용 내역 (주문당 쿠폰 하나)
+CREATE TABLE IF NOT EXISTS public.coupon_redemptions (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    coupon_id UUID NOT NULL REFERENCES public.coupons(id) ON DELETE RESTRICT,
+    clerk_id TEXT NOT NULL,
+    order_id UUID NOT NULL UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE,
+    discount_amount DECIMAL(10,2) NOT NULL CHECK (discount_amount > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_coupon_redemptions_coupon_clerk
+    ON public.coupon_redemptions(coupon_id, clerk_id);
+
+-- 4. RLS
+-- 쿠폰 목록은 코드 노출을 막기 위해 클라이언트에서 조회할 수 없습니다.
+-- (쿠폰 확인과 적용은 service_role 서버 코드에서 처리)
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.coupons FROM anon, authenticated;
+REVOKE ALL ON TABLE public.coupon_redemptions FROM anon, authenticated;
+
+GRANT SELECT ON TABLE public.coupon_redemptions TO authenticated;
+
+GRANT ALL ON TABLE public.coupons TO service_role;
+GRANT ALL ON TABLE public.coupon_redemptions TO service_role;
+
+CREATE POLICY "Users can view their own coupon redemptions"
+ON public.coupon_redemptions
+FOR SELECT
+TO authenticated
+USING (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+CREATE POLICY "Staff can view all coupon redemptions"
+ON public.coupon_redemptions
+FOR SELECT
+TO authenticated
+USING (
+  (SELECT public.has_role('staff'))
+);
+
+-- 5. 쿠폰 할인 금액 계산
+-- 현재 장바구니 기준으로 쿠폰을 검증하고 할인 금액을 계산합니다.
+-- 동시에 같은 쿠폰으로 주문해 사용 횟수를 넘지 않도록 쿠폰 행을 잠급니다.
+-- 오류 (MESSAGE / DETAIL):
+--   COUPON_NOT_FOUND, COUPON_EXPIRED, COUPON_NOT_APPLICABLE,
+--   COUPON_MIN_ORDER_NOT_MET / 최소 주문 금액, COUPON_LIMIT_REACHED
+CREATE OR REPLACE FUNCTION public.calculate_coupon_discount(
+    p_clerk_id TEXT,
+    p_code TEXT
+)
+RETURNS TABLE (
+    coupon_id UUID,
+    coupon_code TEXT,
+    coupon_name TEXT,
+    discount_amount DECIMAL(10,2)
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    v_coupon public.coupons%ROWTYPE;
+    v_eligible DECIMAL(10,2);
+    v_used INTEGER;
+    v_discount DECIMAL(10,2);
+BEGIN
+    SELECT * INTO v_coupon
+    FROM public.coupons c
+    WHERE c.code = upper(trim(p_code))
+      AND c.is_active
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'COUPON_NOT_FOUND';
+    END IF;
+
+    IF now() < v_coupon.starts_at OR now() >= v_coupon.expires_at THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'COUPON_EXPIRED';
+    END IF;
+
+    -- 적용 대상 상품 금액
+    SELECT COALESCE(SUM(p.price * c.quantity), 0) INTO v_eligible
+    FROM public.cart_items c
+    JOIN public.products p ON p.id = c.product_id
+    WHERE c.clerk_id = p_clerk_id
+      AND (v_coupon.categories IS NULL OR p.category = ANY (v_coupon.categories));
+
+    IF v_eligible = 0 THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'COUPON_NOT_APPLICABLE';
+    END IF;
+
+    IF v_eligible < v_coupon.min_order_amount THEN
+        RAISE EXCEPTION USING
+            ERRCODE = 'P0001',
+            MESSAGE = 'COUPON_MIN_ORDER_NOT_MET',
+            DETAIL = v_coupon.min_order_amount::TEXT;
+    END IF;
+
+    SELECT COUNT(*) INTO v_used
+    FROM public.coupon_redemptions r
+    JOIN public.orders o ON o.id = r.order_id
+    WHERE r.coupon_id = v_coupon.id
+      AND r.clerk_id = p_clerk_id
+      AND o.status <> 'cancelled';
+
+    IF v_used >= v_coupon.per_user_limit THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'COUPON_LIMIT_REACHED';
+    END IF;
+
+    IF v_coupon.discount_type = 'fixed' THEN
+        v_discount := v_coupon.discount_value;
+    ELSE
+        -- 정률 할인은 원 단위 미만 버림
+        v_discount := floor(v_eligible * v_coupon.discount_value / 100);
+        IF v_coupon.max_discount_amount IS NOT NULL THEN
+            v_discount := LEAST(v_discount, v_coupon.max_discount_amount);
+        END IF;
+    END IF;
+
+    RETURN QUERY
+    SELECT v_coupon.id, v_coupon.code, v_coupon.name, LEAST(v_discount, v_eligible);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calculate_coupon_discount(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.calculate_coupon_discount(TEXT, TEXT) TO service_role;
+
+-- 6. 주문 생성 시 쿠폰 적용
+-- 인자가 추가되므로 기존 함수를 삭제하고 다시 생성합니다.
+-- p_expected_total은 할인 후 최종 결제금액입니다.
+DROP FUNCTION IF EXISTS public.create_order_from_cart(TEXT, JSONB, TEXT, DECIMAL);
+
+CREATE OR REPLACE FUNCTION public.create_order_from_cart(
+    p_clerk_id TEXT,
+    p_shipping_address JSONB,
+    p_order_note TEXT DEFAULT NULL,
+    p_expected_total DECIMAL(10,2) DEFAULT NULL,
+    p_coupon_code TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    v_order_id UUID;
+    v_subtotal DECIMAL(10,2) := 0;
+    v_item_count INTEGER := 0;
+    v_item RECORD;
+    v_coupon_id UUID;
+    v_coupon_code TEXT;
+    v_discount DECIMAL(10,2) := 0;
+BEGIN
+    -- 1. 장바구니 상품 잠금 (상품 id 순서로 잠가 교착 상태 방지)
+    FOR v_item IN
+        SELECT c.product_id, c.quantity, c.price_at_add,
+               p.name, p.price, p.stock_quantity, p.is_active
+        FROM public.cart_items c
+        JOIN public.products p ON p.id = c.product_id
+        WHERE c.clerk_id = p_clerk_id
+        ORDER BY p.id
+        FOR UPDATE OF c, p
+    LOOP
+        IF NOT v_item.is_active THEN
+            RAISE EXCEPTION USING
+                ERRCODE = 'P0001',
+                MESSAGE = 'PRODUCT_UNAVAILABLE',
+                DETAIL = v_item.name;
+        END IF;
+
+        IF v_item.stock_quantity < v_item.quantity THEN
+            RAISE EXCEPTION USING
+                ERRCODE = 'P0001',
+                MESSAGE = 'OUT_OF_STOCK',
+                DETAIL = v_item.name;
+        END IF;
+
+        IF v_item.price_at_add <> v_item.price THEN
+            RAISE EXCEPTION USING
+                ERRCODE = 'P0001',
+                MESSAGE = 'CART_CHANGED',
+                DETAIL = v_item.name;
+        END IF;
+
+        v_subtotal := v_subtotal + v_item.price * v_item.quantity;
+        v_item_count := v_item_count + 1;
+    END LOOP;
+
+    IF v_item_count = 0 THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'CART_EMPTY';
+    END IF;
+
+    -- 2. 쿠폰 할인 계산
+    IF p_coupon_code IS NOT NULL THEN
+        SELECT d.coupon_id, d.coupon_code, d.discount_amount
+        INTO v_coupon_id, v_coupon_code, v_discount
+        FROM public.calculate_coupon_discount(p_clerk_id, p_coupon_code) d;
+    END IF;
+
+    -- 3. 가격 변경 확인
+    IF p_expected_total IS NOT NULL AND v_subtotal - v_discount <> p_expected_total THEN
+        RAISE EXCEPTION USING
+            ERRCODE = 'P0001',
+            MESSAGE = 'PRICE_CHANGED',
+            DETAIL = (v_subtotal - v_discount)::TEXT;
+    END IF;
+
+    -- 4. 주문 생성
+    INSERT INTO public.orders (
+        clerk_id, subtotal_amount, discount_amount, total_amount,
+        coupon_code, status, shipping_address, order_note
+    )
+    VALUES (
+        p_clerk_id, v_subtotal, v_discount, v_subtotal - v_discount,
+        v_coupon_code, 'pending', p_shipping_address, p_order_note
+    )
+    RETURNING id INTO v_order_id;
+
+    IF v_discount > 0 THEN
+        INSERT INTO public.coupon_redemptions (coupon_id, clerk_id, order_id, discount_amount)
+        VALUES (v_coupon_id, p_clerk_id, v_order_id, v_discount);
+    END IF;
+
+    -- 5. 주문 상세 저장 (현재 상품명/가격 스냅샷)
+    INSERT INTO public.order_items (order_id, product_id, product_name, quantity, price)
+    SELECT v_order_id, p.id, p.name, c.quantity, p.price
+    FROM public.cart_items c
+    JOIN public.products p ON p.id = c.product_id
+    WHERE c.clerk_id = p_clerk_id;
+
+    -- 6. 재고 차감
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity - c.quantity
+    FROM public.cart_items c
+    WHERE c.clerk_id = p_clerk_id
+      AND c.product_id = p.id;
+
+    -- 7. 장바구니 비우기
+    DELETE FROM public.cart_items
+    WHERE clerk_id = p_clerk_id;
+
+    RETURN v_order_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_order_from_cart(TEXT, JSONB, TEXT, DECIMAL, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.create_order_from_cart(TEXT, JSONB, TEXT, DECIMAL, TEXT) TO service_role;
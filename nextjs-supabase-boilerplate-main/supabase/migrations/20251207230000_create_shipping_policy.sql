@@ -0,0 +1,231 @@
+-- ==========================================
+-- 배송비 정책
+-- 기본 배송비, 무료 배송 기준 금액, 제주/도서산간 추가 배송비를 DB에서 설정합니다.
+-- 장바구니/주문서 화면(calculate_shipping_fee)과 주문 생성(create_order_from_cart)이
+-- 같은 함수로 배송비를 계산하고, orders.shipping_fee에 저장한 뒤 결제금액(total_amount)에 포함합니다.
+--
+-- - 무료 배송 기준은 쿠폰 할인 전 상품 금액(subtotal_amount) 기준
+-- - 추가 배송비는 무료 배송이어도 부과하며, 우편번호 앞자리(zip_prefix)가 가장 길게 일치하는 지역을 적용
+-- - 정책 변경은 Supabase Dashboard 또는 SQL로 합니다. 예:
+--   UPDATE public.shipping_policy SET base_fee = 3500, free_shipping_threshold = 70000;
+-- ==========================================
+
+-- 1. 기본 배송비 정책 (한 행만 저장)
+CREATE TABLE IF NOT EXISTS public.shipping_policy (
+    id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+    base_fee DECIMAL(10,2) NOT NULL CHECK (base_fee >= 0),
+    -- 이 금액 이상 주문하면 기본 배송비 무료 (NULL이면 무료 배송 없음)
+    free_shipping_threshold DECIMAL(10,2) CHECK (free_shipping_threshold > 0),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE TRIGGER set_updated_at_shipping_policy
+    BEFORE UPDATE ON public.shipping_policy
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+INSERT INTO public.shipping_policy (base_fee, free_shipping_threshold)
+VALUES (3000, 50000)
+ON CONFLICT (id) DO NOTHING;
+
+-- 2. 추가 배송비 지역 (우편번호 앞자리 기준)
+CREATE TABLE IF NOT EXISTS public.shipping_remote_areas (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    zip_prefix TEXT NOT NULL UNIQUE CHECK (zip_prefix ~ '^[0-9]{1,5}$'),
+    name TEXT NOT NULL,
+    extra_fee DECIMAL(10,2) NOT NULL CHECK (extra_fee > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+INSERT INTO public.shipping_remote_areas (zip_prefix, name, extra_fee) VALUES
+    ('63', '제주', 3000),
+    ('402', '울릉도', 5000),
+    ('231', '옹진군 도서', 5000)
+ON CONFLICT (zip_prefix) DO NOTHING;
+
+-- 3. RLS (배송비 정책은 누구나 조회 가능, 변경은 service_role만)
+ALTER TABLE public.shipping_policy ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipping_remote_areas ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.shipping_policy FROM anon, authenticated;
+REVOKE ALL ON TABLE public.shipping_remote_areas FROM anon, authenticated;
+
+GRANT SELECT ON TABLE public.shipping_policy TO anon, authenticated;
+GRANT SELECT ON TABLE public.shipping_remote_areas TO anon, authenticated;
+
+GRANT ALL ON TABLE public.shipping_policy TO service_role;
+GRANT ALL ON TABLE public.shipping_remote_areas TO service_role;
+
+CREATE POLICY "Anyone can view shipping policy"
+ON public.shipping_policy
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+CREATE POLICY "Anyone can view shipping remote areas"
+ON public.shipping_remote_areas
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- 4. 배송비 계산
+-- p_zip_code를 생략하면(장바구니 화면) 추가 배송비 없이 계산합니다.
+CREATE OR REPLACE FUNCTION public.calculate_shipping_fee(
+    p_subtotal DECIMAL(10,2),
+    p_zip_code TEXT DEFAULT NULL
+)
+RETURNS DECIMAL(10,2)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+    SELECT COALESCE((
+        SELECT CASE
+            WHEN s.free_shipping_threshold IS NOT NULL AND p_subtotal >= s.free_shipping_threshold THEN 0
+            ELSE s.base_fee
+        END
+        FROM public.shipping_policy s
+    ), 0)
+    + COALESCE((
+        SELECT r.extra_fee
+        FROM public.shipping_remote_areas r
+        WHERE p_zip_code LIKE r.zip_prefix || '%'
+        ORDER BY length(r.zip_prefix) DESC
+        LIMIT 1
+    ), 0);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calculate_shipping_fee(DECIMAL, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.calculate_shipping_fee(DECIMAL, TEXT) TO anon, authenticated, service_role;
+
+-- 5. 주문 배송비 컬럼 추가 (기존 주문은 배송비 없음)
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS shipping_fee DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_amounts_check;
+ALTER TABLE public.orders ADD CONSTRAINT orders_amounts_check
+    CHECK (
+        discount_amount >= 0
+        AND shipping_fee >= 0
+        AND total_amount = subtotal_amount - discount_amount + shipping_fee
+    );
+
+-- 6. 주문 생성 시 배송비 포함
+-- p_expected_total은 쿠폰 할인과 배송비를 반영한 최종 결제금액입니다.
+CREATE OR REPLACE FUNCTION public.create_order_from_cart(
+    p_clerk_id TEXT,
+    p_shipping_address JSONB,
+    p_order_note TEXT DEFAULT NULL,
+    p_expected_total DECIMAL(10,2) DEFAULT NULL,
+    p_coupon_code TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    v_order_id UUID;
+    v_subtotal DECIMAL(10,2) := 0;
+    v_item_count INTEGER := 0;
+    v_item RECORD;
+    v_coupon_id UUID;
+    v_coupon_code TEXT;
+    v_discount DECIMAL(10,2) := 0;
+    v_shipping_fee DECIMAL(10,2);
+    v_total DECIMAL(10,2);
+BEGIN
+    -- 1. 장바구니 상품 잠금 (상품 id 순서로 잠가 교착 상태 방지)
+    FOR v_item IN
+        SELECT c.product_id, c.quantity, c.price_at_add,
+               p.name, p.price, p.stock_quantity, p.is_active
+        FROM public.cart_items c
+        JOIN public.products p ON p.id = c.product_id
+        WHERE c.clerk_id = p_clerk_id
+        ORDER BY p.id
+        FOR UPDATE OF c, p
+    LOOP
+        IF NOT v_item.is_active THEN
+            RAISE EXCEPTION USING
+                ERRCODE = 'P0001',
+                MESSAGE = 'PRODUCT_UNAVAILABLE',
+                DETAIL = v_item.name;
+        END IF;
+
+        IF v_item.stock_quantity < v_item.quantity THEN
+            RAISE EXCEPTION USING
+                ERRCODE = 'P0001',
+                MESSAGE = 'OUT_OF_STOCK',
+                DETAIL = v_item.name;
+        END IF;
+
+        IF v_item.price_at_add <> v_item.price THEN
+            RAISE EXCEPTION USING
+                ERRCODE = 'P0001',
+                MESSAGE = 'CART_CHANGED',
+                DETAIL = v_item.name;
+        END IF;
+
+        v_subtotal := v_subtotal + v_item.price * v_item.quantity;
+        v_item_count := v_item_count + 1;
+    END LOOP;
+
+    IF v_item_count = 0 THEN
+        RAISE EXCEPTION USING ERRCODE = 'P0001', MESSAGE = 'CART_EMPTY';
+    END IF;
+
+    -- 2. 쿠폰 할인 계산
+    IF p_coupon_code IS NOT NULL THEN
+        SELECT d.coupon_id, d.coupon_code, d.discount_amount
+        INTO v_coupon_id, v_coupon_code, v_discount
+        FROM public.calculate_coupon_discount(p_clerk_id, p_coupon_code) d;
+    END IF;
+
+    -- 3. 배송비 계산 (배송지 우편번호 기준)
+    v_shipping_fee := public.calculate_shipping_fee(v_subtotal, p_shipping_address->>'zipCode');
+    v_total := v_subtotal - v_discount + v_shipping_fee;
+
+    -- 4. 가격 변경 확인
+    IF p_expected_total IS NOT NULL AND v_total <> p_expected_total THEN
+        RAISE EXCEPTION USING
+            ERRCODE = 'P0001',
+            MESSAGE = 'PRICE_CHANGED',
+            DETAIL = v_total::TEXT;
+    END IF;
+
+    -- 5. 주문 생성
+    INSERT INTO public.orders (
+        clerk_id, subtotal_amount, discount_amount, shipping_fee, total_amount,
+        coupon_code, status, shipping_address, order_note
+    )
+    VALUES (
+        p_clerk_id, v_subtotal, v_discount, v_shipping_fee, v_total,
+        v_coupon_code, 'pending', p_shipping_address, p_order_note
+    )
+    RETURNING id INTO v_order_id;
+
+    IF v_discount > 0 THEN
+        INSERT INTO public.coupon_redemptions (coupon_id, clerk_id, order_id, discount_amount)
+        VALUES (v_coupon_id, p_clerk_id, v_order_id, v_discount);
+    END IF;
+
+    -- 6. 주문 상세 저장 (현재 상품명/가격 스냅샷)
+    INSERT INTO public.order_items (order_id, product_id, product_name, quantity, price)
+    SELECT v_order_id, p.id, p.name, c.quantity, p.price
+    FROM public.cart_items c
+    JOIN public.products p ON p.id = c.product_id
+    WHERE c.clerk_id = p_clerk_id;
+
+    -- 7. 재고 차감
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity - c.quantity
+    FROM public.cart_items c
+    WHERE c.clerk_id = p_clerk_id
+      AND c.product_id = p.id;
+
+    -- 8. 장바구니 비우기
+    DELETE FROM public.cart_items
+    WHERE clerk_id = p_clerk_id;
+
+    RETURN v_order_id;
+END;
+$$;
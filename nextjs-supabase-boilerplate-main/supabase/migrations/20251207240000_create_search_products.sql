@@ -0,0 +1,100 @@
+-- ==========================================
+-- 상품 검색 (pg_trgm)
+-- 상품명, 설명, 카테고리를 trigram으로 검색하고 관련도 순으로 정렬합니다.
+-- 상품 목록 페이지(lib/repositories/products.ts의 listActive)가 RPC로 호출하며,
+-- 페이지네이션과 전체 개수는 PostgREST의 range/count를 그대로 사용합니다.
+--
+-- - 검색어가 포함된 상품 + 오타가 있어도 단어 유사도(word_similarity)가 높은 상품을 반환
+-- - 관련도: 상품명에 포함 > 상품명 유사도 > 설명/카테고리 유사도
+-- - 검색어의 %, _ 는 와일드카드가 아닌 문자로 검색
+-- - 카테고리는 영문 값과 한글 이름(types/product.ts의 CATEGORY_LABELS) 모두 검색
+-- ==========================================
+
+-- 1. pg_trgm 확장 (Supabase는 extensions 스키마에 설치)
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- 2. 검색 대상 문자열 (인덱스와 검색 함수가 같은 식을 사용)
+CREATE OR REPLACE FUNCTION public.product_search_document(
+    p_name TEXT,
+    p_description TEXT,
+    p_category TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+SET search_path = ''
+AS $$
+    SELECT lower(
+        p_name || ' ' || COALESCE(p_description, '') || ' ' || COALESCE(p_category, '') || ' ' ||
+        CASE p_category
+            WHEN 'electronics' THEN '전자제품'
+            WHEN 'clothing' THEN '의류'
+            WHEN 'books' THEN '도서'
+            WHEN 'food' THEN '식품'
+            WHEN 'sports' THEN '스포츠'
+            WHEN 'beauty' THEN '뷰티'
+            WHEN 'home' THEN '생활/가정'
+            ELSE ''
+        END
+    );
+$$;
+
+-- 3. trigram 인덱스
+CREATE INDEX IF NOT EXISTS idx_products_search_document
+    ON public.products
+    USING gin (public.product_search_document(name, description, category) extensions.gin_trgm_ops);
+
+-- 4. 검색 함수
+-- p_query가 없으면 검색 없이 카테고리/정렬만 적용합니다.
+-- p_sort: relevance(관련도순, 검색어가 없으면 최신순) / newest / name_asc
+CREATE OR REPLACE FUNCTION public.search_products(
+    p_query TEXT DEFAULT NULL,
+    p_category TEXT DEFAULT NULL,
+    p_sort TEXT DEFAULT 'relevance'
+)
+RETURNS SETOF public.products
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+    WITH params AS (
+        SELECT
+            NULLIF(lower(trim(p_query)), '') AS q,
+            -- LIKE 패턴에서 \, %, _ 를 문자로 취급
+            '%' || replace(replace(replace(lower(trim(p_query)), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+    ),
+    ranked AS (
+        SELECT
+            p AS product,
+            CASE
+                WHEN params.q IS NULL THEN 0
+                ELSE
+                    (CASE WHEN lower(p.name) LIKE params.pattern THEN 1 ELSE 0 END)
+                    + extensions.word_similarity(params.q, lower(p.name))
+                    + extensions.word_similarity(
+                        params.q,
+                        public.product_search_document(p.name, p.description, p.category)
+                      ) * 0.5
+            END AS rank
+        FROM public.products p, params
+        WHERE p.is_active = true
+          AND (p_category IS NULL OR p.category = p_category)
+          AND (
+              params.q IS NULL
+              OR public.product_search_document(p.name, p.description, p.category) LIKE params.pattern
+              OR params.q OPERATOR(extensions.<%)
+                  public.product_search_document(p.name, p.description, p.category)
+          )
+    )
+    SELECT (r.product).*
+    FROM ranked r
+    ORDER BY
+        CASE WHEN p_sort = 'relevance' THEN r.rank END DESC,
+        CASE WHEN p_sort = 'name_asc' THEN (r.product).name END ASC,
+        (r.product).created_at DESC,
+        (r.product).id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_products(TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT, TEXT, TEXT) TO anon, authenticated, service_role;
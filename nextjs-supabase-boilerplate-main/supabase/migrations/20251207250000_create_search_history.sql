@@ -0,0 +1,133 @@
+-- ==========================================
+-- 검색어 자동완성 및 최근 검색어
+-- 상품 목록 검색창(components/products/SearchAutocomplete.tsx)에서 사용합니다.
+--
+-- - suggest_products: 입력 중인 검색어와 비슷한 상품명 (/api/search/suggestions)
+-- - search_history: 로그인한 사용자의 최근 검색어
+--   (비로그인 사용자는 브라우저 localStorage에 저장, lib/search-history.ts)
+-- - 같은 검색어는 한 번만 저장하고 검색 시각만 갱신, 사용자당 최근 10개만 유지
+-- ==========================================
+
+-- 1. 최근 검색어 테이블
+CREATE TABLE IF NOT EXISTS public.search_history (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    clerk_id TEXT NOT NULL REFERENCES public.users(clerk_id) ON DELETE CASCADE,
+    keyword TEXT NOT NULL CHECK (length(keyword) BETWEEN 1 AND 50),
+    searched_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    UNIQUE (clerk_id, keyword)
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_history_clerk_searched_at
+    ON public.search_history(clerk_id, searched_at DESC);
+
+-- 2. 사용자당 최근 10개만 유지 (lib/search-history.ts의 MAX_RECENT_SEARCHES)
+-- 본인 행만 삭제하므로 호출한 사용자 권한(RLS 적용)으로 실행합니다.
+CREATE OR REPLACE FUNCTION public.prune_search_history()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+    DELETE FROM public.search_history
+    WHERE clerk_id = NEW.clerk_id
+      AND id NOT IN (
+          SELECT h.id
+          FROM public.search_history h
+          WHERE h.clerk_id = NEW.clerk_id
+          ORDER BY h.searched_at DESC
+          LIMIT 10
+      );
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prune_search_history ON public.search_history;
+CREATE TRIGGER prune_search_history
+    AFTER INSERT ON public.search_history
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prune_search_history();
+
+-- 3. RLS: 본인 검색어만 조회/저장/삭제
+ALTER TABLE public.search_history ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.search_history FROM anon, authenticated;
+
+GRANT SELECT, INSERT, DELETE ON TABLE public.search_history TO authenticated;
+GRANT UPDATE (searched_at) ON TABLE public.search_history TO authenticated;
+GRANT ALL ON TABLE public.search_history TO service_role;
+
+CREATE POLICY "Users can view their own search history"
+ON public.search_history
+FOR SELECT
+TO authenticated
+USING (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+CREATE POLICY "Users can insert their own search history"
+ON public.search_history
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+CREATE POLICY "Users can update their own search history"
+ON public.search_history
+FOR UPDATE
+TO authenticated
+USING (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+)
+WITH CHECK (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+CREATE POLICY "Users can delete their own search history"
+ON public.search_history
+FOR DELETE
+TO authenticated
+USING (
+  (SELECT auth.jwt()->>'sub') = clerk_id
+);
+
+-- 4. 상품명 자동완성
+-- 판매 중인 상품 중 상품명이 검색어로 시작 > 검색어를 포함 > 비슷한(오타) 순으로 반환합니다.
+CREATE OR REPLACE FUNCTION public.suggest_products(
+    p_query TEXT,
+    p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+    id UUID,
+    name TEXT,
+    category TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+    WITH params AS (
+        SELECT
+            lower(trim(p_query)) AS q,
+            -- LIKE 패턴에서 \, %, _ 를 문자로 취급
+            replace(replace(replace(lower(trim(p_query)), '\', '\\'), '%', '\%'), '_', '\_') AS escaped
+    )
+    SELECT p.id, p.name, p.category
+    FROM public.products p, params
+    WHERE p.is_active = true
+      AND params.q <> ''
+      AND (
+          lower(p.name) LIKE '%' || params.escaped || '%'
+          OR params.q OPERATOR(extensions.<%) lower(p.name)
+      )
+    ORDER BY
+        lower(p.name) LIKE params.escaped || '%' DESC,
+        lower(p.name) LIKE '%' || params.escaped || '%' DESC,
+        extensions.word_similarity(params.q, lower(p.name)) DESC,
+        p.name
+    LIMIT LEAST(GREATEST(p_limit, 1), 10);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.suggest_products(TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.suggest_products(TEXT, INTEGER) TO anon, authenticated, service_role;
@@ -0,0 +1,85 @@
+-- ==========================================
+-- 상품 목록 가격/판매량 정렬 및 가격대/재고 필터
+-- search_products에 필터와 정렬 방식을 추가합니다.
+--
+-- - p_min_price, p_max_price: 가격 범위 (NULL이면 제한 없음)
+-- - p_in_stock: true이면 품절(stock_quantity = 0) 상품 제외
+-- - p_sort: relevance / newest / name_asc / price_asc / price_desc / best_selling
+-- - 판매량: 결제 완료 이후(confirmed, shipped, delivered) 주문의 수량에서 취소 수량을 뺀 값
+--   order_items는 본인 주문만 조회할 수 있으므로(RLS) 함수 소유자 권한으로 집계합니다.
+--   (상품 행만 반환하고 주문 정보는 노출하지 않음)
+-- ==========================================
+
+-- 인자가 추가되므로 기존 함수를 삭제하고 다시 생성합니다.
+DROP FUNCTION IF EXISTS public.search_products(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.search_products(
+    p_query TEXT DEFAULT NULL,
+    p_category TEXT DEFAULT NULL,
+    p_sort TEXT DEFAULT 'relevance',
+    p_min_price DECIMAL(10,2) DEFAULT NULL,
+    p_max_price DECIMAL(10,2) DEFAULT NULL,
+    p_in_stock BOOLEAN DEFAULT false
+)
+RETURNS SETOF public.products
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+    WITH params AS (
+        SELECT
+            NULLIF(lower(trim(p_query)), '') AS q,
+            -- LIKE 패턴에서 \, %, _ 를 문자로 취급
+            '%' || replace(replace(replace(lower(trim(p_query)), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+    ),
+    ranked AS (
+        SELECT
+            p AS product,
+            CASE
+                WHEN params.q IS NULL THEN 0
+                ELSE
+                    (CASE WHEN lower(p.name) LIKE params.pattern THEN 1 ELSE 0 END)
+                    + extensions.word_similarity(params.q, lower(p.name))
+                    + extensions.word_similarity(
+                        params.q,
+                        public.product_search_document(p.name, p.description, p.category)
+                      ) * 0.5
+            END AS rank,
+            -- 판매량순 정렬일 때만 집계
+            CASE
+                WHEN p_sort = 'best_selling' THEN (
+                    SELECT COALESCE(SUM(oi.quantity - oi.cancelled_quantity), 0)
+                    FROM public.order_items oi
+                    JOIN public.orders o ON o.id = oi.order_id
+                    WHERE oi.product_id = p.id
+                      AND o.status IN ('confirmed', 'shipped', 'delivered')
+                )
+            END AS sales
+        FROM public.products p, params
+        WHERE p.is_active = true
+          AND (p_category IS NULL OR p.category = p_category)
+          AND (p_min_price IS NULL OR p.price >= p_min_price)
+          AND (p_max_price IS NULL OR p.price <= p_max_price)
+          AND (NOT p_in_stock OR p.stock_quantity > 0)
+          AND (
+              params.q IS NULL
+              OR public.product_search_document(p.name, p.description, p.category) LIKE params.pattern
+              OR params.q OPERATOR(extensions.<%)
+                  public.product_search_document(p.name, p.description, p.category)
+          )
+    )
+    SELECT (r.product).*
+    FROM ranked r
+    ORDER BY
+        CASE WHEN p_sort = 'relevance' THEN r.rank END DESC,
+        CASE WHEN p_sort = 'best_selling' THEN r.sales END DESC,
+        CASE WHEN p_sort = 'price_asc' THEN (r.product).price END ASC,
+        CASE WHEN p_sort = 'price_desc' THEN (r.product).price END DESC,
+        CASE WHEN p_sort = 'name_asc' THEN (r.product).name END ASC,
+        (r.product).created_at DESC,
+        (r.product).id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_products(TEXT, TEXT, TEXT, DECIMAL, DECIMAL, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT, TEXT, TEXT, DECIMAL, DECIMAL, BOOLEAN) TO anon, authenticated, service_role;
@@ -0,0 +1,235 @@
+-- ==========================================
+-- 상품 카테고리
+-- 코드에 고정되어 있던 카테고리(types/product.ts의 ProductCategory, CATEGORY_LABELS)를
+-- categories 테이블로 옮기고 products.category를 외래 키로 연결합니다.
+-- 관리자 카테고리 관리(/admin/categories)에서 배포 없이 추가/수정할 수 있습니다.
+--
+-- - slug: URL(/products?category=...)과 products.category에 저장하는 값
+-- - color, icon: lib/categories.ts에 정의된 색상/아이콘 키 (Tailwind 클래스와 아이콘은 코드에서 매핑)
+-- - parent_slug: 하위 카테고리의 상위 카테고리 (2단계까지)
+--   상위 카테고리로 필터링하면 하위 카테고리 상품도 함께 조회합니다.
+-- - 상품이 있는 카테고리는 삭제할 수 없으므로 is_active로 숨깁니다.
+-- ==========================================
+
+-- 1. 카테고리 테이블
+CREATE TABLE IF NOT EXISTS public.categories (
+    -- "all"은 상품 목록의 전체 필터로 사용하므로 제외
+    slug TEXT PRIMARY KEY CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND length(slug) <= 30 AND slug <> 'all'),
+    label TEXT NOT NULL CHECK (length(trim(label)) BETWEEN 1 AND 30),
+    color TEXT NOT NULL DEFAULT 'gray' CHECK (
+        color IN ('blue', 'pink', 'amber', 'green', 'red', 'purple', 'teal', 'indigo', 'gray')
+    ),
+    icon TEXT NOT NULL DEFAULT 'shopping-bag' CHECK (
+        icon IN (
+            'shopping-bag', 'laptop', 'shirt', 'book-open', 'utensils', 'dumbbell',
+            'sparkles', 'house', 'gift', 'baby', 'car', 'gamepad', 'music', 'dog'
+        )
+    ),
+    sort_order INTEGER NOT NULL DEFAULT 0,
+    parent_slug TEXT REFERENCES public.categories(slug) ON UPDATE CASCADE ON DELETE RESTRICT,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    CHECK (parent_slug IS NULL OR parent_slug <> slug)
+);
+
+CREATE INDEX IF NOT EXISTS idx_categories_parent_slug
+    ON public.categories(parent_slug, sort_order);
+
+CREATE TRIGGER set_updated_at_categories
+    BEFORE UPDATE ON public.categories
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+-- 2. 하위 카테고리는 2단계까지
+-- 상위 카테고리가 다른 카테고리의 하위이거나, 하위 카테고리가 있는 카테고리를 하위로 옮기면 오류
+CREATE OR REPLACE FUNCTION public.check_category_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+    IF NEW.parent_slug IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.categories
+        WHERE slug = NEW.parent_slug AND parent_slug IS NOT NULL
+    ) OR EXISTS (
+        SELECT 1 FROM public.categories
+        WHERE parent_slug = NEW.slug
+    ) THEN
+        RAISE EXCEPTION USING
+            ERRCODE = 'P0001',
+            MESSAGE = 'CATEGORY_DEPTH_EXCEEDED',
+            DETAIL = NEW.slug;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_category_parent ON public.categories;
+CREATE TRIGGER check_category_parent
+    BEFORE INSERT OR UPDATE OF parent_slug ON public.categories
+    FOR EACH ROW
+    EXECUTE FUNCTION public.check_category_parent();
+
+-- 3. 기존 카테고리
+INSERT INTO public.categories (slug, label, color, icon, sort_order) VALUES
+    ('electronics', '전자제품', 'blue', 'laptop', 10),
+    ('clothing', '의류', 'pink', 'shirt', 20),
+    ('books', '도서', 'amber', 'book-open', 30),
+    ('food', '식품', 'green', 'utensils', 40),
+    ('sports', '스포츠', 'red', 'dumbbell', 50),
+    ('beauty', '뷰티', 'purple', 'sparkles', 60),
+    ('home', '생활/가정', 'teal', 'house', 70)
+ON CONFLICT (slug) DO NOTHING;
+
+-- 4. RLS (누구나 조회 가능, 변경은 service_role만)
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+REVOKE ALL ON TABLE public.categories FROM anon, authenticated;
+
+GRANT SELECT ON TABLE public.categories TO anon, authenticated;
+GRANT ALL ON TABLE public.categories TO service_role;
+
+CREATE POLICY "Anyone can view categories"
+ON public.categories
+FOR SELECT
+TO anon, authenticated
+USING (true);
+
+-- 5. products.category → categories.slug 외래 키
+-- 대소문자/공백이 섞인 값은 정리하고, 없는 카테고리는 미분류(NULL)로 둡니다.
+UPDATE public.products
+SET category = NULLIF(lower(trim(category)), '')
+WHERE category IS DISTINCT FROM NULLIF(lower(trim(category)), '');
+
+UPDATE public.products p
+SET category = NULL
+WHERE p.category IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.categories c WHERE c.slug = p.category);
+
+ALTER TABLE public.products
+    ADD CONSTRAINT products_category_fkey
+    FOREIGN KEY (category) REFERENCES public.categories(slug)
+    ON UPDATE CASCADE ON DELETE RESTRICT;
+
+-- 6. 쿠폰 적용 카테고리
+-- 고정 목록 CHECK 대신 카테고리 slug 배열로 저장합니다. (없는 slug는 어떤 상품에도 적용되지 않음)
+ALTER TABLE public.coupons DROP CONSTRAINT IF EXISTS coupons_categories_check;
+
+-- 7. 검색 대상 문자열에서 고정된 카테고리 이름 제거
+-- 카테고리 이름은 search_products에서 categories 테이블로 검색합니다.
+DROP INDEX IF EXISTS public.idx_products_search_document;
+
+CREATE OR REPLACE FUNCTION public.product_search_document(
+    p_name TEXT,
+    p_description TEXT,
+    p_category TEXT
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+SET search_path = ''
+AS $$
+    SELECT lower(p_name || ' ' || COALESCE(p_description, '') || ' ' || COALESCE(p_category, ''));
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_document
+    ON public.products
+    USING gin (public.product_search_document(name, description, category) extensions.gin_trgm_ops);
+
+-- 8. 상품 검색
+-- 20251207260000_add_search_products_filters.sql에서 바뀐 점:
+-- - p_category가 상위 카테고리이면 하위 카테고리 상품 포함
+-- - 카테고리 이름(categories.label)이 검색어와 일치하는 상품 포함
+CREATE OR REPLACE FUNCTION public.search_products(
+    p_query TEXT DEFAULT NULL,
+    p_category TEXT DEFAULT NULL,
+    p_sort TEXT DEFAULT 'relevance',
+    p_min_price DECIMAL(10,2) DEFAULT NULL,
+    p_max_price DECIMAL(10,2) DEFAULT NULL,
+    p_in_stock BOOLEAN DEFAULT false
+)
+RETURNS SETOF public.products
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+    WITH params AS (
+        SELECT
+            NULLIF(lower(trim(p_query)), '') AS q,
+            -- LIKE 패턴에서 \, %, _ 를 문자로 취급
+            '%' || replace(replace(replace(lower(trim(p_query)), '\', '\\'), '%', '\%'), '_', '\_') || '%' AS pattern
+    ),
+    selected_categories AS (
+        SELECT c.slug
+        FROM public.categories c
+        WHERE c.slug = p_category OR c.parent_slug = p_category
+    ),
+    label_matches AS (
+        SELECT c.slug
+        FROM public.categories c, params
+        WHERE params.q IS NOT NULL
+          AND (
+              lower(c.label) LIKE params.pattern
+              OR params.q OPERATOR(extensions.<%) lower(c.label)
+          )
+    ),
+    ranked AS (
+        SELECT
+            p AS product,
+            CASE
+                WHEN params.q IS NULL THEN 0
+                ELSE
+                    (CASE WHEN lower(p.name) LIKE params.pattern THEN 1 ELSE 0 END)
+                    + extensions.word_similarity(params.q, lower(p.name))
+                    + extensions.word_similarity(
+                        params.q,
+                        public.product_search_document(p.name, p.description, p.category)
+                      ) * 0.5
+                    + (CASE WHEN p.category IN (SELECT slug FROM label_matches) THEN 0.5 ELSE 0 END)
+            END AS rank,
+            -- 판매량순 정렬일 때만 집계
+            CASE
+                WHEN p_sort = 'best_selling' THEN (
+                    SELECT COALESCE(SUM(oi.quantity - oi.cancelled_quantity), 0)
+                    FROM public.order_items oi
+                    JOIN public.orders o ON o.id = oi.order_id
+                    WHERE oi.product_id = p.id
+                      AND o.status IN ('confirmed', 'shipped', 'delivered')
+                )
+            END AS sales
+        FROM public.products p, params
+        WHERE p.is_active = true
+          AND (p_category IS NULL OR p.category IN (SELECT slug FROM selected_categories))
+          AND (p_min_price IS NULL OR p.price >= p_min_price)
+          AND (p_max_price IS NULL OR p.price <= p_max_price)
+          AND (NOT p_in_stock OR p.stock_quantity > 0)
+          AND (
+              params.q IS NULL
+              OR public.product_search_document(p.name, p.description, p.category) LIKE params.pattern
+              OR params.q OPERATOR(extensions.<%)
+                  public.product_search_document(p.name, p.description, p.category)
+              OR p.category IN (SELECT slug FROM label_matches)
+          )
+    )
+    SELECT (r.product).*
+    FROM ranked r
+    ORDER BY
+        CASE WHEN p_sort = 'relevance' THEN r.rank END DESC,
+        CASE WHEN p_sort = 'best_selling' THEN r.sales END DESC,
+        CASE WHEN p_sort = 'price_asc' THEN (r.product).price END ASC,
+        CASE WHEN p_sort = 'price_desc' THEN (r.product).price END DESC,
+        CASE WHEN p_sort = 'name_asc' THEN (r.product).name END ASC,
+        (r.product).created_at DESC,
+        (r.product).id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.search_products(TEXT, TEXT, TEXT, DECIMAL, DECIMAL, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.search_products(TEXT, TEXT, TEXT, DECIMAL, DECIMAL, BOOLEAN) TO anon, authenticated, service_role;
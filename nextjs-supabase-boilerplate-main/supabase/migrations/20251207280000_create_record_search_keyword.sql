@@ -0,0 +1,26 @@
+-- ==========================================
+-- 최근 검색어 저장 함수
+-- PostgREST upsert(Prefer: resolution=merge-duplicates)는 ON CONFLICT DO UPDATE에서
+-- 요청한 모든 컬럼(clerk_id, keyword 포함)을 갱신하므로, searched_at에만 UPDATE 권한이 있는
+-- authenticated 역할로는 42501(insufficient_privilege) 오류가 발생합니다.
+-- 이미 저장된 검색어는 searched_at만 갱신하도록 함수로 저장합니다.
+--
+-- 호출한 사용자 권한(SECURITY INVOKER)으로 실행하므로 search_history RLS 정책이 그대로 적용됩니다.
+-- ==========================================
+
+CREATE OR REPLACE FUNCTION public.record_search_keyword(
+    p_clerk_id TEXT,
+    p_keyword TEXT
+)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = ''
+AS $$
+    INSERT INTO public.search_history (clerk_id, keyword, searched_at)
+    VALUES (p_clerk_id, p_keyword, now())
+    ON CONFLICT (clerk_id, keyword)
+    DO UPDATE SET searched_at = EXCLUDED.searched_at;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_search_keyword(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_search_keyword(TEXT, TEXT) TO authenticated, service_role;
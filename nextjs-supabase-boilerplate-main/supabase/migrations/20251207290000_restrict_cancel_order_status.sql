@@ -0,0 +1,74 @@
+-- ==========================================
+-- 주문 취소 가능 상태 제한
+-- cancel_order는 결제 대기(pending) 또는 결제 완료(confirmed) 주문만 취소하고 재고를 복구합니다.
+-- 배송이 시작된(shipped, delivered) 주문에 결제 취소 웹훅 등이 들어오면
+-- 재고를 복구하지 않고 관리자 확인 필요로 표시합니다. (상품이 이미 출고되었으므로)
+-- ==========================================
+
+-- 1. 관리자 확인 필요 표시 컬럼
+-- review_requested_at이 NULL이 아니면 자동으로 처리할 수 없어 관리자 확인이 필요한 주문입니다.
+ALTER TABLE public.orders
+    ADD COLUMN IF NOT EXISTS review_requested_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS review_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_orders_review_requested_at
+    ON public.orders(review_requested_at)
+    WHERE review_requested_at IS NOT NULL;
+
+-- 2. 주문 전체 취소
+-- 취소했으면 TRUE, 이미 취소되었거나 없는 주문, 취소할 수 없는 상태의 주문이면 FALSE를 반환합니다.
+CREATE OR REPLACE FUNCTION public.cancel_order(p_order_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    v_status public.order_status;
+BEGIN
+    SELECT status INTO v_status
+    FROM public.orders
+    WHERE id = p_order_id
+    FOR UPDATE;
+
+    IF v_status IS NULL OR v_status = 'cancelled' THEN
+        RETURN FALSE;
+    END IF;
+
+    IF v_status NOT IN ('pending', 'confirmed') THEN
+        UPDATE public.orders
+        SET review_requested_at = COALESCE(review_requested_at, now()),
+            review_reason = 'CANCEL_AFTER_SHIPMENT'
+        WHERE id = p_order_id;
+
+        RAISE WARNING 'cancel_order: order % is %, flagged for review instead of cancelling',
+            p_order_id, v_status;
+
+        RETURN FALSE;
+    END IF;
+
+    UPDATE public.orders
+    SET status = 'cancelled'
+    WHERE id = p_order_id;
+
+    -- 아직 취소되지 않은 수량만 재고 복구
+    UPDATE public.products p
+    SET stock_quantity = p.stock_quantity + oi.quantity
+    FROM (
+        SELECT product_id, SUM(quantity - cancelled_quantity) AS quantity
+        FROM public.order_items
+        WHERE order_id = p_order_id
+        GROUP BY product_id
+    ) oi
+    WHERE p.id = oi.product_id;
+
+    UPDATE public.order_items
+    SET cancelled_quantity = quantity
+    WHERE order_id = p_order_id;
+
+    RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_order(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID) TO service_role;
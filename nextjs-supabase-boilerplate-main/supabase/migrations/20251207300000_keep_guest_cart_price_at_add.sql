@@ -0,0 +1,86 @@
+-- ==========================================
+-- 비로그인 장바구니 병합 시 담은 가격 유지
+-- set_cart_item_price_at_add 트리거는 INSERT마다 price_at_add를 현재 가격으로 덮어쓰므로,
+-- 로그인 전에 담은 뒤 가격이 바뀐 상품도 병합하면 변경 내역 확인(CART_CHANGED) 없이 주문되었습니다.
+--
+-- 병합으로 새로 추가한 항목은 쿠키에 저장된 담은 가격(priceAtAdd)으로 되돌립니다.
+-- (쿠키는 서버가 서명하므로 값을 신뢰할 수 있음, lib/guest-cart.ts)
+-- - 트리거는 그대로 두므로 authenticated의 INSERT는 계속 현재 가격으로 저장
+-- - 이미 담겨 있던 항목은 기존 price_at_add 유지
+-- - priceAtAdd가 없는 이전 형식의 쿠키는 현재 가격으로 저장
+-- ==========================================
+
+-- p_items: [{ "productId": UUID, "quantity": INTEGER, "priceAtAdd": NUMERIC (선택) }, ...]
+-- 반환값: 추가되거나 수량이 바뀐 장바구니 항목 수
+CREATE OR REPLACE FUNCTION public.merge_guest_cart(
+    p_clerk_id TEXT,
+    p_items JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+    v_merged INTEGER;
+    v_existing UUID[];
+BEGIN
+    -- 병합 전에 담겨 있던 상품 (담은 가격을 바꾸지 않음)
+    SELECT COALESCE(array_agg(product_id), '{}')
+    INTO v_existing
+    FROM public.cart_items
+    WHERE clerk_id = p_clerk_id;
+
+    WITH guest AS (
+        SELECT (item->>'productId')::UUID AS product_id,
+               SUM((item->>'quantity')::INTEGER) AS quantity
+        FROM jsonb_array_elements(p_items) AS item
+        GROUP BY 1
+    ),
+    available AS (
+        SELECT g.product_id,
+               LEAST(g.quantity, p.stock_quantity, 99) AS quantity
+        FROM guest g
+        JOIN public.products p ON p.id = g.product_id
+        WHERE p.is_active
+          AND p.stock_quantity > 0
+          AND g.quantity > 0
+    )
+    INSERT INTO public.cart_items (clerk_id, product_id, quantity)
+    SELECT p_clerk_id, product_id, quantity
+    FROM available
+    ON CONFLICT (clerk_id, product_id) DO UPDATE
+    SET quantity = LEAST(
+        public.cart_items.quantity + EXCLUDED.quantity,
+        (SELECT p.stock_quantity FROM public.products p WHERE p.id = EXCLUDED.product_id),
+        99
+    )
+    WHERE public.cart_items.quantity <> LEAST(
+        public.cart_items.quantity + EXCLUDED.quantity,
+        (SELECT p.stock_quantity FROM public.products p WHERE p.id = EXCLUDED.product_id),
+        99
+    );
+
+    GET DIAGNOSTICS v_merged = ROW_COUNT;
+
+    -- 새로 추가한 항목은 트리거가 저장한 현재 가격 대신 비로그인 장바구니에 담은 가격으로 저장
+    UPDATE public.cart_items c
+    SET price_at_add = g.price_at_add
+    FROM (
+        SELECT (item->>'productId')::UUID AS product_id,
+               MIN((item->>'priceAtAdd')::DECIMAL(10,2)) AS price_at_add
+        FROM jsonb_array_elements(p_items) AS item
+        GROUP BY 1
+    ) g
+    WHERE c.clerk_id = p_clerk_id
+      AND c.product_id = g.product_id
+      AND NOT c.product_id = ANY(v_existing)
+      AND g.price_at_add IS NOT NULL
+      AND c.price_at_add <> g.price_at_add;
+
+    RETURN v_merged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_guest_cart(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.merge_guest_cart(TEXT, JSONB) TO service_role;
@@ -0,0 +1,30 @@
+-- ==========================================
+-- 결제 정보 조회 컬럼 제한
+-- payments.raw_response에는 Toss Payment 객체 원본이 저장되어, 주문한 사용자가
+-- 가상계좌 입금 콜백을 검증하는 secret까지 조회할 수 있었습니다.
+--
+-- - secret은 deposit_secret 컬럼으로 옮기고 raw_response에서는 제거
+-- - authenticated는 주문 상세 화면에 표시하는 컬럼만 조회 가능
+--   (raw_response, status_history, deposit_secret 등은 service_role만 조회)
+-- ==========================================
+
+-- 1. 입금 콜백 검증용 secret 컬럼
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS deposit_secret TEXT;
+
+UPDATE public.payments
+SET deposit_secret = raw_response->>'secret',
+    raw_response = raw_response - 'secret'
+WHERE raw_response ? 'secret';
+
+-- 2. authenticated 조회 컬럼 제한 (RLS 정책은 그대로 본인/staff 이상만 행 조회)
+REVOKE SELECT ON TABLE public.payments FROM authenticated;
+GRANT SELECT (
+    id,
+    order_id,
+    method,
+    status,
+    total_amount,
+    approved_at,
+    receipt_url,
+    created_at
+) ON TABLE public.payments TO authenticated;
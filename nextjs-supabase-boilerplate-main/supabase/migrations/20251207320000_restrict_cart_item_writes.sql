@@ -0,0 +1,13 @@
+-- ==========================================
+-- 장바구니 담기/수량 변경을 서버 코드로 제한
+-- authenticated가 cart_items에 직접 INSERT/UPDATE할 수 있어, Server Action의
+-- 판매 중지/재고/최대 수량(99개) 확인을 건너뛰고 브라우저에서 바로 담을 수 있었습니다.
+--
+-- - 담기/수량 변경은 actions/cart.ts에서 확인한 뒤 service_role로만 처리
+-- - 조회와 본인 장바구니 삭제는 그대로 authenticated 허용
+-- ==========================================
+
+REVOKE INSERT, UPDATE ON TABLE public.cart_items FROM authenticated;
+
+DROP POLICY IF EXISTS "Users can insert their own cart items" ON public.cart_items;
+DROP POLICY IF EXISTS "Users can update their own cart items" ON public.cart_items;
@@ -0,0 +1,347 @@
+-- ==========================================
+-- 쇼핑몰 테이블 RLS 테스트 (pgTAP)
+-- 20251207150000_enable_shop_rls.sql, 20251207200000_create_user_addresses.sql,
+-- 20251207220000_create_coupons.sql, 20251207230000_create_shipping_policy.sql,
+-- 20251207250000_create_search_history.sql, 20251207270000_create_categories.sql,
+-- 20251207280000_create_record_search_keyword.sql의 정책이
+-- 다른 사용자의 데이터 접근을 막는지 확인합니다.
+-- 20251207300000_keep_guest_cart_price_at_add.sql의 비로그인 장바구니 병합 가격과
+-- 20251207310000_restrict_payment_columns.sql의 결제 조회 컬럼 제한,
+-- 20251207320000_restrict_cart_item_writes.sql의 장바구니 담기/수량 변경 제한도 확인합니다.
+--
+-- 실행: supabase test db
+-- (로컬 Supabase가 실행 중이어야 하며, 모든 변경은 ROLLBACK 됩니다.)
+-- ==========================================
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(40);
+
+-- ------------------------------------------
+-- 테스트 데이터 (postgres 권한으로 생성)
+-- ------------------------------------------
+INSERT INTO public.products (id, name, price, stock_quantity) VALUES
+    ('00000000-0000-0000-0000-0000000000a1', 'RLS 테스트 상품', 10000, 10);
+
+INSERT INTO public.orders (id, clerk_id, subtotal_amount, total_amount) VALUES
+    ('00000000-0000-0000-0000-00000000a001', 'user_rls_a', 10000, 10000),
+    ('00000000-0000-0000-0000-00000000b001', 'user_rls_b', 20000, 20000);
+
+INSERT INTO public.order_items (order_id, product_id, product_name, quantity, price) VALUES
+    ('00000000-0000-0000-0000-00000000a001', '00000000-0000-0000-0000-0000000000a1', 'RLS 테스트 상품', 1, 10000),
+    ('00000000-0000-0000-0000-00000000b001', '00000000-0000-0000-0000-0000000000a1', 'RLS 테스트 상품', 2, 10000);
+
+INSERT INTO public.payments (order_id, clerk_id, payment_key, status, total_amount, raw_response, deposit_secret) VALUES
+    ('00000000-0000-0000-0000-00000000a001', 'user_rls_a', 'rls_payment_a', 'WAITING_FOR_DEPOSIT', 10000, '{}', 'rls_secret_a');
+
+INSERT INTO public.cart_items (id, clerk_id, product_id, quantity) VALUES
+    ('00000000-0000-0000-0000-0000000ca001', 'user_rls_a', '00000000-0000-0000-0000-0000000000a1', 1),
+    ('00000000-0000-0000-0000-0000000cb001', 'user_rls_b', '00000000-0000-0000-0000-0000000000a1', 1);
+
+INSERT INTO public.coupons (code, name, discount_type, discount_value) VALUES
+    ('RLSTEST', 'RLS 테스트 쿠폰', 'percentage', 10);
+
+INSERT INTO public.users (clerk_id, name) VALUES
+    ('user_rls_a', 'RLS 고객 A'),
+    ('user_rls_b', 'RLS 고객 B');
+
+INSERT INTO public.search_history (clerk_id, keyword) VALUES
+    ('user_rls_a', '노트북'),
+    ('user_rls_b', '운동화');
+
+INSERT INTO public.user_addresses (id, clerk_id, recipient_name, phone, zip_code, address) VALUES
+    ('00000000-0000-0000-0000-00000000da01', 'user_rls_a', '고객 A', '010-0000-0001', '12345', '서울시 A구'),
+    ('00000000-0000-0000-0000-00000000db01', 'user_rls_b', '고객 B', '010-0000-0002', '12345', '서울시 B구');
+
+-- ------------------------------------------
+-- service_role (비로그인 장바구니 병합, /api/sync-user)
+-- ------------------------------------------
+SET LOCAL ROLE service_role;
+
+SELECT is(
+    public.merge_guest_cart(
+        'user_rls_c',
+        '[{"productId": "00000000-0000-0000-0000-0000000000a1", "quantity": 1, "priceAtAdd": 9000}]'
+    ),
+    1,
+    '비로그인 장바구니 상품을 병합한다'
+);
+
+SELECT is(
+    (SELECT price_at_add FROM public.cart_items WHERE clerk_id = 'user_rls_c'),
+    9000.00::DECIMAL(10,2),
+    '새로 병합한 상품은 비로그인 장바구니에 담은 가격을 유지한다'
+);
+
+SELECT public.merge_guest_cart(
+    'user_rls_c',
+    '[{"productId": "00000000-0000-0000-0000-0000000000a1", "quantity": 1, "priceAtAdd": 8000}]'
+);
+
+SELECT is(
+    (SELECT price_at_add FROM public.cart_items WHERE clerk_id = 'user_rls_c'),
+    9000.00::DECIMAL(10,2),
+    '이미 담겨 있던 상품의 담은 가격은 병합으로 바뀌지 않는다'
+);
+
+SELECT isnt_empty(
+    $$ UPDATE public.cart_items SET quantity = 2
+       WHERE clerk_id = 'user_rls_c' RETURNING id $$,
+    'service_role은 재고를 확인한 뒤 장바구니 수량을 변경할 수 있다 (actions/cart.ts)'
+);
+
+RESET ROLE;
+
+-- ------------------------------------------
+-- anon (로그인하지 않은 사용자)
+-- ------------------------------------------
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT isnt_empty(
+    $$ SELECT id FROM public.products WHERE id = '00000000-0000-0000-0000-0000000000a1' $$,
+    'anon은 상품을 조회할 수 있다'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.shipping_policy SET base_fee = 0 $$,
+    '42501', NULL,
+    'anon은 배송비 정책을 변경할 수 없다'
+);
+
+SELECT isnt_empty(
+    $$ SELECT slug FROM public.categories $$,
+    'anon은 카테고리를 조회할 수 있다'
+);
+
+SELECT throws_ok(
+    $$ SELECT id FROM public.orders $$,
+    '42501', NULL,
+    'anon은 주문을 조회할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ SELECT id FROM public.cart_items $$,
+    '42501', NULL,
+    'anon은 장바구니를 조회할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.products SET price = 0 $$,
+    '42501', NULL,
+    'anon은 상품을 수정할 수 없다'
+);
+
+RESET ROLE;
+
+-- ------------------------------------------
+-- user_rls_a (일반 고객)
+-- ------------------------------------------
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "user_rls_a", "role": "authenticated"}', true);
+
+SELECT results_eq(
+    $$ SELECT id FROM public.orders $$,
+    $$ VALUES ('00000000-0000-0000-0000-00000000a001'::UUID) $$,
+    '고객은 자신의 주문만 조회할 수 있다'
+);
+
+SELECT is_empty(
+    $$ SELECT id FROM public.order_items WHERE order_id = '00000000-0000-0000-0000-00000000b001' $$,
+    '고객은 다른 사용자의 주문 상품을 조회할 수 없다'
+);
+
+SELECT results_eq(
+    $$ SELECT id FROM public.cart_items $$,
+    $$ VALUES ('00000000-0000-0000-0000-0000000ca001'::UUID) $$,
+    '고객은 자신의 장바구니만 조회할 수 있다'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.cart_items SET quantity = 3
+       WHERE id = '00000000-0000-0000-0000-0000000ca001' $$,
+    '42501', NULL,
+    '고객은 자신의 장바구니 수량도 직접 변경할 수 없다 (재고 확인을 거치는 서버 코드로만 변경)'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.cart_items SET quantity = 99
+       WHERE id = '00000000-0000-0000-0000-0000000cb001' $$,
+    '42501', NULL,
+    '고객은 다른 사용자의 장바구니를 변경할 수 없다'
+);
+
+SELECT is_empty(
+    $$ DELETE FROM public.cart_items
+       WHERE id = '00000000-0000-0000-0000-0000000cb001' RETURNING id $$,
+    '고객은 다른 사용자의 장바구니를 삭제할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.cart_items (clerk_id, product_id, quantity)
+       VALUES ('user_rls_a', '00000000-0000-0000-0000-0000000000a1', 99) $$,
+    '42501', NULL,
+    '고객은 자신의 장바구니에도 직접 상품을 추가할 수 없다 (재고 확인을 거치는 서버 코드로만 추가)'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.cart_items (clerk_id, product_id, quantity)
+       VALUES ('user_rls_b', '00000000-0000-0000-0000-0000000000a1', 1) $$,
+    '42501', NULL,
+    '고객은 다른 사용자의 장바구니에 상품을 추가할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.cart_items SET clerk_id = 'user_rls_b'
+       WHERE id = '00000000-0000-0000-0000-0000000ca001' $$,
+    '42501', NULL,
+    '고객은 장바구니의 소유자를 변경할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.cart_items SET price_at_add = 1
+       WHERE id = '00000000-0000-0000-0000-0000000ca001' $$,
+    '42501', NULL,
+    '고객은 장바구니에 담은 가격을 변경할 수 없다'
+);
+
+SELECT isnt_empty(
+    $$ SELECT id, order_id, method, status, total_amount, approved_at, receipt_url, created_at
+       FROM public.payments $$,
+    '고객은 자신의 결제 정보를 조회할 수 있다'
+);
+
+SELECT throws_ok(
+    $$ SELECT raw_response FROM public.payments $$,
+    '42501', NULL,
+    '고객은 결제 원본 응답을 조회할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ SELECT deposit_secret FROM public.payments $$,
+    '42501', NULL,
+    '고객은 가상계좌 입금 콜백 secret을 조회할 수 없다'
+);
+
+SELECT results_eq(
+    $$ SELECT id FROM public.user_addresses $$,
+    $$ VALUES ('00000000-0000-0000-0000-00000000da01'::UUID) $$,
+    '고객은 자신의 배송지만 조회할 수 있다'
+);
+
+SELECT is_empty(
+    $$ UPDATE public.user_addresses SET address = '변경'
+       WHERE id = '00000000-0000-0000-0000-00000000db01' RETURNING id $$,
+    '고객은 다른 사용자의 배송지를 변경할 수 없다'
+);
+
+SELECT results_eq(
+    $$ SELECT keyword FROM public.search_history $$,
+    $$ VALUES ('노트북'::TEXT) $$,
+    '고객은 자신의 최근 검색어만 조회할 수 있다'
+);
+
+SELECT lives_ok(
+    $$ SELECT public.record_search_keyword('user_rls_a', '노트북') $$,
+    '고객은 이미 저장된 검색어를 다시 저장할 수 있다 (검색 시각만 갱신)'
+);
+
+SELECT results_eq(
+    $$ SELECT count(*)::INTEGER FROM public.search_history WHERE keyword = '노트북' $$,
+    $$ VALUES (1) $$,
+    '같은 검색어는 한 번만 저장된다'
+);
+
+SELECT throws_ok(
+    $$ SELECT public.record_search_keyword('user_rls_b', '노트북') $$,
+    '42501', NULL,
+    '고객은 다른 사용자의 검색어를 저장할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.orders SET status = 'confirmed'
+       WHERE id = '00000000-0000-0000-0000-00000000a001' $$,
+    '42501', NULL,
+    '고객은 자신의 주문 상태도 직접 변경할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.orders (clerk_id, subtotal_amount, total_amount) VALUES ('user_rls_a', 0, 0) $$,
+    '42501', NULL,
+    '고객은 주문을 직접 생성할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.order_items SET price = 0
+       WHERE order_id = '00000000-0000-0000-0000-00000000a001' $$,
+    '42501', NULL,
+    '고객은 주문 상품 금액을 변경할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.products SET price = 0
+       WHERE id = '00000000-0000-0000-0000-0000000000a1' $$,
+    '42501', NULL,
+    '고객은 상품을 수정할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ SELECT public.cancel_order('00000000-0000-0000-0000-00000000b001') $$,
+    '42501', NULL,
+    '고객은 주문 취소 함수를 직접 호출할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ INSERT INTO public.categories (slug, label) VALUES ('rls-test', 'RLS 테스트') $$,
+    '42501', NULL,
+    '고객은 카테고리를 추가할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ SELECT code FROM public.coupons $$,
+    '42501', NULL,
+    '고객은 쿠폰 목록을 조회할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ SELECT * FROM public.calculate_coupon_discount('user_rls_a', 'RLSTEST') $$,
+    '42501', NULL,
+    '고객은 쿠폰 할인 계산 함수를 직접 호출할 수 없다'
+);
+
+RESET ROLE;
+
+-- ------------------------------------------
+-- staff
+-- ------------------------------------------
+SET LOCAL ROLE authenticated;
+SELECT set_config(
+    'request.jwt.claims',
+    '{"sub": "user_rls_staff", "role": "authenticated", "metadata": {"role": "staff"}}',
+    true
+);
+
+SELECT isnt_empty(
+    $$ SELECT id FROM public.orders WHERE id = '00000000-0000-0000-0000-00000000b001' $$,
+    'staff는 다른 사용자의 주문을 조회할 수 있다'
+);
+
+SELECT is_empty(
+    $$ SELECT id FROM public.cart_items $$,
+    'staff도 다른 사용자의 장바구니는 조회할 수 없다'
+);
+
+SELECT throws_ok(
+    $$ UPDATE public.orders SET status = 'shipped'
+       WHERE id = '00000000-0000-0000-0000-00000000b001' $$,
+    '42501', NULL,
+    'staff도 주문 상태는 서버 코드로만 변경할 수 있다'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+
+ROLLBACK;
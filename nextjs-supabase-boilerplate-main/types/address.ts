@@ -0,0 +1,12 @@
+import type { Tables } from "@/database.types";
+import type { ShippingAddress } from "@/types/order";
+
+/** user_addresses 행 (배송지 주소록) */
+export type UserAddress = Tables<"user_addresses">;
+
+/** 배송지 저장/수정 입력 */
+export interface UserAddressInput extends ShippingAddress {
+  /** 배송지 이름 (예: 집, 회사) */
+  label: string;
+  isDefault: boolean;
+}
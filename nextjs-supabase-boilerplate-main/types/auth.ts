@@ -0,0 +1,10 @@
+/**
+ * 사용자 역할 (Clerk publicMetadata.role)
+ *
+ * - customer: 일반 고객 (역할이 지정되지 않은 로그인 사용자)
+ * - staff: 주문 관리 담당자 (모든 주문/결제 내역 조회)
+ * - admin: 전체 관리자 (상품 관리, 테스트 페이지 포함 모든 기능 접근)
+ *
+ * 상위 역할은 하위 역할의 권한을 모두 가집니다. (admin > staff > customer)
+ */
+export type UserRole = "customer" | "staff" | "admin";
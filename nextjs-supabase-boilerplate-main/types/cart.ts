@@ -0,0 +1,56 @@
+import type { Tables } from "@/database.types";
+import type { Product } from "@/types/product";
+
+export type CartItem = Tables<"cart_items">;
+
+/** `select("*, product:products(*)")`로 상품 정보를 함께 조회한 장바구니 항목 */
+export type CartItemWithProduct = CartItem & {
+  product: Product;
+};
+
+/** 비로그인 사용자의 장바구니 항목 (서명된 쿠키에 저장, lib/guest-cart.ts) */
+export interface GuestCartItem {
+  productId: string;
+  quantity: number;
+  /** 담을 당시의 가격 (이전 버전 쿠키에는 없음) */
+  priceAtAdd?: number;
+}
+
+/**
+ * 장바구니 화면에 표시할 항목
+ *
+ * 로그인한 사용자는 cart_items.id, 비로그인 사용자는 상품 id를 `id`로 사용합니다.
+ * `price_at_add`는 담을 당시의 가격이며, 현재 가격과 비교해 변경 내역을 만듭니다.
+ */
+export type CartLine = Pick<CartItem, "id" | "quantity" | "price_at_add"> & {
+  product: Product;
+};
+
+/**
+ * 담은 뒤 바뀐 장바구니 상품 정보
+ *
+ * - PRICE_INCREASED / PRICE_DECREASED: 담을 당시보다 가격이 오르거나 내림
+ * - INSUFFICIENT_STOCK: 담은 수량보다 재고가 적음 (확인 시 재고만큼으로 조정)
+ * - OUT_OF_STOCK: 품절 (확인 시 장바구니에서 삭제)
+ * - INACTIVE: 판매 중지 (확인 시 장바구니에서 삭제)
+ */
+export type CartChangeType =
+  | "PRICE_INCREASED"
+  | "PRICE_DECREASED"
+  | "INSUFFICIENT_STOCK"
+  | "OUT_OF_STOCK"
+  | "INACTIVE";
+
+export interface CartChange {
+  type: CartChangeType;
+  cartItemId: string;
+  productName: string;
+  /** 가격 변경: 담을 당시 가격 */
+  previousPrice?: number;
+  /** 가격 변경: 현재 가격 */
+  currentPrice?: number;
+  /** 재고 부족: 담은 수량 */
+  quantity?: number;
+  /** 재고 부족: 현재 재고 */
+  stockQuantity?: number;
+}
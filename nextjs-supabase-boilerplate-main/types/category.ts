@@ -0,0 +1,4 @@
+import type { Tables } from "@/database.types";
+
+/** categories 행 (color, icon은 lib/categories.ts의 CATEGORY_COLORS, CATEGORY_ICONS 키) */
+export type Category = Tables<"categories">;
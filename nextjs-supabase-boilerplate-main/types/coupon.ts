@@ -0,0 +1,16 @@
+import type { Tables } from "@/database.types";
+
+/** coupons 행 (categories가 null이면 모든 상품에 적용) */
+export type Coupon = Omit<Tables<"coupons">, "discount_type"> & {
+  discount_type: CouponDiscountType;
+};
+
+/** 할인 방식 (fixed: 정액, percentage: 정률) */
+export type CouponDiscountType = "fixed" | "percentage";
+
+/** 현재 장바구니에 적용한 쿠폰 (actions/coupons.ts의 applyCoupon 결과) */
+export interface AppliedCoupon {
+  code: string;
+  name: string;
+  discountAmount: number;
+}
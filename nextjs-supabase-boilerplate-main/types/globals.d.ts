@@ -0,0 +1,27 @@
+import type { UserRole } from "@/types/auth";
+import type { DaumPostcodeOptions } from "@/types/postcode";
+
+export {};
+
+/**
+ * Clerk 세션 토큰 커스텀 클레임
+ *
+ * Clerk Dashboard → Sessions → Customize session token에
+ * `{ "metadata": "{{user.public_metadata}}" }`를 추가해야 합니다.
+ */
+declare global {
+  interface CustomJwtSessionClaims {
+    metadata?: {
+      role?: UserRole;
+    };
+  }
+}
+
+/** Daum(카카오) 우편번호 서비스 스크립트가 로드되면 추가되는 전역 객체 (lib/postcode/client.ts) */
+declare global {
+  interface Window {
+    daum?: {
+      Postcode: new (options: DaumPostcodeOptions) => { open: () => void };
+    };
+  }
+}
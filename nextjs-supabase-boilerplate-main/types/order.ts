@@ -0,0 +1,36 @@
+import type { Enums, Tables } from "@/database.types";
+
+export interface ShippingAddress {
+  name: string;
+  phone: string;
+  /** 도로명 주소 (우편번호 검색으로 입력) */
+  address: string;
+  addressDetail: string;
+  /** 5자리 우편번호 */
+  zipCode: string;
+  /** 지번 주소 (우편번호 검색 이전 주문에는 없음) */
+  jibunAddress?: string;
+}
+
+/** orders.status 값 (order_status enum) */
+export type OrderStatus = Enums<"order_status">;
+
+/** orders 행 (shipping_address는 JSONB이므로 ShippingAddress로 지정) */
+export type Order = Omit<Tables<"orders">, "shipping_address"> & {
+  shipping_address: ShippingAddress | null;
+};
+
+export type OrderItem = Tables<"order_items">;
+
+/**
+ * 관리자 확인이 필요한 사유 (orders.review_reason)
+ * - CANCEL_AFTER_SHIPMENT: 배송이 시작된 주문에 결제 취소가 들어옴 (cancel_order 함수)
+ * - REFUND_NOT_APPLIED: 환불은 완료되었지만 주문 취소와 재고 복구에 실패함
+ * - PAID_AFTER_CANCEL: 취소(만료)된 주문의 결제가 승인되었고 자동 환불에 실패함
+ * - PAYMENT_MISMATCH: 승인된 결제의 금액/주문이 주문과 다르고 자동 환불에 실패함
+ */
+export type OrderReviewReason =
+  | "CANCEL_AFTER_SHIPMENT"
+  | "REFUND_NOT_APPLIED"
+  | "PAID_AFTER_CANCEL"
+  | "PAYMENT_MISMATCH";
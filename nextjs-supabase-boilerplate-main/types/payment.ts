@@ -0,0 +1,46 @@
+import type { Tables } from "@/database.types";
+import type { TossPayment, TossPaymentStatus } from "@/types/toss";
+
+/**
+ * 결제 상태 변경 출처
+ * - confirm: 결제 승인 API (/api/payments/confirm)
+ * - webhook: Toss 웹훅 (/api/webhooks/toss)
+ * - cancel: 주문 취소 (cancelOrder Server Action)
+ */
+export type PaymentEventSource = "confirm" | "webhook" | "cancel";
+
+export interface PaymentStatusHistoryEntry {
+  status: TossPaymentStatus;
+  changed_at: string;
+  source: PaymentEventSource;
+}
+
+/**
+ * payments 행 (JSONB 컬럼과 status는 Toss 응답 타입으로 지정)
+ *
+ * raw_response에는 가상계좌 입금 콜백 검증용 secret을 빼고 저장하며, secret은
+ * service_role만 조회할 수 있는 deposit_secret 컬럼에 저장합니다.
+ */
+export type Payment = Omit<
+  Tables<"payments">,
+  "status" | "raw_response" | "status_history"
+> & {
+  status: TossPaymentStatus;
+  raw_response: Omit<TossPayment, "secret">;
+  status_history: PaymentStatusHistoryEntry[];
+};
+
+/** 주문 상세 화면에 표시하는 결제 정보 (authenticated가 조회할 수 있는 컬럼) */
+export type PaymentSummary = Pick<
+  Payment,
+  | "id"
+  | "order_id"
+  | "method"
+  | "status"
+  | "total_amount"
+  | "approved_at"
+  | "receipt_url"
+  | "created_at"
+>;
+
+export type PaymentRefund = Tables<"payment_refunds">;
@@ -0,0 +1,33 @@
+/**
+ * 우편번호 검색 결과
+ *
+ * 도로명 주소를 배송지 주소로 사용하고, 지번 주소는 참고용으로 함께 저장합니다.
+ */
+export interface PostcodeAddress {
+  /** 5자리 국가기초구역번호 */
+  zipCode: string;
+  roadAddress: string;
+  jibunAddress: string;
+  /** 건물명 (없으면 빈 문자열) */
+  buildingName: string;
+}
+
+/**
+ * Daum(카카오) 우편번호 서비스 oncomplete 데이터
+ *
+ * 애플리케이션에서 사용하는 필드만 정의합니다.
+ * 전체 스펙: https://postcode.map.daum.net/guide
+ */
+export interface DaumPostcodeData {
+  zonecode: string;
+  roadAddress: string;
+  jibunAddress: string;
+  /** 사용자가 도로명 주소를 선택한 경우 jibunAddress 대신 채워지는 지번 주소 */
+  autoJibunAddress: string;
+  buildingName: string;
+}
+
+export interface DaumPostcodeOptions {
+  oncomplete: (data: DaumPostcodeData) => void;
+  onclose?: (state: "FORCE_CLOSE" | "COMPLETE_CLOSE") => void;
+}
@@ -1,33 +1,12 @@
-export interface Product {
-  id: string;
-  name: string;
-  description: string | null;
-  price: number;
-  category: string | null;
-  stock_quantity: number;
-  is_active: boolean;
-  created_at: string;
-  updated_at: string;
-}
+import type { Tables } from "@/database.types";
+import type { Category } from "@/types/category";
 
-export type ProductCategory =
-  | "electronics"
-  | "clothing"
-  | "books"
-  | "food"
-  | "sports"
-  | "beauty"
-  | "home"
-  | "all";
-
-export const CATEGORY_LABELS: Record<ProductCategory, string> = {
-  all: "전체",
-  electronics: "전자제품",
-  clothing: "의류",
-  books: "도서",
-  food: "식품",
-  sports: "스포츠",
-  beauty: "뷰티",
-  home: "생활/가정",
+export type Product = Tables<"products"> & {
+  /** `select("*, product_images(*)")`로 함께 조회한 경우에만 포함 */
+  product_images?: ProductImage[];
+  /** `select("*, category_info:categories(*)")`로 함께 조회한 경우에만 포함 (미분류면 null) */
+  category_info?: Category | null;
 };
 
+/** product_images 행 (storage_path는 product-images 버킷 내 경로) */
+export type ProductImage = Tables<"product_images">;
@@ -0,0 +1,14 @@
+import type { Category } from "@/types/category";
+
+/** 자동완성 상품 (suggest_products 함수 결과) */
+export interface ProductSuggestion {
+  id: string;
+  name: string;
+  category: string | null;
+}
+
+/** /api/search/suggestions 응답 */
+export interface SearchSuggestions {
+  products: ProductSuggestion[];
+  categories: Category[];
+}
@@ -0,0 +1,65 @@
+/**
+ * Toss Payments API 응답 타입
+ *
+ * 애플리케이션에서 사용하는 필드만 정의합니다.
+ * 전체 스펙: https://docs.tosspayments.com/reference#payment-객체
+ */
+export type TossPaymentStatus =
+  | "READY"
+  | "IN_PROGRESS"
+  | "WAITING_FOR_DEPOSIT"
+  | "DONE"
+  | "CANCELED"
+  | "PARTIAL_CANCELED"
+  | "ABORTED"
+  | "EXPIRED";
+
+export interface TossPaymentCancel {
+  cancelAmount: number;
+  cancelReason: string;
+  canceledAt: string;
+  transactionKey: string;
+}
+
+export interface TossPayment {
+  paymentKey: string;
+  orderId: string;
+  orderName: string;
+  status: TossPaymentStatus;
+  method: string | null;
+  totalAmount: number;
+  balanceAmount: number;
+  requestedAt: string;
+  approvedAt: string | null;
+  receipt: { url: string } | null;
+  cancels: TossPaymentCancel[] | null;
+  secret: string | null;
+}
+
+export interface TossErrorResponse {
+  code: string;
+  message: string;
+}
+
+/**
+ * Toss Payments 웹훅 이벤트
+ * https://docs.tosspayments.com/reference/using-api/webhook-events
+ */
+export interface TossPaymentStatusChangedEvent {
+  eventType: "PAYMENT_STATUS_CHANGED";
+  createdAt: string;
+  data: TossPayment;
+}
+
+/** 가상계좌 입금/입금 취소 콜백 (eventType 없이 전송됨) */
+export interface TossDepositCallbackEvent {
+  createdAt: string;
+  secret: string;
+  status: TossPaymentStatus;
+  transactionKey: string;
+  orderId: string;
+}
+
+export type TossWebhookEvent =
+  | TossPaymentStatusChangedEvent
+  | TossDepositCallbackEvent;
@@ -1,4 +1,5 @@
 import { createBrowserClient } from "@supabase/ssr";
+import type { Database } from "@/database.types";
 
 /**
  * Supabase 클라이언트 (Client Component용)
@@ -25,7 +26,7 @@ import { createBrowserClient } from "@supabase/ssr";
  * ```
  */
 export function createClient() {
-  return createBrowserClient(
+  return createBrowserClient<Database>(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
   );